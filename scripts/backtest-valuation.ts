@@ -0,0 +1,99 @@
+#!/usr/bin/env tsx
+/**
+ * Backtest valuation models against the sold-auction archive.
+ *
+ * Each sold auction is priced using only sales that ended before it, and the
+ * estimates are scored (MAE, MAPE, bias, band coverage) overall and by
+ * vocation family, level band, world and confidence. Pass two versions to
+ * compare them on the same sales.
+ *
+ * Usage:
+ *   pnpm backtest:valuation                                       # Current model, every sale
+ *   pnpm backtest:valuation --models similarity-v1,similarity-v2  # Side by side
+ *   pnpm backtest:valuation --since 2026-01-01                    # Score recent sales only
+ *   pnpm backtest:valuation --limit 2000                          # Score the latest 2000 sales
+ *   pnpm backtest:valuation --json                                # Full report as JSON
+ */
+import { PrismaClient } from '@prisma/client';
+import {
+  CURRENT_VALUATION_MODEL,
+  VALUATION_MODELS,
+  loadSoldComparables,
+  loadWorldPvpTypes,
+} from '../src/lib/utils/valuation';
+import { backtestValuations, type BacktestMetrics, type BacktestSegment } from '../src/lib/utils/valuation-backtest';
+
+const prisma = new PrismaClient();
+
+const args = process.argv.slice(2);
+
+function getArg(flag: string): string | null {
+  const idx = args.indexOf(flag);
+  if (idx === -1) return null;
+  return args[idx + 1] ?? null;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function row(label: string, m: BacktestMetrics): Record<string, string | number> {
+  return {
+    segment: label,
+    n: m.count,
+    mae: m.mae,
+    mape: pct(m.mape),
+    bias: `${m.bias >= 0 ? '+' : ''}${pct(m.bias)}`,
+    coverage: pct(m.bandCoverage),
+  };
+}
+
+async function main() {
+  const versions = getArg('--models')?.split(',').map((v) => v.trim()).filter(Boolean)
+    ?? [CURRENT_VALUATION_MODEL.version];
+  const unknown = versions.filter((v) => !VALUATION_MODELS[v]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown model version(s): ${unknown.join(', ')}. Known: ${Object.keys(VALUATION_MODELS).join(', ')}`);
+  }
+
+  const since = getArg('--since');
+  if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) throw new Error(`Expected YYYY-MM-DD, got "${since}"`);
+  const limit = parseInt(getArg('--limit') ?? '', 10) || null;
+
+  const startTime = Date.now();
+  const sold = await loadSoldComparables({}, prisma);
+  console.log(`Loaded ${sold.length} sold auctions`);
+
+  const reports = backtestValuations(sold, versions.map((v) => VALUATION_MODELS[v]), {
+    since: since ? new Date(`${since}T00:00:00Z`) : null,
+    limit,
+    worldPvpTypes: await loadWorldPvpTypes(prisma),
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    for (const report of reports) {
+      console.log(`\n=== ${report.modelVersion} — estimated ${report.overall.count} of ${report.evaluated} sales ===`);
+      const sections: [string, BacktestSegment[]][] = [
+        ['Vocation family', report.byFamily],
+        ['Level band', report.byLevelBand],
+        ['World', report.byWorld],
+        ['Confidence', report.byConfidence],
+      ];
+      console.table([row('Overall', report.overall)]);
+      for (const [title, segments] of sections) {
+        console.log(`\n${title}`);
+        console.table(segments.map((s) => row(s.key, s)));
+      }
+    }
+  }
+
+  console.log(`\nDone in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+  await prisma.$disconnect();
+}
+
+main().catch((err) => {
+  console.error('Backtest failed:', err);
+  prisma.$disconnect().finally(() => process.exit(1));
+});
@@ -0,0 +1,76 @@
+#!/usr/bin/env tsx
+/**
+ * Materialize characters, character_snapshots and character identities from
+ * highscore_entries.
+ *
+ * scrape-highscores runs this for the day it scraped; use this script to
+ * backfill older days or rebuild after fixing highscore data. Days are
+ * processed oldest first so each day's gains and identities see the
+ * previous snapshot. --all also rebuilds identities from scratch.
+ *
+ * Usage:
+ *   pnpm materialize:snapshots                      # Today
+ *   pnpm materialize:snapshots --date 2026-03-01    # One day
+ *   pnpm materialize:snapshots --from 2026-03-01    # Every scraped day since
+ *   pnpm materialize:snapshots --all                # Every scraped day, identities rebuilt
+ */
+import { PrismaClient } from '@prisma/client';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import { listHighscoreDates, materializeSnapshots } from '../src/lib/scraper/snapshots';
+import { resolveIdentities } from '../src/lib/scraper/identities';
+
+const prisma = new PrismaClient();
+
+const args = process.argv.slice(2);
+
+function getArg(flag: string): string | null {
+  const idx = args.indexOf(flag);
+  if (idx === -1) return null;
+  return args[idx + 1] ?? null;
+}
+
+function todayStr(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+async function main(run: ScraperRunHandle) {
+  const date = getArg('--date');
+  const from = getArg('--from');
+  for (const d of [date, from]) {
+    if (d && !/^\d{4}-\d{2}-\d{2}$/.test(d)) throw new Error(`Expected YYYY-MM-DD, got "${d}"`);
+  }
+
+  const all = args.includes('--all');
+  const dates = all || from
+    ? await listHighscoreDates(prisma, from ?? undefined)
+    : [date ?? todayStr()];
+
+  if (all) {
+    // Snapshots, transfers and auctions drop their identity_id via ON DELETE SET NULL
+    const removed = await prisma.characterIdentity.deleteMany();
+    console.log(`Cleared ${removed.count} identities for a full rebuild`);
+  }
+
+  console.log(`Materializing snapshots for ${dates.length} day(s)...\n`);
+  const startTime = Date.now();
+
+  for (const d of dates) {
+    const result = await materializeSnapshots(prisma, d);
+    const ids = await resolveIdentities(prisma, d);
+    console.log(
+      `  ${d}: ${result.snapshots} snapshots, ${result.characters} characters — identities ` +
+      `${ids.continued} continued, ${ids.moved} moved, ${ids.renamed} renamed, ${ids.created} new`,
+    );
+    run.seen(result.snapshots);
+    run.updated(result.snapshots);
+  }
+
+  const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`\nDone in ${elapsed}s`);
+}
+
+trackScraperRun(prisma, 'materialize-snapshots', main).catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
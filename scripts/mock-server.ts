@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+/**
+ * Local mock RubinOT server for offline, end-to-end scraper runs.
+ *
+ * Usage:
+ *   pnpm mock:server                                # Static world on port 4010
+ *   pnpm mock:server --scenario auction-rush        # Built-in scenario
+ *   pnpm mock:server --scenario-file my.json        # Scenario overrides from a JSON file
+ *   pnpm mock:server --tick 30                      # Auto-tick every 30 seconds
+ *   pnpm mock:server --port 4020 --seed 7           # Custom port and world seed
+ *
+ * Then run any scraper against it:
+ *   RUBINOT_BASE_URL=http://localhost:4010 pnpm scrape:current
+ */
+import * as fs from 'fs';
+import { MOCK_SCENARIOS, resolveScenario, type MockScenarioOverrides } from '../src/lib/scraper/mock/scenarios';
+import { startMockServer } from '../src/lib/scraper/mock/server';
+
+// ── CLI arg parsing ────────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+
+function getArg(flag: string): string | null {
+  const idx = args.indexOf(flag);
+  if (idx === -1) return null;
+  return args[idx + 1] ?? null;
+}
+
+const hasFlag = (flag: string) => args.includes(flag);
+
+if (hasFlag('--help') || hasFlag('-h')) {
+  console.log(`
+RubinOT Mock Server
+━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+Usage:
+  pnpm mock:server                                Static world on port 4010
+  pnpm mock:server --scenario <name>              Built-in scenario
+  pnpm mock:server --scenario-file <file.json>    Scenario overrides from a JSON file
+  pnpm mock:server --tick <seconds>               Auto-tick interval (0 = manual only)
+  pnpm mock:server --port <port>                  Listen port (default 4010)
+  pnpm mock:server --seed <n>                     World seed
+
+Scenarios:
+${Object.values(MOCK_SCENARIOS).map((s) => `  ${s.name.padEnd(16)} ${s.description}`).join('\n')}
+
+Control:
+  curl localhost:4010/__mock/state                Scenario, clock and counts
+  curl -X POST localhost:4010/__mock/tick?count=5 Advance five ticks
+  curl -X POST localhost:4010/__mock/reset        Regenerate the world
+`);
+  process.exit(0);
+}
+
+const port = parseInt(getArg('--port') ?? '4010', 10);
+
+function loadOverrides(): MockScenarioOverrides {
+  const file = getArg('--scenario-file');
+  const overrides: MockScenarioOverrides = file ? JSON.parse(fs.readFileSync(file, 'utf-8')) : {};
+  const tick = getArg('--tick');
+  const seed = getArg('--seed');
+  if (tick) overrides.tickSeconds = parseInt(tick, 10);
+  if (seed) overrides.seed = parseInt(seed, 10);
+  return overrides;
+}
+
+// ── Main ───────────────────────────────────────────────────────────────
+
+async function main() {
+  const overrides = loadOverrides();
+  const scenario = resolveScenario(getArg('--scenario') ?? overrides.name ?? 'static', overrides);
+  const mock = await startMockServer(scenario, port);
+  const state = mock.state();
+
+  console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`  Mock RubinOT listening on http://localhost:${port}`);
+  console.log(`  Scenario:    ${scenario.name} (seed ${scenario.seed})`);
+  console.log(`  Characters:  ${state.characters.length}`);
+  console.log(`  Auctions:    ${state.auctions.length} active`);
+  console.log(`  Bans:        ${state.bans.length} active`);
+  console.log(`  Ticks:       ${scenario.tickSeconds > 0 ? `every ${scenario.tickSeconds}s` : 'manual (POST /__mock/tick)'}`);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`\n  RUBINOT_BASE_URL=http://localhost:${port} pnpm scrape:current\n`);
+
+  const shutdown = () => {
+    console.log('\nShutting down mock server...');
+    mock.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -11,6 +11,7 @@
  *   pnpm refresh:stats
  */
 import { PrismaClient, Prisma } from '@prisma/client';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
 
 const prisma = new PrismaClient();
 
@@ -44,7 +45,7 @@ interface StatsRow {
   avg_charm: number | null;
 }
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   console.log('Refreshing market stats...\n');
 
   let upserted = 0;
@@ -71,6 +72,7 @@ async function main() {
       if (!rows[0] || rows[0].sample_size < 3) continue;
 
       const r = rows[0];
+      run.seen(r.sample_size);
 
       // Price per level: avg_price / avg_level
       const pricePerLevel = r.avg_level > 0
@@ -123,6 +125,7 @@ async function main() {
       });
 
       upserted++;
+      run.updated();
       console.log(`  ${family} ${band.min}-${band.max}: median=${r.median_price} TC, n=${r.sample_size}`);
     }
   }
@@ -131,7 +134,7 @@ async function main() {
   await prisma.$disconnect();
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'refresh-market-stats', main).catch((err) => {
   console.error('Error:', err);
   process.exit(1);
 });
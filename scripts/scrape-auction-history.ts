@@ -9,12 +9,20 @@
  *   pnpm scrape:history                    # Scrape all new auctions from list
  *   pnpm scrape:history --count 50         # Stop after 50 new auctions
  *   pnpm scrape:history --pages 10         # Only browse first 10 list pages
+ *   pnpm scrape:history --incremental      # Newest first, stop at already-stored auctions
  *   pnpm scrape:history --no-db            # Skip saving to database
+ *   pnpm scrape:history --record [name]    # Save every response to data/recordings/<name>/
+ *   pnpm scrape:history --replay [name]    # Replay saved responses (offline, no browser)
+ *   pnpm scrape:history --backend <kind>   # Browser backend: chromium, executable or fetch
  *   pnpm scrape:history --headless         # Run headless (may fail on CF)
  */
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, closeBrowser, navigateWithCloudflare, sleep, type BrowserName } from '../src/lib/scraper/browser';
-import { scrapeAuctionHistory, type ScrapedAuction } from '../src/lib/scraper/auctions';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import { scrapeAuctionHistory, findHighWaterMark, type ScrapedAuction } from '../src/lib/scraper/auctions';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
 
 const BROWSER: BrowserName = 'auctions';
@@ -32,8 +40,12 @@ function getArg(flag: string): string | null {
 
 const hasFlag = (flag: string) => args.includes(flag);
 
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
 const maxPages = getArg('--pages') ? parseInt(getArg('--pages')!, 10) : undefined;
 const maxCount = getArg('--count') ? parseInt(getArg('--count')!, 10) : undefined;
+const incremental = hasFlag('--incremental');
 const headless = hasFlag('--headless');
 const skipDb = hasFlag('--no-db');
 
@@ -48,7 +60,11 @@ Usage:
   pnpm scrape:history                    Scrape all new auctions
   pnpm scrape:history --count 50         Stop after 50 new auctions
   pnpm scrape:history --pages 10         Only browse first 10 list pages
+  pnpm scrape:history --incremental      Newest first, stop at already-stored auctions
   pnpm scrape:history --no-db            Skip saving to database
+  pnpm scrape:history --record [name]    Save every response to data/recordings/<name>/
+  pnpm scrape:history --replay [name]    Replay saved responses (offline, no browser)
+  pnpm scrape:history --backend <kind>   Browser backend: chromium, executable or fetch
   pnpm scrape:history --headless         Run headless (may fail on Cloudflare)
 `);
   process.exit(0);
@@ -58,7 +74,7 @@ Usage:
 
 let dbSavedCount = 0;
 
-async function upsertAuction(a: ScrapedAuction): Promise<void> {
+async function upsertAuction(a: ScrapedAuction): Promise<{ createdAt: Date }> {
   const data = {
     characterName: a.characterName,
     level: a.level,
@@ -126,20 +142,22 @@ async function upsertAuction(a: ScrapedAuction): Promise<void> {
     weaponProficiency: a.weaponProficiency,
     url: a.url,
   };
-  await prisma.auction.upsert({
+  const row = await prisma.auction.upsert({
     where: { externalId: a.externalId },
     update: data,
     create: { externalId: a.externalId, ...data },
   });
   dbSavedCount++;
+  return row;
 }
 
 // ── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   // Load existing auction IDs from DB for skip detection
-  const existing = await prisma.auction.findMany({ select: { externalId: true } });
+  const existing = await prisma.auction.findMany({ select: { externalId: true, auctionEnd: true } });
   const existingIds = new Set(existing.map((e) => e.externalId));
+  const highWaterMark = incremental ? findHighWaterMark(existing) : undefined;
 
   console.log(`
 RubinOT Auction History Scraper
@@ -147,6 +165,7 @@ RubinOT Auction History Scraper
   Existing in DB:  ${existingIds.size}
   Max list pages:  ${maxPages ?? 'all'}
   Max new auctions: ${maxCount ?? 'all'}
+  Mode:            ${incremental ? 'incremental' : 'full'}
   Save to DB:      ${skipDb ? 'no' : 'yes'}
 `);
 
@@ -163,16 +182,18 @@ RubinOT Auction History Scraper
 
   try {
     const onAuction = skipDb ? undefined : async (a: ScrapedAuction) => {
-      await upsertAuction(a);
+      run.upserted(await upsertAuction(a));
     };
 
     const auctions = await scrapeAuctionHistory(page, {
       maxPages,
       maxAuctions: maxCount,
       skipExternalIds: existingIds,
+      incremental: highWaterMark,
       onAuction,
       browserName: BROWSER,
     });
+    run.seen(auctions.length);
 
     const elapsed = ((Date.now() - startTime) / 1000 / 60).toFixed(1);
     console.log(`
@@ -199,12 +220,13 @@ ${Object.entries(byWorld).sort((a, b) => b[1] - a[1]).map(([w, c]) => `    ${w}:
 ${Object.entries(byVocation).sort((a, b) => b[1] - a[1]).map(([v, c]) => `    ${v}: ${c}`).join('\n')}`);
     }
   } finally {
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-auction-history', main, { enabled: !skipDb }).catch((err) => {
   console.error('Auction history scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
@@ -1,21 +1,33 @@
 #!/usr/bin/env tsx
 /**
- * Scrapes active bans from rubinot.com.br/bans.
+ * Scrapes active bans from rubinot.com.br/bans, then closes stored bans
+ * that are no longer listed (expired or lifted).
  *
  * Usage:
- *   pnpm scrape:bans              # Scrape and save to DB
- *   pnpm scrape:bans --no-db      # Just print the result
+ *   pnpm scrape:bans                  # Scrape and save to DB
+ *   pnpm scrape:bans --no-db          # Just print the result
+ *   pnpm scrape:bans --record [name]  # Save every response to data/recordings/<name>/
+ *   pnpm scrape:bans --replay [name]  # Replay saved responses (offline, no browser)
+ *   pnpm scrape:bans --backend <kind> # Browser backend: chromium, executable or fetch
  */
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, navigateWithCloudflare, closeBrowser, sleep } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
-import { scrapeBansPage, scrapeAllBans } from '../src/lib/scraper/bans';
+import { scrapeAllBans, reconcileBans } from '../src/lib/scraper/bans';
+import { mapBanCategory } from '../src/lib/utils/ban-rules';
 import type { BrowserName } from '../src/lib/scraper/browser';
 
 const BROWSER: BrowserName = 'bans';
 const prisma = new PrismaClient();
 const skipDb = process.argv.includes('--no-db');
 
+configureTransportFromArgs(process.argv.slice(2));
+configureBackendFromArgs(process.argv.slice(2), BROWSER);
+
 function parseDateStr(dateStr: string | null): Date | null {
   if (!dateStr) return null;
   // Try common formats: "Feb 25, 2026", "25/02/2026", "2026-02-25", etc.
@@ -23,7 +35,7 @@ function parseDateStr(dateStr: string | null): Date | null {
   return isNaN(d.getTime()) ? null : d;
 }
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   console.log('Launching browser for bans scrape...');
   const context = await getBrowserContext({ headless: false, browser: BROWSER });
   const page = context.pages()[0] || await context.newPage();
@@ -33,10 +45,12 @@ async function main() {
     await navigateWithCloudflare(page, url, 60_000);
     await sleep(3000);
 
-    // Scrape default view first
-    const { bans, totalActive } = await scrapeBansPage(page);
+    // Default view plus every world filter
+    const scrape = await scrapeAllBans(page);
+    const { bans, totalActive } = scrape;
+    run.seen(bans.length);
     console.log(`\nTotal active bans reported: ${totalActive}`);
-    console.log(`Scraped ${bans.length} bans from the page\n`);
+    console.log(`Scraped ${bans.length} bans${scrape.complete ? '' : ' (partial — some world views were cut off)'}\n`);
 
     if (bans.length > 0) {
       console.log('Sample bans:');
@@ -46,14 +60,25 @@ async function main() {
       if (bans.length > 5) console.log(`  ... and ${bans.length - 5} more`);
     }
 
-    if (!skipDb && bans.length > 0) {
+    if (!skipDb) {
       console.log('\nSaving to database...');
-      let upserted = 0;
+      const now = new Date();
+      const seenIds: number[] = [];
+      let failed = 0;
 
       for (const ban of bans) {
         const bannedAt = parseDateStr(ban.bannedAt);
+        const fields = {
+          reason: ban.reason,
+          ruleCategory: mapBanCategory(ban.reason),
+          expiresAt: parseDateStr(ban.expiresAt),
+          isPermanent: ban.isPermanent,
+          isActive: true,
+          lastSeenAt: now,
+          liftedAt: null,
+        };
         try {
-          await prisma.ban.upsert({
+          const row = await prisma.ban.upsert({
             where: {
               playerName_bannedAt: {
                 playerName: ban.playerName,
@@ -61,39 +86,49 @@ async function main() {
               },
             },
             update: {
-              reason: ban.reason,
-              expiresAt: parseDateStr(ban.expiresAt),
-              isPermanent: ban.isPermanent,
-              isActive: true,
+              ...fields,
+              ...(ban.world && { world: ban.world }),
             },
             create: {
+              ...fields,
               playerName: ban.playerName,
-              reason: ban.reason,
+              world: ban.world,
               bannedAt,
-              expiresAt: parseDateStr(ban.expiresAt),
-              isPermanent: ban.isPermanent,
-              isActive: true,
             },
           });
-          upserted++;
+          run.upserted(row);
+          seenIds.push(row.id);
         } catch (err: unknown) {
           // Duplicate or constraint error — skip
+          failed++;
           const msg = err instanceof Error ? err.message : String(err);
           if (!msg.includes('Unique constraint')) {
             console.warn(`  Warning: Failed to upsert ban for ${ban.playerName}:`, msg);
+            run.error(err);
           }
         }
       }
 
-      console.log(`Saved ${upserted} bans to database.`);
+      console.log(`Saved ${seenIds.length} bans to database.`);
+
+      // A failed upsert would look like a lifted ban, and an empty page is more
+      // likely a broken scrape than the server pardoning everyone
+      if (failed === 0 && bans.length > 0) {
+        const { expired, lifted } = await reconcileBans(prisma, scrape, seenIds, now);
+        run.updated(expired + lifted);
+        console.log(`Closed ${expired} expired and ${lifted} lifted bans.`);
+      } else {
+        console.log('Skipping ban reconciliation — the scrape was incomplete.');
+      }
     }
   } finally {
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-bans', main, { enabled: !skipDb }).catch((err) => {
   console.error('Bans scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
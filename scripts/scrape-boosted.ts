@@ -3,11 +3,18 @@
  * Scrapes today's boosted creature and boss from /api/boosted.
  *
  * Usage:
- *   pnpm scrape:boosted              # Scrape and save to DB
- *   pnpm scrape:boosted --no-db      # Just print the result
+ *   pnpm scrape:boosted                  # Scrape and save to DB
+ *   pnpm scrape:boosted --no-db          # Just print the result
+ *   pnpm scrape:boosted --record [name]  # Save every response to data/recordings/<name>/
+ *   pnpm scrape:boosted --replay [name]  # Replay saved responses (offline, no browser)
+ *   pnpm scrape:boosted --backend <kind> # Browser backend: chromium, executable or fetch
  */
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, navigateWithCloudflare, closeBrowser, sleep } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
 import { fetchBoosted } from '../src/lib/scraper/boosted';
 import type { BrowserName } from '../src/lib/scraper/browser';
@@ -16,7 +23,10 @@ const BROWSER: BrowserName = 'boosted';
 const prisma = new PrismaClient();
 const skipDb = process.argv.includes('--no-db');
 
-async function main() {
+configureTransportFromArgs(process.argv.slice(2));
+configureBackendFromArgs(process.argv.slice(2), BROWSER);
+
+async function main(run: ScraperRunHandle) {
   console.log('Launching browser for boosted scrape...');
   const context = await getBrowserContext({ headless: false, browser: BROWSER });
   const page = context.pages()[0] || await context.newPage();
@@ -26,6 +36,7 @@ async function main() {
     await sleep(2000);
 
     const data = await fetchBoosted(page);
+    run.seen();
 
     console.log(`\nBoosted Creature: ${data.creature.name} (looktype ${data.creature.looktype})`);
     console.log(`Boosted Boss:     ${data.boss.name} (looktype ${data.boss.looktype})`);
@@ -34,7 +45,7 @@ async function main() {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
 
-      await prisma.boostedDaily.upsert({
+      const row = await prisma.boostedDaily.upsert({
         where: { date: today },
         update: {
           boostedCreature: data.creature.name,
@@ -50,15 +61,17 @@ async function main() {
           bossLooktype: data.boss.looktype,
         },
       });
+      run.upserted(row);
       console.log('\nSaved to database.');
     }
   } finally {
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-boosted', main, { enabled: !skipDb }).catch((err) => {
   console.error('Boosted scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
@@ -15,11 +15,18 @@
  *   pnpm scrape:ids --resume                # Resume from last saved progress
  *   pnpm scrape:ids --headless              # Run headless (may fail on Cloudflare)
  *   pnpm scrape:ids --no-db                 # Skip database saves
+ *   pnpm scrape:ids --record [name]         # Save every response to data/recordings/<name>/
+ *   pnpm scrape:ids --replay [name]         # Replay saved responses (offline, no browser)
+ *   pnpm scrape:ids --backend <kind>        # Browser backend: chromium, executable or fetch
  */
 import * as fs from 'fs';
 import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, closeBrowser, navigateWithCloudflare, rateLimit, getHealthyPage, sleep } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
 import type { BrowserName } from '../src/lib/scraper/browser';
 import { scrapeSingleAuction, type ScrapedAuction } from '../src/lib/scraper/auctions';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
@@ -39,6 +46,9 @@ function getArg(flag: string): string | null {
 
 const hasFlag = (flag: string) => args.includes(flag);
 
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
 const fromId = getArg('--from') ? parseInt(getArg('--from')!, 10) : null;
 const toId = getArg('--to') ? parseInt(getArg('--to')!, 10) : null;
 const maxCount = getArg('--count') ? parseInt(getArg('--count')!, 10) : undefined;
@@ -62,6 +72,9 @@ Usage:
   pnpm scrape:ids --resume                    Resume from last progress file
   pnpm scrape:ids --headless                  Run headless
   pnpm scrape:ids --no-db                     Skip database saves
+  pnpm scrape:ids --record [name]             Save every response to data/recordings/<name>/
+  pnpm scrape:ids --replay [name]             Replay saved responses (offline, no browser)
+  pnpm scrape:ids --backend <kind>            Browser backend: chromium, executable or fetch
 
 Progress is saved after every auction to data/progress-ids.json.
 `);
@@ -100,7 +113,7 @@ function saveProgress(progress: Progress): void {
 
 // ── Database helpers ───────────────────────────────────────────────────
 
-async function upsertAuction(a: ScrapedAuction): Promise<void> {
+async function upsertAuction(a: ScrapedAuction): Promise<{ createdAt: Date }> {
   const data = {
     characterName: a.characterName,
     level: a.level,
@@ -169,7 +182,7 @@ async function upsertAuction(a: ScrapedAuction): Promise<void> {
     weaponProficiency: a.weaponProficiency,
     url: a.url,
   };
-  await prisma.auction.upsert({
+  return prisma.auction.upsert({
     where: { externalId: a.externalId },
     update: data,
     create: { externalId: a.externalId, ...data },
@@ -178,7 +191,7 @@ async function upsertAuction(a: ScrapedAuction): Promise<void> {
 
 // ── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   if (!fs.existsSync(dataDir)) {
     fs.mkdirSync(dataDir, { recursive: true });
   }
@@ -198,8 +211,7 @@ async function main() {
   if (resumeFlag) {
     const prev = loadProgress();
     if (!prev) {
-      console.error('No progress file found. Run without --resume first.');
-      process.exit(1);
+      throw new Error('No progress file found. Run without --resume first.');
     }
     direction = prev.direction;
     startId = prev.lastScannedId + (prev.direction === 'asc' ? 1 : -1);
@@ -318,10 +330,11 @@ async function main() {
 
         // Reset consecutive not-found counter
         progress.consecutiveNotFound = 0;
+        run.seen();
 
         // Save to DB immediately
         if (!skipDb) {
-          await upsertAuction(auction);
+          run.upserted(await upsertAuction(auction));
         }
 
         progress.savedCount++;
@@ -337,6 +350,7 @@ async function main() {
       } catch (err) {
         consecutiveErrors++;
         console.error(`  Error on ID ${id}: ${(err as Error).message?.substring(0, 80)}`);
+        run.error(err);
 
         // After 3 consecutive errors, try recovery
         if (consecutiveErrors >= 3) {
@@ -394,12 +408,13 @@ async function main() {
   Progress file: ${progressFile}
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
 
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-by-id', main, { enabled: !skipDb }).catch((err) => {
   console.error('Scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
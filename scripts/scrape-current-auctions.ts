@@ -14,6 +14,9 @@
  *   pnpm scrape:current --pages 5           # Only browse first 5 pages
  *   pnpm scrape:current --headless          # Run headless
  *   pnpm scrape:current --no-db             # Skip database saves
+ *   pnpm scrape:current --record [name]     # Save every response to data/recordings/<name>/
+ *   pnpm scrape:current --replay [name]     # Replay saved responses (offline, no browser)
+ *   pnpm scrape:current --backend <kind>    # Browser backend: chromium, executable or fetch
  *   pnpm scrape:current --update-only       # Only update bids on existing auctions (skip detail scrape)
  *   pnpm scrape:current --rescrape          # Re-scrape detail pages for ALL auctions (not just new)
  */
@@ -21,6 +24,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, closeBrowser, navigateWithCloudflare, rateLimit, sleep } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import { saveBidUpdate, copyBidHistory, toBidState } from '../src/lib/scraper/bids';
 import type { BrowserName } from '../src/lib/scraper/browser';
 import {
   fetchBazaarListPage,
@@ -46,6 +54,9 @@ function getArg(flag: string): string | null {
 }
 const hasFlag = (flag: string) => args.includes(flag);
 
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
 const maxPages = getArg('--pages') ? parseInt(getArg('--pages')!, 10) : undefined;
 const maxCount = getArg('--count') ? parseInt(getArg('--count')!, 10) : undefined;
 const headless = hasFlag('--headless');
@@ -65,6 +76,9 @@ Usage:
   pnpm scrape:current --pages 5           Only browse first 5 pages
   pnpm scrape:current --headless          Run headless
   pnpm scrape:current --no-db             Skip database saves
+  pnpm scrape:current --record [name]     Save every response to data/recordings/<name>/
+  pnpm scrape:current --replay [name]     Replay saved responses (offline, no browser)
+  pnpm scrape:current --backend <kind>    Browser backend: chromium, executable or fetch
   pnpm scrape:current --update-only       Only update bids (skip detail scrape for new)
   pnpm scrape:current --rescrape          Re-scrape detail pages for ALL auctions (not just new)
 `);
@@ -151,23 +165,19 @@ async function upsertCurrentAuction(list: CurrentListAuction, detail: ScrapedAuc
     });
   }
 
+  // Snapshot the bid first if the auction is already stored; new rows start their history on create
+  const bids = toBidState(list);
+  await saveBidUpdate(prisma, list.externalId, bids);
   await prisma.currentAuction.upsert({
     where: { externalId: list.externalId },
     update: data,
-    create: { externalId: list.externalId, characterName: list.characterName, ...data } as any,
-  });
-}
-
-async function updateBidOnly(externalId: string, minimumBid: number | null, currentBid: number | null, hasBeenBidOn: boolean): Promise<void> {
-  await prisma.currentAuction.update({
-    where: { externalId },
-    data: { minimumBid, currentBid, hasBeenBidOn },
+    create: { externalId: list.externalId, characterName: list.characterName, ...data, bidSnapshots: { create: bids } } as any,
   });
 }
 
 /**
- * Archive ended auctions: copy their data from current_auctions to auctions (history),
- * then mark them as inactive.
+ * Archive ended auctions: copy their data and bid history from current_auctions
+ * to auctions (history), then mark them as inactive.
  */
 async function archiveEndedAuctions(seenIds: Set<string>): Promise<number> {
   const ended = await prisma.currentAuction.findMany({
@@ -182,12 +192,12 @@ async function archiveEndedAuctions(seenIds: Set<string>): Promise<number> {
   let archived = 0;
   for (const auction of ended) {
     try {
-      const exists = await prisma.auction.findFirst({
+      let archivedRow = await prisma.auction.findFirst({
         where: { externalId: auction.externalId },
       });
 
-      if (!exists) {
-        await prisma.auction.create({
+      if (!archivedRow) {
+        archivedRow = await prisma.auction.create({
           data: {
             externalId: auction.externalId,
             characterName: auction.characterName,
@@ -265,6 +275,8 @@ async function archiveEndedAuctions(seenIds: Set<string>): Promise<number> {
         });
         archived++;
       }
+
+      await copyBidHistory(prisma, auction.id, archivedRow.id);
     } catch (err) {
       console.error(`  Failed to archive ${auction.characterName}: ${(err as Error).message?.substring(0, 80)}`);
     }
@@ -283,7 +295,7 @@ async function archiveEndedAuctions(seenIds: Set<string>): Promise<number> {
 
 // ── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   const dataDir = path.join(process.cwd(), 'data');
   if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
 
@@ -337,10 +349,12 @@ async function main() {
         allListAuctions.push(...pageAuctions);
       } catch (err) {
         console.error(`  Failed page ${p}: ${(err as Error).message?.substring(0, 80)}`);
+        run.error(err);
       }
     }
 
     totalFound = allListAuctions.length;
+    run.seen(totalFound);
     console.log(`\nTotal auctions found on site: ${totalFound}`);
 
     // Track all seen IDs for deactivation/archival
@@ -367,11 +381,12 @@ async function main() {
     if (!skipDb) {
       for (const a of bidOnly) {
         stats.updatedCount++;
-        try {
-          await updateBidOnly(a.externalId, a.minimumBid, a.currentBid, a.hasBeenBidOn);
-        } catch {
+        if (await saveBidUpdate(prisma, a.externalId, toBidState(a)) === 'missing') {
           await upsertCurrentAuction(a, null);
           stats.newCount++;
+          run.inserted();
+        } else {
+          run.updated();
         }
       }
       if (bidOnly.length > 0) {
@@ -400,14 +415,17 @@ async function main() {
           if (!skipDb) {
             await upsertCurrentAuction(listAuction, auction);
             stats.savedCount++;
+            if (isNew) run.inserted(); else run.updated();
           }
         } catch (err) {
           console.error(`    Failed detail for ${listAuction.characterName}:`, (err as Error).message);
+          run.error(err);
           // Save with list data only
           if (!skipDb) {
             try {
               await upsertCurrentAuction(listAuction, null);
               stats.savedCount++;
+              if (isNew) run.inserted(); else run.updated();
             } catch {}
           }
         }
@@ -418,6 +436,7 @@ async function main() {
     if (!skipDb && !maxPages && !maxCount) {
       console.log('\nArchiving ended auctions to history...');
       archivedCount = await archiveEndedAuctions(seenIds);
+      run.archived(archivedCount);
       if (archivedCount > 0) {
         console.log(`  Archived ${archivedCount} ended auctions to history`);
       }
@@ -435,12 +454,13 @@ async function main() {
   Mode: JSON API (no HTML parsing)
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
 
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-current-auctions', main, { enabled: !skipDb }).catch((err) => {
   console.error('Scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
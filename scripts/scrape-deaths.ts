@@ -1,22 +1,96 @@
 #!/usr/bin/env tsx
 /**
- * Scrapes PvP kills from rubinot.com.br/api/deaths.
+ * Scrapes deaths (PvP and PvE) from rubinot.com.br/api/deaths.
+ *
+ * Stops at the newest death already stored unless --full is passed.
+ * PvP deaths are also saved to pvp_kills, with the killer's level estimated
+ * from highscores or their own deaths.
  *
  * Usage:
- *   pnpm scrape:deaths              # Scrape and save to DB
- *   pnpm scrape:deaths --no-db      # Just print the result
+ *   pnpm scrape:deaths                  # Scrape new deaths and save to DB
+ *   pnpm scrape:deaths --full           # Walk every page, not just the new ones
+ *   pnpm scrape:deaths --no-db          # Just print the result
+ *   pnpm scrape:deaths --record [name]  # Save every response to data/recordings/<name>/
+ *   pnpm scrape:deaths --replay [name]  # Replay saved responses (offline, no browser)
+ *   pnpm scrape:deaths --backend <kind> # Browser backend: chromium, executable or fetch
  */
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, navigateWithCloudflare, closeBrowser } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
-import { fetchAllPvpKills } from '../src/lib/scraper/deaths';
+import { fetchDeaths, type ScrapedDeath } from '../src/lib/scraper/deaths';
 import type { BrowserName } from '../src/lib/scraper/browser';
 
 const BROWSER: BrowserName = 'deaths';
 const prisma = new PrismaClient();
 const skipDb = process.argv.includes('--no-db');
+const full = process.argv.includes('--full');
+
+configureTransportFromArgs(process.argv.slice(2));
+configureBackendFromArgs(process.argv.slice(2), BROWSER);
+
+async function saveDeath(death: ScrapedDeath, run: ScraperRunHandle): Promise<void> {
+  const fields = {
+    victimLevel: death.victimLevel,
+    killedByPlayer: death.killedByPlayer,
+    creatureName: death.killedByPlayer ? null : death.killedBy,
+    mostDamageBy: death.mostDamageBy,
+    mostDamageIsPlayer: death.mostDamageIsPlayer,
+    world: death.world,
+  };
+  const row = await prisma.death.upsert({
+    where: {
+      victimName_killedAt_killedBy: {
+        victimName: death.victimName,
+        killedAt: death.killedAt,
+        killedBy: death.killedBy,
+      },
+    },
+    update: fields,
+    create: {
+      ...fields,
+      victimName: death.victimName,
+      killedBy: death.killedBy,
+      killedAt: death.killedAt,
+    },
+  });
+  run.upserted(row);
+}
+
+async function savePvpKill(death: ScrapedDeath): Promise<void> {
+  const fields = {
+    victimLevel: death.victimLevel,
+    mostDamageBy: death.mostDamageBy,
+    mostDamageIsPlayer: death.mostDamageIsPlayer,
+    world: death.world,
+  };
+  await prisma.pvpKill.upsert({
+    where: {
+      killerName_victimName_killedAt: {
+        killerName: death.killedBy,
+        victimName: death.victimName,
+        killedAt: death.killedAt,
+      },
+    },
+    update: fields,
+    create: {
+      ...fields,
+      killerName: death.killedBy,
+      victimName: death.victimName,
+      killedAt: death.killedAt,
+    },
+  });
+}
+
+async function main(run: ScraperRunHandle) {
+  const since = skipDb || full
+    ? null
+    : (await prisma.death.aggregate({ _max: { killedAt: true } }))._max.killedAt;
+  if (since) console.log(`Newest stored death: ${since.toISOString()}`);
 
-async function main() {
   console.log('Launching browser for deaths scrape...');
   const context = await getBrowserContext({ headless: false, browser: BROWSER });
   const page = context.pages()[0] || await context.newPage();
@@ -25,84 +99,79 @@ async function main() {
     // Navigate to base site first to bypass Cloudflare
     await navigateWithCloudflare(page, RUBINOT_URLS.base, 60_000);
 
-    console.log('Fetching PvP kills from deaths API...');
-    const kills = await fetchAllPvpKills(page);
-    console.log(`\nTotal PvP kills found: ${kills.length}`);
+    console.log('Fetching deaths from deaths API...');
+    const { deaths, pages, failedPages } = await fetchDeaths(page, { since });
+    const pvpDeaths = deaths.filter((d) => d.killedByPlayer);
+    run.seen(deaths.length);
+    console.log(`\nFound ${deaths.length} deaths (${pvpDeaths.length} PvP) across ${pages} pages`);
 
-    if (kills.length > 0) {
-      console.log('\nSample kills:');
-      kills.slice(0, 5).forEach(k => {
-        console.log(`  ${k.killerName} killed ${k.victimName} (Lv ${k.victimLevel}) in ${k.world} at ${k.killedAt.toISOString()}`);
+    if (deaths.length > 0) {
+      console.log('\nSample deaths:');
+      deaths.slice(0, 5).forEach(d => {
+        console.log(`  ${d.victimName} (Lv ${d.victimLevel}) killed by ${d.killedBy}${d.killedByPlayer ? ' [PvP]' : ''} in ${d.world} at ${d.killedAt.toISOString()}`);
       });
-      if (kills.length > 5) console.log(`  ... and ${kills.length - 5} more`);
+      if (deaths.length > 5) console.log(`  ... and ${deaths.length - 5} more`);
     }
 
-    if (!skipDb && kills.length > 0) {
+    if (!skipDb && deaths.length > 0) {
       console.log('\nSaving to database...');
-      let upserted = 0;
+      let saved = 0;
 
-      for (const kill of kills) {
+      for (const death of deaths) {
         try {
-          await prisma.pvpKill.upsert({
-            where: {
-              killerName_victimName_killedAt: {
-                killerName: kill.killerName,
-                victimName: kill.victimName,
-                killedAt: kill.killedAt,
-              },
-            },
-            update: {
-              victimLevel: kill.victimLevel,
-              mostDamageBy: kill.mostDamageBy,
-              mostDamageIsPlayer: kill.mostDamageIsPlayer,
-              world: kill.world,
-            },
-            create: {
-              killerName: kill.killerName,
-              victimName: kill.victimName,
-              victimLevel: kill.victimLevel,
-              mostDamageBy: kill.mostDamageBy,
-              mostDamageIsPlayer: kill.mostDamageIsPlayer,
-              world: kill.world,
-              killedAt: kill.killedAt,
-            },
-          });
-          upserted++;
+          await saveDeath(death, run);
+          if (death.killedByPlayer) await savePvpKill(death);
+          saved++;
         } catch (err: unknown) {
           const msg = err instanceof Error ? err.message : String(err);
           if (!msg.includes('Unique constraint')) {
-            console.warn(`  Warning: Failed to upsert kill ${kill.killerName} → ${kill.victimName}:`, msg);
+            console.warn(`  Warning: Failed to save death of ${death.victimName}:`, msg);
+            run.error(err);
           }
         }
       }
 
-      console.log(`Saved ${upserted} PvP kills to database.`);
+      console.log(`Saved ${saved} deaths (${pvpDeaths.length} PvP kills) to database.`);
 
-      // Backfill killer levels from highscore data using Tibia EXP formula
-      console.log('\nBackfilling killer levels from highscore data...');
+      // The API has no killer level: take the killer's highscore level on or
+      // before the kill, else the level at their own death closest to it
+      console.log('\nBackfilling killer levels...');
       const updated = await prisma.$executeRawUnsafe(`
         UPDATE pvp_kills pk
-        SET killer_level = (
-          SELECT GREATEST(1,
-            FLOOR(POWER(CAST(he.score AS FLOAT) * 3.0 / 50.0, 1.0/3.0) + 2)::INTEGER
+        SET killer_level = COALESCE(
+          (
+            SELECT he.level
+            FROM highscore_entries he
+            WHERE he.character_name = pk.killer_name
+              AND he.captured_date <= pk.killed_at::date
+            ORDER BY he.captured_date DESC
+            LIMIT 1
+          ),
+          (
+            SELECT d.victim_level
+            FROM deaths d
+            WHERE d.victim_name = pk.killer_name
+            ORDER BY ABS(EXTRACT(EPOCH FROM (d.killed_at - pk.killed_at)))
+            LIMIT 1
           )
-          FROM highscore_entries he
-          WHERE he.character_name = pk.killer_name
-            AND he.category = 'Experience Points'
-          ORDER BY he.captured_date DESC
-          LIMIT 1
         )
         WHERE pk.killer_level IS NULL
       `);
       console.log(`Updated ${updated} kills with killer levels.`);
     }
+
+    // Newer deaths were saved, so an incremental run would now start past these pages
+    if (failedPages.length > 0) {
+      throw new Error(`Pages ${failedPages.join(', ')} failed — run again with --full to fill them in`);
+    }
   } finally {
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-deaths', main, { enabled: !skipDb }).catch((err) => {
   console.error('Deaths scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+/**
+ * Scrapes guilds and their members from rubinot.com.br/api/guilds, or from
+ * the ?subtopic=guilds HTML pages when the API is unavailable (or with --html).
+ *
+ * Every run reads each world's guild list and every guild's member list,
+ * opening a membership stint for new members and closing it for members
+ * no longer listed. Guilds gone from a world's list are marked disbanded.
+ * Stints are then linked to character identities, and characters.guild_name
+ * is refreshed from the open stints.
+ *
+ * Usage:
+ *   pnpm scrape:guilds                  # Scrape every world and save to DB
+ *   pnpm scrape:guilds --world Auroria  # One world
+ *   pnpm scrape:guilds --no-db          # Just print the result
+ *   pnpm scrape:guilds --html           # Read the HTML guild pages instead of /api/guilds
+ *   pnpm scrape:guilds --record [name]  # Save every response to data/recordings/<name>/
+ *   pnpm scrape:guilds --replay [name]  # Replay saved responses (offline, no browser)
+ *   pnpm scrape:guilds --backend <kind> # Browser backend: chromium, executable or fetch
+ */
+import { PrismaClient } from '@prisma/client';
+import { getBrowserContext, navigateWithCloudflare, closeBrowser } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import { RUBINOT_URLS, WORLDS } from '../src/lib/utils/constants';
+import {
+  fetchGuildNames,
+  fetchGuild,
+  saveGuild,
+  closeDisbandedGuilds,
+  updateCharacterGuilds,
+  type GuildSource,
+} from '../src/lib/scraper/guilds';
+import { linkGuildMemberships } from '../src/lib/scraper/identities';
+import type { BrowserName } from '../src/lib/scraper/browser';
+
+const BROWSER: BrowserName = 'guilds';
+const prisma = new PrismaClient();
+
+const args = process.argv.slice(2);
+
+function getArg(flag: string): string | null {
+  const idx = args.indexOf(flag);
+  if (idx === -1) return null;
+  return args[idx + 1] ?? null;
+}
+
+const skipDb = args.includes('--no-db');
+const worldArg = getArg('--world');
+const source: GuildSource = args.includes('--html') ? 'html' : 'api';
+
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
+async function main(run: ScraperRunHandle) {
+  const worlds = worldArg ? [worldArg] : [...WORLDS];
+
+  console.log('Launching browser for guilds scrape...');
+  const context = await getBrowserContext({ headless: false, browser: BROWSER });
+  const page = context.pages()[0] || await context.newPage();
+
+  try {
+    // Navigate to base site first to bypass Cloudflare
+    await navigateWithCloudflare(page, RUBINOT_URLS.base, 60_000);
+
+    const seenAt = new Date();
+    let guilds = 0;
+    let members = 0;
+    let joined = 0;
+    let left = 0;
+    let disbanded = 0;
+
+    for (const world of worlds) {
+      const list = await fetchGuildNames(page, world, source);
+      console.log(`\n${world}: ${list.names.length} guilds${list.complete ? '' : ' (list incomplete)'}`);
+
+      for (const name of list.names) {
+        const guild = await fetchGuild(page, name, world, list.source);
+        if (!guild) continue;
+        guilds++;
+        members += guild.members.length;
+        run.seen(guild.members.length);
+
+        if (skipDb) {
+          console.log(`  ${guild.name}: ${guild.members.length} members`);
+          continue;
+        }
+        try {
+          const result = await saveGuild(prisma, guild, seenAt);
+          run.upserted(result.guild);
+          joined += result.joined;
+          left += result.left;
+          if (result.joined || result.left) {
+            console.log(`  ${guild.name}: ${guild.members.length} members, ${result.joined} joined, ${result.left} left`);
+          }
+        } catch (err: unknown) {
+          const msg = err instanceof Error ? err.message : String(err);
+          console.warn(`  Warning: Failed to save guild ${guild.name}:`, msg);
+          run.error(err);
+        }
+      }
+
+      // A partial list can't tell a disbanded guild from one we didn't reach
+      if (!skipDb && list.complete) {
+        const closed = await closeDisbandedGuilds(prisma, world, list.names, seenAt);
+        if (closed > 0) console.log(`  ${closed} guilds disbanded`);
+        disbanded += closed;
+      }
+    }
+
+    console.log(`\nScraped ${guilds} guilds with ${members} members across ${worlds.length} worlds`);
+    if (skipDb) return;
+
+    console.log(`Memberships: ${joined} joined, ${left} left; ${disbanded} guilds disbanded`);
+    run.archived(disbanded);
+
+    const linked = await linkGuildMemberships(prisma);
+    const characters = await updateCharacterGuilds(prisma);
+    console.log(`Linked ${linked} stints to identities, updated the guild of ${characters} characters.`);
+  } finally {
+    printSchedulerStats();
+    await prisma.$disconnect();
+    await closeBrowser(BROWSER);
+  }
+}
+
+trackScraperRun(prisma, 'scrape-guilds', main, { enabled: !skipDb }).catch((err) => {
+  console.error('Guilds scraper failed:', err);
+  prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
+});
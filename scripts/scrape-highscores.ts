@@ -9,6 +9,9 @@
  *   pnpm scrape:highscores --world Lunarian          # Single world
  *   pnpm scrape:highscores --vocation knights        # Single vocation
  *   pnpm scrape:highscores --no-db                   # Skip saving to database
+ *   pnpm scrape:highscores --record [name]           # Save every response to data/recordings/<name>/
+ *   pnpm scrape:highscores --replay [name]           # Replay saved responses (offline, no browser)
+ *   pnpm scrape:highscores --backend <kind>          # Browser backend: chromium, executable or fetch
  *   pnpm scrape:highscores --headless                # Run headless (may fail on CF)
  *   pnpm scrape:highscores --fresh                   # Ignore progress, start from scratch
  */
@@ -16,6 +19,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, closeBrowser, type BrowserName } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import { materializeSnapshots } from '../src/lib/scraper/snapshots';
+import { resolveIdentities } from '../src/lib/scraper/identities';
 
 const BROWSER: BrowserName = 'highscores';
 import {
@@ -48,6 +57,9 @@ function getArg(flag: string): string | null {
 
 const hasFlag = (flag: string) => args.includes(flag);
 
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
 const worldArg = getArg('--world');
 const vocationArg = getArg('--vocation');
 const categoryArg = getArg('--category');
@@ -69,6 +81,9 @@ Usage:
   pnpm scrape:highscores --world Lunarian          Single world
   pnpm scrape:highscores --vocation knights        Single vocation
   pnpm scrape:highscores --no-db                   Skip saving to database
+  pnpm scrape:highscores --record [name]           Save every response to data/recordings/<name>/
+  pnpm scrape:highscores --replay [name]           Replay saved responses (offline, no browser)
+  pnpm scrape:highscores --backend <kind>          Browser backend: chromium, executable or fetch
   pnpm scrape:highscores --fresh                   Ignore progress, start from scratch
   pnpm scrape:highscores --headless                Run headless (may fail on Cloudflare)
 
@@ -108,8 +123,7 @@ function resolveWorlds(): string[] {
   if (!worldArg) return [...WORLDS];
   const match = [...WORLDS].find((w) => w.toLowerCase() === worldArg.toLowerCase());
   if (!match) {
-    console.error(`Unknown world: "${worldArg}". Available: ${[...WORLDS].join(', ')}`);
-    process.exit(1);
+    throw new Error(`Unknown world: "${worldArg}". Available: ${[...WORLDS].join(', ')}`);
   }
   return [match];
 }
@@ -123,8 +137,7 @@ function resolveProfessions(): HighscoreProfession[] {
     const alias = PROFESSION_ALIASES[vocationArg.toLowerCase()];
     if (alias) return [alias];
 
-    console.error(`Unknown vocation: "${vocationArg}". Use --help to see available vocations.`);
-    process.exit(1);
+    throw new Error(`Unknown vocation: "${vocationArg}". Use --help to see available vocations.`);
   }
   return ['Knights', 'Paladins', 'Sorcerers', 'Druids', 'Monks'];
 }
@@ -141,8 +154,7 @@ function resolveCategories(): HighscoreCategory[] {
     const alias = CATEGORY_ALIASES[categoryArg.toLowerCase()];
     if (alias) return [alias];
 
-    console.error(`Unknown category: "${categoryArg}". Use --help to see available categories.`);
-    process.exit(1);
+    throw new Error(`Unknown category: "${categoryArg}". Use --help to see available categories.`);
   }
   return ['Experience Points'];
 }
@@ -180,6 +192,7 @@ function saveProgress(completed: Set<string>): void {
 
 const today = new Date(todayStr + 'T00:00:00.000Z');
 let dbSavedCount = 0;
+let dbInsertedCount = 0;
 const BATCH_SIZE = 500;
 let pendingBatch: ScrapedHighscoreEntry[] = [];
 
@@ -193,13 +206,16 @@ async function flushBatch(): Promise<void> {
     `('${e.characterName.replace(/'/g, "''")}', '${e.world.replace(/'/g, "''")}', '${e.vocation.replace(/'/g, "''")}', ${e.level}, '${e.category.replace(/'/g, "''")}', ${e.rank}, ${e.score.toString()}, '${todayStr}'::date)`
   ).join(',\n');
 
-  await prisma.$executeRawUnsafe(`
+  // xmax = 0 only for freshly inserted rows, so we can tell inserts from updates
+  const rows = await prisma.$queryRawUnsafe<{ inserted: boolean }[]>(`
     INSERT INTO highscore_entries (character_name, world, vocation, level, category, rank, score, captured_date)
     VALUES ${values}
     ON CONFLICT (character_name, world, category, captured_date)
     DO UPDATE SET rank = EXCLUDED.rank, score = EXCLUDED.score, level = EXCLUDED.level, vocation = EXCLUDED.vocation
+    RETURNING (xmax = 0) AS inserted
   `);
   dbSavedCount += batch.length;
+  dbInsertedCount += rows.filter((r) => r.inserted).length;
 }
 
 function queueEntry(e: ScrapedHighscoreEntry): void {
@@ -208,7 +224,7 @@ function queueEntry(e: ScrapedHighscoreEntry): void {
 
 // ── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
 
   const worlds = resolveWorlds();
@@ -263,6 +279,9 @@ RubinOT Highscores
 
     // Final flush for any remaining entries
     if (!skipDb) await flushBatch();
+    run.seen(entries.length);
+    run.inserted(dbInsertedCount);
+    run.updated(dbSavedCount - dbInsertedCount);
 
     // Save JSON output
     const outFile = path.join(dataDir, `highscores-${todayStr}.json`);
@@ -301,21 +320,35 @@ RubinOT Highscores
       if (fs.existsSync(progressFile)) fs.unlinkSync(progressFile);
     }
 
-    // Refresh materialized views used by progression + premium pages
+    // Materialize characters, daily snapshots and identities read by the character pages
+    if (!skipDb) {
+      console.log('\nMaterializing character snapshots...');
+      try {
+        const result = await materializeSnapshots(prisma, todayStr);
+        console.log(`  ${result.snapshots} snapshots for ${todayStr} (${result.characters} characters upserted)`);
+        const ids = await resolveIdentities(prisma, todayStr);
+        console.log(`  Identities: ${ids.continued} continued, ${ids.moved} moved world, ${ids.renamed} renamed, ${ids.created} new`);
+      } catch (e) {
+        console.error('Failed to materialize snapshots:', e);
+        run.error(e);
+      }
+    }
+
+    // Refresh materialized views used by premium pages
     if (!skipDb) {
       console.log('\nRefreshing materialized views...');
       try {
-        await prisma.$executeRawUnsafe('REFRESH MATERIALIZED VIEW CONCURRENTLY world_leaders_mv');
-        console.log('  world_leaders_mv refreshed');
         await prisma.$executeRawUnsafe('REFRESH MATERIALIZED VIEW CONCURRENTLY top_exp_gainers_mv');
         console.log('  top_exp_gainers_mv refreshed');
       } catch (e) {
         console.error('Failed to refresh materialized views:', e);
+        run.error(e);
       }
     }
 
     printSummary(entries);
   } finally {
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
@@ -368,7 +401,7 @@ ${Object.entries(byVocation)
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-highscores', main, { enabled: !skipDb }).catch((err) => {
   console.error('Highscores scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
@@ -1,100 +1,205 @@
 #!/usr/bin/env tsx
 /**
- * Scrapes recent transfers from rubinot.com.br/transfers.
+ * Scrapes transfers from rubinot.com.br/transfers.
+ *
+ * By default walks the newest pages until one has no transfers we haven't
+ * stored yet. --backfill walks the whole history back to the earliest
+ * transfer, saving a cursor after every page so --resume can continue it
+ * in a later run.
  *
  * Usage:
- *   pnpm scrape:transfers              # Scrape and save to DB
- *   pnpm scrape:transfers --no-db      # Just print the result
+ *   pnpm scrape:transfers                  # Scrape new transfers and save to DB
+ *   pnpm scrape:transfers --backfill       # Walk the full history from the newest page
+ *   pnpm scrape:transfers --resume         # Continue the backfill from the saved cursor
+ *   pnpm scrape:transfers --pages 100      # Stop after 100 pages (with --backfill/--resume)
+ *   pnpm scrape:transfers --no-db          # Just print the first page
+ *   pnpm scrape:transfers --record [name]  # Save every response to data/recordings/<name>/
+ *   pnpm scrape:transfers --replay [name]  # Replay saved responses (offline, no browser)
+ *   pnpm scrape:transfers --backend <kind> # Browser backend: chromium, executable or fetch
  */
+import * as fs from 'fs';
+import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
-import { getBrowserContext, navigateWithCloudflare, closeBrowser, sleep } from '../src/lib/scraper/browser';
-import { RUBINOT_URLS } from '../src/lib/utils/constants';
-import { scrapeTransfersPage } from '../src/lib/scraper/transfers';
+import { getBrowserContext, closeBrowser } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import {
+  scrapeTransferHistory,
+  parseTransferDate,
+  FIRST_TRANSFERS_PAGE,
+  type ScrapedTransfer,
+  type TransfersCursor,
+} from '../src/lib/scraper/transfers';
 import type { BrowserName } from '../src/lib/scraper/browser';
 
 const BROWSER: BrowserName = 'transfers';
 const prisma = new PrismaClient();
-const skipDb = process.argv.includes('--no-db');
-
-function parseDateStr(dateStr: string | null): Date | null {
-  if (!dateStr) return null;
-  // RubinOT format: "DD/MM/YYYY HH:mm:ss"
-  const match = dateStr.match(/^(\d{2})\/(\d{2})\/(\d{4})\s+(\d{2}):(\d{2}):(\d{2})$/);
-  if (match) {
-    const [, day, month, year, hour, min, sec] = match;
-    return new Date(`${year}-${month}-${day}T${hour}:${min}:${sec}`);
+
+const args = process.argv.slice(2);
+
+function getArg(flag: string): string | null {
+  const idx = args.indexOf(flag);
+  if (idx === -1) return null;
+  return args[idx + 1] ?? null;
+}
+
+const skipDb = args.includes('--no-db');
+const resumeFlag = args.includes('--resume');
+const backfill = resumeFlag || args.includes('--backfill');
+const maxPages = getArg('--pages') ? parseInt(getArg('--pages')!, 10) : undefined;
+
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
+// ── Backfill cursor ────────────────────────────────────────────────────
+
+const dataDir = path.join(process.cwd(), 'data');
+const progressFile = path.join(dataDir, 'progress-transfers.json');
+
+interface Progress {
+  /** Next page to scrape, null once the earliest transfer was reached */
+  cursor: TransfersCursor | null;
+  pagesScraped: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+function loadProgress(): Progress | null {
+  try {
+    if (fs.existsSync(progressFile)) {
+      return JSON.parse(fs.readFileSync(progressFile, 'utf-8'));
+    }
+  } catch {}
+  return null;
+}
+
+function saveProgress(progress: Progress): void {
+  progress.updatedAt = new Date().toISOString();
+  if (!fs.existsSync(dataDir)) fs.mkdirSync(dataDir, { recursive: true });
+  fs.writeFileSync(progressFile, JSON.stringify(progress, null, 2), 'utf-8');
+}
+
+// ── Database ───────────────────────────────────────────────────────────
+
+const runStartedAt = new Date();
+
+/** Upsert a page of transfers; returns how many were new */
+async function saveTransfers(transfers: ScrapedTransfer[], run: ScraperRunHandle): Promise<number> {
+  let inserted = 0;
+  for (const transfer of transfers) {
+    const transferDate = parseTransferDate(transfer.transferDate);
+    try {
+      const row = await prisma.transfer.upsert({
+        where: {
+          playerName_fromWorld_toWorld_transferDate: {
+            playerName: transfer.playerName,
+            fromWorld: transfer.fromWorld,
+            toWorld: transfer.toWorld,
+            transferDate: transferDate ?? new Date(0),
+          },
+        },
+        update: {
+          level: transfer.level,
+        },
+        create: {
+          playerName: transfer.playerName,
+          fromWorld: transfer.fromWorld,
+          toWorld: transfer.toWorld,
+          transferDate,
+          level: transfer.level,
+        },
+      });
+      run.upserted(row);
+      if (row.createdAt >= runStartedAt) inserted++;
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (!msg.includes('Unique constraint')) {
+        console.warn(`  Warning: Failed to upsert transfer for ${transfer.playerName}:`, msg);
+        run.error(err);
+      }
+    }
   }
-  // Fallback
-  const d = new Date(dateStr);
-  return isNaN(d.getTime()) ? null : d;
+  return inserted;
 }
 
-async function main() {
+// ── Main ───────────────────────────────────────────────────────────────
+
+async function main(run: ScraperRunHandle) {
+  let progress: Progress | null = null;
+  if (backfill && !skipDb) {
+    const saved = resumeFlag ? loadProgress() : null;
+    if (resumeFlag && !saved) {
+      throw new Error('No progress file found. Run with --backfill first.');
+    }
+    if (saved && !saved.cursor) {
+      console.log('Transfer backfill already reached the earliest transfer. Run with --backfill to start over.');
+      return;
+    }
+    progress = saved ?? {
+      cursor: FIRST_TRANSFERS_PAGE,
+      pagesScraped: 0,
+      startedAt: new Date().toISOString(),
+      updatedAt: '',
+    };
+    const at = progress.cursor!;
+    console.log(`Backfilling transfers from page ${at.page}${at.before ? ` (up to ${at.before})` : ''}`);
+  }
+
   console.log('Launching browser for transfers scrape...');
   const context = await getBrowserContext({ headless: false, browser: BROWSER });
   const page = context.pages()[0] || await context.newPage();
 
   try {
-    const url = RUBINOT_URLS.base + RUBINOT_URLS.transfers;
-    await navigateWithCloudflare(page, url, 60_000);
-    await sleep(3000);
-
-    const transfers = await scrapeTransfersPage(page);
-    console.log(`\nScraped ${transfers.length} transfers from the page\n`);
+    let inserted = 0;
+    let printedSample = false;
 
-    if (transfers.length > 0) {
-      console.log('Sample transfers:');
-      transfers.slice(0, 5).forEach(t => {
-        console.log(`  ${t.playerName} (Lv ${t.level ?? '?'}) — ${t.fromWorld} → ${t.toWorld} — ${t.transferDate}`);
-      });
-      if (transfers.length > 5) console.log(`  ... and ${transfers.length - 5} more`);
-    }
+    const result = await scrapeTransferHistory(page, {
+      cursor: progress?.cursor ?? FIRST_TRANSFERS_PAGE,
+      // --no-db has nothing to compare against, so it only prints the newest page
+      maxPages: skipDb ? 1 : backfill ? maxPages : undefined,
+      onPage: async (transfers, next) => {
+        run.seen(transfers.length);
 
-    if (!skipDb && transfers.length > 0) {
-      console.log('\nSaving to database...');
-      let upserted = 0;
-
-      for (const transfer of transfers) {
-        const transferDate = parseDateStr(transfer.transferDate);
-        try {
-          await prisma.transfer.upsert({
-            where: {
-              playerName_fromWorld_toWorld_transferDate: {
-                playerName: transfer.playerName,
-                fromWorld: transfer.fromWorld,
-                toWorld: transfer.toWorld,
-                transferDate: transferDate ?? new Date(0),
-              },
-            },
-            update: {
-              level: transfer.level,
-            },
-            create: {
-              playerName: transfer.playerName,
-              fromWorld: transfer.fromWorld,
-              toWorld: transfer.toWorld,
-              transferDate,
-              level: transfer.level,
-            },
+        if (!printedSample && transfers.length > 0) {
+          printedSample = true;
+          console.log('Sample transfers:');
+          transfers.slice(0, 5).forEach(t => {
+            console.log(`  ${t.playerName} (Lv ${t.level ?? '?'}) — ${t.fromWorld} → ${t.toWorld} — ${t.transferDate}`);
           });
-          upserted++;
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err);
-          if (!msg.includes('Unique constraint')) {
-            console.warn(`  Warning: Failed to upsert transfer for ${transfer.playerName}:`, msg);
-          }
         }
-      }
+        if (skipDb) return;
+
+        const pageInserted = await saveTransfers(transfers, run);
+        inserted += pageInserted;
+
+        if (progress) {
+          progress.cursor = next;
+          progress.pagesScraped++;
+          saveProgress(progress);
+          return;
+        }
+        // Newest first, so a page without new transfers means we've caught up
+        return pageInserted > 0;
+      },
+    });
 
-      console.log(`Saved ${upserted} transfers to database.`);
+    console.log(`\nScraped ${result.transfers} transfers from ${result.pages} pages`);
+    if (!skipDb) console.log(`Saved ${inserted} new transfers to database.`);
+    if (progress) {
+      console.log(progress.cursor
+        ? `Backfill paused at page ${progress.cursor.page}${progress.cursor.before ? ` (up to ${progress.cursor.before})` : ''} — continue with --resume`
+        : 'Backfill complete — reached the earliest transfer.');
     }
   } finally {
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'scrape-transfers', main, { enabled: !skipDb }).catch((err) => {
   console.error('Transfers scraper failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
@@ -5,13 +5,20 @@
  * Usage:
  *   pnpm scrape --auctions              # Scrape ALL sold auction history
  *   pnpm scrape --auctions --pages 5    # Scrape first 5 pages only
+ *   pnpm scrape --auctions --incremental # Stop at auctions already in the DB
  *   pnpm scrape --auction 140700        # Scrape a single auction by ID
  *   pnpm scrape --headless              # Run in headless mode (may fail on Cloudflare)
+ *   pnpm scrape --replay [name]         # Replay recorded responses (see --record)
+ *   pnpm scrape --backend <kind>        # Browser backend: chromium, executable or fetch
  */
 import * as fs from 'fs';
 import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, closeBrowser, navigateWithCloudflare, sleep } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { flushQuarantine, printDriftReport } from '../src/lib/scraper/validation';
 import type { BrowserName } from '../src/lib/scraper/browser';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
 
@@ -19,6 +26,7 @@ const BROWSER: BrowserName = 'auctions';
 import {
   scrapeAuctionHistory,
   scrapeSingleAuction,
+  findHighWaterMark,
   type ScrapedAuction,
 } from '../src/lib/scraper/auctions';
 
@@ -36,11 +44,15 @@ function getArg(flag: string): string | null {
 
 const hasFlag = (flag: string) => args.includes(flag);
 
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
 const scrapeAll = hasFlag('--auctions');
 const singleId = getArg('--auction');
 const headless = hasFlag('--headless');
 const skipDb = hasFlag('--no-db');
 const maxPages = getArg('--pages') ? parseInt(getArg('--pages')!, 10) : undefined;
+const incremental = hasFlag('--incremental');
 const maxAuctions = getArg('--count') ? parseInt(getArg('--count')!, 10) : undefined;
 
 if (!scrapeAll && !singleId) {
@@ -52,9 +64,14 @@ Usage:
   pnpm scrape --auctions              Scrape ALL sold auction history (last 30 days)
   pnpm scrape --auctions --pages 5    Scrape first 5 pages only
   pnpm scrape --auctions --count 20   Scrape exactly 20 new auctions
+  pnpm scrape --auctions --incremental
+                                      Newest first, stop at auctions already in the DB
   pnpm scrape --auction <id>          Scrape a single auction by ID
   pnpm scrape --headless              Run headless (add to any command above)
   pnpm scrape --no-db                 Skip saving to database
+  pnpm scrape --record [name]         Save every response to data/recordings/<name>/
+  pnpm scrape --replay [name]         Replay saved responses (offline, no browser)
+  pnpm scrape --backend <kind>        Browser backend: chromium, executable or fetch
 
 Output:
   data/auctions-YYYY-MM-DD.json          All sold auctions
@@ -65,7 +82,7 @@ Notes:
   - Already-scraped auctions (by externalId) are skipped automatically
   - Visits each auction detail page to get ALL stats
   - Rate limited with randomized 1-4s delays between requests
-  - Uses Brave browser (non-headless) to bypass Cloudflare
+  - Uses a non-headless browser (see --backend) to bypass Cloudflare
   - Saves each auction to DB incrementally (safe to interrupt)
 
 Examples:
@@ -175,7 +192,7 @@ async function main() {
       }
     } else {
       // Load already-scraped auction IDs to skip
-      const existing = await prisma.auction.findMany({ select: { externalId: true } });
+      const existing = await prisma.auction.findMany({ select: { externalId: true, auctionEnd: true } });
       const skipExternalIds = new Set(existing.map((e) => e.externalId));
       if (skipExternalIds.size > 0) {
         console.log(`Found ${skipExternalIds.size} existing auctions in DB, will skip`);
@@ -188,6 +205,7 @@ async function main() {
         maxPages,
         maxAuctions,
         skipExternalIds,
+        incremental: incremental ? findHighWaterMark(existing) : undefined,
         onAuction,
         browserName: BROWSER,
       });
@@ -214,6 +232,9 @@ async function main() {
       printSummary(auctions);
     }
   } finally {
+    printSchedulerStats();
+    printDriftReport();
+    if (!skipDb) await flushQuarantine(prisma, null).catch(() => {});
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
@@ -1,6 +1,7 @@
 #!/usr/bin/env tsx
 /**
  * Bid updater — lightweight script that only updates bid amounts for active auctions.
+ * Each change in bid or end time is kept as a bid_snapshots row.
  *
  * Uses the JSON API at /api/bazaar to fetch all auction list pages.
  * Much faster than the full scraper since it only reads list data (no detail page visits).
@@ -11,9 +12,17 @@
  *   pnpm update:bids --pages 5        # Only check first 5 pages
  *   pnpm update:bids --headless       # Run headless
  *   pnpm update:bids --no-db          # Skip database saves
+ *   pnpm update:bids --record [name]  # Save every response to data/recordings/<name>/
+ *   pnpm update:bids --replay [name]  # Replay saved responses (offline, no browser)
+ *   pnpm update:bids --backend <kind> # Browser backend: chromium, executable or fetch
  */
 import { PrismaClient } from '@prisma/client';
 import { getBrowserContext, closeBrowser, navigateWithCloudflare, rateLimit, sleep } from '../src/lib/scraper/browser';
+import { configureTransportFromArgs } from '../src/lib/scraper/transport';
+import { configureBackendFromArgs } from '../src/lib/scraper/backends';
+import { printSchedulerStats } from '../src/lib/scraper/scheduler';
+import { trackScraperRun, type ScraperRunHandle } from '../src/lib/scraper/runs';
+import { saveBidUpdate, toBidState } from '../src/lib/scraper/bids';
 import type { BrowserName } from '../src/lib/scraper/browser';
 import { fetchBazaarListPage, apiAuctionToListAuction } from '../src/lib/scraper/auctions';
 import { RUBINOT_URLS } from '../src/lib/utils/constants';
@@ -31,6 +40,9 @@ function getArg(flag: string): string | null {
 }
 const hasFlag = (flag: string) => args.includes(flag);
 
+configureTransportFromArgs(args);
+configureBackendFromArgs(args, BROWSER);
+
 const maxPages = getArg('--pages') ? parseInt(getArg('--pages')!, 10) : undefined;
 const headless = hasFlag('--headless');
 const skipDb = hasFlag('--no-db');
@@ -46,13 +58,16 @@ Usage:
   pnpm update:bids --pages 5        Only check first 5 pages
   pnpm update:bids --headless       Run headless
   pnpm update:bids --no-db          Skip database saves
+  pnpm update:bids --record [name]  Save every response to data/recordings/<name>/
+  pnpm update:bids --replay [name]  Replay saved responses (offline, no browser)
+  pnpm update:bids --backend <kind> Browser backend: chromium, executable or fetch
 `);
   process.exit(0);
 }
 
 // ── Main ───────────────────────────────────────────────────────────────
 
-async function main() {
+async function main(run: ScraperRunHandle) {
   console.log(`\nLaunching browser (${BROWSER}) for Cloudflare bypass...`);
   const context = await getBrowserContext({ headless, browser: BROWSER });
   const page = context.pages()[0] || await context.newPage();
@@ -62,6 +77,7 @@ async function main() {
   await sleep(2000);
 
   let updatedCount = 0;
+  let bidsChanged = 0;
   let totalFound = 0;
   const seenIds = new Set<string>();
 
@@ -86,10 +102,12 @@ async function main() {
         if (p % 10 === 0) console.log(`  Page ${p}/${totalPages}: ${pageAuctions.length} auctions`);
       } catch (err) {
         console.error(`  Failed page ${p}: ${(err as Error).message?.substring(0, 60)}`);
+        run.error(err);
       }
     }
 
     totalFound = allAuctions.length;
+    run.seen(totalFound);
     console.log(`\nTotal auctions found: ${totalFound}`);
 
     // Batch update bids in DB
@@ -97,18 +115,15 @@ async function main() {
       for (const auction of allAuctions) {
         seenIds.add(auction.externalId);
         try {
-          await prisma.currentAuction.update({
-            where: { externalId: auction.externalId },
-            data: {
-              minimumBid: auction.minimumBid,
-              currentBid: auction.currentBid,
-              hasBeenBidOn: auction.hasBeenBidOn,
-              auctionEnd: auction.auctionEnd,
-            },
-          });
-          updatedCount++;
-        } catch {
+          const result = await saveBidUpdate(prisma, auction.externalId, toBidState(auction));
           // Auction not in DB yet — skip (will be picked up by full scraper)
+          if (result === 'missing') continue;
+          updatedCount++;
+          run.updated();
+          if (result === 'changed') bidsChanged++;
+        } catch (err) {
+          console.error(`  Failed bid update for ${auction.characterName}: ${(err as Error).message?.substring(0, 60)}`);
+          run.error(err);
         }
       }
 
@@ -120,6 +135,7 @@ async function main() {
         },
         data: { isActive: false },
       });
+      run.archived(deactivated.count);
       if (deactivated.count > 0) {
         console.log(`Deactivated ${deactivated.count} ended auctions`);
       }
@@ -131,15 +147,17 @@ async function main() {
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
   Total found: ${totalFound}
   Bids updated: ${updatedCount}
+  Bids changed: ${bidsChanged}
   Mode: JSON API
 ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
 
+    printSchedulerStats();
     await prisma.$disconnect();
     await closeBrowser(BROWSER);
   }
 }
 
-main().catch((err) => {
+trackScraperRun(prisma, 'update-bids', main, { enabled: !skipDb }).catch((err) => {
   console.error('Bid updater failed:', err);
   prisma.$disconnect().then(() => closeBrowser(BROWSER)).finally(() => process.exit(1));
 });
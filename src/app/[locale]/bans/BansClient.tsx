@@ -1,9 +1,10 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useTranslations } from 'next-intl';
-import { Search, Ban, Clock, AlertTriangle, ChevronLeft, ChevronRight, Shield, Calendar } from 'lucide-react';
+import { Search, Ban, Clock, AlertTriangle, ChevronLeft, ChevronRight, Shield, Calendar, History, X } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
+import { REPEAT_OFFENDER_MIN_BANS } from '@/lib/utils/ban-rules';
 import {
   BarChart,
   Bar,
@@ -25,6 +26,30 @@ interface BanEntry {
   bannedAt: string | null;
   expiresAt: string | null;
   isPermanent: boolean;
+  /** Bans on record for this player, lifted ones included */
+  banCount: number;
+}
+
+interface PlayerBanRecord {
+  id: number;
+  world: string | null;
+  rule: string | null;
+  reason: string | null;
+  category: string | null;
+  bannedAt: string | null;
+  expiresAt: string | null;
+  liftedAt: string | null;
+  isPermanent: boolean;
+  isActive: boolean;
+}
+
+interface PlayerBanHistoryData {
+  playerName: string;
+  totalBans: number;
+  activeBans: number;
+  isRepeatOffender: boolean;
+  categories: { category: string; count: number }[];
+  bans: PlayerBanRecord[];
 }
 
 interface BanInsights {
@@ -102,6 +127,131 @@ function GlassTooltip({ active, payload, label, suffix = '' }: any) {
   );
 }
 
+// ── Player Ban History ─────────────────────────────────────────────────
+
+function PlayerBanHistory({ playerName, onClose }: { playerName: string; onClose: () => void }) {
+  const t = useTranslations('bans');
+  const tc = useTranslations('common');
+  const [history, setHistory] = useState<PlayerBanHistoryData | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/bans/player/${encodeURIComponent(playerName)}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (cancelled) return;
+        if (json.success) setHistory(json.data);
+        else setFailed(true);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [playerName]);
+
+  function statusLabel(ban: PlayerBanRecord): string {
+    if (ban.isActive) return t('history.active');
+    if (!ban.liftedAt) return t('history.inactive');
+    // Closed at its own expiry date means it ran its course
+    const expired = ban.expiresAt != null && ban.expiresAt === ban.liftedAt;
+    return t(expired ? 'history.expired' : 'history.lifted', { date: formatDate(ban.liftedAt) });
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-150" />
+
+      <div
+        className="relative z-10 w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-2xl animate-in fade-in zoom-in-95 duration-150"
+        style={{ background: 'rgba(21,28,42,0.95)', border: '1px solid rgba(255,255,255,0.08)', boxShadow: '0 12px 48px rgba(0,0,0,0.6)' }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 z-10 rounded-md p-1.5 text-muted-foreground hover:text-foreground hover:bg-secondary/50 transition-colors"
+        >
+          <X className="h-4 w-4" />
+        </button>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <History className="h-4 w-4 text-rose-400" />
+              <h3 className="text-sm font-semibold">{t('history.title')}</h3>
+            </div>
+            <p className="mt-1 text-lg font-bold">{history?.playerName ?? playerName}</p>
+          </div>
+
+          {failed ? (
+            <p className="text-sm text-muted-foreground">{tc('error')}</p>
+          ) : !history ? (
+            <div className="space-y-2">
+              <div className="h-14 rounded-lg bg-secondary/20 animate-pulse" />
+              <div className="h-14 rounded-lg bg-secondary/20 animate-pulse" />
+            </div>
+          ) : history.totalBans === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('history.empty')}</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {t('history.summary', { total: history.totalBans, active: history.activeBans })}
+                </span>
+                {history.isRepeatOffender && (
+                  <span className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-semibold" style={{ background: 'rgba(251,113,133,0.12)', border: '1px solid rgba(251,113,133,0.2)', color: '#fb7185' }}>
+                    <AlertTriangle className="h-3 w-3" />
+                    {t('history.repeatOffender')}
+                  </span>
+                )}
+              </div>
+
+              {history.categories.length > 1 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {history.categories.map((c) => (
+                    <span key={c.category} className="rounded-md px-2 py-0.5 text-[11px]" style={{ background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.08)' }}>
+                      {c.category} · {c.count}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <ol className="space-y-2">
+                {history.bans.map((ban) => (
+                  <li key={ban.id} className="rounded-lg px-3 py-2.5" style={{ background: 'rgba(255,255,255,0.02)', border: '1px solid rgba(255,255,255,0.06)' }}>
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className={`text-sm font-medium ${getReasonColor(ban.reason)}`}>{ban.reason || '—'}</p>
+                        <p className="text-[11px] text-muted-foreground">
+                          {[ban.category, ban.rule !== ban.reason ? ban.rule : null, ban.world].filter(Boolean).join(' · ')}
+                        </p>
+                      </div>
+                      <span
+                        className="shrink-0 rounded-full px-2 py-0.5 text-[11px] font-semibold"
+                        style={ban.isActive
+                          ? { background: 'rgba(251,113,133,0.12)', color: '#fb7185' }
+                          : { background: 'rgba(255,255,255,0.05)', color: 'rgba(236,240,247,0.55)' }}
+                      >
+                        {statusLabel(ban)}
+                      </span>
+                    </div>
+                    <p className="mt-1.5 flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {t('history.banned', { date: formatDate(ban.bannedAt) })}
+                      {' — '}
+                      {ban.isPermanent ? t('table.permanent') : formatDate(ban.expiresAt)}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export function BansClient({ initialBans, initialTotal, insights }: BansClientProps) {
   const t = useTranslations('bans');
   const tc = useTranslations('common');
@@ -110,6 +260,7 @@ export function BansClient({ initialBans, initialTotal, insights }: BansClientPr
   const [search, setSearch] = useState('');
   const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(false);
+  const [historyPlayer, setHistoryPlayer] = useState<string | null>(null);
 
   const totalPages = Math.ceil(total / 50);
 
@@ -369,7 +520,25 @@ export function BansClient({ initialBans, initialTotal, insights }: BansClientPr
                     onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(245,158,11,0.03)'}
                     onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
                   >
-                    <td className="px-4 py-3 font-medium">{ban.playerName}</td>
+                    <td className="px-4 py-3 font-medium">
+                      <button
+                        onClick={() => setHistoryPlayer(ban.playerName)}
+                        title={t('table.viewHistory')}
+                        className="inline-flex items-center gap-2 hover:underline underline-offset-2"
+                      >
+                        {ban.playerName}
+                        {ban.banCount >= REPEAT_OFFENDER_MIN_BANS && (
+                          <span
+                            title={t('table.repeatOffender', { count: ban.banCount })}
+                            className="inline-flex items-center gap-0.5 rounded-full px-1.5 py-px text-[10px] font-bold"
+                            style={{ background: 'rgba(251,113,133,0.12)', border: '1px solid rgba(251,113,133,0.2)', color: '#fb7185' }}
+                          >
+                            <History className="h-2.5 w-2.5" />
+                            {ban.banCount}×
+                          </span>
+                        )}
+                      </button>
+                    </td>
                     <td className={`px-4 py-3 ${getReasonColor(ban.reason)}`}>
                       {ban.reason || '—'}
                     </td>
@@ -423,6 +592,10 @@ export function BansClient({ initialBans, initialTotal, insights }: BansClientPr
           </div>
         )}
       </div>
+
+      {historyPlayer && (
+        <PlayerBanHistory playerName={historyPlayer} onClose={() => setHistoryPlayer(null)} />
+      )}
     </div>
   );
 }
@@ -15,6 +15,14 @@ async function getBansData() {
     prisma.ban.count({ where: { isActive: true } }),
   ]);
 
+  // Lifted bans count too, so a returning offender shows up as one
+  const history = await prisma.ban.groupBy({
+    by: ['playerName'],
+    where: { playerName: { in: bans.map((b) => b.playerName) } },
+    _count: { _all: true },
+  });
+  const banCounts = new Map(history.map((h) => [h.playerName, h._count._all]));
+
   // Compute insights server-side
   const byReason: Record<string, number> = {};
   let permanent = 0;
@@ -43,6 +51,7 @@ async function getBansData() {
       bannedAt: b.bannedAt?.toISOString() ?? null,
       expiresAt: b.expiresAt?.toISOString() ?? null,
       isPermanent: b.isPermanent,
+      banCount: banCounts.get(b.playerName) ?? 1,
     })),
     total,
     insights: {
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { ArrowDown, ArrowUp, Globe, Shield, Trophy, CalendarDays } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Link } from '@/i18n/routing';
+import {
+  DAILY_CATEGORIES,
+  DAILY_PROFESSIONS,
+  RANK_MOVER_PERIODS,
+  type RankMoverPeriod,
+} from '@/lib/utils/constants';
+
+interface RankMover {
+  characterName: string;
+  world: string;
+  vocation: string;
+  level: number;
+  rankNow: number;
+  rankThen: number;
+  change: number;
+  scoreNow: number;
+  scoreThen: number;
+}
+
+interface ClimbersData {
+  from: string | null;
+  to: string | null;
+  climbers: RankMover[];
+  fallers: RankMover[];
+}
+
+interface ClimbersClientProps {
+  worlds: string[];
+}
+
+const selectClass =
+  'h-8 rounded-md border border-border/50 bg-card/50 px-2 text-xs outline-none focus:border-primary/50';
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function MoversTable({
+  title,
+  movers,
+  direction,
+  loading,
+}: {
+  title: string;
+  movers: RankMover[];
+  direction: 'up' | 'down';
+  loading: boolean;
+}) {
+  const t = useTranslations('climbers');
+  const Icon = direction === 'up' ? ArrowUp : ArrowDown;
+  const color = direction === 'up' ? 'text-emerald-400' : 'text-rose-400';
+
+  return (
+    <Card className="border-border/50 bg-card/50 overflow-hidden">
+      <CardContent className="p-0">
+        <div className="flex items-center gap-2 border-b border-border/50 px-4 py-3">
+          <Icon className={`h-4 w-4 ${color}`} />
+          <h3 className="text-sm font-semibold">{title}</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/50 bg-muted/30">
+                <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('table.character')}</th>
+                <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('table.world')}</th>
+                <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('table.rank')}</th>
+                <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('table.change')}</th>
+              </tr>
+            </thead>
+            <tbody className={loading ? 'opacity-50' : ''}>
+              {movers.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-12 text-center text-muted-foreground">
+                    {t('table.empty')}
+                  </td>
+                </tr>
+              ) : (
+                movers.map((m) => (
+                  <tr
+                    key={`${m.world}-${m.characterName}`}
+                    className="border-b border-border/30 hover:bg-muted/20 transition-colors"
+                  >
+                    <td className="px-4 py-2.5">
+                      <Link
+                        href={`/progression?character=${encodeURIComponent(m.characterName)}`}
+                        className="font-medium hover:text-primary"
+                      >
+                        {m.characterName}
+                      </Link>
+                      <div className="text-[11px] text-muted-foreground">
+                        {t('table.levelVocation', { level: m.level, vocation: m.vocation })}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2.5 text-muted-foreground">{m.world}</td>
+                    <td className="px-4 py-2.5 text-right tabular-nums">
+                      <span className="text-muted-foreground">#{m.rankThen}</span>
+                      {' → '}
+                      <span className="font-semibold">#{m.rankNow}</span>
+                    </td>
+                    <td className={`px-4 py-2.5 text-right font-bold tabular-nums ${color}`}>
+                      {m.change > 0 ? `+${m.change}` : m.change}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ClimbersClient({ worlds }: ClimbersClientProps) {
+  const t = useTranslations('climbers');
+  const [category, setCategory] = useState<string>('Experience Points');
+  const [days, setDays] = useState<RankMoverPeriod>(7);
+  const [world, setWorld] = useState('');
+  const [vocation, setVocation] = useState('');
+  const [result, setResult] = useState<{ query: string; data: ClimbersData | null } | null>(null);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams({ category, days: String(days) });
+    if (world) params.set('world', world);
+    if (vocation) params.set('vocation', vocation);
+    return params.toString();
+  }, [category, days, world, vocation]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/highscores/climbers?${query}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled) setResult({ query, data: json.success ? json.data : null });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ query, data: null });
+      });
+    return () => { cancelled = true; };
+  }, [query]);
+
+  // Keep showing the previous result, dimmed, until the new one arrives
+  const data = result?.data ?? null;
+  const loading = result?.query !== query;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1.5">
+          <Trophy className="h-3.5 w-3.5 text-muted-foreground" />
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClass}>
+            {DAILY_CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+          <select value={world} onChange={(e) => setWorld(e.target.value)} className={selectClass}>
+            <option value="">{t('allWorlds')}</option>
+            {worlds.map((w) => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Shield className="h-3.5 w-3.5 text-muted-foreground" />
+          <select value={vocation} onChange={(e) => setVocation(e.target.value)} className={selectClass}>
+            <option value="">{t('allVocations')}</option>
+            {DAILY_PROFESSIONS.map((v) => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-1">
+          {RANK_MOVER_PERIODS.map((p) => (
+            <button
+              key={p}
+              onClick={() => setDays(p)}
+              className={`h-8 rounded-md px-2.5 text-xs font-medium transition-colors ${
+                days === p
+                  ? 'bg-primary text-primary-foreground'
+                  : 'border border-border/50 bg-card/50 text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {t('period', { days: p })}
+            </button>
+          ))}
+        </div>
+        {data?.from && data.to && (
+          <div className="ml-auto flex items-center gap-1.5 text-xs text-muted-foreground">
+            <CalendarDays className="h-3.5 w-3.5" />
+            {t('comparing', { from: formatDate(data.from), to: formatDate(data.to) })}
+          </div>
+        )}
+      </div>
+
+      {!loading && data && !data.from ? (
+        <Card className="border-border/50 bg-card/50">
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            {t('notEnoughHistory')}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <MoversTable title={t('climbersTitle')} movers={data?.climbers ?? []} direction="up" loading={loading} />
+          <MoversTable title={t('fallersTitle')} movers={data?.fallers ?? []} direction="down" loading={loading} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { Suspense } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import prisma from '@/lib/db/prisma';
+import { ClimbersClient } from './ClimbersClient';
+
+export const dynamic = 'force-dynamic';
+
+async function ClimbersContent() {
+  const worlds = await prisma.world.findMany({
+    where: { isActive: true },
+    select: { name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return <ClimbersClient worlds={worlds.map((w) => w.name)} />;
+}
+
+function ClimbersSkeleton() {
+  return (
+    <div className="space-y-4">
+      <Skeleton className="h-10 w-full" />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Skeleton className="h-96" />
+        <Skeleton className="h-96" />
+      </div>
+    </div>
+  );
+}
+
+export default async function ClimbersPage() {
+  const { getTranslations } = await import('next-intl/server');
+  const t = await getTranslations('climbers');
+
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      <div>
+        <h1 className="text-3xl font-bold">{t('heading')}</h1>
+        <p className="text-xs text-muted-foreground/60 mt-1">
+          {t('subheading')}
+        </p>
+      </div>
+      <Suspense fallback={<ClimbersSkeleton />}>
+        <ClimbersContent />
+      </Suspense>
+    </div>
+  );
+}
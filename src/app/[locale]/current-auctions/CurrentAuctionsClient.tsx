@@ -39,11 +39,15 @@ import {
   CalendarCheck,
   Diamond,
   Lock,
+  TrendingUp,
+  Home,
 } from 'lucide-react';
 import Link from 'next/link';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
 import { formatNumber, getVocationColor, formatTimeRemaining } from '@/lib/utils/formatters';
+import { transferCost, effectivePrice, RTC_GOLD_TAX_PER_LEVEL, type WorldTypeInfo } from '@/lib/utils/world-transfer';
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -123,19 +127,15 @@ type SerializedCurrentAuction = {
   updatedAt: string;
 };
 
-type WorldTypeInfo = {
-  worldName: string;
-  pvpType: string;
-  isRtc: boolean;
-};
-
 type ValuationData = {
+  modelVersion: string;
   estimatedValue: number;
   minPrice: number;
   maxPrice: number;
   sampleSize: number;
   itemBonus?: number;
   confidence?: 'high' | 'medium' | 'low';
+  worldFactor?: number;
 };
 
 type FeaturedAuctionInfo = {
@@ -413,11 +413,6 @@ function PriceTooltip({ coins }: { coins: number }) {
 
 // ── Transfer Cost Simulator ────────────────────────────────────────────
 
-// Transfer rules from the game:
-// Same PvP type → 990 Rubini Coins, 7 days wait
-// Different PvP type → 1890 Rubini Coins, 21 days wait
-// Updated to RTC → Former RTC: +500,000 gold per level additional tax
-
 // ── Custom Dropdown for world selection ────────────────────────────────
 
 function WorldDropdown({
@@ -502,32 +497,25 @@ function TransferSimulator({
   characterLevel,
   bidPrice,
   worldTypes,
+  homeWorld,
 }: {
   sourceWorld: string;
   characterLevel: number;
   bidPrice: number | null;
   worldTypes: WorldTypeInfo[];
+  homeWorld?: string;
 }) {
-  const [targetWorld, setTargetWorld] = useState('');
+  const [targetWorld, setTargetWorld] = useState(homeWorld && homeWorld !== sourceWorld ? homeWorld : '');
   const [isOpen, setIsOpen] = useState(false);
 
-  const sourceType = worldTypes.find(w => w.worldName === sourceWorld);
-  const targetType = worldTypes.find(w => w.worldName === targetWorld);
-
-  const transferInfo = useMemo(() => {
-    if (!sourceType || !targetType || sourceWorld === targetWorld) return null;
-
-    const samePvpType = sourceType.pvpType === targetType.pvpType;
-    const rubiniCoins = samePvpType ? 990 : 1890;
-    const waitDays = samePvpType ? 7 : 21;
-
-    let goldTax = 0;
-    if (sourceType.isRtc && !targetType.isRtc) {
-      goldTax = characterLevel * 500000;
-    }
-
-    return { rubiniCoins, waitDays, goldTax, samePvpType };
-  }, [sourceType, targetType, sourceWorld, targetWorld, characterLevel]);
+  const transferInfo = useMemo(
+    () => transferCost(
+      worldTypes.find(w => w.worldName === sourceWorld),
+      worldTypes.find(w => w.worldName === targetWorld),
+      characterLevel,
+    ),
+    [worldTypes, sourceWorld, targetWorld, characterLevel],
+  );
 
   const worldOptions = worldTypes
     .filter(w => w.worldName !== sourceWorld)
@@ -600,7 +588,7 @@ function TransferSimulator({
                   </span>
                 </div>
                 <span className="text-[8px]" style={{ color: '#a08080' }}>
-                  RTC → Former RTC ({formatNumber(500000)}/lvl × {characterLevel})
+                  RTC → Former RTC ({formatNumber(RTC_GOLD_TAX_PER_LEVEL)}/lvl × {characterLevel})
                 </span>
               </div>
             )}
@@ -624,6 +612,48 @@ function TransferSimulator({
   );
 }
 
+/** Bid plus what it takes to bring the character to the buyer's home world */
+function EffectivePrice({
+  auction,
+  worldTypes,
+  homeWorld,
+  goldPerCoin,
+}: {
+  auction: SerializedCurrentAuction;
+  worldTypes: WorldTypeInfo[];
+  homeWorld: string;
+  goldPerCoin: number | null;
+}) {
+  const bidPrice = auction.currentBid ?? auction.minimumBid;
+  if (!homeWorld || !auction.world || !auction.level || bidPrice == null || bidPrice <= 0) return null;
+
+  const cost = transferCost(
+    worldTypes.find(w => w.worldName === auction.world),
+    worldTypes.find(w => w.worldName === homeWorld),
+    auction.level,
+  );
+  if (!cost) return null;
+  const { total, unpricedGold } = effectivePrice(bidPrice, cost, goldPerCoin);
+
+  return (
+    <div
+      className="flex flex-col rounded-md px-2.5 py-2"
+      style={{ backgroundColor: '#1e2233', border: '1px solid #2e3a5a' }}
+      title={`${formatNumber(bidPrice)} bid + ${formatNumber(cost.rubiniCoins)} transfer${cost.goldTax > 0 ? ` + ${formatNumber(cost.goldTax)} gold tax` : ''} · ${cost.waitDays} days wait`}
+    >
+      <div className="flex items-center gap-1.5">
+        <Globe className="h-3 w-3 shrink-0" style={{ color: '#7a8ac0' }} />
+        <span className="text-[9px] font-medium shrink-0" style={{ color: '#7a8ac0' }}>Effective on {homeWorld}</span>
+        <span className="text-xs font-bold ml-auto" style={{ color: '#93c5fd' }}>~{formatNumber(total)} TC</span>
+      </div>
+      <span className="text-[8px] mt-0.5" style={{ color: '#5a6a90' }}>
+        +{formatNumber(cost.rubiniCoins)} transfer
+        {cost.goldTax > 0 && (unpricedGold > 0 ? ` · +${formatNumber(unpricedGold)} gold tax not included` : ' · incl. gold tax')}
+      </span>
+    </div>
+  );
+}
+
 // ── Auction Date Helpers ───────────────────────────────────────────────
 
 function parseAuctionDate(dateStr: string | null): Date | null {
@@ -660,6 +690,195 @@ function useCountdown() {
   return tick;
 }
 
+// ── Bid Timeline ───────────────────────────────────────────────────────
+
+type BidSnapshot = {
+  minimumBid: number | null;
+  currentBid: number | null;
+  hasBeenBidOn: boolean;
+  auctionEnd: string | null;
+  capturedAt: string;
+};
+
+function BidTimeline({ externalId }: { externalId: string }) {
+  const [snapshots, setSnapshots] = useState<BidSnapshot[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/current-auctions/${externalId}/bids`)
+      .then((r) => r.json())
+      .then((data) => {
+        if (!cancelled) setSnapshots(data.success ? data.data : []);
+      })
+      .catch(() => {
+        if (!cancelled) setSnapshots([]);
+      });
+    return () => { cancelled = true; };
+  }, [externalId]);
+
+  const chartData = useMemo(() => (snapshots ?? []).map((s) => ({
+    time: new Date(s.capturedAt).getTime(),
+    bid: s.currentBid ?? s.minimumBid ?? 0,
+  })), [snapshots]);
+
+  if (snapshots === null) {
+    return <div className="h-[120px] rounded-lg bg-secondary/20 animate-pulse" />;
+  }
+
+  if (chartData.length < 2) {
+    return (
+      <p className="text-[11px]" style={{ color: '#7a7690' }}>
+        {chartData.length === 0 ? 'No bid history recorded yet.' : 'No bid changes since this auction was first seen.'}
+      </p>
+    );
+  }
+
+  const formatTime = (t: number) => new Date(t).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="rounded-lg px-2 py-2" style={{ backgroundColor: '#252333', border: '1px solid #3a3848' }}>
+      <ResponsiveContainer width="100%" height={120}>
+        <LineChart data={chartData} margin={{ left: -10, right: 8, top: 4, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 6" stroke="rgba(255,255,255,0.04)" vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(t: number) => new Date(t).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            tick={{ fontSize: 9, fill: 'rgba(255,255,255,0.4)' }}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis
+            tickFormatter={(v: number) => formatNumber(v)}
+            tick={{ fontSize: 9, fill: 'rgba(255,255,255,0.4)' }}
+            axisLine={false}
+            tickLine={false}
+            width={45}
+          />
+          <Tooltip
+            labelFormatter={(t) => formatTime(Number(t))}
+            formatter={(v) => [`${formatNumber(Number(v))} TC`, 'Bid']}
+            contentStyle={{ backgroundColor: '#1e1c2a', border: '1px solid #4a4857', borderRadius: 8, fontSize: 11 }}
+          />
+          <Line type="stepAfter" dataKey="bid" stroke="#fbbf24" strokeWidth={2} dot={{ r: 2, fill: '#fbbf24' }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+// ── Why This Price ─────────────────────────────────────────────────────
+
+type ValuationExplanation = ValuationData & {
+  baseline: number;
+  contributions: { feature: string; weight: number | null; tc: number }[];
+  comparables: {
+    externalId: string;
+    characterName: string;
+    level: number;
+    vocation: string;
+    soldPrice: number;
+    adjustedPrice: number;
+    similarity: number;
+    url: string;
+  }[];
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  level: 'Level',
+  magicLevel: 'Magic level',
+  primarySkill: 'Main skill',
+  charm: 'Charm points',
+  quests: 'Quests',
+  storeItems: 'Store items',
+  extras: 'Mounts, outfits & bosses',
+  displayItems: 'Display items',
+};
+
+function ValuationBreakdown({ externalId }: { externalId: string }) {
+  const [explanation, setExplanation] = useState<ValuationExplanation | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/auctions/${externalId}/valuation`)
+      .then((r) => r.json())
+      .then((data) => {
+        if (!cancelled) setExplanation(data.success ? data.data.valuation : null);
+      })
+      .catch(() => {
+        if (!cancelled) setExplanation(null);
+      });
+    return () => { cancelled = true; };
+  }, [externalId]);
+
+  if (explanation === undefined) {
+    return <div className="h-[160px] rounded-lg bg-secondary/20 animate-pulse" />;
+  }
+
+  if (!explanation) {
+    return <p className="text-[11px]" style={{ color: '#7a7690' }}>Not enough similar sales to explain this price.</p>;
+  }
+
+  const rows = explanation.contributions.filter((c) => c.tc !== 0);
+  const largest = Math.max(1, ...rows.map((c) => Math.abs(c.tc)));
+
+  return (
+    <div className="rounded-lg px-3 py-2.5 space-y-3" style={{ backgroundColor: '#252333', border: '1px solid #3a3848' }}>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-[10px]" title="Recency-weighted price of similar-level sales before any feature is compared">
+          <span style={{ color: '#8a8698' }}>Sales around this level</span>
+          <span className="font-semibold" style={{ color: '#d4d0e0' }}>{formatNumber(explanation.baseline)} TC</span>
+        </div>
+        {rows.map((c) => (
+          <div key={c.feature} className="flex items-center gap-2 text-[10px]">
+            <span className="w-[130px] shrink-0 truncate" style={{ color: '#8a8698' }}>{FEATURE_LABELS[c.feature] ?? c.feature}</span>
+            <div className="flex-1 h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: '#302e3a' }}>
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${(Math.abs(c.tc) / largest) * 100}%`, backgroundColor: c.tc > 0 ? '#4ade80' : '#f87171' }}
+              />
+            </div>
+            <span className="w-[70px] shrink-0 text-right font-semibold" style={{ color: c.tc > 0 ? '#4ade80' : '#f87171' }}>
+              {c.tc > 0 ? '+' : '−'}{formatNumber(Math.abs(c.tc))}
+            </span>
+          </div>
+        ))}
+        <div className="flex items-center justify-between text-[10px] pt-1" style={{ borderTop: '1px solid #3a3848' }}>
+          <span className="font-semibold" style={{ color: '#8a8698' }}>Fair price</span>
+          <span className="font-bold" style={{ color: '#4ade80' }}>~{formatNumber(explanation.estimatedValue)} TC</span>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[9px] font-semibold uppercase tracking-wider mb-1" style={{ color: '#7a7690' }}>Closest sales</p>
+        <div className="space-y-0.5">
+          {explanation.comparables.map((a) => (
+            <a
+              key={a.externalId}
+              href={a.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 rounded px-1.5 py-1 text-[10px] transition-colors hover:bg-white/5"
+              title={`Sold for ${formatNumber(a.soldPrice)} TC`}
+            >
+              <span className="flex-1 min-w-0 truncate" style={{ color: '#d4d0e0' }}>{a.characterName}</span>
+              <span className="shrink-0" style={{ color: '#7a7690' }}>Lvl {a.level}</span>
+              <span className="w-[36px] shrink-0 text-right" style={{ color: '#7a7690' }}>{a.similarity}%</span>
+              <span className="w-[70px] shrink-0 text-right font-semibold" style={{ color: '#8ac08a' }}>{formatNumber(a.adjustedPrice)} TC</span>
+              <ExternalLink className="h-2.5 w-2.5 shrink-0" style={{ color: '#4a4857' }} />
+            </a>
+          ))}
+        </div>
+        <p className="text-[8px] mt-1" style={{ color: '#4a4857' }}>
+          Prices restated in today&apos;s TC{(explanation.worldFactor ?? 1) !== 1 ? ' on this world' : ''} · model {explanation.modelVersion}
+        </p>
+      </div>
+    </div>
+  );
+}
+
 // ── Detail Modal ───────────────────────────────────────────────────────
 
 function AuctionDetailModal({
@@ -668,12 +887,16 @@ function AuctionDetailModal({
   valuation,
   onClose,
   userIsPremium = false,
+  homeWorld = '',
+  goldPerCoin = null,
 }: {
   auction: SerializedCurrentAuction;
   worldTypes: WorldTypeInfo[];
   valuation?: ValuationData;
   onClose: () => void;
   userIsPremium?: boolean;
+  homeWorld?: string;
+  goldPerCoin?: number | null;
 }) {
   const allSkills = getAllSkills(auction);
   const tags = getCharacterTags(auction);
@@ -812,6 +1035,11 @@ function AuctionDetailModal({
                   <p className="text-[8px]" style={{ color: '#4a6a4a' }}>
                     Based on {valuation.sampleSize} similar sales
                   </p>
+                  {valuation.worldFactor != null && Math.abs(valuation.worldFactor - 1) >= 0.03 && (
+                    <p className="text-[8px]" style={{ color: '#4a6a4a' }}>
+                      {auction.world} prices ×{valuation.worldFactor.toFixed(2)} vs. typical
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -829,18 +1057,44 @@ function AuctionDetailModal({
               <Crown className="h-3.5 w-3.5 shrink-0" style={{ color: '#d4a44a' }} />
             </Link>
           ) : null}
+
+          <div className="mt-2">
+            <EffectivePrice auction={auction} worldTypes={worldTypes} homeWorld={homeWorld} goldPerCoin={goldPerCoin} />
+          </div>
         </div>
 
         <div className="px-5 pb-5 space-y-4">
+          {/* Bid Timeline */}
+          <div>
+            <div className="flex items-center gap-1.5 mb-2">
+              <TrendingUp className="h-3 w-3 text-muted-foreground" />
+              <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">Bid History</p>
+            </div>
+            <BidTimeline externalId={auction.externalId} />
+          </div>
+
+          {/* Why this price — PREMIUM_GATE */}
+          {userIsPremium && (
+            <div>
+              <div className="flex items-center gap-1.5 mb-2">
+                <Info className="h-3 w-3 text-muted-foreground" />
+                <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider">Why This Price</p>
+              </div>
+              <ValuationBreakdown externalId={auction.externalId} />
+            </div>
+          )}
+
           {/* Transfer Simulator — prominent placement near top */}
           {auction.world && auction.level && (
             <div>
               <p className="text-[10px] font-semibold text-muted-foreground uppercase tracking-wider mb-2">Transfer Simulator</p>
               <TransferSimulator
+                key={homeWorld}
                 sourceWorld={auction.world}
                 characterLevel={auction.level}
                 bidPrice={auction.currentBid ?? auction.minimumBid}
                 worldTypes={worldTypes}
+                homeWorld={homeWorld}
               />
             </div>
           )}
@@ -1290,6 +1544,8 @@ function CurrentAuctionCard({
   userIsPremium = false,
   canFeature = false,
   onFeature,
+  homeWorld = '',
+  goldPerCoin = null,
 }: {
   auction: SerializedCurrentAuction;
   worldTypes: WorldTypeInfo[];
@@ -1299,6 +1555,8 @@ function CurrentAuctionCard({
   userIsPremium?: boolean;
   canFeature?: boolean;
   onFeature?: (externalId: string) => void;
+  homeWorld?: string;
+  goldPerCoin?: number | null;
 }) {
   // tick forces re-render for live countdown
   void tick;
@@ -1421,7 +1679,7 @@ function CurrentAuctionCard({
             <div
               className="flex flex-col rounded-md px-2.5 py-2"
               style={{ backgroundColor: '#1a2a1a', border: '1px solid #2a4a2a' }}
-              title={`Range: ${formatNumber(valuation.minPrice)} – ${formatNumber(valuation.maxPrice)} TC (${valuation.sampleSize} sales)${valuation.itemBonus ? `\nIncludes +${formatNumber(valuation.itemBonus)} TC for equipped items` : ''}`}
+              title={`Range: ${formatNumber(valuation.minPrice)} – ${formatNumber(valuation.maxPrice)} TC (${valuation.sampleSize} sales, model ${valuation.modelVersion})${valuation.worldFactor != null && valuation.worldFactor !== 1 ? `\n${auction.world} prices ×${valuation.worldFactor.toFixed(2)} vs. typical` : ''}${valuation.itemBonus ? `\nIncludes +${formatNumber(valuation.itemBonus)} TC for equipped items` : ''}`}
             >
               <div className="flex items-center gap-1.5">
                 <span className="text-[9px] font-medium shrink-0" style={{ color: '#5a8a5a' }}>Similar characters sold for</span>
@@ -1446,14 +1704,23 @@ function CurrentAuctionCard({
           </div>
         ) : null}
 
+        {/* Effective price on the buyer's home world */}
+        {homeWorld && homeWorld !== auction.world && (
+          <div className="px-4 pb-3">
+            <EffectivePrice auction={auction} worldTypes={worldTypes} homeWorld={homeWorld} goldPerCoin={goldPerCoin} />
+          </div>
+        )}
+
         {/* World Transfer Fee Calculator */}
         {auction.world && auction.level && (
           <div className="px-4 pb-3">
             <TransferSimulator
+              key={homeWorld}
               sourceWorld={auction.world}
               characterLevel={auction.level}
               bidPrice={auction.currentBid ?? auction.minimumBid}
               worldTypes={worldTypes}
+              homeWorld={homeWorld}
             />
           </div>
         )}
@@ -1561,6 +1828,9 @@ export function CurrentAuctionsClient({
 }: CurrentAuctionsClientProps) {
   const [search, setSearch] = useState(initialSearch);
   const [selectedWorld, setSelectedWorld] = useState('');
+  // Buyer's home world, for effective prices including the transfer
+  const [homeWorld, setHomeWorld] = useState('');
+  const [goldPerCoinInput, setGoldPerCoinInput] = useState('');
   const [selectedVocation, setSelectedVocation] = useState('');
   const [showTopOnly, setShowTopOnly] = useState(false);
   const [minLevel, setMinLevel] = useState('');
@@ -1573,6 +1843,7 @@ export function CurrentAuctionsClient({
   const [featuredIds, setFeaturedIds] = useState(featuredAuctionIds);
   const [featuringAuction, setFeaturingAuction] = useState(false);
   const tick = useCountdown();
+  const goldPerCoin = parseInt(goldPerCoinInput, 10) > 0 ? parseInt(goldPerCoinInput, 10) : null;
 
   // Build a set of featured external IDs for quick lookup
   const featuredExternalIds = useMemo(() => new Set(featuredIds.map((f) => f.auctionExternalId)), [featuredIds]);
@@ -1733,6 +2004,8 @@ export function CurrentAuctionsClient({
                       onDetails={setDetailAuction}
                       tick={tick}
                       userIsPremium={userIsPremium}
+                      homeWorld={homeWorld}
+                      goldPerCoin={goldPerCoin}
                     />
                   </div>
                   {isOwn && (
@@ -1788,6 +2061,33 @@ export function CurrentAuctionsClient({
                 ))}
               </SelectContent>
             </Select>
+            {/* Home world — prices include the transfer to it */}
+            <Select value={homeWorld || '__none__'} onValueChange={(v) => setHomeWorld(v === '__none__' ? '' : v)}>
+              <SelectTrigger className="h-9 w-[170px] text-sm" style={{ background: 'rgba(26,34,54,0.7)', border: '1px solid rgba(255,255,255,0.10)' }} title="Show what each character costs once transferred to your world">
+                <Home className="h-3.5 w-3.5 mr-1.5 shrink-0 text-muted-foreground" />
+                <SelectValue placeholder="Home world" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="__none__">No home world</SelectItem>
+                {[...worldTypes].sort((a, b) => a.worldName.localeCompare(b.worldName)).map((w) => (
+                  <SelectItem key={w.worldName} value={w.worldName}>{w.worldName} ({w.pvpType})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {homeWorld && (
+              <input
+                type="number"
+                min={1}
+                placeholder="Gold / TC"
+                title="Gold per Tibia Coin, used to include the RTC gold tax in effective prices"
+                value={goldPerCoinInput}
+                onChange={(e) => setGoldPerCoinInput(e.target.value)}
+                className="h-9 w-[100px] rounded-md px-2 text-sm placeholder:text-muted-foreground/50 focus:outline-none transition-all"
+                style={{ background: 'rgba(26,34,54,0.7)', border: '1px solid rgba(255,255,255,0.10)' }}
+                onFocus={(e) => { e.currentTarget.style.borderColor = 'rgba(245,158,11,0.5)'; e.currentTarget.style.boxShadow = '0 0 0 3px rgba(245,158,11,0.1)'; }}
+                onBlur={(e) => { e.currentTarget.style.borderColor = 'rgba(255,255,255,0.10)'; e.currentTarget.style.boxShadow = 'none'; }}
+              />
+            )}
             {/* Level range */}
             <div className="flex items-center gap-1.5">
               <span className="text-xs text-muted-foreground whitespace-nowrap">Lvl</span>
@@ -1932,13 +2232,15 @@ export function CurrentAuctionsClient({
             userIsPremium={userIsPremium}
             canFeature={userIsPremium && !userHasFeatured && !featuredExternalIds.has(auction.externalId) && !isAuctionEnded(auction.auctionEnd)}
             onFeature={featureAuction}
+            homeWorld={homeWorld}
+            goldPerCoin={goldPerCoin}
           />
         ))}
       </div>
 
       {/* Detail Modal */}
       {detailAuction && (
-        <AuctionDetailModal auction={detailAuction} worldTypes={worldTypes} valuation={valuations[detailAuction.id]} onClose={() => setDetailAuction(null)} userIsPremium={userIsPremium} />
+        <AuctionDetailModal auction={detailAuction} worldTypes={worldTypes} valuation={valuations[detailAuction.id]} onClose={() => setDetailAuction(null)} userIsPremium={userIsPremium} homeWorld={homeWorld} goldPerCoin={goldPerCoin} />
       )}
 
       {/* Empty State */}
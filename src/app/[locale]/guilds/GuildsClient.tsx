@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Search, Globe, Users, ChevronLeft, ChevronRight, Shield } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatExp } from '@/lib/utils/formatters';
+import GuildDetail from './components/GuildDetail';
+
+interface GuildSummary {
+  id: number;
+  name: string;
+  world: string;
+  members: number;
+  avgLevel: number | null;
+  expPerDay: number;
+}
+
+interface GuildList {
+  guilds: GuildSummary[];
+  totalPages: number;
+}
+
+interface GuildsClientProps {
+  worlds: string[];
+}
+
+const SORTS = ['exp', 'members', 'level', 'name'] as const;
+
+const selectClass =
+  'h-8 rounded-md border border-border/50 bg-card/50 px-2 text-xs outline-none focus:border-primary/50';
+
+export function GuildsClient({ worlds }: GuildsClientProps) {
+  const t = useTranslations('guilds');
+  const tc = useTranslations('common');
+  const searchParams = useSearchParams();
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [world, setWorld] = useState('');
+  const [sort, setSort] = useState<(typeof SORTS)[number]>('exp');
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<number | null>(() => {
+    const id = parseInt(searchParams.get('guild') ?? '', 10);
+    return Number.isNaN(id) ? null : id;
+  });
+  const [result, setResult] = useState<{ query: string; list: GuildList | null } | null>(null);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams({ sort, page: String(page), limit: '25' });
+    if (search) params.set('search', search);
+    if (world) params.set('world', world);
+    return params.toString();
+  }, [search, world, sort, page]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/guilds?${query}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (cancelled) return;
+        setResult({
+          query,
+          list: json.success ? { guilds: json.data, totalPages: json.pagination.totalPages } : null,
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ query, list: null });
+      });
+    return () => { cancelled = true; };
+  }, [query]);
+
+  const list = result?.list ?? null;
+  const loading = result?.query !== query;
+
+  function handleSearch(e: React.FormEvent) {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+        <form onSubmit={handleSearch} className="relative w-full sm:w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder={t('searchPlaceholder')}
+            className="h-9 w-full rounded-lg border border-border/50 bg-card/50 pl-9 pr-3 text-sm outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/30"
+          />
+        </form>
+        <div className="flex items-center gap-1.5">
+          <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+          <select
+            value={world}
+            onChange={(e) => { setWorld(e.target.value); setPage(1); }}
+            className={selectClass}
+          >
+            <option value="">{tc('allWorlds')}</option>
+            {worlds.map((w) => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => { setSort(e.target.value as (typeof SORTS)[number]); setPage(1); }}
+          className={selectClass}
+        >
+          {SORTS.map((s) => <option key={s} value={s}>{t(`sort.${s}`)}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-start">
+        {/* Guild list */}
+        <Card className="border-border/50 bg-card/50 overflow-hidden">
+          <CardContent className="p-0">
+            <div className={`divide-y divide-border/30 ${loading ? 'opacity-50' : ''}`}>
+              {list && list.guilds.length === 0 ? (
+                <div className="px-4 py-12 text-center text-sm text-muted-foreground">
+                  {search || world ? t('emptyFiltered') : t('emptyNoData')}
+                </div>
+              ) : (
+                list?.guilds.map((g) => (
+                  <button
+                    key={g.id}
+                    onClick={() => setSelectedId(g.id)}
+                    className={`w-full px-4 py-3 text-left transition-colors hover:bg-muted/20 ${
+                      selectedId === g.id ? 'bg-primary/10' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">{g.name}</span>
+                      <span className="text-xs font-semibold text-emerald-400 shrink-0">
+                        {t('expPerDayShort', { exp: formatExp(g.expPerDay) })}
+                      </span>
+                    </div>
+                    <div className="mt-0.5 flex items-center gap-3 text-[11px] text-muted-foreground">
+                      <span>{g.world}</span>
+                      <span className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        {g.members}
+                      </span>
+                      {g.avgLevel != null && <span>{t('avgLevelShort', { level: g.avgLevel })}</span>}
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+
+            {list && list.totalPages > 1 && (
+              <div className="flex items-center justify-between border-t border-border/50 px-4 py-3">
+                <span className="text-xs text-muted-foreground">
+                  {tc('pageOf', { page, total: list.totalPages })}
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="rounded-md p-1 text-muted-foreground hover:bg-muted/30 disabled:opacity-30"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= list.totalPages}
+                    className="rounded-md p-1 text-muted-foreground hover:bg-muted/30 disabled:opacity-30"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Selected guild */}
+        <div className="lg:col-span-2">
+          {selectedId != null ? (
+            <GuildDetail guildId={selectedId} onSelectGuild={setSelectedId} />
+          ) : (
+            <Card className="border-border/50 bg-card/50">
+              <CardContent className="py-16 text-center">
+                <Shield className="h-12 w-12 mx-auto mb-3 text-muted-foreground/40" />
+                <p className="text-sm text-muted-foreground">{t('selectGuild')}</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Users, TrendingUp, Ban, ArrowRightLeft, Swords, History, BarChart3, Zap } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Link } from '@/i18n/routing';
+import { formatExp, getVocationColor } from '@/lib/utils/formatters';
+
+interface GuildMember {
+  characterName: string;
+  rank: string | null;
+  joinedAt: string;
+  identityId: number | null;
+  level: number | null;
+  vocation: string | null;
+  expGained7d: number | null;
+}
+
+interface GuildEvent {
+  characterName: string;
+  rank: string | null;
+  type: 'joined' | 'left';
+  date: string;
+}
+
+interface GuildDashboard {
+  guild: {
+    id: number;
+    name: string;
+    world: string;
+    description: string | null;
+    foundedAt: string | null;
+    isActive: boolean;
+  };
+  members: GuildMember[];
+  history: GuildEvent[];
+  stats: {
+    memberCount: number;
+    avgLevel: number | null;
+    expPerDay: number;
+    avgExpPerMemberPerDay: number;
+    bans: { total: number; active: number };
+    transfers: { arrived: number; departed: number };
+  };
+  expByDay: { date: string; expGained: number; activeMembers: number }[];
+  levelDistribution: { range: string; count: number }[];
+  rivals: { guildId: number; name: string; kills: number; deaths: number }[];
+}
+
+interface GuildDetailProps {
+  guildId: number;
+  onSelectGuild: (id: number) => void;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatShortDate(iso: string): string {
+  return new Date(iso + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function GlassTooltip({ active, payload, label }: any) {
+  if (!active || !payload?.length) return null;
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(15, 15, 26, 0.92)',
+        backdropFilter: 'blur(12px)',
+        border: '1px solid rgba(255, 255, 255, 0.08)',
+        borderRadius: '12px',
+        padding: '10px 14px',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.5)',
+      }}
+    >
+      <p className="font-medium text-[11px] text-white/90 mb-0.5">{label}</p>
+      {payload.map((p: any, i: number) => (
+        <p key={i} className="text-[11px]" style={{ color: 'rgba(255,255,255,0.55)' }}>
+          <span style={{ color: p.color || p.fill }}>{p.name}:</span>{' '}
+          {p.dataKey === 'expGained' ? formatExp(p.value) : p.value}
+        </p>
+      ))}
+    </div>
+  );
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export default function GuildDetail({ guildId, onSelectGuild }: GuildDetailProps) {
+  const t = useTranslations('guilds');
+  const [result, setResult] = useState<{ id: number; data: GuildDashboard | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/guilds/${guildId}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled) setResult({ id: guildId, data: json.success ? json.data : null });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ id: guildId, data: null });
+      });
+    return () => { cancelled = true; };
+  }, [guildId]);
+
+  if (result?.id !== guildId) {
+    return (
+      <Card className="border-border/50 bg-card/50">
+        <CardContent className="py-16 text-center text-sm text-muted-foreground">{t('loading')}</CardContent>
+      </Card>
+    );
+  }
+  const data = result.data;
+  if (!data) {
+    return (
+      <Card className="border-border/50 bg-card/50">
+        <CardContent className="py-16 text-center text-sm text-muted-foreground">{t('notFound')}</CardContent>
+      </Card>
+    );
+  }
+
+  const { guild, stats } = data;
+  const statCards = [
+    { label: t('stats.members'), value: stats.memberCount.toLocaleString(), icon: Users, color: '#3b82f6' },
+    { label: t('stats.avgLevel'), value: stats.avgLevel?.toLocaleString() ?? '—', icon: BarChart3, color: '#f59e0b' },
+    { label: t('stats.expPerDay'), value: formatExp(stats.expPerDay), icon: TrendingUp, color: '#10b981' },
+    { label: t('stats.avgExpPerMember'), value: formatExp(stats.avgExpPerMemberPerDay), icon: Zap, color: '#a855f7' },
+    {
+      label: t('stats.bans'),
+      value: t('stats.bansValue', { total: stats.bans.total, active: stats.bans.active }),
+      icon: Ban,
+      color: '#ef4444',
+    },
+    {
+      label: t('stats.transfers'),
+      value: t('stats.transfersValue', { arrived: stats.transfers.arrived, departed: stats.transfers.departed }),
+      icon: ArrowRightLeft,
+      color: '#2dd4bf',
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <Card className="border-border/50 bg-card/50">
+        <CardContent className="p-5">
+          <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+            <h2 className="text-2xl font-bold">{guild.name}</h2>
+            <span className="text-sm text-muted-foreground">{guild.world}</span>
+            {!guild.isActive && (
+              <span className="rounded-full bg-red-500/10 px-2 py-0.5 text-xs font-medium text-red-300">
+                {t('disbanded')}
+              </span>
+            )}
+          </div>
+          {guild.foundedAt && (
+            <p className="mt-1 text-xs text-muted-foreground">{t('founded', { date: formatDate(guild.foundedAt) })}</p>
+          )}
+          {guild.description && <p className="mt-3 text-sm text-muted-foreground">{guild.description}</p>}
+        </CardContent>
+      </Card>
+
+      {/* Stat cards */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {statCards.map(({ label, value, icon: Icon, color }) => (
+          <Card key={label} className="border-border/50 bg-card/50">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 mb-1.5">
+                <Icon className="h-4 w-4" style={{ color }} />
+                <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">{label}</span>
+              </div>
+              <div className="text-xl font-bold" style={{ color }}>{value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="border-border/50 bg-card/50 overflow-hidden md:col-span-2">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <TrendingUp className="h-4 w-4 text-emerald-400" />
+              <h3 className="text-sm font-semibold">{t('charts.expPerDay')}</h3>
+            </div>
+            {data.expByDay.length > 1 ? (
+              <ResponsiveContainer width="100%" height={200}>
+                <AreaChart
+                  data={data.expByDay.map((d) => ({ ...d, label: formatShortDate(d.date) }))}
+                  margin={{ left: -10, right: 8, top: 4, bottom: 0 }}
+                >
+                  <defs>
+                    <linearGradient id="guildExpGrad" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="0%" stopColor="#10b981" stopOpacity={0.5} />
+                      <stop offset="100%" stopColor="#10b981" stopOpacity={0.05} />
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 6" stroke="rgba(255,255,255,0.04)" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.4)' }} axisLine={false} tickLine={false} />
+                  <YAxis
+                    tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.4)' }}
+                    axisLine={false}
+                    tickLine={false}
+                    width={50}
+                    tickFormatter={(v: number) => formatExp(v)}
+                  />
+                  <Tooltip content={<GlassTooltip />} />
+                  <Area type="monotone" dataKey="expGained" name={t('charts.expGained')} stroke="#10b981" fill="url(#guildExpGrad)" strokeWidth={2} />
+                  <Area type="monotone" dataKey="activeMembers" name={t('charts.activeMembers')} stroke="transparent" fill="transparent" />
+                </AreaChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="h-[200px] flex items-center justify-center text-sm text-muted-foreground">{t('charts.noExpData')}</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/50 bg-card/50 overflow-hidden">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <BarChart3 className="h-4 w-4 text-amber-400" />
+              <h3 className="text-sm font-semibold">{t('charts.levelDistribution')}</h3>
+            </div>
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={data.levelDistribution} margin={{ left: -10, right: 8, top: 4, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 6" stroke="rgba(255,255,255,0.04)" vertical={false} />
+                <XAxis dataKey="range" tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.4)' }} axisLine={false} tickLine={false} />
+                <YAxis tick={{ fontSize: 10, fill: 'rgba(255,255,255,0.4)' }} axisLine={false} tickLine={false} width={25} allowDecimals={false} />
+                <Tooltip content={<GlassTooltip />} cursor={{ fill: 'rgba(255,255,255,0.03)' }} />
+                <Bar dataKey="count" name={t('stats.members')} fill="#f59e0b" fillOpacity={0.7} radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Members */}
+      <Card className="border-border/50 bg-card/50 overflow-hidden">
+        <CardContent className="p-0">
+          <div className="flex items-center gap-2 border-b border-border/50 px-4 py-3">
+            <Users className="h-4 w-4 text-blue-400" />
+            <h3 className="text-sm font-semibold">{t('members.title', { count: data.members.length })}</h3>
+          </div>
+          <div className="max-h-[420px] overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-card">
+                <tr className="border-b border-border/50 bg-muted/30">
+                  <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('members.character')}</th>
+                  <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('members.rank')}</th>
+                  <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('members.level')}</th>
+                  <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('members.expGained7d')}</th>
+                  <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('members.joined')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.members.map((m) => (
+                  <tr key={m.characterName} className="border-b border-border/30 hover:bg-muted/20 transition-colors">
+                    <td className="px-4 py-2">
+                      <Link
+                        href={`/progression?character=${encodeURIComponent(m.characterName)}`}
+                        className="font-medium hover:text-primary"
+                      >
+                        {m.characterName}
+                      </Link>
+                      {m.vocation && (
+                        <div className="text-[11px]" style={{ color: getVocationColor(m.vocation) }}>{m.vocation}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-muted-foreground">{m.rank ?? '—'}</td>
+                    <td className="px-4 py-2 text-right tabular-nums">{m.level ?? '—'}</td>
+                    <td className="px-4 py-2 text-right tabular-nums text-emerald-400">
+                      {m.expGained7d != null ? formatExp(m.expGained7d) : '—'}
+                    </td>
+                    <td className="px-4 py-2 text-muted-foreground">{formatDate(m.joinedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Rivals */}
+        <Card className="border-border/50 bg-card/50 overflow-hidden">
+          <CardContent className="p-0">
+            <div className="flex items-center gap-2 border-b border-border/50 px-4 py-3">
+              <Swords className="h-4 w-4 text-red-400" />
+              <h3 className="text-sm font-semibold">{t('rivals.title')}</h3>
+            </div>
+            {data.rivals.length === 0 ? (
+              <div className="px-4 py-10 text-center text-sm text-muted-foreground">{t('rivals.empty')}</div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border/50 bg-muted/30">
+                    <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('rivals.guild')}</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('rivals.kills')}</th>
+                    <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('rivals.deaths')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.rivals.map((r) => (
+                    <tr key={r.guildId} className="border-b border-border/30 hover:bg-muted/20 transition-colors">
+                      <td className="px-4 py-2">
+                        <button onClick={() => onSelectGuild(r.guildId)} className="font-medium hover:text-primary">
+                          {r.name}
+                        </button>
+                      </td>
+                      <td className="px-4 py-2 text-right tabular-nums font-semibold text-emerald-400">{r.kills}</td>
+                      <td className="px-4 py-2 text-right tabular-nums font-semibold text-rose-400">{r.deaths}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Membership history */}
+        <Card className="border-border/50 bg-card/50 overflow-hidden">
+          <CardContent className="p-0">
+            <div className="flex items-center gap-2 border-b border-border/50 px-4 py-3">
+              <History className="h-4 w-4 text-purple-400" />
+              <h3 className="text-sm font-semibold">{t('history.title')}</h3>
+            </div>
+            <div className="max-h-[360px] overflow-auto divide-y divide-border/30">
+              {data.history.map((e, i) => (
+                <div key={`${e.characterName}-${e.type}-${i}`} className="flex items-center justify-between gap-2 px-4 py-2 text-sm">
+                  <span className="truncate">
+                    <span className="font-medium">{e.characterName}</span>{' '}
+                    <span className={e.type === 'joined' ? 'text-emerald-400' : 'text-rose-400'}>
+                      {t(`history.${e.type}`)}
+                    </span>
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0">{formatDate(e.date)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
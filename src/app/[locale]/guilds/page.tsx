@@ -0,0 +1,48 @@
+import { Suspense } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import prisma from '@/lib/db/prisma';
+import { GuildsClient } from './GuildsClient';
+
+export const dynamic = 'force-dynamic';
+
+async function GuildsContent() {
+  const worlds = await prisma.guild.findMany({
+    where: { isActive: true },
+    distinct: ['world'],
+    select: { world: true },
+    orderBy: { world: 'asc' },
+  });
+
+  return <GuildsClient worlds={worlds.map((w) => w.world)} />;
+}
+
+function GuildsSkeleton() {
+  return (
+    <div className="space-y-4">
+      <Skeleton className="h-10 w-full" />
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Skeleton className="h-[600px]" />
+        <Skeleton className="h-[600px] lg:col-span-2" />
+      </div>
+    </div>
+  );
+}
+
+export default async function GuildsPage() {
+  const { getTranslations } = await import('next-intl/server');
+  const t = await getTranslations('guilds');
+
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      <div>
+        <h1 className="text-3xl font-bold">{t('heading')}</h1>
+        <p className="text-xs text-muted-foreground/60 mt-1">
+          {t('subheading')}
+        </p>
+      </div>
+      <Suspense fallback={<GuildsSkeleton />}>
+        <GuildsContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { CalendarDays, Globe, Shield, Trophy, ArrowUpDown } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Link } from '@/i18n/routing';
+import { DAILY_CATEGORIES, DAILY_PROFESSIONS } from '@/lib/utils/constants';
+
+interface HighscoreRow {
+  characterName: string;
+  world: string;
+  vocation: string;
+  level: number;
+  rank: number;
+  score: number;
+  capturedDate: string;
+  previousRank?: number | null;
+  scoreChange?: number | null;
+  rankChange?: number | null;
+}
+
+interface HighscoresPage {
+  rows: HighscoreRow[];
+  nextCursor: string | null;
+  date: string | null;
+  from: string | null;
+  to: string | null;
+}
+
+interface HighscoresClientProps {
+  worlds: string[];
+}
+
+type Mode = 'list' | 'diff';
+
+const DIFF_SORTS = ['rank', 'scoreChange', 'rankChange'] as const;
+
+const selectClass =
+  'h-8 rounded-md border border-border/50 bg-card/50 px-2 text-xs outline-none focus:border-primary/50';
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function formatChange(value: number): string {
+  return value > 0 ? `+${value.toLocaleString()}` : value.toLocaleString();
+}
+
+function changeColor(value: number | null | undefined): string {
+  if (!value) return 'text-muted-foreground';
+  return value > 0 ? 'text-emerald-400' : 'text-rose-400';
+}
+
+function toPage(json: { data: HighscoreRow[]; date?: string | null; from?: string | null; to?: string | null; pagination: { nextCursor: string | null } }): HighscoresPage {
+  return {
+    rows: json.data,
+    nextCursor: json.pagination.nextCursor,
+    date: json.date ?? null,
+    from: json.from ?? null,
+    to: json.to ?? null,
+  };
+}
+
+export function HighscoresClient({ worlds }: HighscoresClientProps) {
+  const t = useTranslations('highscores');
+  const tc = useTranslations('common');
+  const [mode, setMode] = useState<Mode>('list');
+  const [category, setCategory] = useState<string>('Experience Points');
+  const [world, setWorld] = useState('');
+  const [profession, setProfession] = useState('');
+  const [date, setDate] = useState('');
+  const [from, setFrom] = useState('');
+  const [sort, setSort] = useState<(typeof DIFF_SORTS)[number]>('rank');
+  const [result, setResult] = useState<{ query: string; page: HighscoresPage | null } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams({ category, limit: '50' });
+    if (world) params.set('world', world);
+    if (profession) params.set('profession', profession);
+    if (mode === 'diff') {
+      params.set('mode', 'diff');
+      params.set('sort', sort);
+      if (from) params.set('from', from);
+      if (date) params.set('to', date);
+    } else if (date) {
+      params.set('date', date);
+    }
+    return params.toString();
+  }, [mode, category, world, profession, date, from, sort]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/highscores?${query}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled) setResult({ query, page: json.success ? toPage(json) : null });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ query, page: null });
+      });
+    return () => { cancelled = true; };
+  }, [query]);
+
+  const page = result?.page ?? null;
+  const loading = result?.query !== query;
+
+  async function loadMore() {
+    if (!page?.nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/highscores?${query}&cursor=${encodeURIComponent(page.nextCursor)}`);
+      const json = await res.json();
+      if (json.success) {
+        const next = toPage(json);
+        setResult((prev) => prev?.query === query && prev.page
+          ? { query, page: { ...prev.page, rows: [...prev.page.rows, ...next.rows], nextCursor: next.nextCursor } }
+          : prev);
+      }
+    } catch (error) {
+      console.error('Failed to load more highscores:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  const isDiff = mode === 'diff';
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-1">
+          {(['list', 'diff'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`h-8 rounded-md px-2.5 text-xs font-medium transition-colors ${
+                mode === m
+                  ? 'bg-primary text-primary-foreground'
+                  : 'border border-border/50 bg-card/50 text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {t(`mode.${m}`)}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Trophy className="h-3.5 w-3.5 text-muted-foreground" />
+          <select value={category} onChange={(e) => setCategory(e.target.value)} className={selectClass}>
+            {DAILY_CATEGORIES.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+          <select value={world} onChange={(e) => setWorld(e.target.value)} className={selectClass}>
+            <option value="">{tc('allWorlds')}</option>
+            {worlds.map((w) => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Shield className="h-3.5 w-3.5 text-muted-foreground" />
+          <select value={profession} onChange={(e) => setProfession(e.target.value)} className={selectClass}>
+            <option value="">{t('allProfessions')}</option>
+            {DAILY_PROFESSIONS.map((p) => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <CalendarDays className="h-3.5 w-3.5 text-muted-foreground" />
+          {isDiff && (
+            <>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                title={t('fromDate')}
+                className={selectClass}
+              />
+              <span className="text-xs text-muted-foreground">→</span>
+            </>
+          )}
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            title={isDiff ? t('toDate') : t('asOfDate')}
+            className={selectClass}
+          />
+        </div>
+        {isDiff && (
+          <div className="flex items-center gap-1.5">
+            <ArrowUpDown className="h-3.5 w-3.5 text-muted-foreground" />
+            <select value={sort} onChange={(e) => setSort(e.target.value as (typeof DIFF_SORTS)[number])} className={selectClass}>
+              {DIFF_SORTS.map((s) => <option key={s} value={s}>{t(`sort.${s}`)}</option>)}
+            </select>
+          </div>
+        )}
+        {page && (
+          <div className="ml-auto text-xs text-muted-foreground">
+            {isDiff
+              ? page.from && page.to && t('comparing', { from: formatDate(page.from), to: formatDate(page.to) })
+              : page.date && t('capturedOn', { date: formatDate(page.date) })}
+          </div>
+        )}
+      </div>
+
+      <Card className="border-border/50 bg-card/50 overflow-hidden">
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border/50 bg-muted/30">
+                  <th className="px-4 py-2.5 text-right font-medium text-muted-foreground w-16">{t('table.rank')}</th>
+                  <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('table.character')}</th>
+                  <th className="px-4 py-2.5 text-left font-medium text-muted-foreground">{t('table.world')}</th>
+                  <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('table.score')}</th>
+                  {isDiff && (
+                    <>
+                      <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('table.scoreChange')}</th>
+                      <th className="px-4 py-2.5 text-right font-medium text-muted-foreground">{t('table.rankChange')}</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody className={loading ? 'opacity-50' : ''}>
+                {page && page.rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={isDiff ? 6 : 4} className="px-4 py-12 text-center text-muted-foreground">
+                      {t('table.empty')}
+                    </td>
+                  </tr>
+                ) : (
+                  page?.rows.map((r) => (
+                    <tr
+                      key={`${r.capturedDate}-${r.world}-${r.characterName}`}
+                      className="border-b border-border/30 hover:bg-muted/20 transition-colors"
+                    >
+                      <td className="px-4 py-2.5 text-right font-semibold tabular-nums">#{r.rank}</td>
+                      <td className="px-4 py-2.5">
+                        <Link
+                          href={`/progression?character=${encodeURIComponent(r.characterName)}`}
+                          className="font-medium hover:text-primary"
+                        >
+                          {r.characterName}
+                        </Link>
+                        <div className="text-[11px] text-muted-foreground">
+                          {t('table.levelVocation', { level: r.level, vocation: r.vocation })}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2.5 text-muted-foreground">{r.world}</td>
+                      <td className="px-4 py-2.5 text-right tabular-nums">{r.score.toLocaleString()}</td>
+                      {isDiff && (
+                        <>
+                          <td className={`px-4 py-2.5 text-right tabular-nums font-semibold ${changeColor(r.scoreChange)}`}>
+                            {r.scoreChange != null ? formatChange(r.scoreChange) : t('table.new')}
+                          </td>
+                          <td className={`px-4 py-2.5 text-right tabular-nums font-semibold ${changeColor(r.rankChange)}`}>
+                            {r.rankChange != null ? formatChange(r.rankChange) : '—'}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {page?.nextCursor && !loading && (
+            <div className="border-t border-border/50 px-4 py-3 text-center">
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="rounded-md border border-border/50 bg-card/50 px-4 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground disabled:opacity-50"
+              >
+                {loadingMore ? tc('loading') : t('loadMore')}
+              </button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
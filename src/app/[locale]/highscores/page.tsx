@@ -0,0 +1,44 @@
+import { Suspense } from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import prisma from '@/lib/db/prisma';
+import { HighscoresClient } from './HighscoresClient';
+
+export const dynamic = 'force-dynamic';
+
+async function HighscoresContent() {
+  const worlds = await prisma.world.findMany({
+    where: { isActive: true },
+    select: { name: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return <HighscoresClient worlds={worlds.map((w) => w.name)} />;
+}
+
+function HighscoresSkeleton() {
+  return (
+    <div className="space-y-4">
+      <Skeleton className="h-10 w-full" />
+      <Skeleton className="h-[600px]" />
+    </div>
+  );
+}
+
+export default async function HighscoresPage() {
+  const { getTranslations } = await import('next-intl/server');
+  const t = await getTranslations('highscores');
+
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      <div>
+        <h1 className="text-3xl font-bold">{t('heading')}</h1>
+        <p className="text-xs text-muted-foreground/60 mt-1">
+          {t('subheading')}
+        </p>
+      </div>
+      <Suspense fallback={<HighscoresSkeleton />}>
+        <HighscoresContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -8,20 +8,23 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { TrendingUp, TrendingDown, Minus, Search, Trophy, Zap, Calendar, Star, X, GitCompareArrows } from 'lucide-react';
 import { formatExp, getVocationColor } from '@/lib/utils/formatters';
+import type { LevelProjection } from '@/lib/utils/experience';
 import { trackSearch } from '@/components/analytics/AnalyticsTracker';
 import { format } from 'date-fns';
 import ExpChart from './components/ExpChart';
 import SkillChart from './components/SkillChart';
+import RankChart from './components/RankChart';
 import TrainingHeatmap from './components/TrainingHeatmap';
 import SkillGrid from './components/SkillGrid';
 import { VocationComparison } from './components/VocationComparison';
 import MilestonesFeed from './components/MilestonesFeed';
 import { SessionCalculator } from './components/SessionCalculator';
 import WorldLeaders from './components/WorldLeaders';
-import CompareView from './components/CompareView';
+import CompareView, { MAX_COMPARED } from './components/CompareView';
 import ValuationCard from './components/ValuationCard';
 
 interface SearchResult {
+  identityId: number;
   name: string;
   world: string;
   vocation: string;
@@ -37,6 +40,10 @@ interface APIResponse {
       vocation: string | null;
       world: { name: string };
     };
+    identity: {
+      id: number;
+      aliases: Array<{ name: string; world: string; firstSeen: string; lastSeen: string }>;
+    };
     snapshots: Array<{
       capturedDate: string;
       level: number | null;
@@ -65,7 +72,6 @@ interface APIResponse {
       expGained: number | null;
       levelsGained: number | null;
     }>;
-    highscores: any[];
     vocationAverages: {
       vocation: string;
       levelRange?: string;
@@ -112,6 +118,7 @@ interface APIResponse {
       skill?: string;
       category?: string;
     }>;
+    projection: LevelProjection | null;
     estimatedExp?: boolean;
   };
 }
@@ -152,6 +159,11 @@ function persistSaved(chars: SavedCharacter[]) {
   localStorage.setItem(SAVED_KEY, JSON.stringify(chars.slice(0, MAX_SAVED)));
 }
 
+// Search results carry the identity, so a reused name opens the character picked
+function progressionQuery(characterName: string, identityId?: number): string {
+  return identityId ? `identityId=${identityId}` : `characterName=${encodeURIComponent(characterName)}`;
+}
+
 export default function ProgressionClient() {
   const searchParams = useSearchParams();
   const t = useTranslations('progression');
@@ -170,7 +182,7 @@ export default function ProgressionClient() {
   // Compare feature state
   const [compareQuery, setCompareQuery] = useState('');
   const [compareResults, setCompareResults] = useState<SearchResult[]>([]);
-  const [compareData, setCompareData] = useState<APIResponse['data'] | null>(null);
+  const [compareList, setCompareList] = useState<APIResponse['data'][]>([]);
   const [compareLoading, setCompareLoading] = useState(false);
   const [compareSearchLoading, setCompareSearchLoading] = useState(false);
   const [showCompareDropdown, setShowCompareDropdown] = useState(false);
@@ -185,6 +197,10 @@ export default function ProgressionClient() {
     setSavedCharacters(loadSaved());
   }, []);
 
+  const formerNames = data
+    ? [...new Set(data.identity.aliases.map((a) => a.name))].filter((n) => n !== data.character.name)
+    : [];
+
   const isSaved = data
     ? savedCharacters.some((c) => c.name.toLowerCase() === data.character.name.toLowerCase())
     : false;
@@ -209,7 +225,7 @@ export default function ProgressionClient() {
     });
   }, []);
 
-  const selectCharacter = useCallback(async (characterName: string) => {
+  const selectCharacter = useCallback(async (characterName: string, identityId?: number) => {
     trackSearch(characterName, '/progression');
     setSelectedCharacter(characterName);
     setSearchQuery(characterName);
@@ -217,7 +233,7 @@ export default function ProgressionClient() {
     setLoading(true);
 
     try {
-      const res = await fetch(`/api/progression?characterName=${encodeURIComponent(characterName)}`);
+      const res = await fetch(`/api/progression?${progressionQuery(characterName, identityId)}`);
       if (res.ok) {
         const json: APIResponse = await res.json();
         if (json.success) {
@@ -231,17 +247,21 @@ export default function ProgressionClient() {
     }
   }, []);
 
-  const selectCompareCharacter = useCallback(async (characterName: string) => {
-    setCompareQuery(characterName);
+  const selectCompareCharacter = useCallback(async (characterName: string, identityId?: number) => {
+    setCompareQuery('');
     setShowCompareDropdown(false);
     setCompareLoading(true);
 
     try {
-      const res = await fetch(`/api/progression?characterName=${encodeURIComponent(characterName)}`);
+      const res = await fetch(`/api/progression?${progressionQuery(characterName, identityId)}`);
       if (res.ok) {
         const json: APIResponse = await res.json();
         if (json.success) {
-          setCompareData(json.data);
+          setCompareList((list) =>
+            list.some((c) => c.identity.id === json.data.identity.id)
+              ? list
+              : [...list, json.data].slice(0, MAX_COMPARED - 1),
+          );
         }
       }
     } catch (error) {
@@ -252,11 +272,15 @@ export default function ProgressionClient() {
   }, []);
 
   const clearCompare = useCallback(() => {
-    setCompareData(null);
+    setCompareList([]);
     setCompareQuery('');
     setShowCompareSearch(false);
   }, []);
 
+  const removeCompare = useCallback((identityId: number) => {
+    setCompareList((list) => list.filter((c) => c.identity.id !== identityId));
+  }, []);
+
   // Auto-load character from URL search params (e.g. ?character=Super+Bonk+Lee)
   useEffect(() => {
     const charParam = searchParams.get('character');
@@ -326,10 +350,6 @@ export default function ProgressionClient() {
       return;
     }
 
-    if (compareData && compareQuery.toLowerCase() === compareData.character.name.toLowerCase()) {
-      return;
-    }
-
     if (compareTimeout.current) {
       clearTimeout(compareTimeout.current);
     }
@@ -340,7 +360,8 @@ export default function ProgressionClient() {
         const res = await fetch(`/api/progression?q=${encodeURIComponent(compareQuery)}`);
         if (res.ok) {
           const json = await res.json();
-          setCompareResults((json.data || []).filter((r: SearchResult) => r.name !== selectedCharacter));
+          setCompareResults((json.data || []).filter((r: SearchResult) =>
+            r.name !== selectedCharacter && !compareList.some((c) => c.identity.id === r.identityId)));
           setShowCompareDropdown(true);
         }
       } catch (error) {
@@ -355,7 +376,7 @@ export default function ProgressionClient() {
         clearTimeout(compareTimeout.current);
       }
     };
-  }, [compareQuery, compareData, selectedCharacter]);
+  }, [compareQuery, compareList, selectedCharacter]);
 
   // Close compare dropdown on outside click
   useEffect(() => {
@@ -373,7 +394,7 @@ export default function ProgressionClient() {
   const computed = useMemo(() => {
     if (!data) return null;
 
-    const { kpis, snapshots } = data;
+    const { kpis } = data;
     // EXP change percent
     const expChangePercent = kpis.expGainedLastMonth > 0
       ? ((kpis.expGainedThisMonth - kpis.expGainedLastMonth) / kpis.expGainedLastMonth) * 100
@@ -384,16 +405,9 @@ export default function ProgressionClient() {
       : kpis.levelsGainedThisMonth < 0 ? 'down' as const
       : 'neutral' as const;
 
-    // Avg daily/weekly exp
-    const totalExp = snapshots.reduce((sum, s) => sum + (s.expGained || 0), 0);
-    const avgDailyExp = snapshots.length > 0 ? totalExp / snapshots.length : 0;
-    const avgWeeklyExp = avgDailyExp * 7;
-
     return {
       expChangePercent,
       levelsDir,
-      avgDailyExp,
-      avgWeeklyExp,
     };
   }, [data]);
 
@@ -500,8 +514,8 @@ export default function ProgressionClient() {
                   >
                     {searchResults.map((result) => (
                       <button
-                        key={`${result.name}-${result.world}`}
-                        onClick={() => selectCharacter(result.name)}
+                        key={result.identityId}
+                        onClick={() => selectCharacter(result.name, result.identityId)}
                         className="w-full rounded-lg px-3 py-2.5 text-left hover:bg-amber-500/10 transition-colors"
                       >
                         <div className="font-medium">{result.name}</div>
@@ -580,8 +594,8 @@ export default function ProgressionClient() {
                 <CardContent className="p-2">
                   {searchResults.map((result) => (
                     <button
-                      key={`${result.name}-${result.world}`}
-                      onClick={() => selectCharacter(result.name)}
+                      key={result.identityId}
+                      onClick={() => selectCharacter(result.name, result.identityId)}
                       className="w-full rounded-md px-3 py-2 text-left hover:bg-accent/50 transition-colors"
                     >
                       <div className="font-medium">{result.name}</div>
@@ -647,6 +661,11 @@ export default function ProgressionClient() {
                 {data.character.vocation}
               </Badge>
             )}
+            {formerNames.length > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {t('formerNames', { names: formerNames.join(', ') })}
+              </span>
+            )}
             <button
               onClick={toggleSave}
               title={isSaved ? t('saved.unsave') : t('saved.save')}
@@ -658,7 +677,7 @@ export default function ProgressionClient() {
               />
             </button>
             <div className="ml-auto flex items-center gap-2">
-              {!showCompareSearch && !compareData && (
+              {!showCompareSearch && compareList.length < MAX_COMPARED - 1 && (
                 <button
                   onClick={() => setShowCompareSearch(true)}
                   className="flex items-center gap-1.5 rounded-full bg-secondary/50 px-3 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:bg-secondary hover:text-foreground"
@@ -667,20 +686,20 @@ export default function ProgressionClient() {
                   {t('compareButton')}
                 </button>
               )}
-              {(showCompareSearch || compareData) && !compareLoading && (
+              {(showCompareSearch || compareList.length > 0) && !compareLoading && (
                 <button
                   onClick={clearCompare}
                   className="flex items-center gap-1 rounded-full bg-red-500/10 px-3 py-1.5 text-xs font-medium text-red-400 transition-colors hover:bg-red-500/20"
                 >
                   <X size={14} />
-                  {compareData ? t('removeComparison') : tc('cancel')}
+                  {compareList.length > 0 ? t('removeComparison') : tc('cancel')}
                 </button>
               )}
             </div>
           </div>
 
           {/* Compare Search */}
-          {showCompareSearch && !compareData && (
+          {showCompareSearch && compareList.length < MAX_COMPARED - 1 && (
             <div className="relative max-w-sm" ref={compareDropdownRef}>
               <div className="relative">
                 <GitCompareArrows className="absolute left-3 top-1/2 -translate-y-1/2 text-amber-400" size={16} />
@@ -703,8 +722,8 @@ export default function ProgressionClient() {
                   <CardContent className="p-2">
                     {compareResults.map((result) => (
                       <button
-                        key={`${result.name}-${result.world}`}
-                        onClick={() => selectCompareCharacter(result.name)}
+                        key={result.identityId}
+                        onClick={() => selectCompareCharacter(result.name, result.identityId)}
                         className="w-full rounded-md px-3 py-2 text-left hover:bg-accent/50 transition-colors"
                       >
                         <div className="font-medium text-sm">{result.name}</div>
@@ -818,28 +837,27 @@ export default function ProgressionClient() {
           </div>
 
           {/* Character Valuation (Premium) */}
-          <ValuationCard characterName={data.character.name} />
+          <ValuationCard characterName={data.character.name} identityId={data.identity.id} />
 
           {/* Compare View (if comparing) */}
-          {compareData && (
-            <CompareView
-              primary={{ character: data.character, snapshots: data.snapshots, kpis: data.kpis }}
-              compare={{ character: compareData.character, snapshots: compareData.snapshots, kpis: compareData.kpis }}
-            />
+          {compareList.length > 0 && (
+            <CompareView characters={[data, ...compareList]} onRemove={removeCompare} />
           )}
 
           {/* EXP Chart + Pace Calculator */}
           <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
             <ExpChart
               snapshots={data.snapshots}
-              compareSnapshots={compareData?.snapshots}
-              compareName={compareData?.character.name}
+              compareSnapshots={compareList.length === 1 ? compareList[0].snapshots : undefined}
+              compareName={compareList.length === 1 ? compareList[0].character.name : undefined}
+              characterName={data.character.name}
+              identityId={data.identity.id}
             />
             <SessionCalculator
               currentLevel={data.kpis.currentLevel}
               currentExp={data.snapshots.length > 0 ? data.snapshots[data.snapshots.length - 1].experience : null}
-              avgDailyExp={computed.avgDailyExp}
-              avgWeeklyExp={computed.avgWeeklyExp}
+              snapshots={data.snapshots}
+              defaultProjection={data.projection}
             />
           </div>
 
@@ -849,8 +867,11 @@ export default function ProgressionClient() {
             vocation={data.character.vocation || 'None'}
           />
 
+          {/* Rank History — every highscore category */}
+          <RankChart identityId={data.identity.id} />
+
           {/* EXP Heatmap */}
-          <TrainingHeatmap snapshots={data.snapshots} />
+          <TrainingHeatmap snapshots={data.snapshots} identityId={data.identity.id} />
 
           {/* Skills Overview: Grid + Vocation Comparison */}
           <div className="grid gap-4 lg:grid-cols-2">
@@ -1,11 +1,21 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Trophy, Zap, Star, Calendar } from 'lucide-react';
-import { formatExp, formatNumber, getVocationColor } from '@/lib/utils/formatters';
-import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import { formatExp } from '@/lib/utils/formatters';
 import TrainingHeatmap from './TrainingHeatmap';
 
 interface CharacterData {
@@ -14,6 +24,7 @@ interface CharacterData {
     vocation: string | null;
     world: { name: string };
   };
+  identity: { id: number };
   snapshots: Array<{
     capturedDate: string;
     level: number | null;
@@ -41,192 +52,288 @@ interface CharacterData {
 }
 
 interface CompareViewProps {
-  primary: CharacterData;
-  compare: CharacterData;
+  /** The character being viewed first, then everyone compared against it */
+  characters: CharacterData[];
+  onRemove?: (identityId: number) => void;
 }
 
-function CompareKPI({
-  label,
-  icon: Icon,
-  primaryValue,
-  compareValue,
-  primaryName,
-  compareName,
-  format: fmt,
-}: {
-  label: string;
-  icon: React.ElementType;
-  primaryValue: number;
-  compareValue: number;
-  primaryName: string;
-  compareName: string;
-  format: (v: number) => string;
-}) {
-  const primaryWins = primaryValue > compareValue;
-  const tie = primaryValue === compareValue;
+type Alignment = 'calendar' | 'level';
+type Metric = 'expPerDay' | 'magicLevel' | 'fist' | 'club' | 'sword' | 'axe' | 'distance' | 'shielding';
+type Snapshot = CharacterData['snapshots'][number];
 
+/** Up to 10 characters are compared, one colour each */
+export const MAX_COMPARED = 10;
+
+const COMPARE_COLORS = [
+  '#8b5cf6', '#FFBE0B', '#10b981', '#ef4444', '#3b82f6',
+  '#ec4899', '#f97316', '#2dd4bf', '#a3e635', '#94a3b8',
+];
+
+const METRICS: Metric[] = ['expPerDay', 'magicLevel', 'fist', 'club', 'sword', 'axe', 'distance', 'shielding'];
+
+const SKILLS = ['magicLevel', 'fist', 'club', 'sword', 'axe', 'distance', 'shielding', 'fishing'] as const;
+
+const DAY_MS = 86_400_000;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * One series per character. On the calendar, x is the snapshot day; aligned
+ * by level, x is the level the character was at, so characters are compared
+ * at the same stage of their progression rather than the same date.
+ */
+function buildSeries(snapshots: Snapshot[], metric: Metric, alignment: Alignment): Point[] {
+  if (metric !== 'expPerDay') {
+    const byX = new Map<number, number>();
+    for (const s of snapshots) {
+      const value = s[metric];
+      if (value == null) continue;
+      const x = alignment === 'calendar' ? new Date(s.capturedDate).getTime() : s.level;
+      if (x == null) continue;
+      // Skills only go up, so the highest reading at a level is where it ended
+      byX.set(x, Math.max(byX.get(x) ?? 0, value));
+    }
+    return [...byX].map(([x, y]) => ({ x, y })).sort((a, b) => a.x - b.x);
+  }
+
+  // Exp per day: a gain after a gap in the highscores is spread over the gap,
+  // and in level mode counts towards the level the character was hunting at
+  const totals = new Map<number, { exp: number; days: number }>();
+  for (let i = 1; i < snapshots.length; i++) {
+    const prev = snapshots[i - 1];
+    const cur = snapshots[i];
+    const days = Math.max(1, Math.round(
+      (new Date(cur.capturedDate).getTime() - new Date(prev.capturedDate).getTime()) / DAY_MS,
+    ));
+    const x = alignment === 'calendar' ? new Date(cur.capturedDate).getTime() : prev.level;
+    if (x == null) continue;
+    const entry = totals.get(x) ?? { exp: 0, days: 0 };
+    entry.exp += cur.expGained ?? 0;
+    entry.days += days;
+    totals.set(x, entry);
+  }
+  return [...totals]
+    .map(([x, t]) => ({ x, y: Math.round(t.exp / t.days) }))
+    .sort((a, b) => a.x - b.x);
+}
+
+function formatX(x: number, alignment: Alignment): string {
+  return alignment === 'calendar'
+    ? new Date(x).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+    : `Lv ${x}`;
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function CompareTooltip({ active, payload, alignment, metric }: any) {
+  if (!active || !payload?.length) return null;
   return (
-    <Card className="border-border/50 bg-card/50 backdrop-blur">
-      <CardHeader className="pb-2">
-        <CardTitle className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
-          <Icon size={16} className="text-primary" />
-          {label}
-        </CardTitle>
-      </CardHeader>
-      <CardContent className="space-y-2">
-        <div className="flex items-center justify-between">
-          <span className="text-sm font-medium truncate max-w-[120px]">{primaryName}</span>
-          <span className={`text-lg font-bold ${!tie && primaryWins ? 'text-emerald-400' : ''}`}>
-            {fmt(primaryValue)}
-          </span>
-        </div>
-        <div className="flex items-center justify-between">
-          <span className="text-sm font-medium truncate max-w-[120px] text-muted-foreground">{compareName}</span>
-          <span className={`text-lg font-bold ${!tie && !primaryWins ? 'text-emerald-400' : ''}`}>
-            {fmt(compareValue)}
-          </span>
-        </div>
-        {/* Visual bar */}
-        {(primaryValue > 0 || compareValue > 0) && (
-          <div className="flex gap-1 h-2 rounded-full overflow-hidden bg-secondary">
-            <div
-              className="bg-primary rounded-l-full"
-              style={{ width: `${primaryValue + compareValue > 0 ? (primaryValue / (primaryValue + compareValue)) * 100 : 50}%` }}
-            />
-            <div
-              className="bg-amber-500 rounded-r-full"
-              style={{ width: `${primaryValue + compareValue > 0 ? (compareValue / (primaryValue + compareValue)) * 100 : 50}%` }}
-            />
-          </div>
-        )}
-      </CardContent>
-    </Card>
+    <div
+      style={{
+        backgroundColor: 'rgba(15, 15, 26, 0.92)',
+        backdropFilter: 'blur(12px)',
+        border: '1px solid rgba(255, 255, 255, 0.08)',
+        borderRadius: '12px',
+        padding: '10px 14px',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.5)',
+      }}
+    >
+      <p className="mb-0.5 text-[11px] font-medium text-white/90">{formatX(payload[0].payload.x, alignment)}</p>
+      {payload.map((p: any) => (
+        <p key={p.name} className="text-[11px]" style={{ color: 'rgba(255,255,255,0.55)' }}>
+          <span style={{ color: p.color }}>{p.name}:</span>{' '}
+          <span className="font-semibold text-white/90">{metric === 'expPerDay' ? formatExp(p.value) : p.value}</span>
+        </p>
+      ))}
+    </div>
   );
 }
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export default function CompareView({ characters, onRemove }: CompareViewProps) {
+  const t = useTranslations('progression.compare');
+  const [alignment, setAlignment] = useState<Alignment>('calendar');
+  const [metric, setMetric] = useState<Metric>('expPerDay');
+
+  // One row per x, with a column per character, so the tooltip lines up every series
+  const { chartData, hasSeries } = useMemo(() => {
+    const series = characters.map((c) => buildSeries(c.snapshots, metric, alignment));
+    const rows = new Map<number, Record<string, number>>();
+    series.forEach((points, i) => {
+      for (const p of points) {
+        const row = rows.get(p.x) ?? { x: p.x };
+        row[`c${i}`] = p.y;
+        rows.set(p.x, row);
+      }
+    });
+    return {
+      chartData: [...rows.values()].sort((a, b) => a.x - b.x),
+      hasSeries: series.some((points) => points.length > 1),
+    };
+  }, [characters, metric, alignment]);
 
-export default function CompareView({ primary, compare }: CompareViewProps) {
   const skillComparison = useMemo(() => {
-    const pSnap = primary.snapshots.length > 0 ? primary.snapshots[primary.snapshots.length - 1] : null;
-    const cSnap = compare.snapshots.length > 0 ? compare.snapshots[compare.snapshots.length - 1] : null;
-    if (!pSnap || !cSnap) return [];
-
-    const skills = [
-      { key: 'magicLevel', label: 'Magic Level' },
-      { key: 'fist', label: 'Fist' },
-      { key: 'club', label: 'Club' },
-      { key: 'sword', label: 'Sword' },
-      { key: 'axe', label: 'Axe' },
-      { key: 'distance', label: 'Distance' },
-      { key: 'shielding', label: 'Shielding' },
-      { key: 'fishing', label: 'Fishing' },
-    ] as const;
-
-    return skills
-      .map((s) => ({
-        label: s.label,
-        primary: (pSnap as any)[s.key] as number | null,
-        compare: (cSnap as any)[s.key] as number | null,
-      }))
-      .filter((s) => s.primary !== null || s.compare !== null);
-  }, [primary.snapshots, compare.snapshots]);
+    const latest = characters.map((c) => (c.snapshots.length > 0 ? c.snapshots[c.snapshots.length - 1] : null));
+    return SKILLS
+      .map((key) => ({ key, values: latest.map((s) => s?.[key] ?? null) }))
+      .filter((row) => row.values.some((v) => v !== null));
+  }, [characters]);
+
+  const kpiRows: { label: string; values: number[]; format: (v: number) => string }[] = [
+    { label: t('currentLevel'), values: characters.map((c) => c.kpis.currentLevel), format: (v) => String(v) },
+    { label: t('expThisMonth'), values: characters.map((c) => c.kpis.expGainedThisMonth), format: (v) => formatExp(v) },
+    { label: t('bestDayExp'), values: characters.map((c) => c.kpis.bestDayEver.expGained), format: (v) => (v > 0 ? formatExp(v) : '—') },
+    { label: t('bestWeekExp'), values: characters.map((c) => c.kpis.bestWeekEver.expGained), format: (v) => (v > 0 ? formatExp(v) : '—') },
+  ];
 
   return (
     <div className="space-y-6">
-      {/* Character header badges */}
-      <div className="flex flex-wrap items-center gap-3">
-        <Badge className="text-sm px-3 py-1" style={{ backgroundColor: getVocationColor(primary.character.vocation || '') }}>
-          {primary.character.name}
-        </Badge>
-        <span className="text-muted-foreground text-sm">vs</span>
-        <Badge className="text-sm px-3 py-1 bg-amber-500">
-          {compare.character.name}
-        </Badge>
+      {/* Character badges */}
+      <div className="flex flex-wrap items-center gap-2">
+        {characters.map((c, i) => (
+          <Badge
+            key={c.identity.id}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-white"
+            style={{ backgroundColor: COMPARE_COLORS[i] }}
+          >
+            {c.character.name}
+            {i > 0 && onRemove && (
+              <button onClick={() => onRemove(c.identity.id)} className="opacity-70 hover:opacity-100">
+                <X size={12} />
+              </button>
+            )}
+          </Badge>
+        ))}
       </div>
 
-      {/* KPI Comparison Grid */}
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        <CompareKPI
-          label="Current Level"
-          icon={Trophy}
-          primaryValue={primary.kpis.currentLevel}
-          compareValue={compare.kpis.currentLevel}
-          primaryName={primary.character.name}
-          compareName={compare.character.name}
-          format={(v) => String(v)}
-        />
-        <CompareKPI
-          label="EXP This Month"
-          icon={Zap}
-          primaryValue={primary.kpis.expGainedThisMonth}
-          compareValue={compare.kpis.expGainedThisMonth}
-          primaryName={primary.character.name}
-          compareName={compare.character.name}
-          format={(v) => formatExp(v)}
-        />
-        <CompareKPI
-          label="Best Day EXP"
-          icon={Star}
-          primaryValue={primary.kpis.bestDayEver.expGained}
-          compareValue={compare.kpis.bestDayEver.expGained}
-          primaryName={primary.character.name}
-          compareName={compare.character.name}
-          format={(v) => v > 0 ? formatExp(v) : '—'}
-        />
-        <CompareKPI
-          label="Best Week EXP"
-          icon={Calendar}
-          primaryValue={primary.kpis.bestWeekEver.expGained}
-          compareValue={compare.kpis.bestWeekEver.expGained}
-          primaryName={primary.character.name}
-          compareName={compare.character.name}
-          format={(v) => v > 0 ? formatExp(v) : '—'}
-        />
-      </div>
-
-      {/* Skill Comparison Table */}
-      {skillComparison.length > 0 && (
-        <Card className="border-border/50 bg-card/50 backdrop-blur">
-          <CardHeader>
-            <CardTitle className="text-lg font-semibold">Skill Comparison</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              <div className="grid grid-cols-3 text-xs text-muted-foreground pb-2 border-b border-border/50">
-                <span>Skill</span>
-                <span className="text-center">{primary.character.name}</span>
-                <span className="text-center">{compare.character.name}</span>
-              </div>
-              {skillComparison.map((skill) => {
-                const pVal = skill.primary || 0;
-                const cVal = skill.compare || 0;
+      {/* KPI table */}
+      <Card className="border-border/50 bg-card/50 backdrop-blur overflow-hidden">
+        <CardContent className="p-0 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/50 bg-muted/30">
+                <th className="px-4 py-2.5 text-left font-medium text-muted-foreground" />
+                {characters.map((c, i) => (
+                  <th key={c.identity.id} className="px-4 py-2.5 text-right font-medium whitespace-nowrap" style={{ color: COMPARE_COLORS[i] }}>
+                    {c.character.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...kpiRows, ...skillComparison.map((row) => ({
+                label: t(row.key),
+                values: row.values.map((v) => v ?? 0),
+                format: (v: number) => (v > 0 ? String(v) : '—'),
+              }))].map((row) => {
+                const best = Math.max(...row.values);
                 return (
-                  <div key={skill.label} className="grid grid-cols-3 text-sm py-1.5">
-                    <span className="text-muted-foreground">{skill.label}</span>
-                    <span className={`text-center font-semibold ${pVal > cVal ? 'text-emerald-400' : ''}`}>
-                      {skill.primary ?? '—'}
-                    </span>
-                    <span className={`text-center font-semibold ${cVal > pVal ? 'text-emerald-400' : ''}`}>
-                      {skill.compare ?? '—'}
-                    </span>
-                  </div>
+                  <tr key={row.label} className="border-b border-border/30">
+                    <td className="px-4 py-2 text-muted-foreground whitespace-nowrap">{row.label}</td>
+                    {row.values.map((v, i) => (
+                      <td
+                        key={characters[i].identity.id}
+                        className={`px-4 py-2 text-right font-semibold tabular-nums ${v > 0 && v === best ? 'text-emerald-400' : ''}`}
+                      >
+                        {row.format(v)}
+                      </td>
+                    ))}
+                  </tr>
                 );
               })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Progression chart */}
+      <Card className="border-border/50 bg-card/50 backdrop-blur">
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-4">
+          <CardTitle className="text-lg font-semibold">{t('progressionTitle')}</CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as Metric)}
+              className="h-8 rounded-md border border-border/50 bg-card/50 px-2 text-xs outline-none focus:border-primary/50"
+            >
+              {METRICS.map((m) => <option key={m} value={m}>{t(m)}</option>)}
+            </select>
+            <div className="flex gap-1">
+              {(['calendar', 'level'] as const).map((a) => (
+                <button
+                  key={a}
+                  onClick={() => setAlignment(a)}
+                  className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                    alignment === a ? 'bg-primary/15 text-primary' : 'text-muted-foreground hover:bg-muted/30'
+                  }`}
+                >
+                  {t(`alignment.${a}`)}
+                </button>
+              ))}
             </div>
-          </CardContent>
-        </Card>
-      )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!hasSeries ? (
+            <div className="flex h-[300px] items-center justify-center text-sm text-muted-foreground">
+              {t('notEnoughData')}
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 6" stroke="rgba(255,255,255,0.04)" vertical={false} />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(x: number) => formatX(x, alignment)}
+                  tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 11 }}
+                  axisLine={false}
+                  tickLine={false}
+                />
+                <YAxis
+                  tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 11 }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={55}
+                  domain={metric === 'expPerDay' ? [0, 'auto'] : ['dataMin - 1', 'dataMax + 1']}
+                  tickFormatter={(v: number) => (metric === 'expPerDay' ? formatExp(v) : String(v))}
+                  allowDecimals={false}
+                />
+                <Tooltip content={<CompareTooltip alignment={alignment} metric={metric} />} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {characters.map((c, i) => (
+                  <Line
+                    key={c.identity.id}
+                    dataKey={`c${i}`}
+                    name={c.character.name}
+                    type="monotone"
+                    stroke={COMPARE_COLORS[i]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+          {alignment === 'level' && (
+            <p className="mt-2 text-xs text-muted-foreground">{t('levelAlignedHint')}</p>
+          )}
+        </CardContent>
+      </Card>
 
       {/* Stacked Heatmaps */}
       <div className="space-y-4">
-        <h3 className="text-lg font-semibold">EXP Heatmaps</h3>
-        <div className="space-y-2">
-          <p className="text-sm text-muted-foreground">{primary.character.name}</p>
-          <TrainingHeatmap snapshots={primary.snapshots} />
-        </div>
-        <div className="space-y-2">
-          <p className="text-sm text-muted-foreground">{compare.character.name}</p>
-          <TrainingHeatmap snapshots={compare.snapshots} />
-        </div>
+        <h3 className="text-lg font-semibold">{t('expHeatmaps')}</h3>
+        {characters.map((c, i) => (
+          <div key={c.identity.id} className="space-y-2">
+            <p className="text-sm" style={{ color: COMPARE_COLORS[i] }}>{c.character.name}</p>
+            <TrainingHeatmap snapshots={c.snapshots} />
+          </div>
+        ))}
       </div>
     </div>
   );
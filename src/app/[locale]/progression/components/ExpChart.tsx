@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import {
   ResponsiveContainer,
   AreaChart,
@@ -9,7 +9,9 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  ReferenceLine,
 } from 'recharts';
+import { Skull } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatNumber } from '@/lib/utils/formatters';
 
@@ -20,16 +22,50 @@ interface SnapshotData {
   level: number | null;
 }
 
+interface DeathEvent {
+  killedAt: string;
+  level: number;
+  killedBy: string;
+  killedByPlayer: boolean;
+}
+
 interface ExpChartProps {
   snapshots: SnapshotData[];
   compareSnapshots?: SnapshotData[];
   compareName?: string;
+  /** Overlays this character's deaths from /api/progression/deaths */
+  characterName?: string;
+  /** Resolved identity — narrows deaths under a reused name to this character */
+  identityId?: number;
 }
 
 type ViewMode = 'daily' | 'weekly' | 'monthly';
 
-export default function ExpChart({ snapshots, compareSnapshots, compareName }: ExpChartProps) {
+/** Same labels the chart buckets use, so deaths land on the right point */
+function bucketLabel(date: Date, viewMode: ViewMode): string {
+  if (viewMode === 'weekly') return `Week ${getWeekNumber(date)}`;
+  if (viewMode === 'monthly') return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export default function ExpChart({ snapshots, compareSnapshots, compareName, characterName, identityId }: ExpChartProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('daily');
+  const [deaths, setDeaths] = useState<DeathEvent[]>([]);
+
+  useEffect(() => {
+    if (!characterName) return;
+    let cancelled = false;
+    const query = identityId ? `identityId=${identityId}` : `characterName=${encodeURIComponent(characterName)}`;
+    fetch(`/api/progression/deaths?${query}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled) setDeaths(json.success ? json.data.deaths : []);
+      })
+      .catch(() => {
+        if (!cancelled) setDeaths([]);
+      });
+    return () => { cancelled = true; };
+  }, [characterName, identityId]);
 
   const chartData = useMemo(() => {
     if (!snapshots || snapshots.length === 0) return [];
@@ -140,7 +176,25 @@ export default function ExpChart({ snapshots, compareSnapshots, compareName }: E
     }));
   }, [chartData, compareSnapshots, viewMode]);
 
+  // Deaths grouped onto the chart's buckets; ones outside the snapshot range are dropped
+  const deathsByBucket = useMemo(() => {
+    const labels = new Set(chartData.map((d) => d.date));
+    const buckets = new Map<string, DeathEvent[]>();
+    for (const death of deaths) {
+      const label = bucketLabel(new Date(death.killedAt), viewMode);
+      if (!labels.has(label)) continue;
+      buckets.set(label, [...(buckets.get(label) ?? []), death]);
+    }
+    return buckets;
+  }, [chartData, deaths, viewMode]);
+
+  const chartPoints = useMemo(
+    () => mergedData.map((d) => ({ ...d, deaths: deathsByBucket.get(d.date) ?? [] })),
+    [mergedData, deathsByBucket],
+  );
+
   const hasCompare = compareSnapshots && compareSnapshots.length > 0;
+  const shownDeaths = [...deathsByBucket.values()].reduce((sum, list) => sum + list.length, 0);
 
   const formatYAxis = (value: number) => {
     return formatNumber(value);
@@ -174,6 +228,14 @@ export default function ExpChart({ snapshots, compareSnapshots, compareName }: E
               Level: <span className="font-semibold text-white/90">{data.level}</span>
             </p>
           )}
+          {data.deaths.slice(0, 3).map((death: DeathEvent, i: number) => (
+            <p key={i} className="text-[11px]" style={{ color: '#F87171' }}>
+              Died at level {death.level} to {death.killedBy}{death.killedByPlayer ? ' (PvP)' : ''}
+            </p>
+          ))}
+          {data.deaths.length > 3 && (
+            <p className="text-[11px]" style={{ color: '#F87171' }}>+{data.deaths.length - 3} more deaths</p>
+          )}
         </div>
       );
     }
@@ -183,7 +245,15 @@ export default function ExpChart({ snapshots, compareSnapshots, compareName }: E
   return (
     <Card className="border-border/50 bg-card/50 backdrop-blur">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
-        <CardTitle className="text-xl font-semibold">Experience Over Time</CardTitle>
+        <CardTitle className="flex items-center gap-3 text-xl font-semibold">
+          Experience Over Time
+          {shownDeaths > 0 && (
+            <span className="flex items-center gap-1 text-xs font-medium" style={{ color: '#F87171' }}>
+              <Skull size={12} />
+              {shownDeaths} {shownDeaths === 1 ? 'death' : 'deaths'}
+            </span>
+          )}
+        </CardTitle>
         <div className="flex gap-1">
           <button
             onClick={() => setViewMode('daily')}
@@ -218,13 +288,13 @@ export default function ExpChart({ snapshots, compareSnapshots, compareName }: E
         </div>
       </CardHeader>
       <CardContent>
-        {mergedData.length === 0 ? (
+        {chartPoints.length === 0 ? (
           <div className="flex h-[300px] items-center justify-center text-sm text-muted-foreground">
             No progression data yet
           </div>
         ) : (
           <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={mergedData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+            <AreaChart data={chartPoints} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
               <defs>
                 <linearGradient id="expGradient" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#A78BFA" stopOpacity={0.5} />
@@ -273,6 +343,15 @@ export default function ExpChart({ snapshots, compareSnapshots, compareName }: E
                   fill="url(#compareGradient)"
                 />
               )}
+              {[...deathsByBucket.keys()].map((label) => (
+                <ReferenceLine
+                  key={label}
+                  x={label}
+                  stroke="#F87171"
+                  strokeOpacity={0.6}
+                  strokeDasharray="3 3"
+                />
+              ))}
             </AreaChart>
           </ResponsiveContainer>
         )}
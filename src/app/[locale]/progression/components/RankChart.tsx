@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+} from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Trophy } from 'lucide-react';
+
+interface RankPoint {
+  date: string;
+  world: string;
+  rank: number;
+  score: number;
+}
+
+interface CategoryRanks {
+  category: string;
+  points: RankPoint[];
+  currentRank: number;
+  bestRank: number;
+}
+
+interface RankChartProps {
+  identityId: number;
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+  'Experience Points': '#f59e0b',
+  'Magic Level': '#a855f7',
+  'Fist Fighting': '#f97316',
+  'Club Fighting': '#fb923c',
+  'Sword Fighting': '#ef4444',
+  'Axe Fighting': '#dc2626',
+  'Distance Fighting': '#eab308',
+  'Shielding': '#3b82f6',
+  'Fishing': '#06b6d4',
+  'Charm Points': '#ec4899',
+  'Bounty Points': '#84cc16',
+};
+
+/** Short button labels — "Sword Fighting" → "Sword" */
+function shortLabel(category: string): string {
+  if (category === 'Experience Points') return 'Experience';
+  return category.replace(/ (Fighting|Points)$/, '');
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function RankTooltip({ active, payload, category, color }: any) {
+  if (!active || !payload?.length) return null;
+  const data = payload[0].payload;
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(15, 15, 26, 0.92)',
+        backdropFilter: 'blur(12px)',
+        border: '1px solid rgba(255, 255, 255, 0.08)',
+        borderRadius: '12px',
+        padding: '10px 14px',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.5)',
+      }}
+    >
+      <p className="text-[11px] font-medium text-white/90">{data.label} · {data.world}</p>
+      <p className="text-[11px]" style={{ color: 'rgba(255,255,255,0.55)' }}>
+        Rank:{' '}
+        <span className="font-semibold" style={{ color }}>
+          #{data.rank}
+        </span>
+      </p>
+      <p className="text-[11px]" style={{ color: 'rgba(255,255,255,0.55)' }}>
+        {category}: {data.score.toLocaleString()}
+      </p>
+    </div>
+  );
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+export default function RankChart({ identityId }: RankChartProps) {
+  const [categories, setCategories] = useState<CategoryRanks[]>([]);
+  const [selected, setSelected] = useState<string>('Experience Points');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/progression/ranks?identityId=${identityId}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (cancelled) return;
+        const data: CategoryRanks[] = json.success ? json.data.categories : [];
+        setCategories(data);
+        if (data.length > 0 && !data.some((c) => c.category === 'Experience Points')) {
+          setSelected(data[0].category);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setCategories([]);
+      });
+    return () => { cancelled = true; };
+  }, [identityId]);
+
+  const current = categories.find((c) => c.category === selected) ?? categories[0];
+  const color = CATEGORY_COLORS[current?.category] ?? '#a855f7';
+
+  const chartData = useMemo(
+    () =>
+      (current?.points ?? []).map((p) => ({
+        ...p,
+        label: new Date(p.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+      })),
+    [current],
+  );
+
+  if (categories.length === 0 || !current) {
+    return null;
+  }
+
+  return (
+    <Card className="border-border/50 bg-card/50 backdrop-blur">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="flex items-center gap-2 text-xl font-semibold">
+          <Trophy size={20} className="text-primary" />
+          Rank History
+          <span className="text-sm font-normal text-muted-foreground">
+            #{current.currentRank} now · best #{current.bestRank}
+          </span>
+        </CardTitle>
+        <div className="flex flex-wrap gap-1">
+          {categories.map((c) => (
+            <button
+              key={c.category}
+              onClick={() => setSelected(c.category)}
+              className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                current.category === c.category
+                  ? 'text-white'
+                  : 'bg-secondary/50 text-muted-foreground hover:bg-secondary'
+              }`}
+              style={current.category === c.category ? { backgroundColor: CATEGORY_COLORS[c.category] ?? '#a855f7' } : undefined}
+            >
+              {shortLabel(c.category)}
+            </button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {chartData.length < 2 ? (
+          <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+            Not enough data points to show rank history
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 6" stroke="rgba(255,255,255,0.04)" vertical={false} />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 11 }}
+                axisLine={false}
+                tickLine={false}
+              />
+              {/* Rank 1 on top */}
+              <YAxis
+                reversed
+                tick={{ fill: 'rgba(255,255,255,0.4)', fontSize: 11 }}
+                axisLine={false}
+                tickLine={false}
+                domain={[1, 'dataMax']}
+                allowDecimals={false}
+                tickFormatter={(v: number) => `#${v}`}
+              />
+              <Tooltip content={<RankTooltip category={current.category} color={color} />} />
+              <Line
+                type="stepAfter"
+                dataKey="rank"
+                stroke={color}
+                strokeWidth={2.5}
+                dot={{ r: 3, fill: color, strokeWidth: 0 }}
+                activeDot={{ r: 6, fill: color, strokeWidth: 2, stroke: '#fff' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,57 +1,55 @@
 'use client';
 
 import { Card } from '@/components/ui/card';
-import { Calculator, Target, Clock } from 'lucide-react';
+import { Calculator, Clock } from 'lucide-react';
 import { formatNumber } from '@/lib/utils/formatters';
-import { addDays, format } from 'date-fns';
+import {
+  dailyExpGains,
+  expForLevel,
+  projectLevel,
+  type DailyGainSnapshot,
+  type LevelProjection,
+} from '@/lib/utils/experience';
+import { format } from 'date-fns';
 import { useState, useMemo } from 'react';
 
 interface SessionCalculatorProps {
   currentLevel: number | null;
   currentExp: number | null;
-  avgDailyExp: number | null;
-  avgWeeklyExp: number | null;
+  snapshots: DailyGainSnapshot[];
+  /** Projection to the next level milestone, as computed by the API */
+  defaultProjection: LevelProjection | null;
+}
+
+function formatDay(date: string | null): string {
+  return date ? format(new Date(date + 'T00:00:00'), 'MMM d, yyyy') : 'Not in sight';
 }
 
 export function SessionCalculator({
   currentLevel,
   currentExp,
-  avgDailyExp,
-  avgWeeklyExp,
+  snapshots,
+  defaultProjection,
 }: SessionCalculatorProps) {
   const [targetLevel, setTargetLevel] = useState<number | string>('');
 
-  const hasData = avgDailyExp && avgDailyExp > 0;
+  const dailyGains = useMemo(() => dailyExpGains(snapshots), [snapshots]);
+  const hasData = dailyGains.some((g) => g > 0);
 
-  const calculations = useMemo(() => {
-    if (!hasData || !targetLevel || targetLevel === '') {
-      return null;
-    }
+  const projection = useMemo(() => {
+    if (!hasData) return null;
+    if (targetLevel === '') return defaultProjection;
 
     const target = typeof targetLevel === 'string' ? parseInt(targetLevel, 10) : targetLevel;
-
     if (isNaN(target) || target <= (currentLevel || 0)) {
       return null;
     }
 
-    // Simple formula: expForLevel = 50 * level^3 / 3
-    const expForCurrentLevel = (50 * Math.pow(currentLevel || 1, 3)) / 3;
-    const expForTarget = (50 * Math.pow(target, 3)) / 3;
-    const expNeeded = expForTarget - expForCurrentLevel;
-
-    const daysNeeded = Math.ceil(expNeeded / (avgDailyExp || 1));
-    const weeksNeeded = Math.ceil(expNeeded / (avgWeeklyExp || 1));
-
-    const estimatedDate = addDays(new Date(), daysNeeded);
-    const formattedDate = format(estimatedDate, 'MMMM d, yyyy');
-
-    return {
-      expNeeded,
-      daysNeeded,
-      weeksNeeded,
-      estimatedDate: formattedDate,
-    };
-  }, [targetLevel, currentLevel, avgDailyExp, avgWeeklyExp, hasData]);
+    // Without an exact exp reading, assume the start of the current level
+    const exp = currentExp ?? expForLevel(currentLevel || 1);
+    const latest = snapshots.length > 0 ? new Date(snapshots[snapshots.length - 1].capturedDate) : new Date();
+    return projectLevel(exp, target, dailyGains, latest);
+  }, [targetLevel, currentLevel, currentExp, snapshots, dailyGains, defaultProjection, hasData]);
 
   return (
     <Card className="border-border/50 bg-card/50 backdrop-blur">
@@ -80,31 +78,28 @@ export function SessionCalculator({
                 min={currentLevel ? currentLevel + 1 : 1}
                 value={targetLevel}
                 onChange={(e) => setTargetLevel(e.target.value)}
-                placeholder="Enter target level"
+                placeholder={defaultProjection ? `${defaultProjection.targetLevel}` : 'Enter target level'}
                 className="w-full px-3 py-2 bg-background border border-border/50 rounded-md text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
               />
             </div>
 
             {/* Results Grid */}
-            {calculations && (
+            {projection && (
               <div className="space-y-4">
                 <div className="bg-background/50 rounded-lg p-4 space-y-3">
                   <div className="text-xs uppercase tracking-wide text-muted-foreground font-semibold">
-                    At your current pace
+                    Most likely, at your usual pace
                   </div>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <div className="text-3xl font-bold text-primary">
-                        ~{calculations.daysNeeded}
-                      </div>
-                      <div className="text-sm text-muted-foreground mt-1">days</div>
+                  <div>
+                    <div className="text-3xl font-bold text-primary">
+                      {projection.medianDays != null ? `~${projection.medianDays}` : '—'}
                     </div>
-                    <div>
-                      <div className="text-3xl font-bold text-primary">
-                        ~{calculations.weeksNeeded}
-                      </div>
-                      <div className="text-sm text-muted-foreground mt-1">weeks</div>
+                    <div className="text-sm text-muted-foreground mt-1">
+                      days
+                      {projection.optimisticDays != null && (
+                        <> (range {projection.optimisticDays}–{projection.pessimisticDays ?? '?'})</>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -112,7 +107,7 @@ export function SessionCalculator({
                 <div className="border-t border-border/30 pt-4 space-y-2">
                   <div className="flex justify-between items-center">
                     <span className="text-sm font-medium">Target</span>
-                    <span className="text-sm text-primary">Level {targetLevel}</span>
+                    <span className="text-sm text-primary">Level {projection.targetLevel}</span>
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="flex items-center gap-2 text-sm font-medium">
@@ -120,20 +115,32 @@ export function SessionCalculator({
                       Estimated
                     </span>
                     <span className="text-sm text-primary">
-                      {calculations.estimatedDate}
+                      {formatDay(projection.medianDate)}
                     </span>
                   </div>
+                  <div className="flex justify-between items-center text-xs">
+                    <span className="text-muted-foreground">Optimistic</span>
+                    <span className="text-emerald-400">{formatDay(projection.optimisticDate)}</span>
+                  </div>
+                  <div className="flex justify-between items-center text-xs">
+                    <span className="text-muted-foreground">Pessimistic</span>
+                    <span className="text-amber-400">{formatDay(projection.pessimisticDate)}</span>
+                  </div>
                 </div>
 
                 {/* Current Stats */}
                 <div className="border-t border-border/30 pt-4 space-y-2 text-xs text-muted-foreground">
+                  <div className="flex justify-between">
+                    <span>Exp Needed</span>
+                    <span>{formatNumber(projection.expNeeded)} exp</span>
+                  </div>
                   <div className="flex justify-between">
                     <span>Avg Daily</span>
-                    <span>{formatNumber(avgDailyExp)} exp</span>
+                    <span>{formatNumber(projection.avgDailyExp)} exp</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Avg Weekly</span>
-                    <span>{formatNumber(avgWeeklyExp || 0)} exp</span>
+                    <span>Based On</span>
+                    <span>last {projection.sampleDays} days</span>
                   </div>
                 </div>
               </div>
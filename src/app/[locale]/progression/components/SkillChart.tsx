@@ -12,6 +12,7 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Swords } from 'lucide-react';
+import SkillTrainingOutlook from './SkillTrainingOutlook';
 
 interface SnapshotData {
   capturedDate: string;
@@ -196,6 +197,7 @@ export default function SkillChart({ snapshots, vocation }: SkillChartProps) {
             </LineChart>
           </ResponsiveContainer>
         )}
+        <SkillTrainingOutlook snapshots={snapshots} skillKey={selectedSkill} vocation={vocation} />
       </CardContent>
     </Card>
   );
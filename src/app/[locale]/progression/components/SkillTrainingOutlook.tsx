@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Clock, Dumbbell } from 'lucide-react';
+import { formatNumber } from '@/lib/utils/formatters';
+import {
+  calculateWeaponCosts,
+  calculatorVocation,
+  projectSkillFromHistory,
+  SKILL_RATE_WINDOW_DAYS,
+  type SkillCategory,
+} from '@/lib/utils/skill-calculator';
+
+interface WeaponPrice {
+  name: string;
+  /** Median item market listing, gold */
+  marketPriceGold: number | null;
+  /** Store price, coins */
+  storePriceCoins: number | null;
+}
+
+interface WeaponCost {
+  name: string;
+  count: number;
+  storeCoins: number | null;
+  marketGold: number | null;
+  /** Cheapest of the two in coins; the market only counts with a gold/TC rate */
+  bestCoins: number | null;
+}
+
+interface SkillTrainingOutlookProps {
+  snapshots: Array<{ capturedDate: string }>;
+  /** Snapshot field of the selected skill */
+  skillKey: string;
+  vocation: string;
+}
+
+// Snapshot fields that exercise weapons train, and their calculator category
+const SKILL_CATEGORY: Record<string, SkillCategory> = {
+  magicLevel: 'magic',
+  fist: 'fist',
+  club: 'club',
+  sword: 'sword',
+  axe: 'axe',
+  distance: 'distance',
+  shielding: 'shielding',
+};
+
+function formatDay(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+export default function SkillTrainingOutlook({ snapshots, skillKey, vocation }: SkillTrainingOutlookProps) {
+  const [prices, setPrices] = useState<WeaponPrice[] | null>(null);
+  const [targetInput, setTargetInput] = useState('');
+  const [goldPerCoinInput, setGoldPerCoinInput] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/item-listings/exercise-weapons')
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled && json.success) setPrices(json.data);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, []);
+
+  const category = SKILL_CATEGORY[skillKey];
+  const calcVocation = calculatorVocation(vocation);
+
+  const projection = useMemo(() => {
+    if (!category || !calcVocation) return null;
+    const history = snapshots.flatMap((s) => {
+      const value = (s as Record<string, unknown>)[skillKey];
+      return typeof value === 'number' ? [{ date: s.capturedDate, value }] : [];
+    });
+    return projectSkillFromHistory(history, category, calcVocation);
+  }, [snapshots, skillKey, category, calcVocation]);
+
+  const currentSkill = projection?.currentSkill ?? null;
+  const parsedTarget = parseInt(targetInput, 10);
+  const targetSkill = currentSkill != null
+    ? (parsedTarget > currentSkill ? parsedTarget : currentSkill + 1)
+    : null;
+
+  const goldPerCoin = parseInt(goldPerCoinInput, 10) > 0 ? parseInt(goldPerCoinInput, 10) : null;
+
+  const costs = useMemo((): WeaponCost[] => {
+    if (!category || !calcVocation || currentSkill == null || targetSkill == null || !prices) return [];
+    const costsIn = (key: 'storePriceCoins' | 'marketPriceGold') => new Map(
+      calculateWeaponCosts(category, calcVocation, currentSkill, targetSkill, Object.fromEntries(prices.map((p) => [p.name, p[key]])))
+        .map((c) => [c.name, c]),
+    );
+    const store = costsIn('storePriceCoins');
+    const market = costsIn('marketPriceGold');
+
+    return [...new Set([...store.keys(), ...market.keys()])]
+      .map((name) => {
+        const storeCoins = store.get(name)?.totalPrice ?? null;
+        const marketGold = market.get(name)?.totalPrice ?? null;
+        const options = [storeCoins, marketGold != null && goldPerCoin ? Math.ceil(marketGold / goldPerCoin) : null]
+          .filter((v): v is number => v != null);
+        return {
+          name,
+          count: (store.get(name) ?? market.get(name))!.count,
+          storeCoins,
+          marketGold,
+          bestCoins: options.length > 0 ? Math.min(...options) : null,
+        };
+      })
+      .sort((a, b) => (a.bestCoins ?? Infinity) - (b.bestCoins ?? Infinity));
+  }, [category, calcVocation, currentSkill, targetSkill, prices, goldPerCoin]);
+
+  if (!category || !calcVocation || !projection) return null;
+
+  return (
+    <div className="mt-4 grid gap-4 border-t border-border/30 pt-4 md:grid-cols-2">
+      {/* Observed pace */}
+      <div className="rounded-lg bg-background/50 p-4 space-y-2">
+        <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          <Clock className="h-3.5 w-3.5" />
+          Next level at your pace
+        </div>
+        {projection.daysToNext != null && projection.nextLevelDate ? (
+          <>
+            <div className="text-2xl font-bold text-primary">
+              {projection.currentSkill + 1}
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                in ~{projection.daysToNext} {projection.daysToNext === 1 ? 'day' : 'days'}
+              </span>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Around {formatDay(projection.nextLevelDate)} · last level up {formatDay(projection.lastLevelUp)}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No gains in the last {SKILL_RATE_WINDOW_DAYS} days to project from.
+          </p>
+        )}
+      </div>
+
+      {/* Buying it outright */}
+      <div className="rounded-lg bg-background/50 p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            <Dumbbell className="h-3.5 w-3.5" />
+            Exercise weapons to
+          </div>
+          <input
+            type="number"
+            min={projection.currentSkill + 1}
+            value={targetInput}
+            onChange={(e) => setTargetInput(e.target.value)}
+            placeholder={`${projection.currentSkill + 1}`}
+            className="h-7 w-20 rounded-md border border-border/50 bg-card/50 px-2 text-xs outline-none focus:border-primary/50"
+          />
+        </div>
+        {costs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{prices ? 'No weapon prices available.' : 'Loading prices...'}</p>
+        ) : (
+          <div className="space-y-1.5 text-xs">
+            {costs.map((c, i) => (
+              <div key={c.name} className="flex items-start justify-between gap-2">
+                <span className={i === 0 && c.bestCoins != null ? 'font-semibold text-foreground' : 'text-muted-foreground'}>
+                  {formatNumber(c.count)}× {c.name}
+                </span>
+                <span className="text-right">
+                  {c.storeCoins != null && (
+                    <span className={`block ${i === 0 && c.bestCoins === c.storeCoins ? 'font-semibold text-emerald-400' : 'text-muted-foreground'}`}>
+                      {formatNumber(c.storeCoins)} TC <span className="text-muted-foreground/60">(store)</span>
+                    </span>
+                  )}
+                  {c.marketGold != null && (
+                    <span className="block text-muted-foreground">
+                      {formatNumber(c.marketGold)} gold <span className="text-muted-foreground/60">(market)</span>
+                      {goldPerCoin && (
+                        <span className={i === 0 && c.bestCoins !== c.storeCoins ? 'ml-1 font-semibold text-emerald-400' : 'ml-1'}>
+                          ≈ {formatNumber(Math.ceil(c.marketGold / goldPerCoin))} TC
+                        </span>
+                      )}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-2 pt-1 text-[10px] text-muted-foreground/60">
+              <span>Assumes the current level was just reached.</span>
+              {costs.some((c) => c.marketGold != null) && (
+                <input
+                  type="number"
+                  min={1}
+                  value={goldPerCoinInput}
+                  onChange={(e) => setGoldPerCoinInput(e.target.value)}
+                  placeholder="Gold / TC"
+                  title="Gold per Tibia Coin, to compare market prices with the store"
+                  className="h-6 w-24 rounded-md border border-border/50 bg-card/50 px-2 text-[10px] outline-none focus:border-primary/50"
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
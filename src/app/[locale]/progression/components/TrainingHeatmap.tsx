@@ -4,6 +4,7 @@ import { useMemo, useState, useRef, useEffect } from 'react';
 import { startOfWeek, addDays, format, subMonths, isBefore, isSameDay } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { formatNumber } from '@/lib/utils/formatters';
+import { ACTIVITY_TYPES, type ActivityDay, type ActivitySummary, type ActivityType } from '@/lib/utils/activity';
 
 interface TrainingHeatmapProps {
   snapshots: Array<{
@@ -12,11 +13,39 @@ interface TrainingHeatmapProps {
     level?: number | null;
     levelsGained?: number | null;
   }>;
+  /** Enables the activity colouring, fetched from the progression API */
+  identityId?: number;
 }
 
-export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
+type ColorMode = 'exp' | 'activity';
+
+const ACTIVITY_CLASSES: Record<ActivityType, string> = {
+  hunting: 'bg-emerald-500/80',
+  training: 'bg-sky-500/80',
+  death: 'bg-red-500/80',
+  inactive: 'bg-[#1e1b2e] border border-[#2a2640]',
+  unknown: 'bg-[#1e1b2e] border border-dashed border-[#3a3650]',
+};
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  hunting: 'Hunting',
+  training: 'Training',
+  death: 'Death / level loss',
+  inactive: 'Inactive',
+  unknown: 'No exp data',
+};
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export default function TrainingHeatmap({ snapshots, identityId }: TrainingHeatmapProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerWidth, setContainerWidth] = useState(0);
+  const [colorMode, setColorMode] = useState<ColorMode>('exp');
+  const [activity, setActivity] = useState<{
+    identityId: number;
+    days: ActivityDay[];
+    summary: ActivitySummary;
+  } | null>(null);
   const [hoveredCell, setHoveredCell] = useState<{
     date: Date;
     expGained: number | null;
@@ -37,6 +66,25 @@ export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
     return () => observer.disconnect();
   }, []);
 
+  useEffect(() => {
+    if (identityId == null) return;
+    let cancelled = false;
+    fetch(`/api/progression?mode=activity&identityId=${identityId}`)
+      .then((r) => r.json())
+      .then((json) => {
+        if (!cancelled && json.success) setActivity({ identityId, ...json.data });
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [identityId]);
+
+  const activityData = activity?.identityId === identityId ? activity : null;
+  const activityByDate = useMemo(
+    () => new Map((activityData?.days ?? []).map((d) => [d.date, d.type])),
+    [activityData],
+  );
+  const showActivity = colorMode === 'activity' && activityData != null;
+
   const { gridData, monthLabels, intensityThresholds } = useMemo(() => {
     const endDate = new Date();
     const startDate = subMonths(endDate, 6);
@@ -108,6 +156,12 @@ export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
     return 'bg-purple-400';
   };
 
+  const getCellClass = (date: Date, expGained: number | null) => {
+    if (!showActivity) return getIntensityClass(expGained);
+    const type = activityByDate.get(format(date, 'yyyy-MM-dd'));
+    return type ? ACTIVITY_CLASSES[type] : 'bg-[#1e1b2e]/40 border border-[#2a2640]/50';
+  };
+
   const dayLabels = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
   const totalWeeks = gridData.length;
   const DAY_LABEL_WIDTH = 36;
@@ -122,8 +176,25 @@ export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
 
   return (
     <Card className="border-border/50 bg-card/50 backdrop-blur">
-      <CardHeader>
-        <CardTitle className="text-xl font-semibold">EXP Heatmap</CardTitle>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-xl font-semibold">{showActivity ? 'Activity Heatmap' : 'EXP Heatmap'}</CardTitle>
+        {activityData && (
+          <div className="flex gap-1">
+            {(['exp', 'activity'] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setColorMode(mode)}
+                className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                  colorMode === mode
+                    ? 'bg-primary/15 text-primary'
+                    : 'text-muted-foreground hover:bg-muted/30'
+                }`}
+              >
+                {mode === 'exp' ? 'EXP' : 'Activity type'}
+              </button>
+            ))}
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         <div ref={containerRef} className="relative w-full overflow-visible">
@@ -167,7 +238,7 @@ export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
                       {week.map((day, dayIdx) => (
                         <div
                           key={dayIdx}
-                          className={`rounded-sm cursor-pointer ${getIntensityClass(day.expGained)} ${
+                          className={`rounded-sm cursor-pointer ${getCellClass(day.date, day.expGained)} ${
                             day.expGained !== null && day.expGained > 0
                               ? 'hover:ring-1 hover:ring-purple-400'
                               : 'hover:ring-1 hover:ring-border'
@@ -194,17 +265,67 @@ export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
               </div>
 
               {/* Legend */}
-              <div className="mt-3 flex items-center justify-end gap-2">
-                <span className="text-xs text-muted-foreground">Less</span>
-                <div className="flex gap-[3px]">
-                  <div className="h-3 w-3 rounded-sm bg-[#1e1b2e] border border-[#2a2640]" />
-                  <div className="h-3 w-3 rounded-sm bg-purple-900/60" />
-                  <div className="h-3 w-3 rounded-sm bg-purple-700/70" />
-                  <div className="h-3 w-3 rounded-sm bg-purple-500/80" />
-                  <div className="h-3 w-3 rounded-sm bg-purple-400" />
+              {showActivity ? (
+                <div className="mt-3 flex flex-wrap items-center justify-end gap-3">
+                  {ACTIVITY_TYPES.map((type) => (
+                    <span key={type} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <span className={`h-3 w-3 rounded-sm ${ACTIVITY_CLASSES[type]}`} />
+                      {ACTIVITY_LABELS[type]}
+                    </span>
+                  ))}
                 </div>
-                <span className="text-xs text-muted-foreground">More</span>
-              </div>
+              ) : (
+                <div className="mt-3 flex items-center justify-end gap-2">
+                  <span className="text-xs text-muted-foreground">Less</span>
+                  <div className="flex gap-[3px]">
+                    <div className="h-3 w-3 rounded-sm bg-[#1e1b2e] border border-[#2a2640]" />
+                    <div className="h-3 w-3 rounded-sm bg-purple-900/60" />
+                    <div className="h-3 w-3 rounded-sm bg-purple-700/70" />
+                    <div className="h-3 w-3 rounded-sm bg-purple-500/80" />
+                    <div className="h-3 w-3 rounded-sm bg-purple-400" />
+                  </div>
+                  <span className="text-xs text-muted-foreground">More</span>
+                </div>
+              )}
+
+              {/* Streaks and weekly pattern */}
+              {showActivity && (
+                <div className="mt-4 grid gap-4 border-t border-border/30 pt-4 sm:grid-cols-[auto_1fr]">
+                  <div className="flex gap-6 sm:flex-col sm:gap-2">
+                    {[
+                      { label: 'Current streak', value: activityData.summary.currentStreak },
+                      { label: 'Longest streak', value: activityData.summary.longestStreak },
+                      { label: 'Longest hunting streak', value: activityData.summary.longestHuntingStreak },
+                    ].map(({ label, value }) => (
+                      <div key={label}>
+                        <div className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</div>
+                        <div className="text-lg font-bold">{value} {value === 1 ? 'day' : 'days'}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-7 gap-2">
+                    {activityData.summary.weekdays.map(({ weekday, counts }) => {
+                      // Share of the days whose activity is known
+                      const total = ACTIVITY_TYPES.reduce((sum, type) => sum + (type === 'unknown' ? 0 : counts[type]), 0);
+                      return (
+                        <div key={weekday} className="flex flex-col items-center gap-1">
+                          <div className="flex h-20 w-full max-w-8 flex-col-reverse overflow-hidden rounded-sm bg-muted/20">
+                            {total > 0 && ACTIVITY_TYPES.filter((type) => type !== 'inactive' && type !== 'unknown').map((type) => (
+                              <div
+                                key={type}
+                                className={ACTIVITY_CLASSES[type]}
+                                style={{ height: `${(counts[type] / total) * 100}%` }}
+                                title={`${ACTIVITY_LABELS[type]}: ${counts[type]}`}
+                              />
+                            ))}
+                          </div>
+                          <span className="text-[10px] text-muted-foreground">{WEEKDAY_LABELS[weekday]}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -220,6 +341,11 @@ export default function TrainingHeatmap({ snapshots }: TrainingHeatmapProps) {
               <p className="text-xs font-medium text-foreground">
                 {format(hoveredCell.date, 'EEEE, MMM d, yyyy')}
               </p>
+              {showActivity && activityByDate.has(format(hoveredCell.date, 'yyyy-MM-dd')) && (
+                <p className="text-xs text-muted-foreground">
+                  {ACTIVITY_LABELS[activityByDate.get(format(hoveredCell.date, 'yyyy-MM-dd'))!]}
+                </p>
+              )}
               {hoveredCell.expGained !== null && hoveredCell.expGained > 0 ? (
                 <>
                   <p className="text-xs text-muted-foreground">
@@ -12,20 +12,25 @@ interface ComparableAuction {
   level: number;
   vocation: string;
   soldPrice: number;
+  adjustedPrice: number;
   similarity: number;
   url: string;
 }
 
 interface ValuationData {
+  modelVersion: string;
+  pricedAt: string;
   estimatedValue: number;
   confidence: 'high' | 'medium' | 'low';
-  range: { min: number; max: number };
+  minPrice: number;
+  maxPrice: number;
   sampleSize: number;
   comparables: ComparableAuction[];
 }
 
 interface Props {
   characterName: string;
+  identityId?: number;
 }
 
 const CONFIDENCE_STYLES = {
@@ -39,7 +44,7 @@ function formatTC(value: number): string {
   return `${value} TC`;
 }
 
-export default function ValuationCard({ characterName }: Props) {
+export default function ValuationCard({ characterName, identityId }: Props) {
   const { data: session } = useSession();
   const [valuation, setValuation] = useState<ValuationData | null>(null);
   const [loading, setLoading] = useState(false);
@@ -57,7 +62,8 @@ export default function ValuationCard({ characterName }: Props) {
     setError(null);
     setNoData(false);
     try {
-      const res = await fetch(`/api/valuation?characterName=${encodeURIComponent(characterName)}`);
+      const query = identityId ? `identityId=${identityId}` : `characterName=${encodeURIComponent(characterName)}`;
+      const res = await fetch(`/api/valuation?${query}`);
       if (res.status === 401 || res.status === 403) {
         setError('Premium required');
         return;
@@ -195,10 +201,10 @@ export default function ValuationCard({ characterName }: Props) {
             ~{formatTC(valuation!.estimatedValue)}
           </div>
           <p className="text-sm text-muted-foreground">
-            Range: {formatTC(valuation!.range.min)} – {formatTC(valuation!.range.max)}
+            Range: {formatTC(valuation!.minPrice)} – {formatTC(valuation!.maxPrice)}
           </p>
           <p className="text-xs text-muted-foreground mt-0.5">
-            Based on {valuation!.sampleSize} similar sold auctions
+            Based on {valuation!.sampleSize} similar sold auctions, in today&apos;s TC · model {valuation!.modelVersion}
           </p>
         </div>
 
@@ -218,7 +224,12 @@ export default function ValuationCard({ characterName }: Props) {
                   </Badge>
                 </div>
                 <div className="flex items-center gap-2 shrink-0 ml-2">
-                  <span className="font-medium">{formatTC(c.soldPrice)}</span>
+                  <span
+                    className="font-medium"
+                    title={c.adjustedPrice !== c.soldPrice ? `Sold for ${formatTC(c.soldPrice)}` : undefined}
+                  >
+                    {formatTC(c.adjustedPrice)}
+                  </span>
                   <a
                     href={c.url}
                     target="_blank"
@@ -4,7 +4,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db/prisma";
 import { redirect } from "next/navigation";
-import { Users, Clock, Crown, Shield, BarChart3, Eye, ChevronRight, MessageCircle, MessageSquare, Lightbulb } from "lucide-react";
+import { Users, Clock, Crown, Shield, BarChart3, Eye, ChevronRight, MessageCircle, MessageSquare, Lightbulb, Activity, Target } from "lucide-react";
 
 export const metadata: Metadata = {
   title: "Admin - RubinOT Stats",
@@ -31,6 +31,7 @@ export default async function AdminPage() {
     pageViewsToday,
     visitorsWeek,
     pageViewsWeek,
+    failedRunsToday,
   ] = await Promise.all([
     prisma.user.count(),
     prisma.user.count({ where: { premiumTier: { not: "free" } } }),
@@ -54,6 +55,9 @@ export default async function AdminPage() {
     prisma.analyticsEvent.count({
       where: { eventType: "page_view", createdAt: { gte: weekAgo } },
     }),
+    prisma.scraperRun.count({
+      where: { status: "failed", startedAt: { gte: today } },
+    }),
   ]);
 
   const userCards = [
@@ -168,6 +172,26 @@ export default async function AdminPage() {
       badge: openFeatureRequests > 0 ? openFeatureRequests : null,
       badgeColor: "bg-yellow-500 text-black",
     },
+    {
+      label: "Scrapers",
+      description: "Scraper run history, failures, and data freshness.",
+      href: "/admin/scrapers",
+      icon: Activity,
+      accentColor: "border-l-rose-400",
+      iconColor: "text-rose-400",
+      badge: failedRunsToday > 0 ? failedRunsToday : null,
+      badgeColor: "bg-red-500 text-white",
+    },
+    {
+      label: "Valuation Backtest",
+      description: "Replay sold auctions to measure and compare valuation models.",
+      href: "/admin/valuation",
+      icon: Target,
+      accentColor: "border-l-teal-400",
+      iconColor: "text-teal-400",
+      badge: null,
+      badgeColor: "",
+    },
   ];
 
   return (
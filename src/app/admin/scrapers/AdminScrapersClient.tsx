@@ -0,0 +1,214 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useState, useEffect } from "react";
+import { Loader2, CheckCircle2, XCircle, CircleDashed, Database } from "lucide-react";
+import { redirect } from "next/navigation";
+
+interface ScraperRun {
+  id: number;
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  itemsSeen: number;
+  itemsInserted: number;
+  itemsUpdated: number;
+  itemsArchived: number;
+  errorCount: number;
+  lastError: string | null;
+  exitCode: number | null;
+  driftReport: Record<string, { checked: number; quarantined: number; newFields: Record<string, number> }> | null;
+}
+
+interface JobStatus {
+  job: string;
+  label: string;
+  lastRun: ScraperRun | null;
+  lastSuccessAt: string | null;
+  failureStreak: number;
+}
+
+interface Dataset {
+  dataset: string;
+  label: string;
+  latestAt: string | null;
+  staleAfterHours: number;
+  isStale: boolean;
+}
+
+const STATUS_CONFIG: Record<ScraperRun["status"], { label: string; icon: typeof CheckCircle2; color: string }> = {
+  completed: { label: "Completed", icon: CheckCircle2, color: "text-emerald-400 bg-emerald-400/10 border-emerald-400/30" },
+  failed: { label: "Failed", icon: XCircle, color: "text-red-400 bg-red-400/10 border-red-400/30" },
+  running: { label: "Running", icon: Loader2, color: "text-sky-400 bg-sky-400/10 border-sky-400/30" },
+};
+
+function timeAgo(dateStr: string): string {
+  const now = Date.now();
+  const diff = now - new Date(dateStr).getTime();
+  const mins = Math.floor(diff / 60000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hrs = Math.floor(mins / 60);
+  if (hrs < 24) return `${hrs}h ago`;
+  const days = Math.floor(hrs / 24);
+  return `${days}d ago`;
+}
+
+/** Records quarantined and new fields seen across all sources of a run */
+function driftSummary(run: ScraperRun): { quarantined: number; newFields: number } {
+  const sources = Object.values(run.driftReport ?? {});
+  return {
+    quarantined: sources.reduce((sum, d) => sum + d.quarantined, 0),
+    newFields: sources.reduce((sum, d) => sum + Object.keys(d.newFields).length, 0),
+  };
+}
+
+function duration(run: ScraperRun): string {
+  if (!run.finishedAt) return "—";
+  const secs = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+  if (secs < 60) return `${secs}s`;
+  const mins = Math.floor(secs / 60);
+  if (mins < 60) return `${mins}m ${secs % 60}s`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+export function AdminScrapersClient() {
+  const { data: session } = useSession();
+  const [jobs, setJobs] = useState<JobStatus[]>([]);
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!session?.user?.isAdmin) return;
+    fetch("/api/admin/scrapers")
+      .then((r) => r.json())
+      .then((data) => {
+        if (data.success) {
+          setJobs(data.data.jobs);
+          setDatasets(data.data.datasets);
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [session]);
+
+  if (!session?.user?.isAdmin) {
+    redirect("/");
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Data freshness */}
+      <div>
+        <h2 className="text-lg font-semibold mb-4">Data Freshness</h2>
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {datasets.map((d) => (
+            <div
+              key={d.dataset}
+              className={`rounded-xl border border-border border-l-4 bg-card p-4 ${
+                d.isStale ? "border-l-red-400" : "border-l-emerald-400"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <Database className={`h-4 w-4 ${d.isStale ? "text-red-400" : "text-emerald-400"}`} />
+                <p className="text-sm font-medium">{d.label}</p>
+              </div>
+              <p className="mt-2 text-xl font-bold">{d.latestAt ? timeAgo(d.latestAt) : "never"}</p>
+              <p className="text-xs text-muted-foreground">
+                {d.isStale ? "Stale" : "Fresh"} &middot; expected every {d.staleAfterHours}h
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Jobs */}
+      <div>
+        <h2 className="text-lg font-semibold mb-4">Jobs</h2>
+        <div className="overflow-x-auto rounded-xl border border-border bg-card">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                <th className="px-4 py-3 font-medium">Job</th>
+                <th className="px-4 py-3 font-medium">Last run</th>
+                <th className="px-4 py-3 font-medium">Duration</th>
+                <th className="px-4 py-3 font-medium text-right">Seen</th>
+                <th className="px-4 py-3 font-medium text-right">Inserted</th>
+                <th className="px-4 py-3 font-medium text-right">Updated</th>
+                <th className="px-4 py-3 font-medium text-right">Archived</th>
+                <th className="px-4 py-3 font-medium text-right">Errors</th>
+                <th className="px-4 py-3 font-medium">Last success</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map(({ job, label, lastRun, lastSuccessAt, failureStreak }) => {
+                const conf = lastRun ? STATUS_CONFIG[lastRun.status] : null;
+                const drift = lastRun ? driftSummary(lastRun) : null;
+                const StatusIcon = conf?.icon ?? CircleDashed;
+                return (
+                  <tr key={job} className="border-b border-border/50 last:border-0 align-top">
+                    <td className="px-4 py-3">
+                      <p className="font-medium">{label}</p>
+                      <p className="font-mono text-xs text-muted-foreground">{job}</p>
+                      {lastRun?.lastError && (
+                        <p className="mt-1 max-w-xs truncate text-xs text-red-400" title={lastRun.lastError}>
+                          {lastRun.lastError}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {lastRun && conf ? (
+                        <div className="space-y-1">
+                          <span className={`inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs font-medium ${conf.color}`}>
+                            <StatusIcon className={`h-3 w-3 ${lastRun.status === "running" ? "animate-spin" : ""}`} />
+                            {conf.label}
+                            {lastRun.exitCode != null && lastRun.exitCode !== 0 && ` (exit ${lastRun.exitCode})`}
+                          </span>
+                          <p className="text-xs text-muted-foreground">{timeAgo(lastRun.startedAt)}</p>
+                        </div>
+                      ) : (
+                        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                          <StatusIcon className="h-3 w-3" />
+                          Never run
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-muted-foreground">{lastRun ? duration(lastRun) : "—"}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{lastRun?.itemsSeen.toLocaleString() ?? "—"}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{lastRun?.itemsInserted.toLocaleString() ?? "—"}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{lastRun?.itemsUpdated.toLocaleString() ?? "—"}</td>
+                    <td className="px-4 py-3 text-right tabular-nums">{lastRun?.itemsArchived.toLocaleString() ?? "—"}</td>
+                    <td className={`px-4 py-3 text-right tabular-nums ${lastRun?.errorCount ? "text-red-400" : ""}`}>
+                      {lastRun?.errorCount.toLocaleString() ?? "—"}
+                      {drift && drift.quarantined > 0 && (
+                        <p className="text-xs text-amber-400">{drift.quarantined} quarantined</p>
+                      )}
+                      {drift && drift.newFields > 0 && (
+                        <p className="text-xs text-sky-400">{drift.newFields} new fields</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p className="text-xs">{lastSuccessAt ? timeAgo(lastSuccessAt) : "never"}</p>
+                      {failureStreak > 0 && (
+                        <p className="text-xs font-medium text-red-400">
+                          {failureStreak} failed in a row
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
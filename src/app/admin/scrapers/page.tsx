@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import { AdminScrapersClient } from "./AdminScrapersClient";
+
+export const metadata: Metadata = {
+  title: "Scrapers - Admin - RubinOT Stats",
+};
+
+export default function AdminScrapersPage() {
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      <h1 className="text-2xl font-bold">Scrapers</h1>
+      <AdminScrapersClient />
+    </div>
+  );
+}
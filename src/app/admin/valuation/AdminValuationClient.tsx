@@ -0,0 +1,264 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useState } from "react";
+import { redirect } from "next/navigation";
+import { Loader2, Play } from "lucide-react";
+
+interface Metrics {
+  count: number;
+  mae: number;
+  mape: number;
+  bias: number;
+  bandCoverage: number;
+}
+
+interface Segment extends Metrics {
+  key: string;
+}
+
+interface Report {
+  modelVersion: string;
+  evaluated: number;
+  overall: Metrics;
+  byFamily: Segment[];
+  byLevelBand: Segment[];
+  byWorld: Segment[];
+  byConfidence: Segment[];
+}
+
+interface BacktestResponse {
+  models: string[];
+  currentModel: string;
+  limit: number;
+  reports: Report[];
+}
+
+const SECTIONS: { key: "byFamily" | "byLevelBand" | "byWorld" | "byConfidence"; label: string }[] = [
+  { key: "byFamily", label: "Vocation family" },
+  { key: "byLevelBand", label: "Level band" },
+  { key: "byWorld", label: "World" },
+  { key: "byConfidence", label: "Confidence" },
+];
+
+const inputClass = "h-9 rounded-md border border-border bg-card px-3 text-sm outline-none focus:border-primary/50";
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPct(value: number): string {
+  return `${value >= 0 ? "+" : ""}${pct(value)}`;
+}
+
+/** Lower MAPE wins; highlights the better model when two are compared */
+function better(a: Metrics | undefined, b: Metrics | undefined): "a" | "b" | null {
+  if (!a?.count || !b?.count || a.mape === b.mape) return null;
+  return a.mape < b.mape ? "a" : "b";
+}
+
+function MetricCells({ m, highlight }: { m: Metrics | undefined; highlight: boolean }) {
+  if (!m) {
+    return (
+      <td colSpan={5} className="px-3 py-2 text-center text-muted-foreground">—</td>
+    );
+  }
+  return (
+    <>
+      <td className="px-3 py-2 text-right tabular-nums text-muted-foreground">{m.count.toLocaleString()}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{m.mae.toLocaleString()}</td>
+      <td className={`px-3 py-2 text-right tabular-nums ${highlight ? "font-semibold text-emerald-400" : ""}`}>{pct(m.mape)}</td>
+      <td className={`px-3 py-2 text-right tabular-nums ${Math.abs(m.bias) > 0.1 ? "text-amber-400" : ""}`}>{signedPct(m.bias)}</td>
+      <td className="px-3 py-2 text-right tabular-nums">{pct(m.bandCoverage)}</td>
+    </>
+  );
+}
+
+function MetricHeaders() {
+  return (
+    <>
+      <th className="px-3 py-2 font-medium text-right">n</th>
+      <th className="px-3 py-2 font-medium text-right">MAE</th>
+      <th className="px-3 py-2 font-medium text-right">MAPE</th>
+      <th className="px-3 py-2 font-medium text-right">Bias</th>
+      <th className="px-3 py-2 font-medium text-right">In band</th>
+    </>
+  );
+}
+
+export function AdminValuationClient() {
+  const { data: session } = useSession();
+  const [modelA, setModelA] = useState("");
+  const [modelB, setModelB] = useState("");
+  const [limit, setLimit] = useState("2000");
+  const [since, setSince] = useState("");
+  const [result, setResult] = useState<BacktestResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  if (!session?.user?.isAdmin) {
+    redirect("/");
+  }
+
+  async function runBacktest() {
+    setRunning(true);
+    setError(null);
+    const params = new URLSearchParams({ limit });
+    const models = [modelA, modelB].filter(Boolean);
+    if (models.length > 0) params.set("models", models.join(","));
+    if (since) params.set("since", since);
+    try {
+      const res = await fetch(`/api/admin/valuation-backtest?${params}`);
+      const json = await res.json();
+      if (json.success) {
+        setResult(json.data);
+        if (!modelA) setModelA(json.data.reports[0]?.modelVersion ?? "");
+      } else {
+        setError(json.error ?? "Backtest failed");
+      }
+    } catch {
+      setError("Backtest failed");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  const reports = result?.reports ?? [];
+  const [a, b] = reports;
+
+  return (
+    <div className="space-y-8">
+      {/* Controls */}
+      <div className="flex flex-wrap items-end gap-3 rounded-xl border border-border bg-card p-4">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Model</span>
+          <select value={modelA} onChange={(e) => setModelA(e.target.value)} className={`${inputClass} block`}>
+            <option value="">{result ? result.currentModel : "Current"}</option>
+            {result?.models.map((m) => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Compare with</span>
+          <select value={modelB} onChange={(e) => setModelB(e.target.value)} className={`${inputClass} block`}>
+            <option value="">None</option>
+            {result?.models.map((m) => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Latest sales</span>
+          <input
+            type="number"
+            min={1}
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            className={`${inputClass} block w-28`}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Ended since</span>
+          <input type="date" value={since} onChange={(e) => setSince(e.target.value)} className={`${inputClass} block`} />
+        </label>
+        <button
+          onClick={runBacktest}
+          disabled={running}
+          className="inline-flex h-9 items-center gap-2 rounded-md bg-primary px-4 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+        >
+          {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+          Run backtest
+        </button>
+        <p className="basis-full text-xs text-muted-foreground">
+          Each sale is priced using only sales that ended before it. For the full archive run <code className="font-mono">pnpm backtest:valuation</code>.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!result && !running && !error && (
+        <p className="text-sm text-muted-foreground">Pick a model and run a backtest to see how its estimates compare with real sale prices.</p>
+      )}
+
+      {reports.length > 0 && (
+        <>
+          {/* Overall */}
+          <div className="grid gap-4 sm:grid-cols-2">
+            {reports.map((r, i) => {
+              const win = better(a?.overall, b?.overall) === (i === 0 ? "a" : "b");
+              return (
+                <div
+                  key={`${r.modelVersion}-${i}`}
+                  className={`rounded-xl border border-border border-l-4 bg-card p-5 ${win ? "border-l-emerald-400" : "border-l-sky-400"}`}
+                >
+                  <p className="font-mono text-sm font-medium">{r.modelVersion}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Estimated {r.overall.count.toLocaleString()} of {r.evaluated.toLocaleString()} sales
+                  </p>
+                  <div className="mt-3 grid grid-cols-4 gap-3">
+                    <div>
+                      <p className="text-xl font-bold">{pct(r.overall.mape)}</p>
+                      <p className="text-xs text-muted-foreground">MAPE</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">{r.overall.mae.toLocaleString()}</p>
+                      <p className="text-xs text-muted-foreground">MAE (TC)</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">{signedPct(r.overall.bias)}</p>
+                      <p className="text-xs text-muted-foreground">Bias</p>
+                    </div>
+                    <div>
+                      <p className="text-xl font-bold">{pct(r.overall.bandCoverage)}</p>
+                      <p className="text-xs text-muted-foreground">In band</p>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Segments */}
+          {SECTIONS.map(({ key, label }) => {
+            const keys = [...new Set(reports.flatMap((r) => r[key].map((s) => s.key)))];
+            const lookup = (r: Report | undefined, k: string) => r?.[key].find((s) => s.key === k);
+            return (
+              <div key={key}>
+                <h2 className="text-lg font-semibold mb-4">{label}</h2>
+                <div className="overflow-x-auto rounded-xl border border-border bg-card">
+                  <table className="w-full text-sm">
+                    <thead>
+                      {b && (
+                        <tr className="border-b border-border/50 text-xs text-muted-foreground">
+                          <th />
+                          <th colSpan={5} className="px-3 pt-3 font-mono font-medium text-right">{a.modelVersion}</th>
+                          <th colSpan={5} className="px-3 pt-3 font-mono font-medium text-right">{b.modelVersion}</th>
+                        </tr>
+                      )}
+                      <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                        <th className="px-4 py-2 font-medium">Segment</th>
+                        <MetricHeaders />
+                        {b && <MetricHeaders />}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {keys.map((k) => {
+                        const sa = lookup(a, k);
+                        const sb = lookup(b, k);
+                        const win = better(sa, sb);
+                        return (
+                          <tr key={k} className="border-b border-border/50 last:border-0">
+                            <td className="px-4 py-2 font-medium">{k}</td>
+                            <MetricCells m={sa} highlight={win === "a"} />
+                            {b && <MetricCells m={sb} highlight={win === "b"} />}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
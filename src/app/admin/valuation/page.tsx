@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import { AdminValuationClient } from "./AdminValuationClient";
+
+export const metadata: Metadata = {
+  title: "Valuation Backtest - Admin - RubinOT Stats",
+};
+
+export default function AdminValuationPage() {
+  return (
+    <div className="container mx-auto space-y-6 px-4 py-8">
+      <h1 className="text-2xl font-bold">Valuation Backtest</h1>
+      <AdminValuationClient />
+    </div>
+  );
+}
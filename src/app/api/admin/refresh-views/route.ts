@@ -11,10 +11,7 @@ export async function POST() {
   }
 
   try {
-    await Promise.all([
-      prisma.$executeRawUnsafe("REFRESH MATERIALIZED VIEW CONCURRENTLY world_leaders_mv"),
-      prisma.$executeRawUnsafe("REFRESH MATERIALIZED VIEW CONCURRENTLY top_exp_gainers_mv"),
-    ]);
+    await prisma.$executeRawUnsafe("REFRESH MATERIALIZED VIEW CONCURRENTLY top_exp_gainers_mv");
     return NextResponse.json({ success: true, message: "Materialized views refreshed" });
   } catch (error) {
     console.error("Failed to refresh materialized views:", error);
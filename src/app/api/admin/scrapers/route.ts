@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db/prisma";
+import { requireAdmin } from "@/lib/auth-helpers";
+import { SCRAPER_JOBS } from "@/lib/scraper/runs";
+import type { DatasetFreshness, ScraperJobStatus, ScraperRunSummary } from "@/types";
+
+export const dynamic = "force-dynamic";
+
+/** Runs to look back through when counting a failure streak */
+const HISTORY_DEPTH = 20;
+
+/** Newest row per dataset, and how old it may get before we flag it */
+const DATASETS: { dataset: string; label: string; staleAfterHours: number; latest: () => Promise<Date | null> }[] = [
+  {
+    dataset: "current_auctions",
+    label: "Current auctions",
+    staleAfterHours: 2,
+    latest: () => prisma.currentAuction.aggregate({ _max: { updatedAt: true } }).then((r) => r._max.updatedAt),
+  },
+  {
+    dataset: "auctions",
+    label: "Auction history",
+    staleAfterHours: 24,
+    latest: () => prisma.auction.aggregate({ _max: { createdAt: true } }).then((r) => r._max.createdAt),
+  },
+  {
+    dataset: "highscore_entries",
+    label: "Highscores",
+    staleAfterHours: 36,
+    latest: () => prisma.highscoreEntry.aggregate({ _max: { createdAt: true } }).then((r) => r._max.createdAt),
+  },
+  {
+    dataset: "character_snapshots",
+    label: "Character snapshots",
+    staleAfterHours: 36,
+    latest: () => prisma.characterSnapshot.aggregate({ _max: { createdAt: true } }).then((r) => r._max.createdAt),
+  },
+  {
+    dataset: "market_stats",
+    label: "Market stats",
+    staleAfterHours: 48,
+    latest: () => prisma.marketStats.aggregate({ _max: { calculatedAt: true } }).then((r) => r._max.calculatedAt),
+  },
+  {
+    dataset: "boosted_daily",
+    label: "Boosted creature & boss",
+    staleAfterHours: 36,
+    latest: () => prisma.boostedDaily.aggregate({ _max: { createdAt: true } }).then((r) => r._max.createdAt),
+  },
+  {
+    dataset: "bans",
+    label: "Bans",
+    staleAfterHours: 24,
+    latest: () => prisma.ban.aggregate({ _max: { lastSeenAt: true } }).then((r) => r._max.lastSeenAt),
+  },
+  {
+    dataset: "transfers",
+    label: "Transfers",
+    staleAfterHours: 24,
+    latest: () => prisma.transfer.aggregate({ _max: { createdAt: true } }).then((r) => r._max.createdAt),
+  },
+  {
+    dataset: "deaths",
+    label: "Deaths",
+    staleAfterHours: 24,
+    latest: () => prisma.death.aggregate({ _max: { createdAt: true } }).then((r) => r._max.createdAt),
+  },
+  {
+    dataset: "guilds",
+    label: "Guilds",
+    staleAfterHours: 48,
+    latest: () => prisma.guild.aggregate({ _max: { lastSeen: true } }).then((r) => r._max.lastSeen),
+  },
+];
+
+export async function GET() {
+  try {
+    const session = await requireAdmin();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 403 });
+    }
+
+    const jobs: ScraperJobStatus[] = await Promise.all(
+      SCRAPER_JOBS.map(async ({ job, label }) => {
+        const [recent, lastSuccess] = await Promise.all([
+          prisma.scraperRun.findMany({
+            where: { job },
+            orderBy: { startedAt: "desc" },
+            take: HISTORY_DEPTH,
+          }),
+          prisma.scraperRun.findFirst({
+            where: { job, status: "completed" },
+            orderBy: { startedAt: "desc" },
+            select: { finishedAt: true },
+          }),
+        ]);
+
+        // A run still in progress doesn't break or extend the streak
+        const finished = recent.filter((r) => r.status !== "running");
+        const firstOk = finished.findIndex((r) => r.status !== "failed");
+        const failureStreak = firstOk === -1 ? finished.length : firstOk;
+
+        return {
+          job,
+          label,
+          lastRun: (recent[0] as ScraperRunSummary | undefined) ?? null,
+          lastSuccessAt: lastSuccess?.finishedAt ?? null,
+          failureStreak,
+        };
+      }),
+    );
+
+    const now = Date.now();
+    const datasets: DatasetFreshness[] = await Promise.all(
+      DATASETS.map(async ({ dataset, label, staleAfterHours, latest }) => {
+        const latestAt = await latest();
+        return {
+          dataset,
+          label,
+          latestAt,
+          staleAfterHours,
+          isStale: !latestAt || now - latestAt.getTime() > staleAfterHours * 3600_000,
+        };
+      }),
+    );
+
+    return NextResponse.json({ success: true, data: { jobs, datasets } });
+  } catch (error) {
+    console.error("Admin scrapers GET error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
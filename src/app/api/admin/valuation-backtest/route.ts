@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth-helpers";
+import {
+  CURRENT_VALUATION_MODEL,
+  VALUATION_MODELS,
+  loadSoldComparables,
+  loadWorldPvpTypes,
+} from "@/lib/utils/valuation";
+import { backtestValuations } from "@/lib/utils/valuation-backtest";
+
+export const dynamic = "force-dynamic";
+
+/** Sales scored per request unless asked otherwise; the full archive is a job for the CLI */
+const DEFAULT_LIMIT = 2000;
+const MAX_LIMIT = 10000;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireAdmin();
+    if (!session) {
+      return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const versions = (searchParams.get("models") || CURRENT_VALUATION_MODEL.version)
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean)
+      .slice(0, 2);
+    const unknown = versions.filter((v) => !VALUATION_MODELS[v]);
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown model version: ${unknown.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const since = searchParams.get("since");
+    if (since && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+      return NextResponse.json({ success: false, error: "since must be YYYY-MM-DD" }, { status: 400 });
+    }
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get("limit") || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+    const [sold, worldPvpTypes] = await Promise.all([loadSoldComparables(), loadWorldPvpTypes()]);
+    const reports = backtestValuations(sold, versions.map((v) => VALUATION_MODELS[v]), {
+      since: since ? new Date(`${since}T00:00:00Z`) : null,
+      limit,
+      worldPvpTypes,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        models: Object.keys(VALUATION_MODELS),
+        currentModel: CURRENT_VALUATION_MODEL.version,
+        limit,
+        reports,
+      },
+    });
+  } catch (error) {
+    console.error("Admin valuation backtest GET error:", error);
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 });
+  }
+}
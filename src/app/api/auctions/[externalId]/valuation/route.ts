@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth-helpers';
+import { isPremium } from '@/lib/utils/premium';
+import prisma from '@/lib/db/prisma';
+import { explainAuctionValue, parseAuctionEnd } from '@/lib/utils/valuation';
+
+export const dynamic = 'force-dynamic';
+
+// GET: Estimate for a current or past auction, with its top comparables and
+// the TC each feature contributes
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ externalId: string }> }
+) {
+  const session = await getSession();
+  if (!session?.user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!isPremium({ premiumTier: session.user.premiumTier, premiumUntil: session.user.premiumUntil })) {
+    return NextResponse.json({ error: 'Premium required' }, { status: 403 });
+  }
+
+  const { externalId } = await params;
+
+  try {
+    const current = await prisma.currentAuction.findUnique({ where: { externalId } });
+    const past = current ? null : await prisma.auction.findUnique({ where: { externalId } });
+    const auction = current ?? past;
+
+    if (!auction) {
+      return NextResponse.json({ error: 'Auction not found' }, { status: 404 });
+    }
+    if (!auction.vocation || !auction.level) {
+      return NextResponse.json({ error: 'Auction has no level or vocation to price' }, { status: 422 });
+    }
+
+    // Past auctions are priced as of their end, so the estimate can be set against the sale.
+    // Without a usable end time later sales would leak into the estimate.
+    const endedAt = past ? parseAuctionEnd(past.auctionEnd) : null;
+    if (past && !endedAt) {
+      return NextResponse.json({ error: 'Auction end time is unknown, so it cannot be priced as of its end' }, { status: 422 });
+    }
+
+    const valuation = await explainAuctionValue(
+      { ...auction, vocation: auction.vocation, level: auction.level },
+      endedAt,
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        auction: {
+          externalId: auction.externalId,
+          characterName: auction.characterName,
+          level: auction.level,
+          vocation: auction.vocation,
+          world: auction.world,
+          status: current ? 'current' : past?.auctionStatus ?? null,
+          soldPrice: past?.soldPrice ?? null,
+          url: auction.url,
+        },
+        valuation,
+      },
+      ...(valuation ? {} : { message: 'Not enough comparable auction data to estimate value' }),
+    });
+  } catch (error) {
+    console.error('Auction valuation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
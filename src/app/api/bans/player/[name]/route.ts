@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { mapBanReason, mapBanCategory, REPEAT_OFFENDER_MIN_BANS } from '@/lib/utils/ban-rules';
+import { findIdentity, identityNameRanges } from '@/lib/scraper/identities';
+
+/**
+ * Every ban recorded for a player, newest first — active and lifted.
+ * Bans under the character's former names count too; bans under a reused
+ * name from before this character held it don't.
+ * A player with no bans gets an empty history rather than a 404.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+    const playerName = decodeURIComponent(name).trim();
+
+    const identity = await findIdentity(prisma, { name: playerName });
+    const ranges = identity
+      ? await identityNameRanges(prisma, identity)
+      : [{ name: playerName, from: null, until: null }];
+
+    // Bans without a date can't be placed in a range, so they stay with the name
+    const bans = await prisma.ban.findMany({
+      where: {
+        OR: ranges.map((r) => ({
+          playerName: { equals: r.name, mode: 'insensitive' as const },
+          ...((r.from || r.until) && {
+            OR: [{ bannedAt: { gte: r.from ?? undefined, lt: r.until ?? undefined } }, { bannedAt: null }],
+          }),
+        })),
+      },
+      orderBy: { bannedAt: 'desc' },
+    });
+
+    const byCategory: Record<string, number> = {};
+    for (const b of bans) {
+      const category = b.ruleCategory ?? mapBanCategory(b.reason) ?? 'Other';
+      byCategory[category] = (byCategory[category] || 0) + 1;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        playerName: identity?.name ?? bans[0]?.playerName ?? playerName,
+        identityId: identity?.id ?? null,
+        formerNames: [...new Set(identity?.aliases.map((a) => a.name).filter((n) => n !== identity.name))],
+        totalBans: bans.length,
+        activeBans: bans.filter((b) => b.isActive).length,
+        isRepeatOffender: bans.length >= REPEAT_OFFENDER_MIN_BANS,
+        categories: Object.entries(byCategory)
+          .map(([category, count]) => ({ category, count }))
+          .sort((a, b) => b.count - a.count),
+        bans: bans.map((b) => ({
+          id: b.id,
+          world: b.world,
+          rule: b.reason,
+          reason: mapBanReason(b.reason),
+          category: b.ruleCategory ?? mapBanCategory(b.reason),
+          bannedAt: b.bannedAt?.toISOString() ?? null,
+          expiresAt: b.expiresAt?.toISOString() ?? null,
+          liftedAt: b.liftedAt?.toISOString() ?? null,
+          isPermanent: b.isPermanent,
+          isActive: b.isActive,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch player bans:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch player bans' },
+      { status: 500 },
+    );
+  }
+}
@@ -29,6 +29,14 @@ export async function GET(req: NextRequest) {
       prisma.ban.count({ where }),
     ]);
 
+    // Lifted bans count too, so a returning offender shows up as one
+    const history = await prisma.ban.groupBy({
+      by: ['playerName'],
+      where: { playerName: { in: bans.map((b) => b.playerName) } },
+      _count: { _all: true },
+    });
+    const banCounts = new Map(history.map((h) => [h.playerName, h._count._all]));
+
     return NextResponse.json({
       success: true,
       data: bans.map((b) => ({
@@ -39,6 +47,7 @@ export async function GET(req: NextRequest) {
         bannedAt: b.bannedAt?.toISOString() ?? null,
         expiresAt: b.expiresAt?.toISOString() ?? null,
         isPermanent: b.isPermanent,
+        banCount: banCounts.get(b.playerName) ?? 1,
       })),
       pagination: {
         page,
@@ -1,9 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db/prisma';
+import { RUBINOT_URLS } from '@/lib/utils/constants';
+import { saveBidUpdate } from '@/lib/scraper/bids';
+import { timestampToDateString } from '@/lib/utils/auction-dates';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes max
 
+/** Bid fields from a /api/bazaar list entry (same mapping as apiAuctionToListAuction) */
+function bidUpdate(auction: { startingValue?: number; currentValue?: number; auctionEnd?: number | string }) {
+  const minimumBid = auction.startingValue ?? null;
+  const hasBeenBidOn = (auction.currentValue ?? 0) > (minimumBid ?? 0);
+  return {
+    minimumBid,
+    currentBid: hasBeenBidOn ? auction.currentValue! : null,
+    hasBeenBidOn,
+    auctionEnd: timestampToDateString(auction.auctionEnd),
+  };
+}
+
 /**
  * Cron endpoint for updating auction bids.
  * Attempts to fetch /api/bazaar from RubinOT server-side.
@@ -27,7 +42,7 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const baseUrl = 'https://rubinot.com.br';
+    const baseUrl = RUBINOT_URLS.base;
     const userAgent =
       'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
 
@@ -70,18 +85,9 @@ export async function POST(request: NextRequest) {
       seenIds.add(externalId);
 
       try {
-        await prisma.currentAuction.update({
-          where: { externalId },
-          data: {
-            minimumBid: auction.minimum_bid ?? null,
-            currentBid: auction.current_bid ?? null,
-            hasBeenBidOn: (auction.current_bid ?? 0) > (auction.minimum_bid ?? 0),
-            auctionEnd: auction.auction_end ?? undefined,
-          },
-        });
-        totalUpdated++;
-      } catch {
-        // Not in DB yet — skip
+        if (await saveBidUpdate(prisma, externalId, bidUpdate(auction)) !== 'missing') totalUpdated++;
+      } catch (err) {
+        console.error(`Cron: failed bid update for ${externalId}:`, err);
       }
     }
 
@@ -107,18 +113,9 @@ export async function POST(request: NextRequest) {
           seenIds.add(externalId);
 
           try {
-            await prisma.currentAuction.update({
-              where: { externalId },
-              data: {
-                minimumBid: auction.minimum_bid ?? null,
-                currentBid: auction.current_bid ?? null,
-                hasBeenBidOn: (auction.current_bid ?? 0) > (auction.minimum_bid ?? 0),
-                auctionEnd: auction.auction_end ?? undefined,
-              },
-            });
-            totalUpdated++;
-          } catch {
-            // Not in DB yet — skip
+            if (await saveBidUpdate(prisma, externalId, bidUpdate(auction)) !== 'missing') totalUpdated++;
+          } catch (err) {
+            console.error(`Cron: failed bid update for ${externalId}:`, err);
           }
         }
       } catch (err) {
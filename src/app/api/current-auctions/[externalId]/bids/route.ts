@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+
+const SNAPSHOT_SELECT = {
+  minimumBid: true,
+  currentBid: true,
+  hasBeenBidOn: true,
+  auctionEnd: true,
+  capturedAt: true,
+} as const;
+
+/**
+ * Bid timeline for an auction, oldest first.
+ * Falls back to the archived copy once the auction has moved to history.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ externalId: string }> }
+) {
+  try {
+    const { externalId } = await params;
+
+    const current = await prisma.currentAuction.findUnique({
+      where: { externalId },
+      select: { bidSnapshots: { select: SNAPSHOT_SELECT, orderBy: { capturedAt: 'asc' } } },
+    });
+    if (current && current.bidSnapshots.length > 0) {
+      return NextResponse.json({ success: true, data: current.bidSnapshots });
+    }
+
+    const archived = await prisma.auction.findUnique({
+      where: { externalId },
+      select: { bidSnapshots: { select: SNAPSHOT_SELECT, orderBy: { capturedAt: 'asc' } } },
+    });
+    if (!current && !archived) {
+      return NextResponse.json({ success: false, error: 'Auction not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: archived?.bidSnapshots ?? [] });
+  } catch {
+    return NextResponse.json({ success: false, error: 'Failed to fetch bid history' }, { status: 500 });
+  }
+}
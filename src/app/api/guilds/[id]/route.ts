@@ -0,0 +1,238 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+
+export const dynamic = 'force-dynamic';
+
+/** Days of snapshots behind the exp-per-day figures and chart */
+const EXP_WINDOW_DAYS = 30;
+/** Joins and leaves shown in the membership history */
+const HISTORY_LIMIT = 50;
+/** How long before joining a transfer onto the guild's world still counts as arriving for it */
+const ARRIVAL_WINDOW_DAYS = 30;
+
+const LEVEL_BUCKETS: { range: string; min: number; max: number }[] = [
+  { range: '1-99', min: 1, max: 99 },
+  { range: '100-499', min: 100, max: 499 },
+  { range: '500-999', min: 500, max: 999 },
+  { range: '1000+', min: 1000, max: Infinity },
+];
+
+interface MemberRow {
+  character_name: string;
+  rank: string | null;
+  joined_at: Date;
+  identity_id: number | null;
+  level: number | null;
+  vocation: string | null;
+  exp_gained: bigint | null;
+}
+
+interface RivalRow {
+  guild_id: number;
+  name: string;
+  kills: bigint;
+  deaths: bigint;
+}
+
+/**
+ * One guild's dashboard: current members, membership history, exp gained
+ * per day, level distribution, bans and transfers of its members while they
+ * were members, and PvP kills against other guilds.
+ *
+ * Name-keyed tables (bans, transfers, pvp_kills) are matched on the name a
+ * member had during their stint, since a rename opens a new stint.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const guildId = parseInt(id, 10);
+    if (isNaN(guildId)) {
+      return NextResponse.json({ success: false, error: 'Invalid guild ID' }, { status: 400 });
+    }
+
+    const guild = await prisma.guild.findUnique({ where: { id: guildId } });
+    if (!guild) {
+      return NextResponse.json({ success: false, error: 'Guild not found' }, { status: 404 });
+    }
+
+    const [members, joins, leaves, expByDay, bans, transfers, rivals] = await Promise.all([
+      prisma.$queryRaw<MemberRow[]>`
+        WITH latest AS (SELECT MAX(captured_date) AS d FROM character_snapshots)
+        SELECT gm.character_name, gm.rank, gm.joined_at, gm.identity_id, i.level, i.vocation, (
+          SELECT SUM(cs.exp_gained)
+          FROM character_snapshots cs, latest
+          WHERE cs.identity_id = gm.identity_id AND cs.captured_date > latest.d - 7
+        ) AS exp_gained
+        FROM guild_memberships gm
+        LEFT JOIN character_identities i ON i.id = gm.identity_id
+        WHERE gm.guild_id = ${guildId} AND gm.left_at IS NULL
+        ORDER BY i.level DESC NULLS LAST, gm.character_name
+      `,
+
+      prisma.guildMembership.findMany({
+        where: { guildId },
+        orderBy: { joinedAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: { characterName: true, rank: true, joinedAt: true },
+      }),
+
+      prisma.guildMembership.findMany({
+        where: { guildId, leftAt: { not: null } },
+        orderBy: { leftAt: 'desc' },
+        take: HISTORY_LIMIT,
+        select: { characterName: true, rank: true, leftAt: true },
+      }),
+
+      // Exp of every identity that was in the guild on that day
+      prisma.$queryRaw<{ date: Date; exp_gained: bigint | null; active: bigint }[]>`
+        WITH latest AS (SELECT MAX(captured_date) AS d FROM character_snapshots)
+        SELECT cs.captured_date AS date, SUM(cs.exp_gained) AS exp_gained,
+          COUNT(*) FILTER (WHERE cs.exp_gained > 0) AS active
+        FROM character_snapshots cs, latest
+        WHERE cs.captured_date > latest.d - ${EXP_WINDOW_DAYS}::int
+          AND EXISTS (
+            SELECT 1 FROM guild_memberships gm
+            WHERE gm.guild_id = ${guildId}
+              AND gm.identity_id = cs.identity_id
+              AND cs.captured_date >= gm.joined_at::date
+              AND (gm.left_at IS NULL OR cs.captured_date < gm.left_at::date)
+          )
+        GROUP BY cs.captured_date
+        ORDER BY cs.captured_date
+      `,
+
+      prisma.$queryRaw<{ total: bigint; active: bigint }[]>`
+        SELECT COUNT(*) AS total, COUNT(*) FILTER (WHERE b.is_active) AS active
+        FROM bans b
+        WHERE b.world = ${guild.world}
+          AND EXISTS (
+            SELECT 1 FROM guild_memberships gm
+            WHERE gm.guild_id = ${guildId}
+              AND gm.character_name = b.player_name
+              AND b.banned_at >= gm.joined_at
+              AND (gm.left_at IS NULL OR b.banned_at < gm.left_at)
+          )
+      `,
+
+      // Departures: moved off the world during a stint (the transfer ends it).
+      // Arrivals: moved onto the world shortly before joining.
+      prisma.$queryRaw<{ arrived: bigint; departed: bigint }[]>`
+        SELECT
+          COUNT(*) FILTER (WHERE t.to_world = ${guild.world} AND EXISTS (
+            SELECT 1 FROM guild_memberships gm
+            WHERE gm.guild_id = ${guildId} AND gm.character_name = t.player_name
+              AND t.transfer_date BETWEEN gm.joined_at - ${ARRIVAL_WINDOW_DAYS}::int * INTERVAL '1 day' AND gm.joined_at
+          )) AS arrived,
+          COUNT(*) FILTER (WHERE t.from_world = ${guild.world} AND EXISTS (
+            SELECT 1 FROM guild_memberships gm
+            WHERE gm.guild_id = ${guildId} AND gm.character_name = t.player_name
+              AND t.transfer_date >= gm.joined_at
+              AND t.transfer_date < COALESCE(gm.left_at, NOW()) + INTERVAL '1 day'
+          )) AS departed
+        FROM transfers t
+        WHERE t.transfer_date IS NOT NULL
+          AND (t.to_world = ${guild.world} OR t.from_world = ${guild.world})
+      `,
+
+      prisma.$queryRaw<RivalRow[]>`
+        WITH stints AS (
+          SELECT gm.guild_id, gm.character_name, gm.joined_at, COALESCE(gm.left_at, 'infinity') AS left_at
+          FROM guild_memberships gm
+          JOIN guilds g ON g.id = gm.guild_id
+          WHERE g.world = ${guild.world}
+        ),
+        fights AS (
+          SELECT
+            CASE WHEN k.guild_id = ${guildId} THEN v.guild_id ELSE k.guild_id END AS rival_id,
+            k.guild_id = ${guildId} AS won
+          FROM pvp_kills pk
+          JOIN stints k ON k.character_name = pk.killer_name AND pk.killed_at >= k.joined_at AND pk.killed_at < k.left_at
+          JOIN stints v ON v.character_name = pk.victim_name AND pk.killed_at >= v.joined_at AND pk.killed_at < v.left_at
+          WHERE pk.world = ${guild.world}
+            AND (k.guild_id = ${guildId} OR v.guild_id = ${guildId})
+            AND k.guild_id <> v.guild_id
+        )
+        SELECT f.rival_id AS guild_id, g.name,
+          COUNT(*) FILTER (WHERE f.won) AS kills,
+          COUNT(*) FILTER (WHERE NOT f.won) AS deaths
+        FROM fights f
+        JOIN guilds g ON g.id = f.rival_id
+        GROUP BY f.rival_id, g.name
+        ORDER BY COUNT(*) DESC
+        LIMIT 20
+      `,
+    ]);
+
+    // Stints become join and leave events, newest first
+    const events = [
+      ...joins.map((m) => ({ characterName: m.characterName, rank: m.rank, type: 'joined' as const, date: m.joinedAt })),
+      ...leaves.map((m) => ({ characterName: m.characterName, rank: m.rank, type: 'left' as const, date: m.leftAt! })),
+    ]
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, HISTORY_LIMIT);
+
+    const days = expByDay.length;
+    const totalExp = expByDay.reduce((sum, d) => sum + Number(d.exp_gained ?? 0), 0);
+    const expPerDay = days > 0 ? Math.round(totalExp / days) : 0;
+
+    const levels = members.map((m) => m.level).filter((l): l is number => l != null);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        guild: {
+          id: guild.id,
+          name: guild.name,
+          world: guild.world,
+          description: guild.description,
+          foundedAt: guild.foundedAt,
+          isActive: guild.isActive,
+          firstSeen: guild.firstSeen,
+          lastSeen: guild.lastSeen,
+        },
+        members: members.map((m) => ({
+          characterName: m.character_name,
+          rank: m.rank,
+          joinedAt: m.joined_at,
+          identityId: m.identity_id,
+          level: m.level,
+          vocation: m.vocation,
+          expGained7d: m.exp_gained != null ? Number(m.exp_gained) : null,
+        })),
+        history: events,
+        stats: {
+          memberCount: members.length,
+          avgLevel: levels.length > 0 ? Math.round(levels.reduce((a, b) => a + b, 0) / levels.length) : null,
+          expPerDay,
+          avgExpPerMemberPerDay: members.length > 0 ? Math.round(expPerDay / members.length) : 0,
+          bans: { total: Number(bans[0]?.total ?? 0), active: Number(bans[0]?.active ?? 0) },
+          transfers: { arrived: Number(transfers[0]?.arrived ?? 0), departed: Number(transfers[0]?.departed ?? 0) },
+        },
+        expByDay: expByDay.map((d) => ({
+          date: d.date.toISOString().split('T')[0],
+          expGained: Number(d.exp_gained ?? 0),
+          activeMembers: Number(d.active),
+        })),
+        levelDistribution: LEVEL_BUCKETS.map((b) => ({
+          range: b.range,
+          count: levels.filter((l) => l >= b.min && l <= b.max).length,
+        })),
+        rivals: rivals.map((r) => ({
+          guildId: r.guild_id,
+          name: r.name,
+          kills: Number(r.kills),
+          deaths: Number(r.deaths),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch guild:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch guild' },
+      { status: 500 },
+    );
+  }
+}
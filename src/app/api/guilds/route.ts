@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db/prisma';
+
+export const dynamic = 'force-dynamic';
+
+/** Days of snapshots behind each guild's exp-per-day figures */
+const EXP_WINDOW_DAYS = 7;
+
+const SORT_COLUMNS: Record<string, Prisma.Sql> = {
+  exp: Prisma.sql`exp_gained DESC`,
+  members: Prisma.sql`members DESC`,
+  level: Prisma.sql`avg_level DESC NULLS LAST`,
+  name: Prisma.sql`g.name ASC`,
+};
+
+interface GuildRow {
+  id: number;
+  name: string;
+  world: string;
+  members: bigint;
+  avg_level: number | null;
+  exp_gained: bigint | null;
+  total: bigint;
+}
+
+/**
+ * Active guilds with their current member count, average member level and
+ * exp gained per day over the last week of snapshots.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const search = searchParams.get('search')?.trim() || '';
+    const world = searchParams.get('world')?.trim() || '';
+    const sort = SORT_COLUMNS[searchParams.get('sort') || 'exp'] ?? SORT_COLUMNS.exp;
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)));
+
+    const rows = await prisma.$queryRaw<GuildRow[]>`
+      WITH latest AS (SELECT MAX(captured_date) AS d FROM character_snapshots)
+      SELECT
+        g.id, g.name, g.world,
+        COUNT(gm.id) AS members,
+        ROUND(AVG(i.level))::int AS avg_level,
+        SUM(gain.exp) AS exp_gained,
+        COUNT(*) OVER () AS total
+      FROM guilds g
+      JOIN guild_memberships gm ON gm.guild_id = g.id AND gm.left_at IS NULL
+      LEFT JOIN character_identities i ON i.id = gm.identity_id
+      LEFT JOIN LATERAL (
+        SELECT SUM(cs.exp_gained) AS exp
+        FROM character_snapshots cs, latest
+        WHERE cs.identity_id = gm.identity_id
+          AND cs.captured_date > latest.d - ${EXP_WINDOW_DAYS}::int
+      ) gain ON true
+      WHERE g.is_active
+        ${world ? Prisma.sql`AND g.world = ${world}` : Prisma.empty}
+        ${search ? Prisma.sql`AND g.name ILIKE ${'%' + search + '%'}` : Prisma.empty}
+      GROUP BY g.id
+      ORDER BY ${sort}, g.id
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    const total = rows.length > 0 ? Number(rows[0].total) : 0;
+
+    return NextResponse.json({
+      success: true,
+      data: rows.map((r) => ({
+        id: r.id,
+        name: r.name,
+        world: r.world,
+        members: Number(r.members),
+        avgLevel: r.avg_level,
+        expPerDay: Math.round(Number(r.exp_gained ?? 0) / EXP_WINDOW_DAYS),
+      })),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch guilds:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch guilds' },
+      { status: 500 },
+    );
+  }
+}
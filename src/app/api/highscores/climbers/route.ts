@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db/prisma';
+import {
+  DAILY_PROFESSIONS,
+  HIGHSCORE_CATEGORIES,
+  RANK_MOVER_PERIODS,
+  type HighscoreProfession,
+  type RankMoverPeriod,
+} from '@/lib/utils/constants';
+
+export const dynamic = 'force-dynamic';
+
+interface MoverRow {
+  character_name: string;
+  world: string;
+  vocation: string;
+  level: number;
+  rank_now: number;
+  rank_then: number;
+  score_now: bigint;
+  score_then: bigint;
+  change: number;
+}
+
+/**
+ * Biggest rank movers in a highscore category between the latest scrape and
+ * the latest one at least `days` earlier. Ranks are per world and vocation,
+ * as listed on the site, so a mover must stay on the same list: rows whose
+ * name changed hands in between (different resolved identity) are skipped.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const category = searchParams.get('category') || 'Experience Points';
+    const days = parseInt(searchParams.get('days') || '7', 10) as RankMoverPeriod;
+    const world = searchParams.get('world');
+    const vocation = searchParams.get('vocation') as HighscoreProfession | null;
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '25', 10)));
+
+    if (!(category in HIGHSCORE_CATEGORIES)) {
+      return NextResponse.json({ success: false, error: 'Unknown category' }, { status: 400 });
+    }
+    if (!RANK_MOVER_PERIODS.includes(days)) {
+      return NextResponse.json(
+        { success: false, error: `days must be one of ${RANK_MOVER_PERIODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (vocation && !DAILY_PROFESSIONS.includes(vocation)) {
+      return NextResponse.json({ success: false, error: 'Unknown vocation' }, { status: 400 });
+    }
+
+    const worldFilter = world ? Prisma.sql`AND world = ${world}` : Prisma.empty;
+
+    const [range] = await prisma.$queryRaw<{ to_date: Date | null; from_date: Date | null }[]>`
+      WITH latest AS (
+        SELECT MAX(captured_date) AS to_date FROM highscore_entries
+        WHERE category = ${category} ${worldFilter}
+      )
+      SELECT latest.to_date, (
+        SELECT MAX(captured_date) FROM highscore_entries
+        WHERE category = ${category} ${worldFilter} AND captured_date <= latest.to_date - ${days}::int
+      ) AS from_date
+      FROM latest
+    `;
+
+    if (!range?.to_date || !range.from_date) {
+      return NextResponse.json({
+        success: true,
+        data: { category, days, world: world || 'all', vocation: vocation || 'all', from: null, to: null, climbers: [], fallers: [] },
+      });
+    }
+
+    // "Knights" → matches Knight and Elite Knight
+    const vocationFilter = vocation
+      ? Prisma.sql`AND cur.vocation ILIKE ${'%' + vocation.slice(0, -1) + '%'}`
+      : Prisma.empty;
+    const curWorldFilter = world ? Prisma.sql`AND cur.world = ${world}` : Prisma.empty;
+
+    const movers = (direction: 'up' | 'down') => prisma.$queryRaw<MoverRow[]>`
+      SELECT
+        cur.character_name, cur.world, cur.vocation, cur.level,
+        cur.rank AS rank_now, prev.rank AS rank_then,
+        cur.score AS score_now, prev.score AS score_then,
+        prev.rank - cur.rank AS change
+      FROM highscore_entries cur
+      JOIN highscore_entries prev
+        ON prev.character_name = cur.character_name
+        AND prev.world = cur.world
+        AND prev.category = cur.category
+        AND prev.captured_date = ${range.from_date}
+      WHERE cur.category = ${category}
+        AND cur.captured_date = ${range.to_date}
+        ${curWorldFilter}
+        ${vocationFilter}
+        AND ${direction === 'up' ? Prisma.sql`prev.rank > cur.rank` : Prisma.sql`prev.rank < cur.rank`}
+        AND NOT EXISTS (
+          SELECT 1
+          FROM characters c
+          JOIN worlds w ON w.id = c.world_id
+          JOIN character_snapshots sc ON sc.character_id = c.id AND sc.captured_date = cur.captured_date
+          JOIN character_snapshots sp ON sp.character_id = c.id AND sp.captured_date = prev.captured_date
+          WHERE c.name = cur.character_name AND w.name = cur.world AND sc.identity_id <> sp.identity_id
+        )
+      ORDER BY ${direction === 'up' ? Prisma.sql`change DESC` : Prisma.sql`change ASC`}, cur.rank
+      LIMIT ${limit}
+    `;
+
+    const [climbers, fallers] = await Promise.all([movers('up'), movers('down')]);
+
+    const toMover = (r: MoverRow) => ({
+      characterName: r.character_name,
+      world: r.world,
+      vocation: r.vocation,
+      level: r.level,
+      rankNow: r.rank_now,
+      rankThen: r.rank_then,
+      change: r.change,
+      scoreNow: Number(r.score_now),
+      scoreThen: Number(r.score_then),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        category,
+        days,
+        world: world || 'all',
+        vocation: vocation || 'all',
+        from: range.from_date,
+        to: range.to_date,
+        climbers: climbers.map(toMover),
+        fallers: fallers.map(toMover),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch rank climbers:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch rank climbers' }, { status: 500 });
+  }
+}
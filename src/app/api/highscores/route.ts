@@ -1,28 +1,269 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import prisma from '@/lib/db/prisma';
+import {
+  DAILY_PROFESSIONS,
+  HIGHSCORE_CATEGORIES,
+  VOCATIONS,
+  type HighscoreProfession,
+} from '@/lib/utils/constants';
 
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DIFF_SORTS = ['rank', 'scoreChange', 'rankChange'] as const;
+type DiffSort = (typeof DIFF_SORTS)[number];
+
+interface EntryRow {
+  id: number;
+  character_name: string;
+  world: string;
+  vocation: string;
+  level: number;
+  rank: number;
+  score: bigint;
+  captured_date: Date;
+}
+
+interface DiffRow extends EntryRow {
+  prev_rank: number | null;
+  prev_score: bigint | null;
+  score_change: bigint | null;
+  rank_change: number | null;
+}
+
+/** Opaque keyset cursor: the sort values of the last row returned */
+function encodeCursor(values: (string | number)[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+function decodeCursor(cursor: string | null): (string | number)[] | null {
+  if (!cursor) return null;
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Array.isArray(values) ? values : null;
+  } catch {
+    return null;
+  }
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Highscore entries as captured by the daily scrape.
+ *
+ * List mode (default) returns one capture date's list — the latest capture
+ * on or before `date`, or every capture between `from` and `to`.
+ * Diff mode (`mode=diff`) compares the captures on or before `from` and `to`
+ * (default: the two latest) and returns each player's score and rank change.
+ * A name that changed hands in between counts as a new entry, not a change.
+ *
+ * Filters: category, world, vocation (exact, e.g. "Elite Knight") and
+ * profession (e.g. "Knights", matching promoted and unpromoted).
+ * Paginated by `cursor`, taken from `pagination.nextCursor`.
+ */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const world = searchParams.get('world');
+    const mode = searchParams.get('mode') === 'diff' ? 'diff' : 'list';
     const category = searchParams.get('category') || 'Experience Points';
-    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '50')));
+    const world = searchParams.get('world');
+    const vocation = searchParams.get('vocation');
+    const profession = searchParams.get('profession') as HighscoreProfession | null;
+    const date = searchParams.get('date');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const sort = (searchParams.get('sort') || 'rank') as DiffSort;
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10)));
+    const cursorParam = searchParams.get('cursor');
+    const cursor = decodeCursor(cursorParam);
+
+    if (!(category in HIGHSCORE_CATEGORIES)) {
+      return NextResponse.json({ success: false, error: 'Unknown category' }, { status: 400 });
+    }
+    if (vocation && !(VOCATIONS as readonly string[]).includes(vocation)) {
+      return NextResponse.json({ success: false, error: 'Unknown vocation' }, { status: 400 });
+    }
+    if (profession && !DAILY_PROFESSIONS.includes(profession)) {
+      return NextResponse.json({ success: false, error: 'Unknown profession' }, { status: 400 });
+    }
+    if ([date, from, to].some((d) => d && !DATE_PATTERN.test(d))) {
+      return NextResponse.json({ success: false, error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (mode === 'diff' && !DIFF_SORTS.includes(sort)) {
+      return NextResponse.json(
+        { success: false, error: `sort must be one of ${DIFF_SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ success: false, error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const worldFilter = world ? Prisma.sql`AND world = ${world}` : Prisma.empty;
+    const filters = (alias: string) => Prisma.sql`
+      ${world ? Prisma.sql`AND ${Prisma.raw(alias)}.world = ${world}` : Prisma.empty}
+      ${vocation ? Prisma.sql`AND ${Prisma.raw(alias)}.vocation = ${vocation}` : Prisma.empty}
+      ${profession ? Prisma.sql`AND ${Prisma.raw(alias)}.vocation ILIKE ${'%' + profession.slice(0, -1) + '%'}` : Prisma.empty}
+    `;
 
-    const where: Record<string, unknown> = { category };
-    if (world) where.world = world;
+    // Latest capture of this category on or before a day (or strictly before, for a diff's default start)
+    const captureOnOrBefore = async (day: string | null, strict = false): Promise<Date | null> => {
+      const bound = day
+        ? Prisma.sql`AND captured_date ${Prisma.raw(strict ? '<' : '<=')} ${day}::date`
+        : Prisma.empty;
+      const [row] = await prisma.$queryRaw<{ d: Date | null }[]>`
+        SELECT MAX(captured_date) AS d FROM highscore_entries
+        WHERE category = ${category} ${worldFilter} ${bound}
+      `;
+      return row?.d ?? null;
+    };
 
-    const entries = await prisma.highscoreEntry.findMany({
-      where,
-      orderBy: { rank: 'asc' },
-      take: limit,
-      distinct: ['characterName', 'world'],
+    const toEntry = (r: EntryRow) => ({
+      characterName: r.character_name,
+      world: r.world,
+      vocation: r.vocation,
+      level: r.level,
+      rank: r.rank,
+      score: Number(r.score),
+      capturedDate: toDay(r.captured_date),
     });
 
+    // ── Diff mode ────────────────────────────────────────────────────
+    if (mode === 'diff') {
+      const toDate = await captureOnOrBefore(to);
+      const fromDate = toDate
+        ? await captureOnOrBefore(from ?? toDay(toDate), !from || from >= toDay(toDate))
+        : null;
+      if (!toDate || !fromDate) {
+        return NextResponse.json({
+          success: true,
+          data: [],
+          category,
+          from: fromDate && toDay(fromDate),
+          to: toDate && toDay(toDate),
+          pagination: { limit, nextCursor: null },
+        });
+      }
+
+      // New entries have no change, so only the rank order lists them
+      const sortValue = sort === 'rank' ? Prisma.sql`d.rank`
+        : sort === 'scoreChange' ? Prisma.sql`d.score_change` : Prisma.sql`d.rank_change`;
+      const direction = sort === 'rank' ? Prisma.sql`ASC` : Prisma.sql`DESC`;
+      const keyset = cursor
+        ? sort === 'rank'
+          ? Prisma.sql`AND (d.rank, d.id) > (${Number(cursor[0])}, ${Number(cursor[1])})`
+          : Prisma.sql`AND (${sortValue} < ${Number(cursor[0])} OR (${sortValue} = ${Number(cursor[0])} AND d.id > ${Number(cursor[1])}))`
+        : Prisma.empty;
+
+      const rows = await prisma.$queryRaw<DiffRow[]>`
+        SELECT * FROM (
+          SELECT
+            cur.id, cur.character_name, cur.world, cur.vocation, cur.level, cur.rank, cur.score, cur.captured_date,
+            prev.rank AS prev_rank, prev.score AS prev_score,
+            cur.score - prev.score AS score_change,
+            prev.rank - cur.rank AS rank_change
+          FROM highscore_entries cur
+          LEFT JOIN highscore_entries prev
+            ON prev.character_name = cur.character_name
+            AND prev.world = cur.world
+            AND prev.category = cur.category
+            AND prev.captured_date = ${fromDate}
+            AND NOT EXISTS (
+              SELECT 1
+              FROM characters c
+              JOIN worlds w ON w.id = c.world_id
+              JOIN character_snapshots sc ON sc.character_id = c.id AND sc.captured_date = cur.captured_date
+              JOIN character_snapshots sp ON sp.character_id = c.id AND sp.captured_date = prev.captured_date
+              WHERE c.name = cur.character_name AND w.name = cur.world AND sc.identity_id <> sp.identity_id
+            )
+          WHERE cur.category = ${category}
+            AND cur.captured_date = ${toDate}
+            ${filters('cur')}
+        ) d
+        WHERE ${sort === 'rank' ? Prisma.sql`TRUE` : Prisma.sql`d.prev_rank IS NOT NULL`}
+          ${keyset}
+        ORDER BY ${sortValue} ${direction}, d.id
+        LIMIT ${limit + 1}
+      `;
+
+      const page = rows.slice(0, limit);
+      const last = page[page.length - 1];
+      const lastValue = last && (sort === 'rank' ? last.rank
+        : sort === 'scoreChange' ? Number(last.score_change) : last.rank_change!);
+
+      return NextResponse.json({
+        success: true,
+        data: page.map((r) => ({
+          ...toEntry(r),
+          previousRank: r.prev_rank,
+          previousScore: r.prev_score != null ? Number(r.prev_score) : null,
+          scoreChange: r.score_change != null ? Number(r.score_change) : null,
+          rankChange: r.rank_change,
+        })),
+        category,
+        from: toDay(fromDate),
+        to: toDay(toDate),
+        pagination: {
+          limit,
+          nextCursor: rows.length > limit ? encodeCursor([lastValue, last.id]) : null,
+        },
+      });
+    }
+
+    // ── List mode ────────────────────────────────────────────────────
+    let dateFilter: Prisma.Sql;
+    let capturedOn: Date | null = null;
+    if (from || to) {
+      dateFilter = Prisma.sql`
+        ${from ? Prisma.sql`AND e.captured_date >= ${from}::date` : Prisma.empty}
+        ${to ? Prisma.sql`AND e.captured_date <= ${to}::date` : Prisma.empty}
+      `;
+    } else {
+      capturedOn = await captureOnOrBefore(date);
+      if (!capturedOn) {
+        return NextResponse.json({
+          success: true,
+          data: [],
+          category,
+          date: null,
+          pagination: { limit, nextCursor: null },
+        });
+      }
+      dateFilter = Prisma.sql`AND e.captured_date = ${capturedOn}`;
+    }
+
+    // Newest capture first, then by rank
+    const keyset = cursor
+      ? Prisma.sql`AND (e.captured_date < ${String(cursor[0])}::date
+          OR (e.captured_date = ${String(cursor[0])}::date AND (e.rank, e.id) > (${Number(cursor[1])}, ${Number(cursor[2])})))`
+      : Prisma.empty;
+
+    const rows = await prisma.$queryRaw<EntryRow[]>`
+      SELECT e.id, e.character_name, e.world, e.vocation, e.level, e.rank, e.score, e.captured_date
+      FROM highscore_entries e
+      WHERE e.category = ${category}
+        ${dateFilter}
+        ${filters('e')}
+        ${keyset}
+      ORDER BY e.captured_date DESC, e.rank, e.id
+      LIMIT ${limit + 1}
+    `;
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
     return NextResponse.json({
       success: true,
-      data: entries,
+      data: page.map(toEntry),
       category,
-      world: world || 'all',
+      date: capturedOn && toDay(capturedOn),
+      pagination: {
+        limit,
+        nextCursor: rows.length > limit ? encodeCursor([toDay(last.captured_date), last.rank, last.id]) : null,
+      },
     });
   } catch (error) {
     console.error('Highscores API error:', error);
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { WEAPON_TYPES } from '@/lib/utils/skill-calculator';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Item market names of each tradeable exercise weapon type, any weapon kind
+ * ("Durable Exercise Sword", "Lasting Exercise Rod", ...). Daily weapons are
+ * bound to the character and never listed.
+ */
+const LISTING_PATTERNS: Record<string, string> = {
+  Regular: 'exercise %',
+  Durable: 'durable exercise %',
+  Lasting: 'lasting exercise %',
+};
+
+interface PriceRow {
+  pattern: string;
+  median: number | null;
+  listings: bigint;
+}
+
+/**
+ * Current prices of each exercise weapon type: the median unit price of
+ * active item market listings, in gold, and the store price, in coins.
+ * They are kept apart since there is no fixed gold/coin rate.
+ */
+export async function GET() {
+  try {
+    const patterns = Object.values(LISTING_PATTERNS);
+    const rows = await prisma.$queryRaw<PriceRow[]>`
+      SELECT p.pattern,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY l.price::float / GREATEST(l.quantity, 1)) AS median,
+        COUNT(l.id) AS listings
+      FROM UNNEST(${patterns}::text[]) AS p(pattern)
+      LEFT JOIN item_listings l
+        ON l.item_name ILIKE p.pattern AND l.is_active AND l.expires_at > NOW()
+      GROUP BY p.pattern
+    `;
+    const byPattern = new Map(rows.map((r) => [r.pattern, r]));
+
+    const weapons = WEAPON_TYPES.map((w) => {
+      const pattern = LISTING_PATTERNS[w.name];
+      const row = pattern ? byPattern.get(pattern) : undefined;
+      return {
+        name: w.name,
+        charges: w.charges,
+        marketPriceGold: row?.median != null ? Math.round(row.median) : null,
+        listings: Number(row?.listings ?? 0),
+        storePriceCoins: w.rcCost > 0 ? w.rcCost : null,
+      };
+    });
+
+    return NextResponse.json({ success: true, data: weapons });
+  } catch (error) {
+    console.error('Failed to fetch exercise weapon prices:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch exercise weapon prices' },
+      { status: 500 },
+    );
+  }
+}
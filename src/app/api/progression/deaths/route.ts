@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { findIdentity, identityNameRanges } from '@/lib/scraper/identities';
+
+/** Deaths returned per character — enough for a year of an active hunter */
+const MAX_DEATHS = 500;
+
+/**
+ * Death timeline for a character, oldest first, for overlaying on the
+ * progression charts. Follows the resolved identity across renames, and only
+ * counts deaths under a reused name while this character held it.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const characterName = searchParams.get('characterName')?.trim();
+    const identityId = parseInt(searchParams.get('identityId') ?? '', 10) || null;
+    if (!characterName && !identityId) {
+      return NextResponse.json(
+        { success: false, error: 'characterName or identityId is required' },
+        { status: 400 },
+      );
+    }
+
+    // Characters never seen on the highscores have no identity; match the name as given
+    const identity = await findIdentity(prisma, { identityId, name: characterName });
+    const ranges = identity
+      ? await identityNameRanges(prisma, identity)
+      : [{ name: characterName!, from: null, until: null }];
+
+    const deaths = await prisma.death.findMany({
+      where: {
+        OR: ranges.map((r) => ({
+          victimName: { equals: r.name, mode: 'insensitive' as const },
+          killedAt: { gte: r.from ?? undefined, lt: r.until ?? undefined },
+        })),
+      },
+      orderBy: { killedAt: 'desc' },
+      take: MAX_DEATHS,
+    });
+    deaths.reverse();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        total: deaths.length,
+        pvp: deaths.filter((d) => d.killedByPlayer).length,
+        deaths: deaths.map((d) => ({
+          killedAt: d.killedAt.toISOString(),
+          level: d.victimLevel,
+          killedBy: d.killedBy,
+          killedByPlayer: d.killedByPlayer,
+          mostDamageBy: d.mostDamageBy,
+          mostDamageIsPlayer: d.mostDamageIsPlayer,
+          world: d.world,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to fetch death timeline:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch death timeline' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db/prisma';
+import { findIdentity } from '@/lib/scraper/identities';
+import { HIGHSCORE_CATEGORIES } from '@/lib/utils/constants';
+
+interface RankRow {
+  category: string;
+  captured_date: Date;
+  world: string;
+  rank: number;
+  score: bigint;
+}
+
+const CATEGORY_ORDER = Object.keys(HIGHSCORE_CATEGORIES);
+
+/**
+ * Daily rank history in every highscore category a character has appeared
+ * in, oldest first. Ranks are within the character's world and vocation, and
+ * follow the resolved identity across renames and transfers.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const characterName = searchParams.get('characterName')?.trim();
+    const identityId = parseInt(searchParams.get('identityId') ?? '', 10) || null;
+    if (!characterName && !identityId) {
+      return NextResponse.json(
+        { success: false, error: 'characterName or identityId is required' },
+        { status: 400 },
+      );
+    }
+
+    const identity = await findIdentity(prisma, { identityId, name: characterName });
+    if (!identity) {
+      return NextResponse.json({ success: false, error: 'Character not found' }, { status: 404 });
+    }
+
+    // Every highscore row lands in a snapshot, so the snapshot's identity covers all categories
+    const rows = await prisma.$queryRaw<RankRow[]>`
+      SELECT he.category, he.captured_date, he.world, he.rank, he.score
+      FROM character_snapshots s
+      JOIN characters c ON c.id = s.character_id
+      JOIN worlds w ON w.id = c.world_id
+      JOIN highscore_entries he
+        ON he.character_name = c.name AND he.world = w.name AND he.captured_date = s.captured_date
+      WHERE s.identity_id = ${identity.id}
+      ORDER BY he.captured_date
+    `;
+
+    const byCategory = new Map<string, { date: string; world: string; rank: number; score: number }[]>();
+    for (const r of rows) {
+      const points = byCategory.get(r.category) ?? [];
+      points.push({
+        date: r.captured_date.toISOString().slice(0, 10),
+        world: r.world,
+        rank: r.rank,
+        score: Number(r.score),
+      });
+      byCategory.set(r.category, points);
+    }
+
+    const categories = [...byCategory.entries()]
+      .sort(([a], [b]) => CATEGORY_ORDER.indexOf(a) - CATEGORY_ORDER.indexOf(b))
+      .map(([category, points]) => ({
+        category,
+        points,
+        currentRank: points[points.length - 1].rank,
+        bestRank: Math.min(...points.map((p) => p.rank)),
+      }));
+
+    return NextResponse.json({ success: true, data: { identityId: identity.id, categories } });
+  } catch (error) {
+    console.error('Failed to fetch rank history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch rank history' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db/prisma';
+import { findIdentity, identityNameRanges } from '@/lib/scraper/identities';
+import { expForLevel, dailyExpGains, projectLevel } from '@/lib/utils/experience';
+import { classifyActivity, summarizeActivity } from '@/lib/utils/activity';
 
 // Helper to convert BigInt and Prisma Decimal to Number for JSON serialization
 function serializeBigInt<T>(obj: T): T {
@@ -208,12 +211,14 @@ const SKILL_LABELS: Record<string, string> = {
   fishing: 'Fishing',
 };
 
+// Levels between milestones, and the default level ETA target
+const LEVEL_MILESTONE_INTERVAL = 50;
+
 // Derive milestones from snapshots
 function deriveMilestones(snapshots: any[]) {
   const milestones: any[] = [];
   const skillNames = ['magicLevel', 'fist', 'club', 'sword', 'axe', 'distance', 'shielding', 'fishing'];
   const skillMilestoneValues = [10, 20, 50, 100];
-  const levelMilestoneInterval = 50;
 
   // Track what we've already recorded to avoid duplicates
   const recordedLevelMilestones = new Set<number>();
@@ -229,9 +234,9 @@ function deriveMilestones(snapshots: any[]) {
 
     // Level milestones (every 50 levels)
     if (snapshot.level) {
-      const currentMilestone = Math.floor(snapshot.level / levelMilestoneInterval) * levelMilestoneInterval;
+      const currentMilestone = Math.floor(snapshot.level / LEVEL_MILESTONE_INTERVAL) * LEVEL_MILESTONE_INTERVAL;
       const previousLevel = previousSnapshot?.level || 0;
-      const previousMilestone = Math.floor(previousLevel / levelMilestoneInterval) * levelMilestoneInterval;
+      const previousMilestone = Math.floor(previousLevel / LEVEL_MILESTONE_INTERVAL) * LEVEL_MILESTONE_INTERVAL;
 
       if (currentMilestone > 0 && currentMilestone > previousMilestone && !recordedLevelMilestones.has(currentMilestone)) {
         milestones.push({
@@ -314,15 +319,37 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const characterName = searchParams.get('characterName');
     const searchQuery = searchParams.get('q');
+    const identityIdParam = searchParams.get('identityId');
+    const identityId = identityIdParam ? parseInt(identityIdParam, 10) || null : null;
 
-    // World leaders mode: top EXP gainer per world in last 30 days
-    // Uses materialized view (world_leaders_mv) for instant response (~0.05ms vs ~5000ms)
-    // View is refreshed by the scraper after daily data ingestion
+    // World leaders mode: top EXP gainer per world in the 30 days up to the latest snapshot.
+    // Gains are precomputed along resolved identities when highscores are ingested.
     const mode = searchParams.get('mode');
     if (mode === 'worldLeaders') {
       const leaders: any[] = await prisma.$queryRaw`
-        SELECT world, character_name, vocation, current_level, start_level, exp_gained, levels_gained
-        FROM world_leaders_mv
+        WITH latest AS (
+          SELECT MAX(captured_date) AS d FROM character_snapshots
+        ),
+        gains AS (
+          SELECT
+            s.identity_id,
+            (ARRAY_AGG(s.level ORDER BY s.captured_date DESC))[1] AS current_level,
+            (ARRAY_AGG(s.level ORDER BY s.captured_date ASC))[1] AS start_level,
+            SUM(s.exp_gained) FILTER (WHERE s.captured_date > latest.d - 30) AS exp_gained,
+            SUM(s.levels_gained) FILTER (WHERE s.captured_date > latest.d - 30)::int AS levels_gained
+          FROM character_snapshots s, latest
+          WHERE s.captured_date >= latest.d - 30 AND s.identity_id IS NOT NULL
+          GROUP BY s.identity_id
+        )
+        SELECT * FROM (
+          SELECT DISTINCT ON (i.world)
+            i.world, i.name AS character_name, i.vocation, i.id AS identity_id,
+            g.current_level, g.start_level, g.exp_gained, g.levels_gained
+          FROM gains g
+          JOIN character_identities i ON i.id = g.identity_id
+          WHERE g.exp_gained > 0
+          ORDER BY i.world, g.exp_gained DESC
+        ) leaders
         ORDER BY exp_gained DESC
       `;
 
@@ -332,62 +359,25 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Search mode: return character name matches
-    if (!characterName && searchQuery) {
-      // Search characters table first
-      const characters = await prisma.character.findMany({
-        where: {
-          name: {
-            contains: searchQuery,
-            mode: 'insensitive',
-          },
-        },
-        include: {
-          world: true,
-        },
-        take: 10,
-        orderBy: {
-          name: 'asc',
-        },
-      });
-
-      const results = characters.map(c => ({
-        name: c.name,
-        world: c.world.name,
-        vocation: c.vocation,
-      }));
-
-      // Also search highscore entries for characters not in the characters table.
-      // Use the LATEST entry per character to get the current vocation
-      // (names can be reused by different characters over time).
-      if (results.length < 10) {
-        const characterNames = new Set(results.map(r => r.name.toLowerCase()));
-        const highscoreChars: { characterName: string; world: string; vocation: string }[] = await prisma.$queryRaw`
-          SELECT "characterName", world, vocation FROM (
-            SELECT DISTINCT ON (character_name, world)
-              character_name AS "characterName", world, vocation
-            FROM highscore_entries
-            WHERE character_name ILIKE ${'%' + searchQuery + '%'}
-            ORDER BY character_name, world, captured_date DESC
-          ) sub
-          ORDER BY
-            CASE WHEN LOWER("characterName") = LOWER(${searchQuery}) THEN 0 ELSE 1 END,
-            LENGTH("characterName"),
-            "characterName"
-          LIMIT 10
-        `;
-
-        for (const h of highscoreChars) {
-          if (!characterNames.has(h.characterName.toLowerCase()) && results.length < 10) {
-            characterNames.add(h.characterName.toLowerCase());
-            results.push({
-              name: h.characterName,
-              world: h.world,
-              vocation: h.vocation,
-            });
-          }
-        }
-      }
+    // Search mode: identities that used a matching name, exact match first.
+    // A reused name returns one result per character that held it.
+    if (!characterName && !identityId && searchQuery) {
+      const results: { identityId: number; name: string; world: string; vocation: string | null; matchedName: string }[] = await prisma.$queryRaw`
+        SELECT "identityId", name, world, vocation, "matchedName" FROM (
+          SELECT DISTINCT ON (i.id)
+            i.id AS "identityId", i.name, i.world, i.vocation, a.name AS "matchedName", i.last_seen
+          FROM character_aliases a
+          JOIN character_identities i ON i.id = a.identity_id
+          WHERE a.name ILIKE ${'%' + searchQuery + '%'}
+          ORDER BY i.id, CASE WHEN LOWER(a.name) = LOWER(${searchQuery}) THEN 0 ELSE 1 END, a.last_seen DESC
+        ) sub
+        ORDER BY
+          CASE WHEN LOWER("matchedName") = LOWER(${searchQuery}) THEN 0 ELSE 1 END,
+          LENGTH("matchedName"),
+          "matchedName",
+          last_seen DESC
+        LIMIT 10
+      `;
 
       return NextResponse.json({
         success: true,
@@ -396,284 +386,91 @@ export async function GET(request: NextRequest) {
     }
 
     // Progression mode: return full character data
-    if (!characterName) {
+    if (!characterName && !identityId) {
       return NextResponse.json(
-        { success: false, error: 'characterName or q query parameter is required' },
+        { success: false, error: 'characterName, identityId or q query parameter is required' },
         { status: 400 }
       );
     }
 
-    // 1. Get character with world relation
-    let character = await prisma.character.findFirst({
-      where: {
-        name: {
-          equals: characterName,
-          mode: 'insensitive',
-        },
-      },
-      include: {
-        world: true,
-      },
-    });
+    // 1. Resolve the character's identity — follows renames and world
+    // transfers, and a reused name resolves to its latest holder
+    const identity = await findIdentity(prisma, { identityId, name: characterName });
 
-    // Fall back to highscore entries if character not in characters table
-    if (!character) {
-      const hsEntry = await prisma.highscoreEntry.findFirst({
-        where: {
-          characterName: {
-            equals: characterName,
-            mode: 'insensitive',
-          },
-        },
-      });
-
-      if (!hsEntry) {
-        return NextResponse.json(
-          { success: false, error: 'Character not found' },
-          { status: 404 }
-        );
-      }
-
-      // Build a synthetic character object from highscore data
-      character = {
-        id: 0,
-        name: hsEntry.characterName,
-        worldId: 0,
-        vocation: hsEntry.vocation,
-        guildName: null,
-        firstSeen: hsEntry.createdAt,
-        lastUpdated: hsEntry.createdAt,
-        world: { id: 0, name: hsEntry.world, pvpType: null, isActive: true, createdAt: hsEntry.createdAt },
-      } as any;
+    if (!identity) {
+      return NextResponse.json(
+        { success: false, error: 'Character not found' },
+        { status: 404 }
+      );
     }
 
-    // At this point character is guaranteed non-null (either from DB or synthetic)
-    const char = character!;
-
-    // 2. Get highscore entries (primary data source for progression)
-    const highscores = await prisma.highscoreEntry.findMany({
-      where: {
-        characterName: {
-          equals: char.name,
-          mode: 'insensitive',
-        },
-        world: char.world.name,
-      },
-      orderBy: {
-        capturedDate: 'asc',
-      },
-    });
-
-    // 3. Build snapshots from highscore entries grouped by date
-    const toNum = (val: any): number => {
-      if (val === null || val === undefined) return 0;
-      if (typeof val === 'bigint') return Number(val);
-      return Number(val);
-    };
-
-    const toDateKey = (d: Date) =>
-      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-
-    // Normalize vocation to base type for name-reuse detection
-    const baseVocation = (voc: string): string => {
-      const v = voc.toLowerCase();
-      if (v.includes('knight')) return 'knight';
-      if (v.includes('paladin')) return 'paladin';
-      if (v.includes('sorcerer')) return 'sorcerer';
-      if (v.includes('druid')) return 'druid';
-      if (v.includes('monk')) return 'monk';
-      return v;
+    const char = {
+      id: identity.id,
+      name: identity.name,
+      vocation: identity.vocation,
+      world: { name: identity.world },
     };
 
-    const dateMap = new Map<string, any>();
-
-    for (const entry of highscores) {
-      const dateKey = toDateKey(new Date(entry.capturedDate));
-
-      if (!dateMap.has(dateKey)) {
-        dateMap.set(dateKey, {
-          id: 0,
-          characterId: char.id,
-          capturedDate: entry.capturedDate,
-          level: entry.level || 0,
-          experience: null,
-          magicLevel: null,
-          fist: null,
-          club: null,
-          sword: null,
-          axe: null,
-          distance: null,
-          shielding: null,
-          fishing: null,
-          charmPoints: null,
-          bountyPoints: null,
-          bountyRank: null,
-          expRank: null,
-          mlRank: null,
-          fistRank: null,
-          clubRank: null,
-          swordRank: null,
-          axeRank: null,
-          distanceRank: null,
-          shieldingRank: null,
-          fishingRank: null,
-          charmRank: null,
-          expGained: 0,
-          levelsGained: 0,
-          vocation: entry.vocation,
-        });
-      }
-
-      const snapshot = dateMap.get(dateKey)!;
-      if (entry.level && entry.level > (snapshot.level || 0)) {
-        snapshot.level = entry.level;
-      }
-      // Update vocation to the latest entry for this date
-      if (entry.vocation) {
-        snapshot.vocation = entry.vocation;
-      }
-
-      const cat = entry.category;
-      const score = toNum(entry.score);
-
-      if (cat === 'Experience Points') {
-        snapshot.experience = score;
-        snapshot.expRank = entry.rank;
-      } else if (cat === 'Magic Level') {
-        snapshot.magicLevel = score;
-        snapshot.mlRank = entry.rank;
-      } else if (cat === 'Fist Fighting') {
-        snapshot.fist = score;
-        snapshot.fistRank = entry.rank;
-      } else if (cat === 'Club Fighting') {
-        snapshot.club = score;
-        snapshot.clubRank = entry.rank;
-      } else if (cat === 'Sword Fighting') {
-        snapshot.sword = score;
-        snapshot.swordRank = entry.rank;
-      } else if (cat === 'Axe Fighting') {
-        snapshot.axe = score;
-        snapshot.axeRank = entry.rank;
-      } else if (cat === 'Distance Fighting') {
-        snapshot.distance = score;
-        snapshot.distanceRank = entry.rank;
-      } else if (cat === 'Shielding') {
-        snapshot.shielding = score;
-        snapshot.shieldingRank = entry.rank;
-      } else if (cat === 'Fishing') {
-        snapshot.fishing = score;
-        snapshot.fishingRank = entry.rank;
-      } else if (cat === 'Charm Points') {
-        snapshot.charmPoints = score;
-        snapshot.charmRank = entry.rank;
-      } else if (cat === 'Bounty Points') {
-        snapshot.bountyPoints = score;
-        snapshot.bountyRank = entry.rank;
-      }
-    }
-
-    // Build sorted snapshots array and calculate daily gains
-    let snapshots: any[] = Array.from(dateMap.values()).sort(
-      (a: any, b: any) => new Date(a.capturedDate).getTime() - new Date(b.capturedDate).getTime()
-    );
-
-    // Detect character name reuse: a different player has taken this name.
-    // Indicators:
-    //   (1) EXP drops >30%
-    //   (2) Vocation change + EXP change >15% in either direction
-    //   (3) Level jump >50 for chars above level 500 (max legit daily gain is ~31)
-    // Note: vocation change ALONE is NOT name reuse — RubinOT allows
-    // legitimate vocation changes (e.g., Paladin → Druid with rising EXP).
-    // Discard everything before the last such breakpoint.
-    let lastBreakpoint = 0;
-    let prevExpVal: number | null = null;
-    let prevLevel: number | null = null;
-    let prevBaseVoc: string | null = null;
-    for (let i = 0; i < snapshots.length; i++) {
-      const curBaseVoc = snapshots[i].vocation ? baseVocation(snapshots[i].vocation) : null;
-      const curLevel = snapshots[i].level || null;
-
-      // Vocation change + any significant EXP change = name reuse.
-      // Legitimate vocation changes keep EXP nearly identical (±10%).
-      if (curBaseVoc && prevBaseVoc && curBaseVoc !== prevBaseVoc) {
-        if (snapshots[i].experience != null && prevExpVal !== null) {
-          const ratio = snapshots[i].experience / prevExpVal;
-          if (ratio < 0.9 || ratio > 1.15) {
-            lastBreakpoint = i;
-          }
-        }
-      }
-
-      if (snapshots[i].experience != null) {
-        if (prevExpVal !== null) {
-          // Significant EXP drop (>30%) = likely name reuse
-          if (snapshots[i].experience < prevExpVal * 0.7) {
-            lastBreakpoint = i;
-          }
-        }
-        prevExpVal = snapshots[i].experience;
-      }
-
-      // Level jump >50 at high levels = name reuse.
-      // Max legit daily gain is ~31 levels even for the most active players.
-      // Use 50 as threshold for safety margin.
-      if (curLevel && prevLevel && prevLevel >= 500) {
-        if (curLevel - prevLevel > 50) {
-          lastBreakpoint = i;
-        }
-      }
-      if (curLevel) prevLevel = curLevel;
-
-      if (curBaseVoc) prevBaseVoc = curBaseVoc;
-    }
-    if (lastBreakpoint > 0) {
-      snapshots = snapshots.slice(lastBreakpoint);
+    // 2. Get daily snapshots across every name and world of the identity.
+    // On a transfer day both worlds can list the character; keep the furthest along.
+    const byDate = new Map<number, any>();
+    for (const snapshot of serializeBigInt(
+      await prisma.characterSnapshot.findMany({
+        where: { identityId: identity.id },
+        orderBy: { capturedDate: 'asc' },
+      })
+    )) {
+      const key = new Date(snapshot.capturedDate).getTime();
+      const existing = byDate.get(key);
+      if (!existing || (snapshot.experience ?? 0) > (existing.experience ?? 0)) byDate.set(key, snapshot);
     }
+    const snapshots: any[] = Array.from(byDate.values());
 
     // If no snapshot has Experience Points data, estimate EXP from levels
-    // using the standard Tibia formula: EXP(lvl) = (50/3) * (lvl^3 - 6*lvl^2 + 17*lvl - 12)
+    // with the experience table (the minimum exp of each level)
     const hasExpData = snapshots.some(s => s.experience != null);
     if (!hasExpData) {
-      const levelToExp = (lvl: number) =>
-        Math.round((50 / 3) * (lvl * lvl * lvl - 6 * lvl * lvl + 17 * lvl - 12));
+      // Stored expGained is 0 without EXP data, so derive it from the estimates
+      let lastExp: number | null = null;
       for (const s of snapshots) {
         if (s.level > 0) {
-          s.experience = levelToExp(s.level);
+          s.experience = expForLevel(s.level);
           s.estimatedExp = true;
+          s.expGained = lastExp !== null ? Math.max(0, s.experience - lastExp) : 0;
+          lastExp = s.experience;
         }
       }
     }
 
-    // Calculate daily gains — look back to last snapshot with valid data
-    // (handles gaps where a category wasn't scraped for some days)
-    // Clamp negative expGained to 0 (PvP death penalties shouldn't distort charts)
-    let lastExpIdx = snapshots[0]?.experience != null ? 0 : -1;
-    let lastLevelIdx = snapshots[0]?.level != null ? 0 : -1;
-
-    for (let i = 1; i < snapshots.length; i++) {
-      if (snapshots[i].experience != null && lastExpIdx >= 0) {
-        const diff = snapshots[i].experience - snapshots[lastExpIdx].experience;
-        snapshots[i].expGained = Math.max(0, diff);
-      }
-      if (snapshots[i].experience != null) lastExpIdx = i;
+    // Activity mode: classify each snapshot day as hunting, training, death or
+    // inactive, with streaks and the weekly pattern
+    if (mode === 'activity') {
+      const ranges = await identityNameRanges(prisma, identity);
+      const deaths = await prisma.death.findMany({
+        where: {
+          OR: ranges.map((r) => ({
+            victimName: { equals: r.name, mode: 'insensitive' as const },
+            killedAt: { gte: r.from ?? undefined, lt: r.until ?? undefined },
+          })),
+        },
+        select: { killedAt: true },
+      });
+      const days = classifyActivity(
+        snapshots,
+        new Set(deaths.map((d) => d.killedAt.toISOString().split('T')[0])),
+      );
 
-      if (snapshots[i].level != null && lastLevelIdx >= 0) {
-        const diff = snapshots[i].level - snapshots[lastLevelIdx].level;
-        snapshots[i].levelsGained = Math.max(0, diff);
-      }
-      if (snapshots[i].level != null) lastLevelIdx = i;
+      return NextResponse.json({
+        success: true,
+        data: { days, summary: summarizeActivity(days) },
+      });
     }
 
-    // 4. Get vocation averages by level range across all worlds
+    // 3. Get vocation averages by level range across all worlds
     // Use progressively wider ranges to ensure we find comparison data
     let vocationAverages = null;
     if (char.vocation) {
-      let charLevel = 0;
-      if (snapshots.length > 0) {
-        charLevel = (snapshots[snapshots.length - 1] as any).level || 0;
-      } else if (highscores.length > 0) {
-        charLevel = Math.max(...highscores.map((h: any) => h.level || 0));
-      }
+      const charLevel = snapshots.length > 0 ? snapshots[snapshots.length - 1].level || 0 : 0;
 
       // Try progressively wider ranges: ±100, ±250, ±500, then top 200 auctions
       const ranges = [100, 250, 500];
@@ -765,12 +562,27 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // 5. Calculate KPIs from snapshots
+    // 4. Calculate KPIs from snapshots
     const kpis = calculateKPIs(snapshots);
 
-    // 6. Derive milestones
+    // 5. Derive milestones
     const milestones = deriveMilestones(snapshots);
 
+    // 6. Project when the character reaches the target level (default: the next
+    // level milestone) from the spread of its past daily gains
+    const latest = snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+    let projection = null;
+    if (latest?.level && latest.experience != null) {
+      const targetLevel = parseInt(searchParams.get('targetLevel') || '', 10)
+        || (Math.floor(latest.level / LEVEL_MILESTONE_INTERVAL) + 1) * LEVEL_MILESTONE_INTERVAL;
+      projection = projectLevel(
+        latest.experience,
+        targetLevel,
+        dailyExpGains(snapshots),
+        new Date(latest.capturedDate),
+      );
+    }
+
     // 7. Build skill ranks by walking backwards through snapshots to find latest non-null rank for each skill
     const rankKeys = [
       ['experience', 'expRank'],
@@ -791,7 +603,7 @@ export async function GET(request: NextRequest) {
       skillRanks = {};
       for (const [outputKey, snapshotKey] of rankKeys) {
         for (let i = snapshots.length - 1; i >= 0; i--) {
-          const val = (snapshots[i] as any)[snapshotKey];
+          const val = snapshots[i][snapshotKey];
           if (val != null) {
             skillRanks[outputKey] = val;
             break;
@@ -807,26 +619,21 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Update character vocation from latest snapshot (in case of name reuse,
-    // the character table may have stale vocation from the old character)
-    if (snapshots.length > 0) {
-      const latestVoc = snapshots[snapshots.length - 1].vocation;
-      if (latestVoc) {
-        (char as any).vocation = latestVoc;
-      }
-    }
-
     // Serialize BigInt values
     const response = {
       success: true,
       data: {
-        character: serializeBigInt(char),
+        character: char,
+        identity: {
+          id: identity.id,
+          aliases: identity.aliases,
+        },
         snapshots: serializeBigInt(snapshots),
-        highscores: serializeBigInt(highscores),
         vocationAverages: serializeBigInt(vocationAverages),
         kpis: serializeBigInt(kpis),
         milestones: serializeBigInt(milestones),
         skillRanks: serializeBigInt(skillRanks),
+        projection,
         estimatedExp: !hasExpData,
       },
     };
@@ -2,10 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/auth-helpers';
 import { isPremium } from '@/lib/utils/premium';
 import prisma from '@/lib/db/prisma';
-import { estimateCharacterValue, type CharacterStats } from '@/lib/utils/character-valuation';
+import { findIdentity } from '@/lib/scraper/identities';
+import { estimateCharacterValue, type CharacterStats } from '@/lib/utils/valuation';
 
 export const dynamic = 'force-dynamic';
 
+/** Snapshots searched for each stat's latest value */
+const RECENT_SNAPSHOTS = 30;
+
+type SnapshotStat = 'level' | 'magicLevel' | 'fist' | 'club' | 'sword' | 'axe' | 'distance' | 'shielding' | 'fishing' | 'charmPoints';
+
 export async function GET(request: NextRequest) {
   const session = await getSession();
   if (!session?.user) {
@@ -17,53 +23,46 @@ export async function GET(request: NextRequest) {
 
   const { searchParams } = new URL(request.url);
   const characterName = searchParams.get('characterName');
+  const identityId = parseInt(searchParams.get('identityId') ?? '', 10) || null;
 
-  if (!characterName) {
-    return NextResponse.json({ error: 'characterName is required' }, { status: 400 });
+  if (!characterName && !identityId) {
+    return NextResponse.json({ error: 'characterName or identityId is required' }, { status: 400 });
   }
 
   try {
-    // Look up character in our database
-    const character = await prisma.character.findFirst({
-      where: { name: { equals: characterName, mode: 'insensitive' } },
-      include: {
-        world: true,
-        characterSnapshots: {
+    // Resolve the character across renames and transfers
+    const identity = await findIdentity(prisma, { identityId, name: characterName });
+    const snapshots = identity
+      ? await prisma.characterSnapshot.findMany({
+          where: { identityId: identity.id },
           orderBy: { capturedDate: 'desc' },
-          take: 1,
-        },
-      },
-    });
+          take: RECENT_SNAPSHOTS,
+        })
+      : [];
 
-    if (!character || character.characterSnapshots.length === 0) {
+    if (!identity || snapshots.length === 0) {
       return NextResponse.json({ error: 'Character not found or no data available' }, { status: 404 });
     }
 
-    const snapshot = character.characterSnapshots[0];
-
-    // Look up charm points from highscore entries
-    const charmEntry = await prisma.highscoreEntry.findFirst({
-      where: {
-        characterName: { equals: characterName, mode: 'insensitive' },
-        category: 'Charm Points',
-      },
-      orderBy: { capturedDate: 'desc' },
-    });
+    // Skill categories aren't scraped every day, so take each stat from the
+    // newest snapshot that has it
+    const latest = (key: SnapshotStat) => snapshots.find((s) => s[key] != null)?.[key] ?? null;
 
     const stats: CharacterStats = {
-      level: snapshot.level ?? 1,
-      vocation: character.vocation || 'None',
-      magicLevel: snapshot.magicLevel,
+      level: latest('level') ?? 1,
+      vocation: identity.vocation || 'None',
+      world: identity.world,
+      magicLevel: latest('magicLevel'),
       skills: {
-        fist: snapshot.fist,
-        club: snapshot.club,
-        sword: snapshot.sword,
-        axe: snapshot.axe,
-        distance: snapshot.distance,
-        shielding: snapshot.shielding,
-        fishing: snapshot.fishing,
+        fist: latest('fist'),
+        club: latest('club'),
+        sword: latest('sword'),
+        axe: latest('axe'),
+        distance: latest('distance'),
+        shielding: latest('shielding'),
+        fishing: latest('fishing'),
       },
-      charmPoints: charmEntry ? Number(charmEntry.score) : null,
+      charmPoints: latest('charmPoints'),
     };
 
     const valuation = await estimateCharacterValue(stats);
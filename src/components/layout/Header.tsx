@@ -8,6 +8,8 @@ import {
   Home,
   Store,
   TrendingUp,
+  Trophy,
+  ListOrdered,
   Calculator,
   Zap,
   Megaphone,
@@ -17,6 +19,7 @@ import {
   Ban,
   ArrowRightLeft,
   Swords,
+  Users,
 } from "lucide-react";
 import { Logo } from "@/components/brand/Logo";
 import { MobileNav } from "./MobileNav";
@@ -29,6 +32,9 @@ const navItems = [
   { href: "/current-auctions", labelKey: "currentAuctions", icon: Zap },
   { href: "/market", labelKey: "itemMarket", icon: Store },
   { href: "/progression", labelKey: "progression", icon: TrendingUp },
+  { href: "/highscores", labelKey: "highscores", icon: ListOrdered },
+  { href: "/climbers", labelKey: "climbers", icon: Trophy },
+  { href: "/guilds", labelKey: "guilds", icon: Users },
   { href: "/calculator", labelKey: "skillCalculator", icon: Calculator },
   { href: "/bans", labelKey: "bans", icon: Ban },
   { href: "/transfers", labelKey: "transfers", icon: ArrowRightLeft },
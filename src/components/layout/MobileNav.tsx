@@ -5,6 +5,8 @@ import {
   Home,
   Store,
   TrendingUp,
+  Trophy,
+  ListOrdered,
   Calculator,
   Zap,
   Lightbulb,
@@ -12,6 +14,7 @@ import {
   Ban,
   ArrowRightLeft,
   Swords,
+  Users,
   LogOut,
   Shield,
 } from "lucide-react";
@@ -27,6 +30,9 @@ const navItems = [
   { href: "/current-auctions", labelKey: "currentAuctions", icon: Zap },
   { href: "/market", labelKey: "itemMarket", icon: Store },
   { href: "/progression", labelKey: "progression", icon: TrendingUp },
+  { href: "/highscores", labelKey: "highscores", icon: ListOrdered },
+  { href: "/climbers", labelKey: "climbers", icon: Trophy },
+  { href: "/guilds", labelKey: "guilds", icon: Users },
   { href: "/calculator", labelKey: "skillCalculator", icon: Calculator },
   { href: "/bans", labelKey: "bans", icon: Ban },
   { href: "/transfers", labelKey: "transfers", icon: ArrowRightLeft },
@@ -1,11 +1,22 @@
 /**
  * Auction scraper for RubinOT character bazaar.
  * Uses the JSON API at /api/bazaar and /api/bazaar/{id}.
- * Still needs Brave Browser to bypass Cloudflare on initial navigation.
+ * Still needs a real browser backend to bypass Cloudflare on initial navigation.
  */
 import { RUBINOT_URLS } from '../utils/constants';
+import { timestampToDateString } from '../utils/auction-dates';
 import type { Page } from 'playwright';
 import { navigateWithCloudflare, rateLimit, sleep, type BrowserName } from './browser';
+import { fetchJson } from './transport';
+import {
+  bazaarListResponseSchema,
+  bazaarListAuctionSchema,
+  bazaarDetailResponseSchema,
+  type ApiBazaarListAuction,
+  type ApiBazaarListResponse,
+  type ApiBazaarDetailResponse,
+} from './schemas';
+import { validatePayload, validateRecords } from './validation';
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -96,170 +107,6 @@ export interface ScrapedAuction {
   url: string;
 }
 
-// ── API response types ──────────────────────────────────────────────────
-
-interface ApiBazaarListAuction {
-  id: number;
-  state: number;
-  stateName: string;
-  playerId: number;
-  owner: string;
-  startingValue: number;
-  currentValue: number;
-  auctionStart: number | string;
-  auctionEnd: number | string;
-  name: string;
-  level: number;
-  vocation: number;
-  vocationName: string;
-  sex: number;
-  worldId: number;
-  worldName: string;
-  lookType: number;
-  lookHead: number;
-  lookBody: number;
-  lookLegs: number;
-  lookFeet: number;
-  lookAddons: number;
-  direction: number;
-  charmPoints: number;
-  achievementPoints: number;
-  magLevel: number;
-  skills: {
-    club: number;
-    sword: number;
-    axe: number;
-    dist: number;
-    shielding: number;
-  };
-  highlightItems: { itemId: number; clientId: number; tier: number; count: number; name: string }[];
-  highlightAugments: { text: string; argType: string }[];
-  myBid: number | null;
-  isWinning: boolean;
-  isWatching: boolean;
-}
-
-interface ApiBazaarListResponse {
-  auctions: ApiBazaarListAuction[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-interface ApiWeaponProficiency {
-  itemId: number;
-  experience: number;
-  weaponLevel: number;
-  masteryAchieved: boolean;
-  activePerks: { lane: number; index: number }[];
-}
-
-interface ApiBazaarDetailResponse {
-  auction: {
-    id: number;
-    state: number;
-    stateName: string;
-    startingValue: number;
-    currentValue: number;
-    auctionStart: number | string;
-    auctionEnd: number | string;
-  };
-  player: {
-    id: number;
-    name: string;
-    level: number;
-    vocation: number;
-    vocationName: string;
-    sex: number;
-    worldId: number;
-    worldName: string;
-    lookType: number;
-  };
-  general: {
-    health: number;
-    healthMax: number;
-    mana: number;
-    manaMax: number;
-    manaSpent: string;
-    cap: number;
-    stamina: number;
-    soul: number;
-    experience: number | string;
-    magLevel: number;
-    skills: {
-      fist: number;
-      fistTries: number;
-      club: number;
-      clubTries: number;
-      sword: number;
-      swordTries: number;
-      axe: number;
-      axeTries: number;
-      dist: number;
-      distTries: number;
-      shielding: number;
-      shieldingTries: number;
-      fishing: number;
-      fishingTries: number;
-    };
-    mountsCount: number;
-    outfitsCount: number;
-    titlesCount: number;
-    linkedTasks: number;
-    createDate: number;
-    balance: string;
-    totalMoney: string;
-    achievementPoints: number;
-    charmPoints: number;
-    spentCharmPoints: number;
-    availableCharmPoints: number;
-    spentMinorEchoes: number;
-    availableMinorEchoes: number;
-    charmExpansion: boolean;
-    streakDays: number;
-    huntingTaskPoints: number;
-    thirdPrey: boolean;
-    thirdHunting: boolean;
-    preyWildcards: number;
-    hirelingCount: number;
-    hirelingJobs: number;
-    hirelingOutfits: number;
-    dust: number;
-    dustMax: number;
-    bossPoints: number;
-    wheelPoints: number;
-    maxWheelPoints: number;
-    gpActive: boolean;
-    gpPoints: number;
-  };
-  items: { itemId: number; clientId: number; tier: number; count: number; name: string }[];
-  itemsTotal: number;
-  storeItems: { itemId: number; clientId: number; tier: number; count: number; name: string }[];
-  storeItemsTotal: number;
-  outfits: { name: string; lookType: number; addons: number }[];
-  mounts: { name: string; lookType: number }[];
-  familiars: { name: string; lookType: number }[];
-  charms: { name: string; cost: number }[];
-  blessings: { name: string; count: number }[];
-  titles: { name: string }[];
-  gems: { id: number; domain: number; type: number; lesserBonusId: number; regularBonusId: number; supremeBonusId: number }[];
-  bosstiaries: { name: string; kills: number }[];
-  bosstiariosTotal: number;
-  weaponProficiency: ApiWeaponProficiency[];
-  achievements: { name: string; grade: number }[];
-  highlightItems: { itemId: number; clientId: number; tier: number; count: number; name: string }[];
-  highlightAugments: { text: string; argType: number }[];
-  bountyTalismans: unknown[];
-  bountyPoints: number;
-  totalBountyPoints: number;
-  bountyRerolls: number;
-  auras: unknown[];
-  battlepassSeasons: { season: number; points: number; active: number }[];
-}
-
 // ── Vocation name map ──────────────────────────────────────────────────
 
 const VOCATION_NAMES: Record<number, string> = {
@@ -323,16 +170,6 @@ function skillPctFromTries(_tries: number): number | null {
   return null;
 }
 
-// ── Timestamp → date string ─────────────────────────────────────────────
-
-function timestampToDateString(ts: number | string | null | undefined): string | null {
-  if (ts == null) return null;
-  if (typeof ts === 'string') return ts;
-  // Unix timestamp (seconds)
-  const date = new Date(ts * 1000);
-  return date.toISOString().replace('T', ' ').replace('.000Z', ' CET');
-}
-
 // ── Outfit image URL builder ───────────────────────────────────────────
 // Uses the public outfit-images.ots.me service to generate static outfit PNGs
 // from the lookType + color/addon parameters provided by the RubinOT API.
@@ -351,7 +188,7 @@ function buildOutfitImageUrl(player: { lookType: number; lookHead?: number; look
   return `https://outfit-images.ots.me/latest/animoutfit.php?${params.toString()}`;
 }
 
-// ── API fetchers (run inside browser page context) ─────────────────────
+// ── API fetchers (via the record/replay transport) ──────────────────────
 
 export async function fetchBazaarListPage(
   page: Page,
@@ -361,11 +198,10 @@ export async function fetchBazaarListPage(
   sortOrder = 'asc',
 ): Promise<ApiBazaarListResponse> {
   const url = `/api/bazaar?page=${pageNum}&limit=${limit}&sortBy=${sortBy}&sortOrder=${sortOrder}`;
-  return page.evaluate(async (apiUrl: string) => {
-    const res = await fetch(apiUrl);
-    if (!res.ok) throw new Error(`Bazaar API ${res.status}: ${res.statusText}`);
-    return res.json();
-  }, url);
+  const raw = await fetchJson<unknown>(page, url, 'Bazaar');
+  const envelope = validatePayload('bazaar-list', bazaarListResponseSchema, raw);
+  // Malformed auctions are quarantined and left out of the page
+  return { ...envelope, auctions: validateRecords('bazaar-list-auction', bazaarListAuctionSchema, envelope.auctions) };
 }
 
 export async function fetchBazaarDetail(
@@ -373,11 +209,8 @@ export async function fetchBazaarDetail(
   auctionId: number | string,
 ): Promise<ApiBazaarDetailResponse> {
   const url = `/api/bazaar/${auctionId}`;
-  return page.evaluate(async (apiUrl: string) => {
-    const res = await fetch(apiUrl);
-    if (!res.ok) throw new Error(`Bazaar Detail API ${res.status}: ${res.statusText}`);
-    return res.json();
-  }, url);
+  const raw = await fetchJson<unknown>(page, url, 'Bazaar Detail');
+  return validatePayload('bazaar-detail', bazaarDetailResponseSchema, raw);
 }
 
 // ── Convert API list auction to our CurrentListAuction format ──────────
@@ -580,18 +413,153 @@ export interface ScrapeOptions {
   skipExternalIds?: Set<string>;
   onAuction?: (auction: ScrapedAuction) => Promise<void>;
   browserName?: BrowserName;
+  /**
+   * Walk newest-first and stop at the first page made up entirely of
+   * known auctions (skipExternalIds) that reaches back to this mark.
+   * `null` means nothing is stored yet — the walk covers every page.
+   */
+  incremental?: HistoryHighWaterMark | null;
+}
+
+/** Newest auction already stored, by end date then externalId */
+export interface HistoryHighWaterMark {
+  externalId: string;
+  auctionEnd: string | null;
+}
+
+/** Numeric-aware externalId comparison ("9" < "10") */
+function compareExternalIds(a: string, b: string): number {
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+/**
+ * Find the high-water mark among stored auctions.
+ * auctionEnd strings are "YYYY-MM-DD HH:mm:ss CET", so they sort lexically.
+ */
+export function findHighWaterMark(
+  rows: { externalId: string; auctionEnd: string | null }[],
+): HistoryHighWaterMark | null {
+  let mark: HistoryHighWaterMark | null = null;
+  for (const row of rows) {
+    if (
+      !mark ||
+      (row.auctionEnd ?? '') > (mark.auctionEnd ?? '') ||
+      ((row.auctionEnd ?? '') === (mark.auctionEnd ?? '') && compareExternalIds(row.externalId, mark.externalId) > 0)
+    ) {
+      mark = { externalId: row.externalId, auctionEnd: row.auctionEnd };
+    }
+  }
+  return mark;
+}
+
+/** Fetch detail pages for list auctions, in order, until maxAuctions is reached */
+async function scrapeDetails(
+  page: Page,
+  listAuctions: CurrentListAuction[],
+  opts: ScrapeOptions,
+  progress: { scraped: number },
+): Promise<ScrapedAuction[]> {
+  const fullAuctions: ScrapedAuction[] = [];
+
+  for (const listAuction of listAuctions) {
+    if (opts.maxAuctions && progress.scraped >= opts.maxAuctions) break;
+    progress.scraped++;
+
+    try {
+      await rateLimit('fast');
+      const target = opts.maxAuctions ? `/${opts.maxAuctions}` : '';
+      console.log(`  [${progress.scraped}${target}] ${listAuction.characterName} Lv${listAuction.level} (${listAuction.world})`);
+
+      const detail = await fetchBazaarDetail(page, listAuction.externalId);
+      const auction = apiDetailToScrapedAuction(detail, listAuction);
+
+      if (opts.onAuction) await opts.onAuction(auction);
+      fullAuctions.push(auction);
+    } catch (err) {
+      console.error(`    Failed detail for ${listAuction.characterName}: ${(err as Error).message?.substring(0, 60)}`);
+    }
+  }
+
+  return fullAuctions;
+}
+
+/**
+ * Incremental history walk: newest list page first, scraping unknown
+ * auctions page by page. Unknown auctions at or below the high-water mark
+ * are gaps from earlier runs and get backfilled on the way. Stops at the
+ * first fully-known page past the mark — a fully-known page above it
+ * (e.g. auctions saved by scrape-by-id) doesn't end the walk early.
+ */
+async function scrapeAuctionHistoryIncremental(
+  page: Page,
+  mark: HistoryHighWaterMark | null,
+  opts: ScrapeOptions,
+): Promise<ScrapedAuction[]> {
+  const known = opts.skipExternalIds ?? new Set<string>();
+  const fullAuctions: ScrapedAuction[] = [];
+  const progress = { scraped: 0 };
+  let gaps = 0;
+  let stoppedAt: number | null = null;
+
+  console.log(mark
+    ? `High-water mark: #${mark.externalId} (ended ${mark.auctionEnd ?? 'unknown'})`
+    : 'No auctions stored yet — walking every page');
+
+  let totalPages = opts.maxPages ?? Infinity;
+  for (let p = 1; p <= totalPages; p++) {
+    if (opts.maxAuctions && progress.scraped >= opts.maxAuctions) break;
+    if (p > 1) await rateLimit('fast');
+
+    let pageAuctions: CurrentListAuction[];
+    try {
+      const pageData = await fetchBazaarListPage(page, p, 25, 'auction_end', 'desc');
+      totalPages = Math.min(totalPages, pageData.pagination.totalPages);
+      pageAuctions = pageData.auctions.map(apiAuctionToListAuction);
+    } catch (err) {
+      console.error(`  Failed page ${p}: ${(err as Error).message?.substring(0, 80)}`);
+      continue;
+    }
+
+    const unknown = pageAuctions.filter((a) => !known.has(a.externalId));
+    const pastMark = mark != null && pageAuctions.some((a) =>
+      a.externalId === mark.externalId || (a.auctionEnd ?? '') <= (mark.auctionEnd ?? ''),
+    );
+
+    if (unknown.length === 0 && pastMark) {
+      stoppedAt = p;
+      break;
+    }
+
+    const pageGaps = pastMark
+      ? unknown.filter((a) => (a.auctionEnd ?? '') <= (mark.auctionEnd ?? '')).length
+      : 0;
+    gaps += pageGaps;
+    console.log(`Page ${p}/${totalPages}: ${pageAuctions.length} auctions, ${unknown.length} new${pageGaps ? ` (${pageGaps} gap)` : ''}`);
+
+    fullAuctions.push(...await scrapeDetails(page, unknown, opts, progress));
+  }
+
+  console.log(stoppedAt
+    ? `\nReached known auctions on page ${stoppedAt} — stopping`
+    : '\nWalked every page without reaching known auctions');
+  console.log(`Scraped ${fullAuctions.length} auctions with detail (${gaps} backfilled gaps)`);
+  return fullAuctions;
 }
 
 /**
  * Scrape auction history via the JSON API.
  * Fetches list pages, then detail pages for new auctions.
+ * With `incremental`, walks newest-first and stops at known auctions instead.
  */
 export async function scrapeAuctionHistory(
   page: Page,
   opts: ScrapeOptions = {},
 ): Promise<ScrapedAuction[]> {
-  const fullAuctions: ScrapedAuction[] = [];
-  let scraped = 0;
+  if (opts.incremental !== undefined) {
+    return scrapeAuctionHistoryIncremental(page, opts.incremental, opts);
+  }
+
+  const progress = { scraped: 0 };
   let skippedTotal = 0;
 
   // Fetch first page to get pagination
@@ -607,7 +575,6 @@ export async function scrapeAuctionHistory(
   const allListAuctions: CurrentListAuction[] = firstPage.auctions.map(apiAuctionToListAuction);
 
   for (let p = 2; p <= totalPages; p++) {
-    if (opts.maxAuctions && scraped >= opts.maxAuctions) break;
 
     await rateLimit('fast');
     try {
@@ -634,24 +601,10 @@ export async function scrapeAuctionHistory(
   }
 
   // Scrape detail pages
-  for (const listAuction of needDetail) {
-    if (opts.maxAuctions && scraped >= opts.maxAuctions) break;
-    scraped++;
-
-    try {
-      await rateLimit('fast');
-      const target = opts.maxAuctions ?? needDetail.length;
-      console.log(`  [${scraped}/${target}] ${listAuction.characterName} Lv${listAuction.level} (${listAuction.world})`);
-
-      const detail = await fetchBazaarDetail(page, listAuction.externalId);
-      const auction = apiDetailToScrapedAuction(detail, listAuction);
-
-      if (opts.onAuction) await opts.onAuction(auction);
-      fullAuctions.push(auction);
-    } catch (err) {
-      console.error(`    Failed detail for ${listAuction.characterName}: ${(err as Error).message?.substring(0, 60)}`);
-    }
-  }
+  const fullAuctions = await scrapeDetails(page, needDetail, {
+    ...opts,
+    maxAuctions: opts.maxAuctions ?? needDetail.length,
+  }, progress);
 
   console.log(`\nScraped ${fullAuctions.length} auctions with detail`);
   return fullAuctions;
@@ -0,0 +1,321 @@
+/**
+ * Browser backends for the RubinOT scrapers.
+ *
+ * Every named profile (BrowserName) runs on one of:
+ *   - chromium:   Playwright's bundled Chromium (works anywhere `playwright install` ran)
+ *   - executable: any Chromium-based browser at a configured path (e.g. Brave)
+ *   - fetch:      plain HTTP client with a cookie jar persisted per profile — no browser,
+ *                 so it only works while the site isn't serving Cloudflare challenges
+ *
+ * Select per profile with SCRAPER_BACKEND_<PROFILE>=<kind> (e.g. SCRAPER_BACKEND_BID_UPDATER=fetch),
+ * for every profile with SCRAPER_BACKEND=<kind>, or with `--backend <kind>` on a scraper CLI.
+ * The executable path comes from SCRAPER_BROWSER_PATH[_<PROFILE>] or `--browser-path <path>`.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { chromium, type BrowserContext, type Page } from 'playwright';
+import { RUBINOT_URLS } from '../utils/constants';
+import { createReplayContext, isReplay, registerDirectRequest } from './transport';
+
+// ── Configuration ──────────────────────────────────────────────────────
+
+export type BackendKind = 'chromium' | 'executable' | 'fetch';
+
+export const BACKEND_KINDS: readonly BackendKind[] = ['chromium', 'executable', 'fetch'];
+
+export interface BackendConfig {
+  kind: BackendKind;
+  /** Browser binary for the `executable` backend */
+  executablePath?: string;
+}
+
+/** Where Brave lives on macOS — used by default when it's installed */
+const MAC_BRAVE_PATH = '/Applications/Brave Browser.app/Contents/MacOS/Brave Browser';
+
+const USER_AGENTS: Record<string, string> = {
+  darwin: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  win32: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  linux: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+};
+
+/** User agent matching the host OS, overridable with SCRAPER_USER_AGENT */
+export const USER_AGENT = process.env.SCRAPER_USER_AGENT || USER_AGENTS[process.platform] || USER_AGENTS.linux;
+
+const _overrides = new Map<string, Partial<BackendConfig>>();
+
+function envSuffix(profile: string): string {
+  return profile.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function parseKind(value: string | undefined, source: string): BackendKind | undefined {
+  if (!value) return undefined;
+  const kind = value.toLowerCase() as BackendKind;
+  if (!BACKEND_KINDS.includes(kind)) {
+    throw new Error(`Unknown scraper backend "${value}" (${source}). Use one of: ${BACKEND_KINDS.join(', ')}`);
+  }
+  return kind;
+}
+
+/**
+ * Resolve the backend for a profile.
+ * CLI overrides win over per-profile env, which wins over global env.
+ * With nothing configured, Brave is used on macOS if installed, bundled Chromium otherwise.
+ */
+export function resolveBackendConfig(profile: string): BackendConfig {
+  const suffix = envSuffix(profile);
+  const override = _overrides.get(profile) ?? {};
+  const executablePath = override.executablePath
+    ?? process.env[`SCRAPER_BROWSER_PATH_${suffix}`]
+    ?? process.env.SCRAPER_BROWSER_PATH;
+
+  const kind = override.kind
+    ?? parseKind(process.env[`SCRAPER_BACKEND_${suffix}`], `SCRAPER_BACKEND_${suffix}`)
+    ?? parseKind(process.env.SCRAPER_BACKEND, 'SCRAPER_BACKEND')
+    ?? (executablePath ? 'executable' : undefined);
+
+  if (kind) return { kind, executablePath };
+  if (process.platform === 'darwin' && fs.existsSync(MAC_BRAVE_PATH)) {
+    return { kind: 'executable', executablePath: MAC_BRAVE_PATH };
+  }
+  return { kind: 'chromium' };
+}
+
+export function configureBackend(profile: string, config: Partial<BackendConfig>): BackendConfig {
+  _overrides.set(profile, { ..._overrides.get(profile), ...config });
+  return resolveBackendConfig(profile);
+}
+
+/**
+ * Apply `--backend <kind>` / `--browser-path <path>` from a script's CLI args
+ * to the script's browser profile.
+ */
+export function configureBackendFromArgs(args: string[], profile: string): BackendConfig {
+  const valueOf = (flag: string) => {
+    const idx = args.indexOf(flag);
+    return idx === -1 ? undefined : args[idx + 1];
+  };
+  const kind = parseKind(valueOf('--backend'), '--backend');
+  const executablePath = valueOf('--browser-path');
+  if (kind) configureBackend(profile, { kind });
+  if (executablePath) configureBackend(profile, { executablePath });
+  return resolveBackendConfig(profile);
+}
+
+// ── Backend interface ──────────────────────────────────────────────────
+
+export interface ScraperBackend {
+  kind: BackendKind | 'replay';
+  launch(profile: string, headless: boolean): Promise<BrowserContext>;
+  /** Load a page and wait until it's past any Cloudflare challenge */
+  navigate(page: Page, url: string, timeoutMs: number): Promise<void>;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function isChallengeTitle(title: string): boolean {
+  return title.toLowerCase().includes('just a moment');
+}
+
+function userDataDir(profile: string): string {
+  return path.join(process.cwd(), `.browser-data-${profile}`);
+}
+
+// ── Playwright backends ────────────────────────────────────────────────
+
+async function playwrightNavigate(page: Page, url: string, timeoutMs: number): Promise<void> {
+  await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+
+  // Poll until Cloudflare challenge clears
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      if (!isChallengeTitle(await page.title())) return;
+    } catch {
+      // Context destroyed by navigation — use plain sleep (page may be dead)
+      await sleep(1000);
+      return;
+    }
+    await sleep(2000);
+  }
+
+  throw new Error(`Cloudflare challenge did not clear within ${timeoutMs}ms`);
+}
+
+function playwrightBackend(config: BackendConfig): ScraperBackend {
+  return {
+    kind: config.kind,
+    launch: (profile, headless) => {
+      if (config.kind === 'executable' && !config.executablePath) {
+        throw new Error(`Backend "executable" for profile "${profile}" needs SCRAPER_BROWSER_PATH or --browser-path`);
+      }
+      return chromium.launchPersistentContext(userDataDir(profile), {
+        headless,
+        executablePath: config.kind === 'executable' ? config.executablePath : undefined,
+        args: ['--disable-blink-features=AutomationControlled'],
+        userAgent: USER_AGENT,
+        viewport: { width: 1280, height: 800 },
+      });
+    },
+    navigate: playwrightNavigate,
+  };
+}
+
+// ── Fetch backend ──────────────────────────────────────────────────────
+
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Unix ms, null for session cookies */
+  expires: number | null;
+}
+
+/** Minimal cookie jar, saved to .browser-data-<profile>/cookies.json after every response. */
+class CookieJar {
+  private cookies: StoredCookie[] = [];
+
+  constructor(private file: string) {
+    if (fs.existsSync(file)) {
+      try {
+        this.cookies = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      } catch {
+        console.warn(`  Ignoring unreadable cookie jar ${file}`);
+      }
+    }
+  }
+
+  header(url: URL): string {
+    const now = Date.now();
+    return this.cookies
+      .filter((c) => (c.expires == null || c.expires > now)
+        && (url.hostname === c.domain || url.hostname.endsWith(`.${c.domain}`))
+        && url.pathname.startsWith(c.path))
+      .map((c) => `${c.name}=${c.value}`)
+      .join('; ');
+  }
+
+  store(url: URL, setCookies: string[]): void {
+    if (setCookies.length === 0) return;
+    for (const raw of setCookies) {
+      const [pair, ...attrs] = raw.split(';').map((s) => s.trim());
+      const eq = pair.indexOf('=');
+      if (eq <= 0) continue;
+      const cookie: StoredCookie = {
+        name: pair.slice(0, eq),
+        value: pair.slice(eq + 1),
+        domain: url.hostname,
+        path: '/',
+        expires: null,
+      };
+      for (const attr of attrs) {
+        const [key, val = ''] = attr.split('=');
+        const k = key.toLowerCase();
+        if (k === 'domain' && val) cookie.domain = val.replace(/^\./, '');
+        else if (k === 'path' && val) cookie.path = val;
+        else if (k === 'max-age') cookie.expires = Date.now() + parseInt(val, 10) * 1000;
+        else if (k === 'expires' && cookie.expires == null) cookie.expires = new Date(val).getTime() || null;
+      }
+      this.cookies = this.cookies.filter((c) => !(c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path));
+      this.cookies.push(cookie);
+    }
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.cookies, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * Stand-in for a browser context backed by plain HTTP requests.
+ * `goto` fetches the HTML so `content()`/`title()` work; anything that needs
+ * a real DOM (evaluate, selectOption) throws.
+ */
+function createFetchContext(profile: string): BrowserContext {
+  const jar = new CookieJar(path.join(userDataDir(profile), 'cookies.json'));
+  const pages: Page[] = [];
+
+  const request = async (url: URL, accept: string) => {
+    const cookie = jar.header(url);
+    const res = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: accept,
+        'Accept-Language': 'en-US,en;q=0.9',
+        ...(cookie ? { Cookie: cookie } : {}),
+      },
+    });
+    jar.store(url, res.headers.getSetCookie());
+    return {
+      status: res.status,
+      statusText: res.statusText,
+      contentType: res.headers.get('content-type'),
+      body: await res.text(),
+    };
+  };
+
+  const newPage = () => {
+    let currentUrl = RUBINOT_URLS.base;
+    let html = '';
+    const unsupported = (method: string) => async () => {
+      throw new Error(`page.${method} is not available with the fetch backend (profile "${profile}")`);
+    };
+
+    const page = {
+      goto: async (url: string) => {
+        const target = new URL(url, currentUrl);
+        const res = await request(target, 'text/html,application/xhtml+xml');
+        currentUrl = target.toString();
+        html = res.body;
+        return null;
+      },
+      url: () => currentUrl,
+      title: async () => html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim() ?? '',
+      content: async () => html,
+      evaluate: unsupported('evaluate'),
+      selectOption: unsupported('selectOption'),
+      close: async () => {
+        pages.splice(pages.indexOf(page as unknown as Page), 1);
+      },
+    } as unknown as Page;
+
+    registerDirectRequest(page, (url) => request(new URL(url, currentUrl), 'application/json, text/plain, */*'));
+    pages.push(page);
+    return page;
+  };
+
+  newPage();
+  const context = {
+    pages: () => [...pages],
+    newPage: async () => newPage(),
+    close: async () => {
+      pages.length = 0;
+    },
+  };
+  return context as unknown as BrowserContext;
+}
+
+const fetchBackend: ScraperBackend = {
+  kind: 'fetch',
+  launch: async (profile) => createFetchContext(profile),
+  navigate: async (page, url, timeoutMs) => {
+    await page.goto(url, { timeout: timeoutMs });
+    if (isChallengeTitle(await page.title())) {
+      throw new Error('Cloudflare challenge served to the fetch backend — switch this profile to chromium or executable');
+    }
+  },
+};
+
+// ── Replay ─────────────────────────────────────────────────────────────
+
+/** Replay mode needs no browser at all — see transport.ts */
+const replayBackend: ScraperBackend = {
+  kind: 'replay',
+  launch: async () => createReplayContext(),
+  navigate: async () => {},
+};
+
+/** The backend a profile should run on right now. */
+export function getBackend(profile: string): ScraperBackend {
+  if (isReplay()) return replayBackend;
+  const config = resolveBackendConfig(profile);
+  return config.kind === 'fetch' ? fetchBackend : playwrightBackend(config);
+}
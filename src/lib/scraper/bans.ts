@@ -1,11 +1,17 @@
 /**
  * Bans scraper for RubinOT.
  * Scrapes the /bans page via HTML parsing (no JSON API available yet).
- * Requires Brave Browser to bypass Cloudflare.
+ * Needs a real browser backend (chromium or executable) to bypass Cloudflare.
+ *
+ * The page only lists active bans, so a ban is known to be over once it stops
+ * appearing — `reconcileBans` closes those after each full scrape.
  */
+import * as cheerio from 'cheerio';
+import type { PrismaClient } from '@prisma/client';
 import { RUBINOT_URLS } from '../utils/constants';
 import type { Page } from 'playwright';
 import { rateLimit, sleep } from './browser';
+import { snapshotHtml } from './transport';
 
 export interface ScrapedBan {
   playerName: string;
@@ -13,41 +19,82 @@ export interface ScrapedBan {
   bannedAt: string | null;
   expiresAt: string | null;
   isPermanent: boolean;
+  /** World filter the ban was listed under, null if only seen in the default view */
+  world: string | null;
 }
 
+/** Rows a single view shows — a view with fewer is the complete list for its filter */
+const BANS_PER_VIEW = 50;
+
 /**
- * Scrape bans from the current page.
+ * Parse bans from a /bans page snapshot.
  * Returns the rows visible on the page.
  */
-export async function scrapeBansPage(page: Page): Promise<{ bans: ScrapedBan[]; totalActive: number }> {
-  return page.evaluate(() => {
-    const totalMatch = document.body.innerText.match(/Total de bans activos:\s*([\d.,]+)/);
-    const totalActive = totalMatch ? parseInt(totalMatch[1].replace(/[.,]/g, ''), 10) : 0;
-
-    const rows = document.querySelectorAll('table tbody tr');
-    const bans: ScrapedBan[] = [];
-
-    rows.forEach(row => {
-      const cells = row.querySelectorAll('td');
-      if (cells.length < 4) return;
-
-      const playerName = cells[0].textContent?.trim() || '';
-      const reason = cells[1].textContent?.trim() || null;
-      const bannedAt = cells[2].textContent?.trim() || null;
-      const expiresText = cells[3].textContent?.trim() || '';
-      const isPermanent = expiresText.toLowerCase().includes('permanente');
-
-      bans.push({
-        playerName,
-        reason,
-        bannedAt,
-        expiresAt: isPermanent ? null : expiresText || null,
-        isPermanent,
-      });
-    });
+export function parseBansHtml(html: string): { bans: ScrapedBan[]; totalActive: number } {
+  const $ = cheerio.load(html);
+  const totalMatch = $('body').text().match(/Total de bans activos:\s*([\d.,]+)/);
+  const totalActive = totalMatch ? parseInt(totalMatch[1].replace(/[.,]/g, ''), 10) : 0;
+
+  const bans: ScrapedBan[] = [];
+  $('table tbody tr').each((_, row) => {
+    const cells = $(row).find('td');
+    if (cells.length < 4) return;
 
-    return { bans, totalActive };
+    const playerName = cells.eq(0).text().trim();
+    const reason = cells.eq(1).text().trim() || null;
+    const bannedAt = cells.eq(2).text().trim() || null;
+    const expiresText = cells.eq(3).text().trim();
+    const isPermanent = expiresText.toLowerCase().includes('permanente');
+
+    bans.push({
+      playerName,
+      reason,
+      bannedAt,
+      expiresAt: isPermanent ? null : expiresText || null,
+      isPermanent,
+      world: null,
+    });
   });
+
+  return { bans, totalActive };
+}
+
+/** World filter options from the /bans page's select dropdown. */
+function parseWorldOptions(html: string): { value: string; name: string }[] {
+  const $ = cheerio.load(html);
+  return $('select').first().find('option')
+    .toArray()
+    .map(o => ({ value: $(o).attr('value') ?? '', name: $(o).text().trim() }))
+    .filter(o => o.value !== 'all');
+}
+
+function bansViewKey(view: string): string {
+  return `${RUBINOT_URLS.bans}?world=${view}`;
+}
+
+/**
+ * Scrape bans from the current page.
+ * `view` keys the snapshot for record/replay (e.g. the selected world).
+ */
+export async function scrapeBansPage(
+  page: Page,
+  view = 'all',
+): Promise<{ bans: ScrapedBan[]; totalActive: number }> {
+  const html = await snapshotHtml(page, bansViewKey(view));
+  return parseBansHtml(html);
+}
+
+export interface BanScrapeResult {
+  bans: ScrapedBan[];
+  totalActive: number;
+  /** Every active ban was listed, so any active ban not in `bans` has been lifted */
+  complete: boolean;
+  /** Worlds whose filtered view wasn't cut off at BANS_PER_VIEW */
+  completeWorlds: string[];
+}
+
+function banKey(ban: ScrapedBan): string {
+  return ban.playerName + ban.bannedAt;
 }
 
 /**
@@ -57,24 +104,20 @@ export async function scrapeBansPage(page: Page): Promise<{ bans: ScrapedBan[];
 export async function scrapeAllBans(
   page: Page,
   opts: { onBatch?: (bans: ScrapedBan[], world: string) => Promise<void> } = {},
-): Promise<ScrapedBan[]> {
-  const allBans: ScrapedBan[] = [];
+): Promise<BanScrapeResult> {
+  const allBans = new Map<string, ScrapedBan>();
+  const completeWorlds: string[] = [];
 
   // First get the default view (all worlds)
-  const { bans, totalActive } = await scrapeBansPage(page);
+  const html = await snapshotHtml(page, bansViewKey('all'));
+  const { bans, totalActive } = parseBansHtml(html);
   console.log(`  Total active bans: ${totalActive}`);
   console.log(`  Scraped ${bans.length} bans from default view`);
-  allBans.push(...bans);
+  for (const ban of bans) allBans.set(banKey(ban), ban);
   if (opts.onBatch) await opts.onBatch(bans, 'All');
 
   // Get list of world options from the select dropdown
-  const worldOptions = await page.evaluate(() => {
-    const select = document.querySelector('select');
-    if (!select) return [];
-    return Array.from(select.options)
-      .filter(o => o.value !== 'all')
-      .map(o => ({ value: o.value, name: o.textContent?.trim() || '' }));
-  });
+  const worldOptions = parseWorldOptions(html);
 
   // Select each world to get more bans
   for (const world of worldOptions) {
@@ -82,15 +125,60 @@ export async function scrapeAllBans(
     await page.selectOption('select', world.value);
     await sleep(2000); // wait for page update
 
-    const { bans: worldBans } = await scrapeBansPage(page);
+    const { bans: worldBans } = await scrapeBansPage(page, world.value);
     console.log(`  ${world.name}: ${worldBans.length} bans`);
+    if (worldBans.length < BANS_PER_VIEW) completeWorlds.push(world.name);
 
-    // Only add bans not already seen
-    const existingNames = new Set(allBans.map(b => b.playerName + b.bannedAt));
-    const newBans = worldBans.filter(b => !existingNames.has(b.playerName + b.bannedAt));
-    allBans.push(...newBans);
+    // Only add bans not already seen, but tag the known ones with their world
+    const newBans: ScrapedBan[] = [];
+    for (const ban of worldBans) {
+      const known = allBans.get(banKey(ban));
+      if (known) {
+        known.world = world.name;
+      } else {
+        ban.world = world.name;
+        allBans.set(banKey(ban), ban);
+        newBans.push(ban);
+      }
+    }
     if (opts.onBatch && newBans.length > 0) await opts.onBatch(newBans, world.name);
   }
 
-  return allBans;
+  return {
+    bans: [...allBans.values()],
+    totalActive,
+    complete: allBans.size >= totalActive,
+    completeWorlds,
+  };
+}
+
+/**
+ * Close active bans that the latest scrape no longer lists.
+ * Bans past their expiry are closed at `expiresAt`; others are closed now,
+ * but only when the scrape covered them — the whole list, or a world view
+ * that wasn't cut off. `seenIds` are the rows the scrape just upserted.
+ */
+export async function reconcileBans(
+  prisma: PrismaClient,
+  scrape: Pick<BanScrapeResult, 'complete' | 'completeWorlds'>,
+  seenIds: number[],
+  now = new Date(),
+): Promise<{ expired: number; lifted: number }> {
+  const missing = await prisma.ban.findMany({
+    where: { isActive: true, id: { notIn: seenIds } },
+    select: { id: true, world: true, expiresAt: true },
+  });
+
+  let expired = 0;
+  let lifted = 0;
+  for (const ban of missing) {
+    if (ban.expiresAt && ban.expiresAt <= now) {
+      await prisma.ban.update({ where: { id: ban.id }, data: { isActive: false, liftedAt: ban.expiresAt } });
+      expired++;
+    } else if (scrape.complete || (ban.world != null && scrape.completeWorlds.includes(ban.world))) {
+      await prisma.ban.update({ where: { id: ban.id }, data: { isActive: false, liftedAt: now } });
+      lifted++;
+    }
+  }
+  return { expired, lifted };
 }
@@ -0,0 +1,87 @@
+/**
+ * Bid history for live auctions.
+ * Bid writes go through `saveBidUpdate`, which appends a bid_snapshots row
+ * whenever the bid or end time differs from what's stored, so updating
+ * current_auctions in place no longer loses the history.
+ */
+import type { PrismaClient } from '@prisma/client';
+
+export interface BidState {
+  minimumBid: number | null;
+  currentBid: number | null;
+  hasBeenBidOn: boolean;
+  auctionEnd: string | null;
+}
+
+/** Pick the bid fields off a list auction or DB row */
+export function toBidState(a: BidState): BidState {
+  return {
+    minimumBid: a.minimumBid,
+    currentBid: a.currentBid,
+    hasBeenBidOn: a.hasBeenBidOn,
+    auctionEnd: a.auctionEnd,
+  };
+}
+
+function bidChanged(prev: BidState, next: BidState): boolean {
+  return (
+    prev.minimumBid !== next.minimumBid ||
+    prev.currentBid !== next.currentBid ||
+    prev.hasBeenBidOn !== next.hasBeenBidOn ||
+    prev.auctionEnd !== next.auctionEnd
+  );
+}
+
+/**
+ * Write the latest bid for a current auction, snapshotting it if it changed.
+ * Returns 'missing' when the auction isn't in current_auctions yet.
+ */
+export async function saveBidUpdate(
+  prisma: PrismaClient,
+  externalId: string,
+  next: BidState,
+): Promise<'missing' | 'changed' | 'unchanged'> {
+  const prev = await prisma.currentAuction.findUnique({
+    where: { externalId },
+    select: { minimumBid: true, currentBid: true, hasBeenBidOn: true, auctionEnd: true },
+  });
+  if (!prev) return 'missing';
+
+  const changed = bidChanged(prev, next);
+  await prisma.currentAuction.update({
+    where: { externalId },
+    data: {
+      ...next,
+      ...(changed && { bidSnapshots: { create: next } }),
+    },
+  });
+  return changed ? 'changed' : 'unchanged';
+}
+
+/**
+ * Copy a current auction's bid history onto its archived `auctions` row.
+ * Skipped if the archived auction already has snapshots (re-archiving).
+ */
+export async function copyBidHistory(
+  prisma: PrismaClient,
+  currentAuctionId: number,
+  auctionId: number,
+): Promise<number> {
+  const already = await prisma.auctionBidSnapshot.count({ where: { auctionId } });
+  if (already > 0) return 0;
+
+  const snapshots = await prisma.bidSnapshot.findMany({
+    where: { currentAuctionId },
+    orderBy: { capturedAt: 'asc' },
+  });
+  if (snapshots.length === 0) return 0;
+
+  const { count } = await prisma.auctionBidSnapshot.createMany({
+    data: snapshots.map((s) => ({
+      auctionId,
+      ...toBidState(s),
+      capturedAt: s.capturedAt,
+    })),
+  });
+  return count;
+}
@@ -1,27 +1,22 @@
 /**
  * Boosted creature & boss scraper for RubinOT.
  * Uses the JSON API at /api/boosted.
- * Still needs Brave Browser to bypass Cloudflare on initial navigation.
+ * Still needs a real browser backend to bypass Cloudflare on initial navigation.
  */
 import { RUBINOT_URLS } from '../utils/constants';
 import type { Page } from 'playwright';
+import { fetchJson } from './transport';
+import { boostedResponseSchema } from './schemas';
+import { validatePayload } from './validation';
 
 export interface BoostedData {
   creature: { id: number; name: string; looktype: number };
   boss: { id: number; name: string; looktype: number };
 }
 
-interface ApiBoostedResponse {
-  boss: { id: number; name: string; looktype: number };
-  monster: { id: number; name: string; looktype: number };
-}
-
 export async function fetchBoosted(page: Page): Promise<BoostedData> {
-  const data = await page.evaluate(async () => {
-    const res = await fetch('/api/boosted');
-    if (!res.ok) throw new Error(`Boosted API ${res.status}: ${res.statusText}`);
-    return res.json();
-  }) as ApiBoostedResponse;
+  const raw = await fetchJson<unknown>(page, RUBINOT_URLS.api.boosted, 'Boosted');
+  const data = validatePayload('boosted', boostedResponseSchema, raw);
 
   return {
     creature: data.monster,
@@ -1,16 +1,14 @@
 /**
- * Playwright browser manager for scraping RubinOT.
+ * Browser manager for scraping RubinOT.
  * Supports multiple named browser profiles for parallel scraping.
- * All profiles use Brave Browser (required to bypass Cloudflare).
+ * Each profile runs on its own backend (bundled Chromium, a configured
+ * executable such as Brave, or plain fetch) — see backends.ts.
  */
-import { chromium, type BrowserContext, type Page } from 'playwright';
-import * as path from 'path';
-import { SCRAPER_CONFIG } from '../utils/constants';
-
-const BRAVE_PATH = '/Applications/Brave Browser.app/Contents/MacOS/Brave Browser';
-
-const USER_AGENT =
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36';
+import type { BrowserContext, Page } from 'playwright';
+import { RUBINOT_URLS } from '../utils/constants';
+import { isReplay, setChallengeRecovery } from './transport';
+import { getBackend, type ScraperBackend } from './backends';
+import { throttle } from './scheduler';
 
 export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
@@ -22,6 +20,7 @@ export type BrowserName = string;
 interface BrowserInstance {
   context: BrowserContext;
   headless: boolean;
+  backend: ScraperBackend;
 }
 
 const _instances = new Map<BrowserName, BrowserInstance>();
@@ -32,9 +31,10 @@ export interface BrowserOptions {
 }
 
 /**
- * Launch (or reuse) a persistent Brave browser context.
+ * Launch (or reuse) a persistent browser context on the profile's backend.
  * Each profile gets its own user data dir (.browser-data-{name}/)
  * so cookies and sessions don't conflict between parallel scrapers.
+ * In replay mode no browser is launched — see transport.ts.
  */
 export async function getBrowserContext(
   opts: BrowserOptions = {},
@@ -44,17 +44,10 @@ export async function getBrowserContext(
   if (existing) return existing.context;
 
   const headless = opts.headless ?? false;
-  const userDataDir = path.join(process.cwd(), `.browser-data-${name}`);
+  const backend = getBackend(name);
+  const context = await backend.launch(name, headless);
 
-  const context = await chromium.launchPersistentContext(userDataDir, {
-    headless,
-    executablePath: BRAVE_PATH,
-    args: ['--disable-blink-features=AutomationControlled'],
-    userAgent: USER_AGENT,
-    viewport: { width: 1280, height: 800 },
-  });
-
-  _instances.set(name, { context, headless });
+  _instances.set(name, { context, headless, backend });
   return context;
 }
 
@@ -94,41 +87,24 @@ export async function navigateWithCloudflare(
   url: string,
   timeoutMs = 15_000,
 ): Promise<void> {
-  await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
-
-  // Poll until Cloudflare challenge clears
-  const deadline = Date.now() + timeoutMs;
-  while (Date.now() < deadline) {
-    try {
-      const title = await page.title();
-      if (!title.toLowerCase().includes('just a moment')) return;
-    } catch {
-      // Context destroyed by navigation — use plain sleep (page may be dead)
-      await sleep(1000);
-      return;
-    }
-    await sleep(2000);
-  }
-
-  throw new Error(`Cloudflare challenge did not clear within ${timeoutMs}ms`);
+  const backend = [..._instances.values()].find((i) => i.context.pages().includes(page))?.backend
+    ?? getBackend('default');
+  await backend.navigate(page, url, timeoutMs);
 }
 
+// A challenge on an API call means the session expired — reload the site to get a fresh one
+setChallengeRecovery((page) => navigateWithCloudflare(page, RUBINOT_URLS.base, 60_000));
+
 /**
- * Rate-limit helper — waits a random delay to look human.
- * Default: 1–2s between requests. Use 'fast' for 0.5–1s (list pages),
- * 'slow' for 6–12s (after Cloudflare challenges or errors).
+ * Rate-limit helper — paces requests through the shared scheduler.
+ * 'fast' for list pages, 'normal' by default, 'slow' after Cloudflare
+ * challenges or errors. Scaled from SCRAPER_CONFIG.delayMs.
  */
 export async function rateLimit(
   mode: 'fast' | 'normal' | 'slow' = 'normal',
 ): Promise<void> {
-  const ranges = {
-    fast: [500, 1000],
-    normal: [1000, 2000],
-    slow: [6000, 12000],
-  };
-  const [min, max] = ranges[mode];
-  const delay = min + Math.floor(Math.random() * (max - min));
-  await new Promise((r) => setTimeout(r, delay));
+  if (isReplay()) return;
+  await throttle(mode);
 }
 
 /**
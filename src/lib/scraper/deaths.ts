@@ -1,20 +1,21 @@
 /**
  * Deaths scraper for RubinOT.
- * Fetches PvP kills from the /api/deaths JSON endpoint.
+ * Fetches deaths (PvP and PvE) from the /api/deaths JSON endpoint, which
+ * lists them newest first — so a run can stop at the newest death it
+ * already has.
  */
+import type { z } from 'zod';
 import { RUBINOT_URLS } from '../utils/constants';
 import type { Page } from 'playwright';
+import { fetchText } from './transport';
+import { rateLimit } from './browser';
+import { deathsResponseSchema, rawDeathSchema, type RawDeath } from './schemas';
+import { validatePayload, validateRecords } from './validation';
 
-export interface RawDeath {
-  time: string; // unix timestamp as string
-  level: number;
-  killed_by: string;
-  is_player: number; // 1 = PvP, 0 = PvE
-  mostdamage_by: string;
-  mostdamage_is_player: number;
-  victim: string;
-  worldName: string;
-}
+export type { RawDeath };
+
+/** Tries per page before a bad response counts as a failed page */
+const PAGE_ATTEMPTS = 3;
 
 interface DeathsApiResponse {
   data: RawDeath[];
@@ -26,94 +27,121 @@ interface DeathsApiResponse {
   };
 }
 
-export interface ScrapedPvpKill {
-  killerName: string;
+export interface ScrapedDeath {
   victimName: string;
   victimLevel: number;
+  /** Player or creature name */
+  killedBy: string;
+  killedByPlayer: boolean;
+  /** Set only when it differs from `killedBy` */
   mostDamageBy: string | null;
   mostDamageIsPlayer: boolean;
   world: string;
   killedAt: Date;
 }
 
+function toScrapedDeath(d: RawDeath): ScrapedDeath {
+  return {
+    victimName: d.victim,
+    victimLevel: d.level,
+    killedBy: d.killed_by,
+    killedByPlayer: d.is_player === 1,
+    mostDamageBy: d.mostdamage_by && d.mostdamage_by !== d.killed_by ? d.mostdamage_by : null,
+    mostDamageIsPlayer: d.mostdamage_is_player === 1,
+    world: d.worldName,
+    killedAt: new Date(parseInt(d.time) * 1000),
+  };
+}
+
 /**
  * Fetch a single page of deaths from the API.
- * Uses direct navigation + innerText to avoid page.evaluate serialization issues.
+ * Reads the raw body (not res.json()) so a non-JSON challenge page comes back as null
+ * rather than throwing. Same for a malformed envelope (quarantined); malformed deaths
+ * are dropped individually.
  */
-async function fetchDeathsPage(page: Page, pageNum: number): Promise<DeathsApiResponse> {
+async function fetchDeathsPage(page: Page, pageNum: number): Promise<DeathsApiResponse | null> {
   const url = `${RUBINOT_URLS.base}${RUBINOT_URLS.api.deaths}?page=${pageNum}`;
 
-  // Use page.evaluate with fetch, then return as stringified JSON to avoid serialization issues
-  const text = await page.evaluate(async (apiUrl: string) => {
-    const res = await fetch(apiUrl);
-    return res.text();
-  }, url);
+  const { body: text } = await fetchText(page, url, { expectJson: true, label: `Deaths page ${pageNum}` });
 
-  let raw: Record<string, unknown>;
+  let raw: z.infer<typeof deathsResponseSchema>;
   try {
-    raw = JSON.parse(text);
-  } catch {
-    console.warn(`  Warning: Page ${pageNum} returned non-JSON response (${text.slice(0, 100)}...)`);
-    return { data: [], pagination: { currentPage: pageNum, totalPages: 1, totalItems: 0, itemsPerPage: 50 } };
+    raw = validatePayload('deaths', deathsResponseSchema, JSON.parse(text));
+  } catch (err) {
+    if (err instanceof SyntaxError) {
+      console.warn(`  Warning: Page ${pageNum} returned non-JSON response (${text.slice(0, 100)}...)`);
+    } else {
+      console.warn(`  Warning: Page ${pageNum}: ${(err as Error).message}`);
+    }
+    return null;
   }
   // API returns { deaths: [...], pagination: { currentPage, totalPages, totalCount, itemsPerPage } }
-  const deathsArray = (raw.deaths || raw.data || []) as RawDeath[];
-  const pag = (raw.pagination || {}) as Record<string, unknown>;
+  const deathsArray = validateRecords('deaths-entry', rawDeathSchema, raw.deaths ?? raw.data ?? []);
+  const pag = raw.pagination ?? {};
   return {
     data: deathsArray,
     pagination: {
-      currentPage: (pag.currentPage || pageNum) as number,
-      totalPages: (pag.totalPages || 1) as number,
-      totalItems: (pag.totalCount || pag.totalItems || deathsArray.length) as number,
-      itemsPerPage: (pag.itemsPerPage || 50) as number,
+      currentPage: pag.currentPage || pageNum,
+      totalPages: pag.totalPages || 1,
+      totalItems: pag.totalCount || pag.totalItems || deathsArray.length,
+      itemsPerPage: pag.itemsPerPage || 50,
     },
   };
 }
 
 /**
- * Fetch all PvP kills from the deaths API (all pages).
- * Filters to only player-vs-player kills (is_player === 1).
+ * Fetch deaths from the deaths API, newest first.
+ * With `since`, stops after the first page that reaches it and drops the
+ * deaths older than it; deaths at exactly `since` are kept, since several
+ * can share a timestamp and the upserts dedupe them. Without it, fetches
+ * every page.
+ *
+ * A page that still fails after retrying aborts an incremental walk: saving
+ * the pages around it would move `since` past its deaths for good. A full
+ * walk skips it and reports it in `failedPages`.
  */
-export async function fetchAllPvpKills(page: Page): Promise<ScrapedPvpKill[]> {
-  const allKills: ScrapedPvpKill[] = [];
+export async function fetchDeaths(
+  page: Page,
+  opts: { since?: Date | null } = {},
+): Promise<{ deaths: ScrapedDeath[]; pages: number; reachedKnown: boolean; failedPages: number[] }> {
+  const since = opts.since ?? null;
+  const deaths: ScrapedDeath[] = [];
+  const failedPages: number[] = [];
 
-  // Fetch first page to get total pages
-  const firstPage = await fetchDeathsPage(page, 1);
-  const totalPages = firstPage.pagination.totalPages;
-  console.log(`  Deaths API: ${firstPage.pagination.totalItems} total deaths across ${totalPages} pages`);
+  let totalPages = 1;
+  let p = 1;
+  for (; p <= totalPages; p++) {
+    let pageData: DeathsApiResponse | null = null;
+    for (let attempt = 1; attempt <= PAGE_ATTEMPTS && !pageData; attempt++) {
+      if (attempt > 1) {
+        console.warn(`  Retrying page ${p} (attempt ${attempt}/${PAGE_ATTEMPTS})`);
+        await rateLimit('slow');
+      }
+      pageData = await fetchDeathsPage(page, p);
+    }
+    if (!pageData) {
+      if (since || p === 1) {
+        throw new Error(`Deaths page ${p} failed ${PAGE_ATTEMPTS} times — stopping before saving anything`);
+      }
+      failedPages.push(p);
+      continue;
+    }
+    if (p === 1) {
+      totalPages = pageData.pagination.totalPages;
+      console.log(`  Deaths API: ${pageData.pagination.totalItems} total deaths across ${totalPages} pages`);
+    }
 
-  // Process first page
-  const pvpFromFirst = firstPage.data.filter(d => d.is_player === 1);
-  for (const d of pvpFromFirst) {
-    allKills.push({
-      killerName: d.killed_by,
-      victimName: d.victim,
-      victimLevel: d.level,
-      mostDamageBy: d.mostdamage_by && d.mostdamage_by !== d.killed_by ? d.mostdamage_by : null,
-      mostDamageIsPlayer: d.mostdamage_is_player === 1,
-      world: d.worldName,
-      killedAt: new Date(parseInt(d.time) * 1000),
-    });
-  }
-  console.log(`  Page 1: ${pvpFromFirst.length} PvP kills`);
+    const pageDeaths = pageData.data.map(toScrapedDeath);
+    const fresh = since ? pageDeaths.filter((d) => d.killedAt >= since) : pageDeaths;
+    deaths.push(...fresh);
+    const pvp = fresh.filter((d) => d.killedByPlayer).length;
+    console.log(`  Page ${p}: ${fresh.length} deaths (${pvp} PvP)`);
 
-  // Fetch remaining pages
-  for (let p = 2; p <= totalPages; p++) {
-    const pageData = await fetchDeathsPage(page, p);
-    const pvpKills = pageData.data.filter(d => d.is_player === 1);
-    for (const d of pvpKills) {
-      allKills.push({
-        killerName: d.killed_by,
-        victimName: d.victim,
-        victimLevel: d.level,
-        mostDamageBy: d.mostdamage_by && d.mostdamage_by !== d.killed_by ? d.mostdamage_by : null,
-        mostDamageIsPlayer: d.mostdamage_is_player === 1,
-        world: d.worldName,
-        killedAt: new Date(parseInt(d.time) * 1000),
-      });
+    if (since && fresh.length < pageDeaths.length) {
+      console.log(`  Reached deaths already stored (up to ${since.toISOString()}) — stopping`);
+      return { deaths, pages: p, reachedKnown: true, failedPages };
     }
-    console.log(`  Page ${p}: ${pvpKills.length} PvP kills`);
   }
 
-  return allKills;
+  return { deaths, pages: p - 1, reachedKnown: false, failedPages };
 }
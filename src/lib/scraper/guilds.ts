@@ -0,0 +1,336 @@
+/**
+ * Guilds scraper for RubinOT.
+ * Lists each world's guilds from the /api/guilds JSON endpoint, then reads
+ * every guild's member list from /api/guilds/{name}.
+ *
+ * The JSON shape below hasn't been checked against a recorded live response
+ * yet (capture one with `pnpm scrape:guilds --record`). When the endpoint
+ * is missing or doesn't match, a world falls back to parsing the
+ * ?subtopic=guilds HTML pages, as transfers.ts does for /transfers.
+ *
+ * Membership history is kept as stints in guild_memberships: a member the
+ * guild page lists without an open stint joins, and an open stint whose
+ * member is no longer listed is closed at the scrape that noticed.
+ */
+import type { PrismaClient } from '@prisma/client';
+import type { z } from 'zod';
+import * as cheerio from 'cheerio';
+import type { Page } from 'playwright';
+import { RUBINOT_URLS } from '../utils/constants';
+import { navigateWithCloudflare, rateLimit, sleep } from './browser';
+import { fetchJson, isReplay, snapshotHtml } from './transport';
+import {
+  guildDetailResponseSchema,
+  guildListResponseSchema,
+  guildMemberSchema,
+  guildSummarySchema,
+} from './schemas';
+import { validatePayload, validateRecords } from './validation';
+
+export interface ScrapedGuildMember {
+  name: string;
+  rank: string | null;
+  level: number;
+  vocation: string;
+  joinedAt: Date | null;
+}
+
+export interface ScrapedGuild {
+  name: string;
+  world: string;
+  description: string | null;
+  foundedAt: Date | null;
+  members: ScrapedGuildMember[];
+}
+
+/** Where guild data is read from: the JSON API or the HTML guild pages */
+export type GuildSource = 'api' | 'html';
+
+/** Stop paging a world's guild list after this many pages */
+const MAX_LIST_PAGES = 50;
+
+function parseUnix(value: number | string | null | undefined): Date | null {
+  if (value == null || value === '') return null;
+  const seconds = typeof value === 'number' ? value : parseInt(value, 10);
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : null;
+}
+
+// ── HTML pages ─────────────────────────────────────────────────────────
+
+/** Guild names linked from a world's ?subtopic=guilds page */
+export function parseGuildListHtml(html: string): string[] {
+  const $ = cheerio.load(html);
+  const names = new Set<string>();
+  $('a[href*="GuildName="]').each((_, a) => {
+    const match = ($(a).attr('href') ?? '').match(/[?&]GuildName=([^&#]+)/);
+    if (match) names.add(decodeURIComponent(match[1].replace(/\+/g, ' ')).trim());
+  });
+  return [...names].filter(Boolean);
+}
+
+/**
+ * A guild page's description, founding date and member table. The member
+ * table is found by its headers, and a rank is only printed on the first
+ * member holding it, so blank rank cells inherit the one above.
+ * Returns null when there is no member table to trust.
+ */
+export function parseGuildHtml(html: string, name: string, world: string): ScrapedGuild | null {
+  const $ = cheerio.load(html);
+
+  const table = $('table').filter((_, t) => {
+    const header = $(t).find('tr').first().text().toLowerCase();
+    return header.includes('vocation') && header.includes('level');
+  }).last();
+  if (table.length === 0) return null;
+
+  const headers = table.find('tr').first().find('td, th').map((_, c) => $(c).text().trim().toLowerCase()).get();
+  const column = (label: string) => headers.findIndex((h) => h.includes(label));
+  const rankCol = column('rank');
+  const nameCol = column('name');
+  const vocationCol = column('vocation');
+  const levelCol = column('level');
+  const joinedCol = column('join');
+  if (nameCol === -1 || vocationCol === -1 || levelCol === -1) return null;
+
+  const members: ScrapedGuildMember[] = [];
+  let rank: string | null = null;
+  table.find('tr').slice(1).each((_, row) => {
+    const cells = $(row).find('td');
+    if (cells.length <= Math.max(nameCol, vocationCol, levelCol)) return;
+    if (rankCol !== -1) rank = cells.eq(rankCol).text().trim() || rank;
+    // The name cell may carry a title after the character link: "Name (Title)"
+    const nameCell = cells.eq(nameCol);
+    const memberName = (nameCell.find('a').first().text() || nameCell.text().replace(/\(.*\)\s*$/, '')).trim();
+    const level = parseInt(cells.eq(levelCol).text().trim(), 10);
+    if (!memberName || !Number.isFinite(level)) return;
+    const joined = joinedCol !== -1 ? new Date(cells.eq(joinedCol).text().trim()) : null;
+    members.push({
+      name: memberName,
+      rank,
+      level,
+      vocation: cells.eq(vocationCol).text().trim(),
+      joinedAt: joined && !isNaN(joined.getTime()) ? joined : null,
+    });
+  });
+
+  const text = $('body').text();
+  const founded = text.match(/founded on .+? on ([A-Z][a-z]{2} \d{1,2} \d{4})/);
+  const foundedAt = founded ? new Date(founded[1]) : null;
+  const description = $('#GuildInformationContainer').text().split(/The guild was founded/)[0].trim() || null;
+
+  return {
+    name,
+    world,
+    description,
+    foundedAt: foundedAt && !isNaN(foundedAt.getTime()) ? foundedAt : null,
+    members,
+  };
+}
+
+async function loadHtml(page: Page, path: string): Promise<string> {
+  await rateLimit('fast');
+  await navigateWithCloudflare(page, RUBINOT_URLS.base + path, 60_000);
+  if (!isReplay()) await sleep(2000); // let the page render
+  return snapshotHtml(page, path);
+}
+
+// ── Fetching ───────────────────────────────────────────────────────────
+
+async function fetchGuildNamesHtml(page: Page, world: string): Promise<{ names: string[]; complete: boolean }> {
+  const names = parseGuildListHtml(await loadHtml(page, `${RUBINOT_URLS.guilds}&world=${encodeURIComponent(world)}`));
+  // An empty list is more likely a page that didn't render than a world without guilds
+  return { names, complete: names.length > 0 };
+}
+
+/**
+ * Names of every guild listed for a world, and the source that listed them —
+ * read the guilds themselves from the same one. Falls back to the HTML page
+ * when the API's first page fails.
+ * `complete` is false when a page failed validation or the list ran past
+ * MAX_LIST_PAGES — callers must not treat missing guilds as disbanded then.
+ */
+export async function fetchGuildNames(
+  page: Page,
+  world: string,
+  source: GuildSource = 'api',
+): Promise<{ names: string[]; complete: boolean; source: GuildSource }> {
+  if (source === 'html') return { ...await fetchGuildNamesHtml(page, world), source };
+
+  const names: string[] = [];
+  let totalPages = 1;
+  for (let p = 1; p <= totalPages; p++) {
+    if (p > MAX_LIST_PAGES) return { names, complete: false, source };
+    const url = `${RUBINOT_URLS.base}${RUBINOT_URLS.api.guilds}?world=${encodeURIComponent(world)}&page=${p}`;
+    let raw: z.infer<typeof guildListResponseSchema>;
+    try {
+      raw = validatePayload('guilds', guildListResponseSchema, await fetchJson<unknown>(page, url, `Guilds ${world}`));
+    } catch (err) {
+      console.warn(`  Warning: ${world} guild list page ${p}: ${(err as Error).message}`);
+      if (p === 1) {
+        console.warn(`  Falling back to the ${world} guild HTML pages`);
+        return { ...await fetchGuildNamesHtml(page, world), source: 'html' };
+      }
+      return { names, complete: false, source };
+    }
+    const guilds = validateRecords('guilds-entry', guildSummarySchema, raw.guilds);
+    if (guilds.length < raw.guilds.length) return { names: [...names, ...guilds.map((g) => g.name)], complete: false, source };
+    names.push(...guilds.map((g) => g.name));
+    totalPages = raw.pagination?.totalPages ?? 1;
+  }
+  return { names, complete: true, source };
+}
+
+/**
+ * A guild and its member list, or null when the page can't be trusted —
+ * a member dropped by validation would otherwise read as having left.
+ */
+export async function fetchGuild(
+  page: Page,
+  name: string,
+  world: string,
+  source: GuildSource = 'api',
+): Promise<ScrapedGuild | null> {
+  if (source === 'html') {
+    const html = await loadHtml(page, `${RUBINOT_URLS.guilds}&page=view&GuildName=${encodeURIComponent(name)}`);
+    const guild = parseGuildHtml(html, name, world);
+    if (!guild) console.warn(`  Warning: guild ${name}: no member table on its page — skipped`);
+    return guild;
+  }
+
+  const url = `${RUBINOT_URLS.base}${RUBINOT_URLS.api.guilds}/${encodeURIComponent(name)}`;
+  let raw: z.infer<typeof guildDetailResponseSchema>;
+  try {
+    raw = validatePayload('guild', guildDetailResponseSchema, await fetchJson<unknown>(page, url, `Guild ${name}`));
+  } catch (err) {
+    console.warn(`  Warning: guild ${name}: ${(err as Error).message}`);
+    return null;
+  }
+
+  const { guild } = raw;
+  const members = validateRecords('guild-member', guildMemberSchema, guild.members);
+  if (members.length < guild.members.length) {
+    console.warn(`  Warning: guild ${name}: ${guild.members.length - members.length} members failed validation — skipped`);
+    return null;
+  }
+
+  return {
+    name: guild.name,
+    world: guild.worldName,
+    description: guild.description?.trim() || null,
+    foundedAt: parseUnix(guild.creationDate),
+    members: members.map((m) => ({
+      name: m.name,
+      rank: m.rank?.trim() || null,
+      level: m.level,
+      vocation: m.vocation,
+      joinedAt: parseUnix(m.joinDate),
+    })),
+  };
+}
+
+// ── Membership history ─────────────────────────────────────────────────
+
+export interface GuildSaveResult {
+  /** The upserted guilds row — pass to `run.upserted()` */
+  guild: { id: number; createdAt: Date };
+  joined: number;
+  left: number;
+}
+
+/**
+ * Upsert a guild and reconcile its open stints with the scraped member list.
+ * Joins are dated from the guild page when it has a join date, else `seenAt`.
+ */
+export async function saveGuild(prisma: PrismaClient, guild: ScrapedGuild, seenAt = new Date()): Promise<GuildSaveResult> {
+  const row = await prisma.guild.upsert({
+    where: { name_world: { name: guild.name, world: guild.world } },
+    update: { description: guild.description, foundedAt: guild.foundedAt, isActive: true, lastSeen: seenAt },
+    create: {
+      name: guild.name,
+      world: guild.world,
+      description: guild.description,
+      foundedAt: guild.foundedAt,
+      firstSeen: seenAt,
+      lastSeen: seenAt,
+    },
+  });
+
+  const open = await prisma.guildMembership.findMany({
+    where: { guildId: row.id, leftAt: null },
+    select: { id: true, characterName: true },
+  });
+  const openByName = new Map(open.map((m) => [m.characterName, m.id]));
+  const listed = new Set(guild.members.map((m) => m.name));
+
+  let joined = 0;
+  for (const member of guild.members) {
+    const openId = openByName.get(member.name);
+    if (openId != null) {
+      await prisma.guildMembership.update({
+        where: { id: openId },
+        data: { rank: member.rank, lastSeenAt: seenAt },
+      });
+    } else {
+      // Members who joined before the guild was first scraped keep their real join date
+      await prisma.guildMembership.create({
+        data: {
+          guildId: row.id,
+          characterName: member.name,
+          rank: member.rank,
+          joinedAt: member.joinedAt && member.joinedAt <= seenAt ? member.joinedAt : seenAt,
+          lastSeenAt: seenAt,
+        },
+      });
+      joined++;
+    }
+  }
+
+  const gone = open.filter((m) => !listed.has(m.characterName)).map((m) => m.id);
+  const { count: left } = gone.length > 0
+    ? await prisma.guildMembership.updateMany({ where: { id: { in: gone } }, data: { leftAt: seenAt } })
+    : { count: 0 };
+
+  return { guild: row, joined, left };
+}
+
+/**
+ * Mark a world's guilds that its (complete) guild list no longer shows as
+ * disbanded, closing their open stints. Returns how many were closed.
+ */
+export async function closeDisbandedGuilds(
+  prisma: PrismaClient,
+  world: string,
+  listedNames: string[],
+  seenAt = new Date(),
+): Promise<number> {
+  const disbanded = await prisma.guild.findMany({
+    where: { world, isActive: true, name: { notIn: listedNames } },
+    select: { id: true },
+  });
+  if (disbanded.length === 0) return 0;
+
+  const ids = disbanded.map((g) => g.id);
+  await prisma.guildMembership.updateMany({ where: { guildId: { in: ids }, leftAt: null }, data: { leftAt: seenAt } });
+  await prisma.guild.updateMany({ where: { id: { in: ids } }, data: { isActive: false } });
+  return ids.length;
+}
+
+/** Point characters.guild_name at each character's open stint, clearing it for everyone else */
+export async function updateCharacterGuilds(prisma: PrismaClient): Promise<number> {
+  return prisma.$executeRawUnsafe(`
+    UPDATE characters c SET guild_name = m.guild_name
+    FROM (
+      SELECT c2.id, (
+        SELECT g.name
+        FROM guild_memberships gm
+        JOIN guilds g ON g.id = gm.guild_id
+        WHERE gm.left_at IS NULL AND gm.character_name = c2.name AND g.world = w.name
+        ORDER BY gm.joined_at DESC
+        LIMIT 1
+      ) AS guild_name
+      FROM characters c2
+      JOIN worlds w ON w.id = c2.world_id
+    ) m
+    WHERE c.id = m.id AND c.guild_name IS DISTINCT FROM m.guild_name
+  `);
+}
@@ -2,7 +2,7 @@
  * Highscores scraper for RubinOT.
  * Uses the JSON API at /api/highscores — supports experience + all skill categories + charm.
  * Returns up to 1,000 entries per world×category×vocation in one request.
- * Still needs Brave Browser to bypass Cloudflare on the first request.
+ * Still needs a real browser backend to bypass Cloudflare on the first request.
  */
 import {
   RUBINOT_URLS,
@@ -17,6 +17,14 @@ import {
 import type { Page, BrowserContext } from 'playwright';
 import { navigateWithCloudflare, rateLimit, getBrowserContext, closeBrowser, sleep } from './browser';
 import type { BrowserName } from './browser';
+import { fetchJson } from './transport';
+import {
+  highscoreResponseSchema,
+  highscorePlayerSchema,
+  worldsResponseSchema,
+  type ApiHighscoreResponse,
+} from './schemas';
+import { validatePayload, validateRecords, PayloadValidationError } from './validation';
 
 /**
  * Map our category names to the API `category` query parameter value.
@@ -132,14 +140,11 @@ let worldIdMap: Map<string, number> | null = null;
 async function fetchWorldIds(page: Page): Promise<Map<string, number>> {
   if (worldIdMap) return worldIdMap;
 
-  const data = await page.evaluate(async () => {
-    const res = await fetch('/api/worlds');
-    if (!res.ok) throw new Error(`Worlds API ${res.status}`);
-    return res.json();
-  });
+  const raw = await fetchJson<unknown>(page, RUBINOT_URLS.api.worlds, 'Worlds');
+  const data = validatePayload('worlds', worldsResponseSchema, raw);
 
   worldIdMap = new Map<string, number>();
-  for (const w of data.worlds ?? data) {
+  for (const w of Array.isArray(data) ? data : data.worlds) {
     worldIdMap.set(w.name, w.id);
   }
   console.log(`  Loaded ${worldIdMap.size} worlds from API`);
@@ -148,22 +153,6 @@ async function fetchWorldIds(page: Page): Promise<Map<string, number>> {
 
 // ── API fetcher ─────────────────────────────────────────────────────────
 
-interface ApiHighscorePlayer {
-  rank: number;
-  id: number;
-  name: string;
-  level: number;
-  vocation: number | string;
-  world_id: number;
-  value: number;
-}
-
-interface ApiHighscoreResponse {
-  players: ApiHighscorePlayer[];
-  totalCount: number;
-  cachedAt: string;
-}
-
 async function fetchHighscoresFromApi(
   page: Page,
   worldId: number | '',
@@ -172,11 +161,9 @@ async function fetchHighscoresFromApi(
 ): Promise<ApiHighscoreResponse> {
   const url = `/api/highscores?world=${worldId}&category=${categoryParam}&vocation=${vocationParam}&page=1`;
 
-  return page.evaluate(async (apiUrl: string) => {
-    const res = await fetch(apiUrl);
-    if (!res.ok) throw new Error(`Highscores API ${res.status}: ${res.statusText}`);
-    return res.json();
-  }, url);
+  const raw = await fetchJson<unknown>(page, url, 'Highscores');
+  const envelope = validatePayload('highscores', highscoreResponseSchema, raw);
+  return { ...envelope, players: validateRecords('highscores-player', highscorePlayerSchema, envelope.players) };
 }
 
 // ── HTML fallback scraper (for categories not in API) ───────────────────
@@ -366,36 +353,32 @@ export async function scrapeHighscores(
     const categoryParam = API_CATEGORY_PARAM[category] || 'experience';
     const vocationParam = PROFESSION_TO_API_VOCATION[profession] || '0';
 
+    // Throttling and retries happen in the shared scheduler (see scheduler.ts)
     let data: ApiHighscoreResponse | null = null;
-    for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      await rateLimit('fast');
+      data = await fetchHighscoresFromApi(page, worldId, categoryParam, vocationParam);
+    } catch (err) {
+      console.error(`  API call failed: ${(err as Error).message?.substring(0, 80)}`);
+      // A malformed payload is already quarantined — the page itself is fine
+      if (err instanceof PayloadValidationError) {
+        opts.onComboDone?.(comboKey(world, profession, category));
+        continue;
+      }
+      // Retries are exhausted — the page itself may be dead, so relaunch before the next combo
       try {
-        await rateLimit('fast');
-        data = await fetchHighscoresFromApi(page, worldId, categoryParam, vocationParam);
-        break;
-      } catch (err) {
-        console.error(`  API call failed (attempt ${attempt}/3): ${(err as Error).message?.substring(0, 80)}`);
-        if (attempt < 3) {
-          const cooldown = attempt === 1 ? 5 : 15;
-          await sleep(cooldown * 1000);
-          try {
-            await navigateWithCloudflare(page, `${RUBINOT_URLS.base}/highscores`, 60_000);
-            await sleep(2000);
-          } catch {
-            console.error('  Re-navigation failed, trying to get new page...');
-            try { await closeBrowser(browserName); } catch {}
-            const ctx = await getBrowserContext({ headless, browser: browserName });
-            page = ctx.pages()[0] || await ctx.newPage();
-            await navigateWithCloudflare(page, `${RUBINOT_URLS.base}/highscores`, 60_000);
-            await sleep(2000);
-            worldIdMap = null;
-            await fetchWorldIds(page);
-          }
-        }
+        await closeBrowser(browserName);
+        const ctx = await getBrowserContext({ headless, browser: browserName });
+        page = ctx.pages()[0] || await ctx.newPage();
+        await navigateWithCloudflare(page, `${RUBINOT_URLS.base}/highscores`, 60_000);
+        await sleep(2000);
+      } catch (relaunchErr) {
+        console.error(`  Browser relaunch failed: ${(relaunchErr as Error).message?.substring(0, 80)}`);
       }
     }
 
     if (!data || !data.players) {
-      console.error(`  All attempts failed — skipping ${world} / ${category} / ${profession}`);
+      console.error(`  No data — skipping ${world} / ${category} / ${profession}`);
       opts.onComboDone?.(comboKey(world, profession, category));
       continue;
     }
@@ -0,0 +1,466 @@
+/**
+ * Character identity resolution.
+ *
+ * A name + world is not a stable key: names are freed and taken by new
+ * characters, characters move worlds, and characters get renamed. After a
+ * day is materialized into character_snapshots, each snapshot is linked to a
+ * character_identities row:
+ *   1. it continues the identity of the previous snapshot under the same
+ *      name + world, unless level/exp/vocation break continuity (name reuse);
+ *   2. otherwise it continues an identity seen under the same name on another
+ *      world recently, or around a matching transfers row (world transfer);
+ *   3. otherwise it continues the only identity that vanished from the same
+ *      world in the last few days with matching exp (rename);
+ *   4. otherwise it starts a new identity.
+ * Transfers, auctions and guild memberships are then linked through the
+ * identity's aliases.
+ */
+import type { PrismaClient } from '@prisma/client';
+import { updateGains } from './snapshots';
+
+/** How long a character may be missing from highscores around a world transfer */
+const MOVE_WINDOW_DAYS = 7;
+/** How long a renamed character may be missing from highscores */
+const RENAME_WINDOW_DAYS = 3;
+/** Exp ratio a renamed character may show against its old name — a few days of hunting */
+const RENAME_MIN_EXP_RATIO = 0.98;
+const RENAME_MAX_EXP_RATIO = 1.05;
+/** How far outside an alias's seen range a transfer, auction or guild stint may still be linked to it */
+const LINK_WINDOW_DAYS = 30;
+
+const DAY_MS = 86_400_000;
+
+// ── Continuity ─────────────────────────────────────────────────────────
+
+export interface ContinuityPoint {
+  vocation: string | null;
+  level: number | null;
+  experience: number | null;
+}
+
+/** Vocation family, so promotions don't count as a vocation change */
+export function baseVocation(voc: string): string {
+  const v = voc.toLowerCase();
+  if (v.includes('knight')) return 'knight';
+  if (v.includes('paladin')) return 'paladin';
+  if (v.includes('sorcerer')) return 'sorcerer';
+  if (v.includes('druid')) return 'druid';
+  if (v.includes('monk')) return 'monk';
+  return v;
+}
+
+/**
+ * Whether `cur` can be the same character as `prev`, an earlier snapshot.
+ * Breaks are:
+ *   - EXP drops >30% (death penalties stay well below that)
+ *   - vocation family change with EXP moving outside −10%/+15% — RubinOT
+ *     allows vocation changes, but they keep EXP nearly identical
+ *   - a level jump >50 above level 500 (max legit daily gain is ~31)
+ */
+export function isContinuation(prev: ContinuityPoint, cur: ContinuityPoint): boolean {
+  const ratio = prev.experience && cur.experience != null ? cur.experience / prev.experience : null;
+
+  if (ratio !== null && ratio < 0.7) return false;
+
+  if (prev.vocation && cur.vocation && baseVocation(prev.vocation) !== baseVocation(cur.vocation)) {
+    if (ratio !== null && (ratio < 0.9 || ratio > 1.15)) return false;
+  }
+
+  if (prev.level && cur.level && prev.level >= 500 && cur.level - prev.level > 50) return false;
+
+  return true;
+}
+
+/** Tighter match for a character reappearing under a new name */
+function isRenameOf(prev: ContinuityPoint, cur: ContinuityPoint): boolean {
+  if (!prev.experience || cur.experience == null) return false;
+  if (!prev.vocation || !cur.vocation || baseVocation(prev.vocation) !== baseVocation(cur.vocation)) return false;
+  const ratio = cur.experience / prev.experience;
+  return ratio >= RENAME_MIN_EXP_RATIO && ratio <= RENAME_MAX_EXP_RATIO;
+}
+
+// ── Resolution ─────────────────────────────────────────────────────────
+
+interface PendingSnapshot extends ContinuityPoint {
+  id: number;
+  name: string;
+  world: string;
+  prevIdentityId: number | null;
+  prev: ContinuityPoint | null;
+}
+
+interface Candidate extends ContinuityPoint {
+  identityId: number;
+  name: string;
+  world: string;
+  lastSeen: Date;
+}
+
+export interface ResolveResult {
+  continued: number;
+  moved: number;
+  renamed: number;
+  created: number;
+}
+
+const toNumber = (v: bigint | number | null): number | null => (v == null ? null : Number(v));
+
+async function loadPending(prisma: PrismaClient, date: string): Promise<PendingSnapshot[]> {
+  const rows = await prisma.$queryRawUnsafe<{
+    id: number;
+    name: string;
+    world: string;
+    vocation: string | null;
+    level: number | null;
+    experience: bigint | null;
+    prev_identity_id: number | null;
+    prev_vocation: string | null;
+    prev_level: number | null;
+    prev_experience: bigint | null;
+  }[]>(`
+    SELECT s.id, c.name, w.name AS world, s.vocation, s.level, s.experience,
+      p.identity_id AS prev_identity_id, p.vocation AS prev_vocation,
+      p.level AS prev_level, p.experience AS prev_experience
+    FROM character_snapshots s
+    JOIN characters c ON c.id = s.character_id
+    JOIN worlds w ON w.id = c.world_id
+    LEFT JOIN LATERAL (
+      SELECT identity_id, vocation, level, experience FROM character_snapshots p
+      WHERE p.character_id = s.character_id AND p.captured_date < s.captured_date AND p.identity_id IS NOT NULL
+      ORDER BY p.captured_date DESC LIMIT 1
+    ) p ON true
+    WHERE s.captured_date = $1::date AND s.identity_id IS NULL
+  `, date);
+
+  return rows.map((r) => ({
+    id: r.id,
+    name: r.name,
+    world: r.world,
+    vocation: r.vocation,
+    level: r.level,
+    experience: toNumber(r.experience),
+    prevIdentityId: r.prev_identity_id,
+    prev: r.prev_identity_id != null
+      ? { vocation: r.prev_vocation, level: r.prev_level, experience: toNumber(r.prev_experience) }
+      : null,
+  }));
+}
+
+/** Identities with their latest snapshot before `date`, filtered by `where` on alias a / identity i */
+async function loadCandidates(prisma: PrismaClient, date: string, where: string, param: string[]): Promise<Candidate[]> {
+  const rows = await prisma.$queryRawUnsafe<{
+    identity_id: number;
+    name: string;
+    world: string;
+    last_seen: Date;
+    vocation: string | null;
+    level: number | null;
+    experience: bigint | null;
+  }[]>(`
+    SELECT DISTINCT ON (a.identity_id, a.world)
+      a.identity_id, a.name, a.world, a.last_seen, s.vocation, s.level, s.experience
+    FROM character_aliases a
+    JOIN character_identities i ON i.id = a.identity_id
+    JOIN LATERAL (
+      SELECT vocation, level, experience FROM character_snapshots
+      WHERE identity_id = a.identity_id AND captured_date < $1::date
+      ORDER BY captured_date DESC LIMIT 1
+    ) s ON true
+    WHERE ${where}
+    ORDER BY a.identity_id, a.world, a.last_seen DESC
+  `, date, param);
+
+  return rows.map((r) => ({
+    identityId: r.identity_id,
+    name: r.name,
+    world: r.world,
+    lastSeen: r.last_seen,
+    vocation: r.vocation,
+    level: r.level,
+    experience: toNumber(r.experience),
+  }));
+}
+
+/**
+ * Link every unresolved snapshot captured on `date` (YYYY-MM-DD) to an
+ * identity, then refresh gains across identities and link transfers and
+ * auctions. Days must be resolved in order for continuity to hold.
+ */
+export async function resolveIdentities(prisma: PrismaClient, date: string): Promise<ResolveResult> {
+  const day = new Date(`${date}T00:00:00.000Z`);
+  const daysBefore = (d: Date) => Math.round((day.getTime() - d.getTime()) / DAY_MS);
+
+  const pending = await loadPending(prisma, date);
+  const assigned = new Map<number, number>(); // snapshot id → identity id
+  const claimed = new Set<number>();
+  const result: ResolveResult = { continued: 0, moved: 0, renamed: 0, created: 0 };
+
+  // 1. Same name + world, continuous
+  for (const s of pending) {
+    if (s.prevIdentityId != null && s.prev && isContinuation(s.prev, s)) {
+      assigned.set(s.id, s.prevIdentityId);
+      claimed.add(s.prevIdentityId);
+      result.continued++;
+    }
+  }
+
+  // 2. First sighting on this world of a name known elsewhere
+  const newHere = pending.filter((s) => !assigned.has(s.id) && s.prevIdentityId == null);
+  if (newHere.length > 0) {
+    const names = [...new Set(newHere.map((s) => s.name))];
+    const candidates = await loadCandidates(prisma, date, 'a.name = ANY($2::text[]) AND a.last_seen <= $1::date', names);
+    const transfers = await prisma.transfer.findMany({
+      where: { playerName: { in: names }, transferDate: { not: null, lte: day } },
+      select: { playerName: true, fromWorld: true, toWorld: true, transferDate: true },
+    });
+
+    for (const s of newHere) {
+      const match = candidates
+        .filter((c) => c.name === s.name && c.world !== s.world && isContinuation(c, s))
+        .filter((c) =>
+          daysBefore(c.lastSeen) <= MOVE_WINDOW_DAYS ||
+          transfers.some((t) =>
+            t.playerName === s.name && t.fromWorld === c.world && t.toWorld === s.world &&
+            t.transferDate! >= c.lastSeen,
+          ),
+        )
+        .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime())[0];
+      if (match) {
+        assigned.set(s.id, match.identityId);
+        claimed.add(match.identityId);
+        result.moved++;
+      }
+    }
+  }
+
+  // 3. A name that replaced one that just vanished from the same world
+  const unmatched = pending.filter((s) => !assigned.has(s.id) && s.experience != null);
+  if (unmatched.length > 0) {
+    const worlds = [...new Set(unmatched.map((s) => s.world))];
+    const vanished = (await loadCandidates(
+      prisma,
+      date,
+      `a.world = ANY($2::text[]) AND i.world = a.world AND i.last_seen = a.last_seen
+        AND i.last_seen < $1::date AND i.last_seen >= $1::date - ${RENAME_WINDOW_DAYS}`,
+      worlds,
+    )).filter((c) => !claimed.has(c.identityId));
+
+    // Only accept one-to-one matches; anything ambiguous becomes a new identity
+    const matches = new Map<number, Candidate[]>();
+    for (const s of unmatched) {
+      matches.set(s.id, vanished.filter((c) => c.world === s.world && c.name !== s.name && isRenameOf(c, s)));
+    }
+    for (const s of unmatched) {
+      const found = matches.get(s.id)!;
+      if (found.length !== 1) continue;
+      const identityId = found[0].identityId;
+      const rivals = unmatched.filter((o) => matches.get(o.id)!.some((c) => c.identityId === identityId));
+      if (rivals.length !== 1) continue;
+      assigned.set(s.id, identityId);
+      claimed.add(identityId);
+      result.renamed++;
+    }
+  }
+
+  // 4. Everything else starts a new identity — snapshots on a day are unique per name + world
+  const fresh = pending.filter((s) => !assigned.has(s.id));
+  if (fresh.length > 0) {
+    const created = await prisma.$queryRawUnsafe<{ id: number; name: string; world: string }[]>(`
+      INSERT INTO character_identities (name, world, vocation, level, first_seen, last_seen, updated_at)
+      SELECT v.name, v.world, v.vocation, v.level, $1::date, $1::date, NOW()
+      FROM unnest($2::text[], $3::text[], $4::text[], $5::int[]) AS v(name, world, vocation, level)
+      RETURNING id, name, world
+    `, date, fresh.map((s) => s.name), fresh.map((s) => s.world), fresh.map((s) => s.vocation), fresh.map((s) => s.level));
+    const ids = new Map(created.map((c) => [`${c.name}\u0000${c.world}`, c.id]));
+    for (const s of fresh) assigned.set(s.id, ids.get(`${s.name}\u0000${s.world}`)!);
+    result.created = created.length;
+  }
+
+  if (pending.length > 0) {
+    const snapshotIds = pending.map((s) => s.id);
+    const identityIds = pending.map((s) => assigned.get(s.id)!);
+
+    await prisma.$executeRawUnsafe(`
+      UPDATE character_snapshots s SET identity_id = v.identity_id
+      FROM unnest($1::int[], $2::int[]) AS v(id, identity_id)
+      WHERE s.id = v.id
+    `, snapshotIds, identityIds);
+
+    await prisma.$executeRawUnsafe(`
+      INSERT INTO character_aliases (identity_id, name, world, first_seen, last_seen)
+      SELECT DISTINCT v.identity_id, v.name, v.world, $1::date, $1::date
+      FROM unnest($2::int[], $3::text[], $4::text[]) AS v(identity_id, name, world)
+      ON CONFLICT (identity_id, name, world) DO UPDATE SET
+        first_seen = LEAST(character_aliases.first_seen, EXCLUDED.first_seen),
+        last_seen = GREATEST(character_aliases.last_seen, EXCLUDED.last_seen)
+    `, date, identityIds, pending.map((s) => s.name), pending.map((s) => s.world));
+
+    // Latest name/world/vocation only move forward when backfilling older days
+    await prisma.$executeRawUnsafe(`
+      UPDATE character_identities i SET
+        name = CASE WHEN $1::date >= i.last_seen THEN v.name ELSE i.name END,
+        world = CASE WHEN $1::date >= i.last_seen THEN v.world ELSE i.world END,
+        vocation = CASE WHEN $1::date >= i.last_seen THEN v.vocation ELSE i.vocation END,
+        level = CASE WHEN $1::date >= i.last_seen THEN v.level ELSE i.level END,
+        first_seen = LEAST(i.first_seen, $1::date),
+        last_seen = GREATEST(i.last_seen, $1::date),
+        updated_at = NOW()
+      FROM unnest($2::int[], $3::text[], $4::text[], $5::text[], $6::int[]) AS v(id, name, world, vocation, level)
+      WHERE i.id = v.id
+    `, date, identityIds, pending.map((s) => s.name), pending.map((s) => s.world),
+      pending.map((s) => s.vocation), pending.map((s) => s.level));
+  }
+
+  // Gains were computed per name + world; redo them along identities
+  await updateGains(prisma, date, 'identity_id');
+  await linkTransfers(prisma);
+  await linkAuctions(prisma);
+  await linkGuildMemberships(prisma);
+
+  return result;
+}
+
+/** Link unlinked transfers to the identity seen under that name on either world around the transfer date */
+export async function linkTransfers(prisma: PrismaClient): Promise<number> {
+  return prisma.$executeRawUnsafe(`
+    UPDATE transfers t SET identity_id = m.identity_id
+    FROM (
+      SELECT DISTINCT ON (t2.id) t2.id, a.identity_id
+      FROM transfers t2
+      JOIN character_aliases a ON a.name = t2.player_name
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN a.world = t2.to_world AND a.last_seen >= t2.transfer_date::date
+            THEN GREATEST(0, a.first_seen - t2.transfer_date::date)
+          WHEN a.world = t2.from_world AND a.first_seen <= t2.transfer_date::date
+            THEN GREATEST(0, t2.transfer_date::date - a.last_seen)
+        END AS gap
+      ) g
+      WHERE t2.identity_id IS NULL AND t2.transfer_date IS NOT NULL AND g.gap <= $1
+      ORDER BY t2.id, g.gap
+    ) m
+    WHERE t.id = m.id
+  `, LINK_WINDOW_DAYS);
+}
+
+/** Link unlinked auctions to the identity seen under that name + world around the auction end */
+export async function linkAuctions(prisma: PrismaClient): Promise<number> {
+  return prisma.$executeRawUnsafe(`
+    UPDATE auctions au SET identity_id = m.identity_id
+    FROM (
+      SELECT DISTINCT ON (au2.id) au2.id, a.identity_id
+      FROM auctions au2
+      JOIN character_aliases a ON a.name = au2.character_name AND a.world = au2.world
+      CROSS JOIN LATERAL (SELECT LEFT(au2.auction_end, 10)::date AS ended) e
+      WHERE au2.identity_id IS NULL
+        AND au2.auction_end ~ '^\\d{4}-\\d{2}-\\d{2}'
+        AND e.ended BETWEEN a.first_seen - $1::int AND a.last_seen + $1::int
+      ORDER BY au2.id, GREATEST(a.first_seen - e.ended, e.ended - a.last_seen, 0)
+    ) m
+    WHERE au.id = m.id
+  `, LINK_WINDOW_DAYS);
+}
+
+/** Link unlinked guild stints to the identity seen under that name on the guild's world during the stint */
+export async function linkGuildMemberships(prisma: PrismaClient): Promise<number> {
+  return prisma.$executeRawUnsafe(`
+    UPDATE guild_memberships gm SET identity_id = m.identity_id
+    FROM (
+      SELECT DISTINCT ON (gm2.id) gm2.id, a.identity_id
+      FROM guild_memberships gm2
+      JOIN guilds g ON g.id = gm2.guild_id
+      JOIN character_aliases a ON a.name = gm2.character_name AND a.world = g.world
+      WHERE gm2.identity_id IS NULL
+        AND a.first_seen <= COALESCE(gm2.left_at, gm2.last_seen_at)::date + $1::int
+        AND a.last_seen >= gm2.joined_at::date - $1::int
+      ORDER BY gm2.id, a.last_seen DESC
+    ) m
+    WHERE gm.id = m.id
+  `, LINK_WINDOW_DAYS);
+}
+
+// ── Lookup ─────────────────────────────────────────────────────────────
+
+export interface ResolvedIdentity {
+  id: number;
+  name: string;
+  world: string;
+  vocation: string | null;
+  level: number | null;
+  firstSeen: Date;
+  lastSeen: Date;
+  aliases: { name: string; world: string; firstSeen: Date; lastSeen: Date }[];
+}
+
+/**
+ * Find an identity by id, or by a name it has used. A reused name resolves
+ * to whoever held it most recently.
+ */
+export async function findIdentity(
+  prisma: PrismaClient,
+  by: { identityId?: number | null; name?: string | null },
+): Promise<ResolvedIdentity | null> {
+  let id = by.identityId ?? null;
+  if (id == null && by.name) {
+    const alias = await prisma.characterAlias.findFirst({
+      where: { name: { equals: by.name, mode: 'insensitive' } },
+      orderBy: { lastSeen: 'desc' },
+      select: { identityId: true },
+    });
+    id = alias?.identityId ?? null;
+  }
+  if (id == null) return null;
+
+  return prisma.characterIdentity.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      name: true,
+      world: true,
+      vocation: true,
+      level: true,
+      firstSeen: true,
+      lastSeen: true,
+      aliases: {
+        orderBy: { firstSeen: 'asc' },
+        select: { name: true, world: true, firstSeen: true, lastSeen: true },
+      },
+    },
+  });
+}
+
+export interface NameRange {
+  name: string;
+  /** Inclusive; null when nobody held the name before */
+  from: Date | null;
+  /** Exclusive; null when nobody took the name after */
+  until: Date | null;
+}
+
+/**
+ * The names an identity used, each bounded by when other identities held the
+ * same name, for matching tables keyed only by name (deaths, bans). The day
+ * after one holder was last seen is where the next holder's range starts.
+ */
+export async function identityNameRanges(prisma: PrismaClient, identity: ResolvedIdentity): Promise<NameRange[]> {
+  const names = [...new Set(identity.aliases.map((a) => a.name))];
+  const others = await prisma.characterAlias.findMany({
+    where: { name: { in: names }, identityId: { not: identity.id } },
+    select: { name: true, firstSeen: true, lastSeen: true },
+  });
+
+  return names.map((name) => {
+    const own = identity.aliases.filter((a) => a.name === name);
+    const firstSeen = Math.min(...own.map((a) => a.firstSeen.getTime()));
+    const lastSeen = Math.max(...own.map((a) => a.lastSeen.getTime()));
+    const rivals = others.filter((o) => o.name === name);
+
+    const before = rivals.filter((o) => o.lastSeen.getTime() < firstSeen).map((o) => o.lastSeen.getTime());
+    const hasAfter = rivals.some((o) => o.firstSeen.getTime() > lastSeen);
+    return {
+      name,
+      from: before.length > 0 ? new Date(Math.max(...before) + DAY_MS) : null,
+      until: hasAfter ? new Date(lastSeen + DAY_MS) : null,
+    };
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Scenarios for the local mock RubinOT server.
+ *
+ * A scenario sets the size of the generated world and what happens on each
+ * tick — auctions ending, bids rising, bans appearing, characters renaming
+ * or switching guilds.
+ * Ticks run on a timer (`tickSeconds`) or on demand via POST /__mock/tick.
+ */
+
+export interface MockTickEvents {
+  /** Active auctions that end (sold if bid on, expired otherwise) */
+  endAuctions: number;
+  /** Fresh auctions put up for sale */
+  newAuctions: number;
+  /** Active auctions that receive a higher bid */
+  bidRaises: number;
+  /** Active auctions whose end time is pushed back (late-bid extension) */
+  extendAuctions: number;
+  /** New bans issued */
+  newBans: number;
+  /** Active bans lifted early */
+  liftBans: number;
+  /** Characters that change name */
+  renames: number;
+  /** Characters that move to another world */
+  transfers: number;
+  /** Deaths (PvP and PvE) */
+  deaths: number;
+  /** Share of deaths caused by a player */
+  pvpShare: number;
+  /** Characters that gain experience and skills */
+  progressing: number;
+  /** Characters that join or leave a guild */
+  guildChanges: number;
+}
+
+export interface MockScenario {
+  name: string;
+  description: string;
+  /** PRNG seed — the same seed always generates the same world */
+  seed: number;
+  /** Characters per world */
+  charactersPerWorld: number;
+  /** Active auctions at start */
+  activeAuctions: number;
+  /** Active bans at start */
+  activeBans: number;
+  /** Guilds per world */
+  guildsPerWorld: number;
+  /** Seconds between automatic ticks (0 = only on POST /__mock/tick) */
+  tickSeconds: number;
+  /** Simulated minutes that pass on every tick */
+  minutesPerTick: number;
+  events: MockTickEvents;
+}
+
+const QUIET_EVENTS: MockTickEvents = {
+  endAuctions: 0,
+  newAuctions: 0,
+  bidRaises: 0,
+  extendAuctions: 0,
+  newBans: 0,
+  liftBans: 0,
+  renames: 0,
+  transfers: 0,
+  deaths: 0,
+  pvpShare: 0.2,
+  progressing: 0,
+  guildChanges: 0,
+};
+
+const BASE_SCENARIO: Omit<MockScenario, 'name' | 'description'> = {
+  seed: 1,
+  charactersPerWorld: 120,
+  activeAuctions: 60,
+  activeBans: 40,
+  guildsPerWorld: 8,
+  tickSeconds: 0,
+  minutesPerTick: 60,
+  events: QUIET_EVENTS,
+};
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  static: {
+    ...BASE_SCENARIO,
+    name: 'static',
+    description: 'A fixed world — nothing changes between ticks',
+  },
+  steady: {
+    ...BASE_SCENARIO,
+    name: 'steady',
+    description: 'A little of everything on every tick',
+    events: {
+      ...QUIET_EVENTS,
+      endAuctions: 3,
+      newAuctions: 3,
+      bidRaises: 8,
+      extendAuctions: 1,
+      newBans: 2,
+      liftBans: 1,
+      renames: 1,
+      transfers: 1,
+      deaths: 15,
+      progressing: 200,
+      guildChanges: 3,
+    },
+  },
+  'auction-rush': {
+    ...BASE_SCENARIO,
+    name: 'auction-rush',
+    description: 'Bidding wars — many bids rising and auctions ending',
+    activeAuctions: 150,
+    minutesPerTick: 15,
+    events: { ...QUIET_EVENTS, endAuctions: 12, newAuctions: 8, bidRaises: 40, extendAuctions: 6 },
+  },
+  'ban-wave': {
+    ...BASE_SCENARIO,
+    name: 'ban-wave',
+    description: 'A ban wave — many new bans, some lifted',
+    events: { ...QUIET_EVENTS, newBans: 25, liftBans: 5, deaths: 5 },
+  },
+  renames: {
+    ...BASE_SCENARIO,
+    name: 'renames',
+    description: 'Characters renaming and transferring between worlds',
+    events: { ...QUIET_EVENTS, renames: 10, transfers: 8, progressing: 150 },
+  },
+  'death-spree': {
+    ...BASE_SCENARIO,
+    name: 'death-spree',
+    description: 'Lots of deaths, a third of them PvP',
+    events: { ...QUIET_EVENTS, deaths: 120, pvpShare: 0.35, progressing: 100 },
+  },
+};
+
+export type MockScenarioOverrides = Partial<Omit<MockScenario, 'events'>> & {
+  events?: Partial<MockTickEvents>;
+};
+
+/**
+ * Resolve a built-in scenario by name, with optional overrides
+ * (e.g. from a JSON file passed to the mock server CLI).
+ */
+export function resolveScenario(name: string, overrides: MockScenarioOverrides = {}): MockScenario {
+  const base = MOCK_SCENARIOS[name];
+  if (!base) {
+    throw new Error(`Unknown scenario "${name}". Available: ${Object.keys(MOCK_SCENARIOS).join(', ')}`);
+  }
+  return {
+    ...base,
+    ...overrides,
+    events: { ...base.events, ...overrides.events },
+  };
+}
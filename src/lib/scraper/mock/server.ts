@@ -0,0 +1,516 @@
+/**
+ * Local mock of the RubinOT website for offline scraper runs.
+ *
+ * Serves the JSON endpoints in RUBINOT_URLS.api (guild pages included) plus the /bans and /transfers
+ * HTML pages, all generated from an in-memory MockState. Point the scrapers at
+ * it with RUBINOT_BASE_URL=http://localhost:<port>.
+ *
+ * Control endpoints:
+ *   GET  /__mock/state  — scenario, simulated clock and entity counts
+ *   POST /__mock/tick   — advance one tick (?count=N for several)
+ *   POST /__mock/reset  — regenerate the world from the scenario seed
+ */
+import * as http from 'http';
+import { RUBINOT_URLS } from '../../utils/constants';
+import type { MockScenario } from './scenarios';
+import {
+  createMockState,
+  advanceMockState,
+  type MockState,
+  type MockAuction,
+  type MockCharacter,
+  type MockGuild,
+  type MockWorld,
+} from './state';
+
+const VOCATION_NAMES: Record<number, string> = {
+  2: 'Elite Knight',
+  4: 'Royal Paladin',
+  6: 'Master Sorcerer',
+  8: 'Elder Druid',
+  9: 'Monk',
+};
+
+/** Highscores `vocation` filter → bazaar vocation ids it matches */
+const HIGHSCORE_VOCATION_FILTER: Record<string, number[]> = {
+  '5': [1, 2],
+  '4': [3, 4],
+  '2': [5, 6],
+  '3': [7, 8],
+  '9': [9],
+};
+
+const AUCTION_STATE: Record<MockAuction['state'], { state: number; stateName: string }> = {
+  active: { state: 1, stateName: 'Active' },
+  sold: { state: 3, stateName: 'Sold' },
+  expired: { state: 2, stateName: 'Expired' },
+};
+
+// ── Helpers ────────────────────────────────────────────────────────────
+
+function worldOf(state: MockState, worldId: number): MockWorld {
+  return state.worlds.find((w) => w.id === worldId) ?? state.worlds[0];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+/** "2026-02-25 14:00" — the bans page format, parseable by `new Date()` */
+function formatBanDate(unix: number): string {
+  const d = new Date(unix * 1000);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** "25/02/2026 14:00:00" — the transfers page format */
+function formatTransferDate(unix: number): string {
+  const d = new Date(unix * 1000);
+  return `${pad(d.getDate())}/${pad(d.getMonth() + 1)}/${d.getFullYear()} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+function intParam(params: URLSearchParams, name: string, fallback: number): number {
+  const value = parseInt(params.get(name) ?? '', 10);
+  return Number.isNaN(value) || value < 1 ? fallback : value;
+}
+
+// ── JSON endpoints ─────────────────────────────────────────────────────
+
+function listAuction(state: MockState, auction: MockAuction) {
+  const c = auction.character;
+  return {
+    id: auction.id,
+    ...AUCTION_STATE[auction.state],
+    playerId: c.id,
+    owner: '',
+    startingValue: auction.startingValue,
+    currentValue: auction.currentValue,
+    auctionStart: auction.auctionStart,
+    auctionEnd: auction.auctionEnd,
+    name: c.name,
+    level: c.level,
+    vocation: c.vocation,
+    vocationName: VOCATION_NAMES[c.vocation],
+    sex: c.sex,
+    worldId: c.worldId,
+    worldName: worldOf(state, c.worldId).name,
+    lookType: c.lookType,
+    lookHead: 0,
+    lookBody: 0,
+    lookLegs: 0,
+    lookFeet: 0,
+    lookAddons: 0,
+    direction: 3,
+    charmPoints: c.charmPoints,
+    achievementPoints: c.achievementPoints,
+    magLevel: c.magLevel,
+    skills: {
+      club: c.skills.club,
+      sword: c.skills.sword,
+      axe: c.skills.axe,
+      dist: c.skills.dist,
+      shielding: c.skills.shielding,
+    },
+    highlightItems: [],
+    highlightAugments: [],
+    myBid: null,
+    isWinning: false,
+    isWatching: false,
+  };
+}
+
+function auctionDetail(state: MockState, auction: MockAuction) {
+  const c = auction.character;
+  const hp = 185 + c.level * (c.vocation === 2 ? 15 : c.vocation === 4 || c.vocation === 9 ? 10 : 5);
+  const mana = 90 + c.level * (c.vocation === 6 || c.vocation === 8 ? 30 : c.vocation === 4 ? 15 : 5);
+  const skills = Object.fromEntries(
+    Object.entries(c.skills).flatMap(([name, value]) => [[name, value], [`${name}Tries`, 0]]),
+  );
+
+  return {
+    auction: {
+      id: auction.id,
+      ...AUCTION_STATE[auction.state],
+      startingValue: auction.startingValue,
+      currentValue: auction.currentValue,
+      auctionStart: auction.auctionStart,
+      auctionEnd: auction.auctionEnd,
+    },
+    player: {
+      id: c.id,
+      name: c.name,
+      level: c.level,
+      vocation: c.vocation,
+      vocationName: VOCATION_NAMES[c.vocation],
+      sex: c.sex,
+      worldId: c.worldId,
+      worldName: worldOf(state, c.worldId).name,
+      lookType: c.lookType,
+    },
+    general: {
+      health: hp,
+      healthMax: hp,
+      mana,
+      manaMax: mana,
+      manaSpent: '0',
+      cap: 400 + c.level * 20,
+      stamina: 2520,
+      soul: 200,
+      experience: c.experience.toString(),
+      magLevel: c.magLevel,
+      skills,
+      mountsCount: 0,
+      outfitsCount: 0,
+      titlesCount: 0,
+      linkedTasks: 0,
+      createDate: c.createdAt,
+      balance: '0',
+      totalMoney: '0',
+      achievementPoints: c.achievementPoints,
+      charmPoints: c.charmPoints,
+      spentCharmPoints: Math.round(c.charmPoints * 0.8),
+      availableCharmPoints: c.charmPoints - Math.round(c.charmPoints * 0.8),
+      spentMinorEchoes: 0,
+      availableMinorEchoes: 0,
+      charmExpansion: false,
+      streakDays: 0,
+      huntingTaskPoints: 0,
+      thirdPrey: false,
+      thirdHunting: false,
+      preyWildcards: 0,
+      hirelingCount: 0,
+      hirelingJobs: 0,
+      hirelingOutfits: 0,
+      dust: 0,
+      dustMax: 100,
+      bossPoints: 0,
+      wheelPoints: 0,
+      maxWheelPoints: 0,
+      gpActive: false,
+      gpPoints: 0,
+    },
+    items: [],
+    itemsTotal: 0,
+    storeItems: [],
+    storeItemsTotal: 0,
+    outfits: [],
+    mounts: [],
+    familiars: [],
+    charms: [],
+    blessings: [],
+    titles: [],
+    gems: [],
+    bosstiaries: [],
+    bosstiariosTotal: 0,
+    weaponProficiency: [],
+    achievements: [],
+    highlightItems: [],
+    highlightAugments: [],
+    bountyTalismans: [],
+    bountyPoints: 0,
+    totalBountyPoints: 0,
+    bountyRerolls: 0,
+    auras: [],
+    battlepassSeasons: [],
+  };
+}
+
+function bazaarList(state: MockState, params: URLSearchParams) {
+  const page = intParam(params, 'page', 1);
+  const limit = intParam(params, 'limit', 25);
+  const desc = params.get('sortOrder') === 'desc';
+  const active = state.auctions
+    .filter((a) => a.state === 'active')
+    .sort((a, b) => (desc ? b.auctionEnd - a.auctionEnd : a.auctionEnd - b.auctionEnd));
+
+  return {
+    auctions: active.slice((page - 1) * limit, page * limit).map((a) => listAuction(state, a)),
+    pagination: {
+      page,
+      limit,
+      total: active.length,
+      totalPages: Math.max(1, Math.ceil(active.length / limit)),
+    },
+  };
+}
+
+const HIGHSCORE_VALUE: Record<string, (c: MockCharacter) => number> = {
+  experience: (c) => c.experience,
+  magic: (c) => c.magLevel,
+  fist: (c) => c.skills.fist,
+  club: (c) => c.skills.club,
+  sword: (c) => c.skills.sword,
+  axe: (c) => c.skills.axe,
+  distance: (c) => c.skills.dist,
+  shielding: (c) => c.skills.shielding,
+  fishing: (c) => c.skills.fishing,
+  charmtotalpoints: (c) => c.charmPoints,
+  bountytask: (c) => c.bountyPoints,
+};
+
+function highscores(state: MockState, params: URLSearchParams) {
+  const worldId = parseInt(params.get('world') ?? '', 10);
+  const valueOf = HIGHSCORE_VALUE[params.get('category') ?? 'experience'] ?? HIGHSCORE_VALUE.experience;
+  const vocations = HIGHSCORE_VOCATION_FILTER[params.get('vocation') ?? '0'];
+
+  const players = state.characters
+    .filter((c) => Number.isNaN(worldId) || c.worldId === worldId)
+    .filter((c) => !vocations || vocations.includes(c.vocation))
+    .sort((a, b) => valueOf(b) - valueOf(a) || b.level - a.level)
+    .map((c, i) => ({
+      rank: i + 1,
+      id: c.id,
+      name: c.name,
+      level: c.level,
+      vocation: c.vocation,
+      world_id: c.worldId,
+      value: valueOf(c),
+    }));
+
+  return { players, totalCount: players.length, cachedAt: new Date(state.now * 1000).toISOString() };
+}
+
+function deaths(state: MockState, params: URLSearchParams) {
+  const page = intParam(params, 'page', 1);
+  const perPage = 50;
+  const rows = state.deaths.slice((page - 1) * perPage, page * perPage).map((d) => ({
+    time: d.time.toString(),
+    level: d.level,
+    killed_by: d.killedBy,
+    is_player: d.isPlayer ? 1 : 0,
+    mostdamage_by: d.mostDamageBy,
+    mostdamage_is_player: d.mostDamageIsPlayer ? 1 : 0,
+    victim: d.victim,
+    worldName: d.worldName,
+  }));
+
+  return {
+    deaths: rows,
+    pagination: {
+      currentPage: page,
+      totalPages: Math.max(1, Math.ceil(state.deaths.length / perPage)),
+      totalCount: state.deaths.length,
+      itemsPerPage: perPage,
+    },
+  };
+}
+
+function guildList(state: MockState, params: URLSearchParams) {
+  const world = params.get('world');
+  const page = intParam(params, 'page', 1);
+  const perPage = 20;
+  const guilds = state.guilds.filter((g) => !world || worldOf(state, g.worldId).name === world);
+
+  return {
+    guilds: guilds.slice((page - 1) * perPage, page * perPage).map((g) => ({
+      name: g.name,
+      worldName: worldOf(state, g.worldId).name,
+      membersCount: g.members.length,
+    })),
+    pagination: { currentPage: page, totalPages: Math.max(1, Math.ceil(guilds.length / perPage)) },
+  };
+}
+
+function guildDetail(state: MockState, guild: MockGuild) {
+  return {
+    guild: {
+      name: guild.name,
+      worldName: worldOf(state, guild.worldId).name,
+      description: null,
+      creationDate: guild.createdAt,
+      members: guild.members.flatMap((m) => {
+        const c = state.characters.find((ch) => ch.id === m.characterId);
+        return c
+          ? [{ name: c.name, rank: m.rank, level: c.level, vocation: VOCATION_NAMES[c.vocation], joinDate: m.joinedAt }]
+          : [];
+      }),
+    },
+  };
+}
+
+function boosted(state: MockState) {
+  return {
+    boss: { id: 1, name: state.boosted.boss, looktype: 201 },
+    monster: { id: 2, name: state.boosted.creature, looktype: 34 },
+  };
+}
+
+// ── HTML pages ─────────────────────────────────────────────────────────
+
+function htmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body>${body}</body></html>`;
+}
+
+function bansPage(state: MockState, params: URLSearchParams): string {
+  const selected = params.get('world') ?? 'all';
+  const active = state.bans.filter((b) => b.liftedAt == null);
+  const visible = active
+    .filter((b) => selected === 'all' || worldOf(state, b.worldId).name === selected)
+    .sort((a, b) => b.bannedAt - a.bannedAt)
+    .slice(0, 50);
+
+  const options = [{ value: 'all', name: 'Todos' }, ...state.worlds.map((w) => ({ value: w.name, name: w.name }))]
+    .map((o) => `<option value="${o.value}"${o.value === selected ? ' selected' : ''}>${escapeHtml(o.name)}</option>`)
+    .join('');
+  const rows = visible
+    .map((b) => `<tr><td>${escapeHtml(b.playerName)}</td><td>${escapeHtml(b.reason)}</td><td>${formatBanDate(b.bannedAt)}</td>`
+      + `<td>${b.expiresAt == null ? 'Permanente' : formatBanDate(b.expiresAt)}</td></tr>`)
+    .join('');
+
+  return htmlPage('Bans - RubinOT', `
+<h1>Bans</h1>
+<select onchange="location.search='?world='+this.value">${options}</select>
+<p>Total de bans activos: ${active.length}</p>
+<table><thead><tr><th>Jugador</th><th>Motivo</th><th>Fecha</th><th>Expira</th></tr></thead>
+<tbody>${rows}</tbody></table>`);
+}
+
+/** The transfers page only paginates this far back; older rows need the `to` filter */
+const TRANSFER_PAGE_LIMIT = 5;
+
+function transfersPage(state: MockState, params: URLSearchParams): string {
+  const perPage = 50;
+  const to = params.get('to');
+  // `to` is an inclusive YYYY-MM-DD bound
+  const matching = state.transfers.filter((t) => !to || formatBanDate(t.transferredAt).slice(0, 10) <= to);
+  const totalPages = Math.min(TRANSFER_PAGE_LIMIT, Math.max(1, Math.ceil(matching.length / perPage)));
+  const page = Math.min(intParam(params, 'page', 1), totalPages);
+
+  const rows = matching
+    .slice((page - 1) * perPage, page * perPage)
+    .map((t) => `<tr><td>${formatTransferDate(t.transferredAt)}</td><td>${escapeHtml(t.playerName)}</td><td>${t.level}</td>`
+      + `<td>${escapeHtml(t.fromWorld)}</td><td>&rarr;</td><td>${escapeHtml(t.toWorld)}</td></tr>`)
+    .join('');
+  const links = Array.from({ length: totalPages }, (_, i) => i + 1)
+    .map((n) => `<a href="?page=${n}${to ? `&to=${to}` : ''}">${n}</a>`)
+    .join(' ');
+
+  return htmlPage('Transfers - RubinOT', `
+<h1>Transfers</h1>
+<form><input type="date" name="to" value="${to ?? ''}"></form>
+<table><thead><tr><th>Fecha</th><th>Jugador</th><th>Nivel</th><th>De</th><th></th><th>A</th></tr></thead>
+<tbody>${rows}</tbody></table>
+<nav>${links}</nav>`);
+}
+
+// ── Server ─────────────────────────────────────────────────────────────
+
+export interface MockServer {
+  server: http.Server;
+  /** Current state — replaced on reset */
+  state(): MockState;
+  tick(count?: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function summarize(state: MockState) {
+  return {
+    scenario: state.scenario.name,
+    tick: state.tick,
+    now: new Date(state.now * 1000).toISOString(),
+    characters: state.characters.length,
+    auctions: {
+      active: state.auctions.filter((a) => a.state === 'active').length,
+      sold: state.auctions.filter((a) => a.state === 'sold').length,
+      expired: state.auctions.filter((a) => a.state === 'expired').length,
+    },
+    bans: { active: state.bans.filter((b) => b.liftedAt == null).length, total: state.bans.length },
+    transfers: state.transfers.length,
+    deaths: state.deaths.length,
+    guilds: { count: state.guilds.length, members: state.guilds.reduce((n, g) => n + g.members.length, 0) },
+  };
+}
+
+/**
+ * Start the mock server. Resolves once it is listening.
+ * Ticks automatically every `scenario.tickSeconds` when that is above zero.
+ */
+export async function startMockServer(scenario: MockScenario, port: number): Promise<MockServer> {
+  let state = createMockState(scenario);
+
+  const tick = (count = 1) => {
+    for (let i = 0; i < count; i++) advanceMockState(state);
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+    const params = url.searchParams;
+
+    const json = (status: number, data: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+    const html = (body: string) => {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(body);
+    };
+
+    if (path.startsWith('/__mock/')) {
+      if (path === '/__mock/tick' && req.method === 'POST') tick(intParam(params, 'count', 1));
+      else if (path === '/__mock/reset' && req.method === 'POST') state = createMockState(scenario);
+      else if (path !== '/__mock/state') return json(404, { error: 'Not found' });
+      return json(200, summarize(state));
+    }
+
+    const detailMatch = path.match(new RegExp(`^${RUBINOT_URLS.api.bazaarDetail}/(\\d+)$`));
+    if (detailMatch) {
+      const auction = state.auctions.find((a) => a.id === parseInt(detailMatch[1], 10));
+      return auction ? json(200, auctionDetail(state, auction)) : json(404, { error: 'Auction not found' });
+    }
+
+    const guildMatch = path.match(new RegExp(`^${RUBINOT_URLS.api.guilds}/(.+)$`));
+    if (guildMatch) {
+      const name = decodeURIComponent(guildMatch[1]);
+      const guild = state.guilds.find((g) => g.name === name);
+      return guild ? json(200, guildDetail(state, guild)) : json(404, { error: 'Guild not found' });
+    }
+
+    switch (path) {
+      case RUBINOT_URLS.api.guilds:
+        return json(200, guildList(state, params));
+      case RUBINOT_URLS.api.bazaar:
+        return json(200, bazaarList(state, params));
+      case RUBINOT_URLS.api.highscores:
+        return json(200, highscores(state, params));
+      case RUBINOT_URLS.api.worlds:
+        return json(200, { worlds: state.worlds });
+      case RUBINOT_URLS.api.boosted:
+        return json(200, boosted(state));
+      case RUBINOT_URLS.api.deaths:
+        return json(200, deaths(state, params));
+      case RUBINOT_URLS.bans:
+        return html(bansPage(state, params));
+      case RUBINOT_URLS.transfers:
+        return html(transfersPage(state, params));
+    }
+
+    if (path.startsWith('/api/')) return json(404, { error: 'Not found' });
+    // Any other page (/, /highscores, /bazaar) just needs a title for navigateWithCloudflare
+    return html(htmlPage('RubinOT', '<h1>RubinOT (mock)</h1>'));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+
+  const timer = scenario.tickSeconds > 0 ? setInterval(() => tick(), scenario.tickSeconds * 1000) : null;
+
+  return {
+    server,
+    state: () => state,
+    tick,
+    reset: () => {
+      state = createMockState(scenario);
+    },
+    close: () => {
+      if (timer) clearInterval(timer);
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,470 @@
+/**
+ * In-memory world state for the local mock RubinOT server.
+ * Generated deterministically from a scenario seed, then mutated tick by tick.
+ */
+import { WORLDS } from '../../utils/constants';
+import { expForLevel, levelForExp } from '../../utils/experience';
+import type { MockScenario } from './scenarios';
+
+// ── Seeded PRNG ────────────────────────────────────────────────────────
+
+export interface Rng {
+  next(): number;
+  int(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+  chance(p: number): boolean;
+}
+
+/** mulberry32 — tiny, fast and good enough for fake data */
+function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    chance: (p) => next() < p,
+  };
+}
+
+// ── Entities ───────────────────────────────────────────────────────────
+
+export interface MockWorld {
+  id: number;
+  name: string;
+  pvpType: string;
+}
+
+export interface MockSkills {
+  fist: number;
+  club: number;
+  sword: number;
+  axe: number;
+  dist: number;
+  shielding: number;
+  fishing: number;
+}
+
+export interface MockCharacter {
+  id: number;
+  name: string;
+  formerNames: string[];
+  worldId: number;
+  /** Vocation id as used by the bazaar API (2 = Elite Knight … 9 = Monk) */
+  vocation: number;
+  sex: number;
+  level: number;
+  experience: number;
+  magLevel: number;
+  skills: MockSkills;
+  charmPoints: number;
+  bountyPoints: number;
+  achievementPoints: number;
+  lookType: number;
+  createdAt: number; // unix seconds
+}
+
+export type MockAuctionState = 'active' | 'sold' | 'expired';
+
+export interface MockAuction {
+  id: number;
+  /** Character as listed — frozen when the auction is created */
+  character: MockCharacter;
+  state: MockAuctionState;
+  startingValue: number;
+  currentValue: number;
+  auctionStart: number; // unix seconds
+  auctionEnd: number; // unix seconds
+}
+
+export interface MockBan {
+  playerName: string;
+  worldId: number;
+  reason: string;
+  bannedAt: number; // unix seconds
+  expiresAt: number | null;
+  liftedAt: number | null;
+}
+
+export interface MockTransfer {
+  playerName: string;
+  level: number;
+  fromWorld: string;
+  toWorld: string;
+  transferredAt: number; // unix seconds
+}
+
+export interface MockDeath {
+  time: number; // unix seconds
+  level: number;
+  killedBy: string;
+  isPlayer: boolean;
+  mostDamageBy: string;
+  mostDamageIsPlayer: boolean;
+  victim: string;
+  worldName: string;
+}
+
+export interface MockGuildMember {
+  characterId: number;
+  rank: string;
+  joinedAt: number; // unix seconds
+}
+
+export interface MockGuild {
+  id: number;
+  name: string;
+  worldId: number;
+  createdAt: number; // unix seconds
+  members: MockGuildMember[];
+}
+
+export interface MockState {
+  scenario: MockScenario;
+  rng: Rng;
+  /** Simulated clock (unix seconds) */
+  now: number;
+  tick: number;
+  worlds: MockWorld[];
+  characters: MockCharacter[];
+  auctions: MockAuction[];
+  bans: MockBan[];
+  transfers: MockTransfer[];
+  /** Newest first, like the real /api/deaths */
+  deaths: MockDeath[];
+  guilds: MockGuild[];
+  boosted: { creature: string; boss: string };
+  nextAuctionId: number;
+  nextCharacterId: number;
+}
+
+// ── Reference data ─────────────────────────────────────────────────────
+
+export const MOCK_VOCATIONS = [2, 4, 6, 8, 9] as const;
+
+const PVP_TYPES = ['Optional PvP', 'Open PvP', 'Retro Open PvP'] as const;
+
+const NAME_PARTS = [
+  'ka', 'lor', 'mir', 'dan', 'vel', 'tor', 'ris', 'an', 'el', 'zu',
+  'gar', 'sha', 'ren', 'mo', 'thal', 'qui', 'bra', 'nox', 'ly', 'ser',
+] as const;
+
+const CREATURES = [
+  'a dragon', 'a dragon lord', 'a hydra', 'a demon', 'a grim reaper',
+  'a ghastly dragon', 'a juggernaut', 'a warlock', 'a hellhound', 'a frost dragon',
+] as const;
+
+const BOSSES = ['Ferumbras', 'Ghazbaran', 'Morgaroth', 'Orshabaal', 'Zulazza the Corruptor'] as const;
+
+const GUILD_RANKS = ['Leader', 'Vice Leader', 'Member', 'Member', 'Member', 'Recruit'] as const;
+
+const BAN_REASONS = ['Regra 2C', 'Regra 2F', 'Regra 2B', 'Regra 2H', 'Regra 3A', 'Regra 1A', 'Regra 4A'] as const;
+
+function randomWord(rng: Rng): string {
+  let word = '';
+  for (let i = rng.int(2, 3); i > 0; i--) word += rng.pick(NAME_PARTS);
+  return word[0].toUpperCase() + word.slice(1);
+}
+
+function uniqueName(state: Pick<MockState, 'rng' | 'characters'>): string {
+  const taken = new Set(state.characters.map((c) => c.name));
+  for (;;) {
+    const name = state.rng.chance(0.5) ? randomWord(state.rng) : `${randomWord(state.rng)} ${randomWord(state.rng)}`;
+    if (!taken.has(name)) return name;
+  }
+}
+
+// ── Generation ─────────────────────────────────────────────────────────
+
+function createCharacter(state: MockState, worldId: number): MockCharacter {
+  const { rng } = state;
+  const vocation = rng.pick(MOCK_VOCATIONS);
+  const level = Math.round(8 + rng.next() ** 2 * 1200);
+  const experience = expForLevel(level) + rng.int(0, expForLevel(level + 1) - expForLevel(level) - 1);
+  const isMage = vocation === 6 || vocation === 8;
+  const isKnight = vocation === 2;
+  const isPaladin = vocation === 4;
+  const isMonk = vocation === 9;
+  const mainSkill = Math.min(130, 10 + Math.round(level / 8) + rng.int(0, 20));
+
+  const character: MockCharacter = {
+    id: state.nextCharacterId++,
+    name: uniqueName(state),
+    formerNames: [],
+    worldId,
+    vocation,
+    sex: rng.int(0, 1),
+    level,
+    experience,
+    magLevel: isMage ? Math.min(140, 20 + Math.round(level / 9) + rng.int(0, 15)) : rng.int(3, isMonk ? 40 : 30),
+    skills: {
+      fist: isMonk ? mainSkill : rng.int(10, 20),
+      club: isKnight && rng.chance(0.33) ? mainSkill : rng.int(10, 20),
+      sword: isKnight && rng.chance(0.5) ? mainSkill : rng.int(10, 20),
+      axe: isKnight && rng.chance(0.33) ? mainSkill : rng.int(10, 20),
+      dist: isPaladin ? mainSkill : rng.int(10, 20),
+      shielding: isKnight || isPaladin ? mainSkill - rng.int(0, 10) : rng.int(10, 30),
+      fishing: rng.int(10, 60),
+    },
+    charmPoints: Math.round(level * (2 + rng.next() * 6)),
+    bountyPoints: rng.int(0, level * 3),
+    achievementPoints: rng.int(50, 900),
+    lookType: rng.int(128, 160),
+    createdAt: state.now - rng.int(30, 900) * 86400,
+  };
+  state.characters.push(character);
+  return character;
+}
+
+function createGuild(state: MockState, worldId: number): MockGuild {
+  const { rng } = state;
+  const taken = new Set(state.guilds.map((g) => g.name));
+  let name: string;
+  do {
+    name = `${rng.pick(['The', 'Order of', 'House', 'Legion of'])} ${randomWord(rng)}`;
+  } while (taken.has(name));
+
+  const guild: MockGuild = {
+    id: state.guilds.length + 1,
+    name,
+    worldId,
+    createdAt: state.now - rng.int(30, 900) * 86400,
+    members: [],
+  };
+  state.guilds.push(guild);
+  return guild;
+}
+
+function guildOf(state: MockState, characterId: number): MockGuild | undefined {
+  return state.guilds.find((g) => g.members.some((m) => m.characterId === characterId));
+}
+
+function joinGuild(state: MockState, guild: MockGuild, character: MockCharacter, joinedAt: number): void {
+  guild.members.push({
+    characterId: character.id,
+    rank: guild.members.length === 0 ? 'Leader' : state.rng.pick(GUILD_RANKS.slice(1)),
+    joinedAt,
+  });
+}
+
+function leaveGuild(state: MockState, characterId: number): void {
+  const guild = guildOf(state, characterId);
+  if (guild) guild.members = guild.members.filter((m) => m.characterId !== characterId);
+}
+
+function createAuction(state: MockState, character: MockCharacter, endsIn: number): MockAuction {
+  const { rng } = state;
+  const startingValue = Math.max(25, Math.round(character.level * (1 + rng.next() * 3) / 5) * 5);
+  const hasBid = rng.chance(0.4);
+  const auction: MockAuction = {
+    id: state.nextAuctionId++,
+    character: structuredClone(character),
+    state: 'active',
+    startingValue,
+    currentValue: hasBid ? startingValue + rng.int(1, 40) * 5 : startingValue,
+    auctionStart: state.now - rng.int(0, 3) * 86400,
+    auctionEnd: state.now + endsIn,
+  };
+  state.auctions.push(auction);
+  return auction;
+}
+
+function createBan(state: MockState, character: MockCharacter): MockBan {
+  const { rng } = state;
+  const permanent = rng.chance(0.3);
+  const ban: MockBan = {
+    playerName: character.name,
+    worldId: character.worldId,
+    reason: rng.pick(BAN_REASONS),
+    bannedAt: state.now - rng.int(0, 3600),
+    expiresAt: permanent ? null : state.now + rng.int(1, 30) * 86400,
+    liftedAt: null,
+  };
+  state.bans.push(ban);
+  return ban;
+}
+
+/** Generate the starting world for a scenario. */
+export function createMockState(scenario: MockScenario): MockState {
+  const state: MockState = {
+    scenario,
+    rng: createRng(scenario.seed),
+    now: Math.floor(Date.now() / 1000 / 3600) * 3600,
+    tick: 0,
+    worlds: WORLDS.map((name, i) => ({ id: i + 1, name, pvpType: PVP_TYPES[i % PVP_TYPES.length] })),
+    characters: [],
+    auctions: [],
+    bans: [],
+    transfers: [],
+    deaths: [],
+    guilds: [],
+    boosted: { creature: 'a dragon', boss: 'Ferumbras' },
+    nextAuctionId: 100_000,
+    nextCharacterId: 1,
+  };
+  const { rng } = state;
+
+  for (const world of state.worlds) {
+    for (let i = 0; i < scenario.charactersPerWorld; i++) createCharacter(state, world.id);
+  }
+  // About half of each world's characters start in one of its guilds
+  for (const world of state.worlds) {
+    const guilds = Array.from({ length: scenario.guildsPerWorld }, () => createGuild(state, world.id));
+    if (guilds.length === 0) continue;
+    for (const character of state.characters.filter((c) => c.worldId === world.id)) {
+      const guild = rng.pick(guilds);
+      if (rng.chance(0.5)) joinGuild(state, guild, character, guild.createdAt + rng.int(0, state.now - guild.createdAt));
+    }
+  }
+  for (let i = 0; i < scenario.activeAuctions; i++) {
+    const seller = createCharacter(state, rng.pick(state.worlds).id);
+    createAuction(state, seller, rng.int(1, 7 * 24) * 3600);
+  }
+  for (let i = 0; i < scenario.activeBans; i++) {
+    createBan(state, rng.pick(state.characters));
+  }
+  state.boosted = { creature: rng.pick(CREATURES).replace(/^an? /, ''), boss: rng.pick(BOSSES) };
+  return state;
+}
+
+// ── Ticks ──────────────────────────────────────────────────────────────
+
+function activeAuctions(state: MockState): MockAuction[] {
+  return state.auctions.filter((a) => a.state === 'active');
+}
+
+function endAuction(auction: MockAuction, now: number): void {
+  auction.state = auction.currentValue > auction.startingValue ? 'sold' : 'expired';
+  auction.auctionEnd = Math.min(auction.auctionEnd, now);
+}
+
+function gainExp(character: MockCharacter, exp: number): void {
+  character.experience = Math.max(0, character.experience + exp);
+  character.level = Math.max(1, levelForExp(character.experience));
+}
+
+function recordDeath(state: MockState, victim: MockCharacter): void {
+  const { rng } = state;
+  const world = state.worlds.find((w) => w.id === victim.worldId)!;
+  const isPlayer = rng.chance(state.scenario.events.pvpShare);
+  const sameWorld = state.characters.filter((c) => c.worldId === victim.worldId && c.id !== victim.id);
+  const killer = isPlayer && sameWorld.length > 0 ? rng.pick(sameWorld).name : rng.pick(CREATURES);
+  const damageByPlayer = isPlayer ? rng.chance(0.8) : rng.chance(0.1);
+  const mostDamageBy = damageByPlayer && sameWorld.length > 0 ? rng.pick(sameWorld).name : rng.pick(CREATURES);
+
+  state.deaths.unshift({
+    time: state.now - rng.int(0, state.scenario.minutesPerTick * 60 - 1),
+    level: victim.level,
+    killedBy: killer,
+    isPlayer: isPlayer && sameWorld.length > 0,
+    mostDamageBy,
+    mostDamageIsPlayer: damageByPlayer && sameWorld.length > 0,
+    victim: victim.name,
+    worldName: world.name,
+  });
+  // Death penalty, roughly what a blessed character loses
+  if (victim.level >= 24) gainExp(victim, -Math.round(victim.experience * 0.01));
+}
+
+/** Advance the simulated clock by one tick and apply the scenario's events. */
+export function advanceMockState(state: MockState): void {
+  const { rng, scenario } = state;
+  const ev = scenario.events;
+  state.tick++;
+  state.now += scenario.minutesPerTick * 60;
+
+  // Auctions past their end time close on their own
+  for (const auction of activeAuctions(state)) {
+    if (auction.auctionEnd <= state.now) endAuction(auction, state.now);
+  }
+
+  // Then the soonest-ending ones close early, as the scenario asks
+  const ending = activeAuctions(state)
+    .sort((a, b) => a.auctionEnd - b.auctionEnd)
+    .slice(0, ev.endAuctions);
+  for (const auction of ending) endAuction(auction, state.now);
+
+  for (let i = 0; i < ev.bidRaises; i++) {
+    const active = activeAuctions(state);
+    if (active.length === 0) break;
+    const auction = rng.pick(active);
+    auction.currentValue += Math.max(5, Math.round(auction.currentValue * rng.next() * 0.15 / 5) * 5);
+  }
+
+  for (let i = 0; i < ev.extendAuctions; i++) {
+    const active = activeAuctions(state);
+    if (active.length === 0) break;
+    rng.pick(active).auctionEnd += 3600;
+  }
+
+  for (let i = 0; i < ev.newAuctions; i++) {
+    const seller = rng.pick(state.characters);
+    createAuction(state, seller, rng.int(2, 7) * 86400);
+  }
+
+  for (let i = 0; i < ev.newBans; i++) createBan(state, rng.pick(state.characters));
+
+  for (const ban of state.bans) {
+    if (ban.liftedAt == null && ban.expiresAt != null && ban.expiresAt <= state.now) ban.liftedAt = ban.expiresAt;
+  }
+  for (let i = 0; i < ev.liftBans; i++) {
+    const active = state.bans.filter((b) => b.liftedAt == null);
+    if (active.length === 0) break;
+    rng.pick(active).liftedAt = state.now;
+  }
+
+  for (let i = 0; i < ev.renames; i++) {
+    const character = rng.pick(state.characters);
+    character.formerNames.push(character.name);
+    character.name = uniqueName(state);
+  }
+
+  for (let i = 0; i < ev.transfers; i++) {
+    const character = rng.pick(state.characters);
+    const from = state.worlds.find((w) => w.id === character.worldId)!;
+    const to = rng.pick(state.worlds.filter((w) => w.id !== from.id));
+    // Guild membership doesn't survive a world transfer
+    leaveGuild(state, character.id);
+    character.worldId = to.id;
+    state.transfers.unshift({
+      playerName: character.name,
+      level: character.level,
+      fromWorld: from.name,
+      toWorld: to.name,
+      transferredAt: state.now - rng.int(0, scenario.minutesPerTick * 60 - 1),
+    });
+  }
+
+  for (let i = 0; i < ev.progressing; i++) {
+    const character = rng.pick(state.characters);
+    gainExp(character, Math.round(expForLevel(character.level) * 0.002 * (0.5 + rng.next())));
+    if (rng.chance(0.1)) character.magLevel++;
+    const skill = rng.pick(Object.keys(character.skills) as (keyof MockSkills)[]);
+    if (rng.chance(0.1)) character.skills[skill]++;
+    if (rng.chance(0.2)) character.charmPoints += rng.int(5, 40);
+  }
+
+  for (let i = 0; i < ev.guildChanges; i++) {
+    const character = rng.pick(state.characters);
+    if (guildOf(state, character.id)) {
+      leaveGuild(state, character.id);
+    } else {
+      const guilds = state.guilds.filter((g) => g.worldId === character.worldId);
+      if (guilds.length > 0) joinGuild(state, rng.pick(guilds), character, state.now);
+    }
+  }
+
+  for (let i = 0; i < ev.deaths; i++) recordDeath(state, rng.pick(state.characters));
+  state.deaths.sort((a, b) => b.time - a.time);
+
+  // Boosted creature/boss rotate once per simulated day
+  if (Math.floor(state.now / 86400) !== Math.floor((state.now - scenario.minutesPerTick * 60) / 86400)) {
+    state.boosted = { creature: rng.pick(CREATURES).replace(/^an? /, ''), boss: rng.pick(BOSSES) };
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Run history for scraper and maintenance scripts.
+ * Each run gets a scraper_runs row with its counters, exit status and
+ * schema drift report, which the /admin/scrapers dashboard reads.
+ */
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { flushQuarantine, getDriftReport, printDriftReport } from './validation';
+
+/** Tracked jobs, keyed by script name — shown in this order on /admin/scrapers */
+export const SCRAPER_JOBS = [
+  { job: 'scrape-current-auctions', label: 'Current auctions' },
+  { job: 'update-bids', label: 'Bid updater' },
+  { job: 'scrape-auction-history', label: 'Auction history' },
+  { job: 'scrape-by-id', label: 'Auctions by ID' },
+  { job: 'scrape-highscores', label: 'Highscores' },
+  { job: 'scrape-boosted', label: 'Boosted creature & boss' },
+  { job: 'scrape-bans', label: 'Bans' },
+  { job: 'scrape-transfers', label: 'Transfers' },
+  { job: 'scrape-deaths', label: 'Deaths' },
+  { job: 'scrape-guilds', label: 'Guilds' },
+  { job: 'materialize-snapshots', label: 'Character snapshots' },
+  { job: 'refresh-market-stats', label: 'Market stats' },
+] as const;
+
+export type ScraperJobName = (typeof SCRAPER_JOBS)[number]['job'];
+
+export interface ScraperRunHandle {
+  seen(n?: number): void;
+  inserted(n?: number): void;
+  updated(n?: number): void;
+  archived(n?: number): void;
+  /** Count an upsert as inserted or updated, from the returned row's createdAt */
+  upserted(row: { createdAt: Date }): void;
+  error(err: unknown): void;
+}
+
+interface RunCounts {
+  itemsSeen: number;
+  itemsInserted: number;
+  itemsUpdated: number;
+  itemsArchived: number;
+  errorCount: number;
+  lastError: string | null;
+}
+
+function errorMessage(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).substring(0, 1000);
+}
+
+/**
+ * Run `main` as a tracked job. The run is marked completed when `main`
+ * resolves and failed (exit code 1) when it throws; the error is rethrown.
+ * Recording problems (e.g. the table not pushed yet) only log a warning.
+ */
+export async function trackScraperRun(
+  prisma: PrismaClient,
+  job: ScraperJobName,
+  main: (run: ScraperRunHandle) => Promise<void>,
+  opts: { enabled?: boolean } = {},
+): Promise<void> {
+  const startedAt = new Date();
+  const counts: RunCounts = {
+    itemsSeen: 0,
+    itemsInserted: 0,
+    itemsUpdated: 0,
+    itemsArchived: 0,
+    errorCount: 0,
+    lastError: null,
+  };
+
+  const handle: ScraperRunHandle = {
+    seen: (n = 1) => { counts.itemsSeen += n; },
+    inserted: (n = 1) => { counts.itemsInserted += n; },
+    updated: (n = 1) => { counts.itemsUpdated += n; },
+    archived: (n = 1) => { counts.itemsArchived += n; },
+    upserted: (row) => {
+      if (row.createdAt >= startedAt) counts.itemsInserted++;
+      else counts.itemsUpdated++;
+    },
+    error: (err) => {
+      counts.errorCount++;
+      counts.lastError = errorMessage(err);
+    },
+  };
+
+  let runId: number | null = null;
+  if (opts.enabled ?? true) {
+    try {
+      const run = await prisma.scraperRun.create({
+        data: { job, args: process.argv.slice(2).join(' ') || null, startedAt },
+      });
+      runId = run.id;
+    } catch (err) {
+      console.warn(`  Warning: could not record ${job} run: ${errorMessage(err).substring(0, 80)}`);
+    }
+  }
+
+  const finish = async (status: 'completed' | 'failed', exitCode: number) => {
+    printDriftReport();
+    if (!(opts.enabled ?? true)) return;
+    try {
+      const quarantined = await flushQuarantine(prisma, runId);
+      if (quarantined > 0) console.warn(`  ${quarantined} malformed records saved to quarantined_records`);
+    } catch (err) {
+      console.warn(`  Warning: could not save quarantined records: ${errorMessage(err).substring(0, 80)}`);
+    }
+    if (runId == null) return;
+    try {
+      await prisma.scraperRun.update({
+        where: { id: runId },
+        data: {
+          ...counts,
+          status,
+          exitCode,
+          finishedAt: new Date(),
+          driftReport: getDriftReport() as unknown as Prisma.InputJsonValue,
+        },
+      });
+    } catch (err) {
+      console.warn(`  Warning: could not finish ${job} run: ${errorMessage(err).substring(0, 80)}`);
+    }
+  };
+
+  try {
+    await main(handle);
+  } catch (err) {
+    handle.error(err);
+    await finish('failed', 1);
+    throw err;
+  }
+  await finish('completed', 0);
+  await prisma.$disconnect();
+}
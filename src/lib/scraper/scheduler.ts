@@ -0,0 +1,158 @@
+/**
+ * Shared request scheduler for the RubinOT scrapers.
+ *
+ * Every request from every browser profile in the process goes through one
+ * throttle (SCRAPER_CONFIG.requestsPerSecond). Responses that look like
+ * rate limiting — 429s, Cloudflare challenges, HTML where JSON was expected —
+ * are retried with exponential backoff (SCRAPER_CONFIG.delayMs × 2^attempt,
+ * up to SCRAPER_CONFIG.maxRetries), and a 429 pauses all profiles, not just
+ * the one that hit it.
+ */
+import { SCRAPER_CONFIG } from '../utils/constants';
+
+export type RetryReason = 'rate-limited' | 'challenge' | 'non-json' | 'server-error' | 'error';
+
+/** Pacing for `throttle()` — multiplier on SCRAPER_CONFIG.delayMs */
+export type Pace = 'fast' | 'normal' | 'slow';
+
+const PACE_FACTOR: Record<Pace, [number, number]> = {
+  fast: [0.33, 0.67],
+  normal: [0.67, 1.33],
+  slow: [4, 8],
+};
+
+export interface SchedulerStats {
+  requests: number;
+  retries: number;
+  retriesByReason: Partial<Record<RetryReason, number>>;
+  /** Requests that still failed after the last retry */
+  failures: number;
+  backoffMs: number;
+  throttledMs: number;
+}
+
+const stats: SchedulerStats = {
+  requests: 0,
+  retries: 0,
+  retriesByReason: {},
+  failures: 0,
+  backoffMs: 0,
+  throttledMs: 0,
+};
+
+let lastRequestAt = 0;
+/** All profiles wait until this time (set by 429s) */
+let pausedUntil = 0;
+/** Serializes slot reservations so concurrent callers don't share a slot */
+let queue: Promise<void> = Promise.resolve();
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function reserveSlot(minGapMs: number): Promise<void> {
+  const slot = queue.then(async () => {
+    const waitMs = Math.max(lastRequestAt + minGapMs, pausedUntil) - Date.now();
+    if (waitMs > 0) {
+      stats.throttledMs += waitMs;
+      await sleep(waitMs);
+    }
+    lastRequestAt = Date.now();
+  });
+  queue = slot.catch(() => {});
+  return slot;
+}
+
+/**
+ * Wait before a request at human-looking pace.
+ * Measured from the last request of any profile, so back-to-back callers
+ * don't stack delays on top of the request throttle.
+ */
+export async function throttle(pace: Pace = 'normal'): Promise<void> {
+  const [min, max] = PACE_FACTOR[pace];
+  const gap = SCRAPER_CONFIG.delayMs * (min + Math.random() * (max - min));
+  const waitMs = Math.max(lastRequestAt + gap, pausedUntil) - Date.now();
+  if (waitMs > 0) {
+    stats.throttledMs += waitMs;
+    await sleep(waitMs);
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const base = SCRAPER_CONFIG.delayMs * 2 ** attempt;
+  return Math.min(base + Math.random() * SCRAPER_CONFIG.delayMs, SCRAPER_CONFIG.maxBackoffMs);
+}
+
+/**
+ * Run a request through the shared throttle, retrying while `classify`
+ * reports a retryable result or `fn` throws.
+ *
+ * Returns the last result once retries run out (the caller decides what a
+ * bad response means); rethrows the last error if every attempt threw.
+ */
+export async function scheduleRequest<T>(
+  label: string,
+  fn: () => Promise<T>,
+  classify: (result: T) => RetryReason | null,
+  opts: { recover?: (reason: RetryReason) => Promise<void> } = {},
+): Promise<T> {
+  const minGapMs = 1000 / SCRAPER_CONFIG.requestsPerSecond;
+
+  for (let attempt = 0; ; attempt++) {
+    await reserveSlot(minGapMs);
+    stats.requests++;
+
+    let reason: RetryReason | null;
+    let result: T | undefined;
+    let error: unknown;
+    try {
+      result = await fn();
+      reason = classify(result);
+    } catch (err) {
+      error = err;
+      reason = 'error';
+    }
+
+    if (reason === null) return result as T;
+    if (attempt >= SCRAPER_CONFIG.maxRetries) {
+      stats.failures++;
+      if (error !== undefined) throw error;
+      return result as T;
+    }
+
+    const delay = backoffDelay(attempt);
+    stats.retries++;
+    stats.retriesByReason[reason] = (stats.retriesByReason[reason] ?? 0) + 1;
+    stats.backoffMs += delay;
+    if (reason === 'rate-limited') pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+
+    const detail = error instanceof Error ? `: ${error.message.substring(0, 60)}` : '';
+    console.warn(`  ${label}: ${reason}${detail} — retry ${attempt + 1}/${SCRAPER_CONFIG.maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+    await sleep(delay);
+    if (opts.recover) {
+      await opts.recover(reason).catch((err) => {
+        console.warn(`  ${label}: recovery failed: ${(err as Error).message?.substring(0, 60)}`);
+      });
+    }
+  }
+}
+
+export function getSchedulerStats(): SchedulerStats {
+  return { ...stats, retriesByReason: { ...stats.retriesByReason } };
+}
+
+/** Print retry/backoff statistics — call at the end of a scraper run. */
+export function printSchedulerStats(): void {
+  if (stats.requests === 0) return;
+  const reasons = Object.entries(stats.retriesByReason)
+    .map(([reason, count]) => `${reason} ${count}`)
+    .join(', ');
+
+  console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log('  Request scheduler');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log(`  Requests:    ${stats.requests}`);
+  console.log(`  Retries:     ${stats.retries}${reasons ? ` (${reasons})` : ''}`);
+  console.log(`  Failures:    ${stats.failures}`);
+  console.log(`  Backoff:     ${(stats.backoffMs / 1000).toFixed(1)}s`);
+  console.log(`  Throttled:   ${(stats.throttledMs / 1000).toFixed(1)}s`);
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+}
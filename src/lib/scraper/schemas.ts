@@ -0,0 +1,312 @@
+/**
+ * Runtime schemas for RubinOT API payloads.
+ *
+ * Fields the scrapers store are required, so a renamed or retyped field
+ * fails validation (and lands in quarantine) instead of becoming a null.
+ * Fields the mappers already treat as optional stay optional; the drift
+ * report still flags them when they stop arriving.
+ */
+import { z } from 'zod';
+
+/** Marks one of several alternative field names — not reported as missing */
+export const ALIAS = 'alias';
+
+const numberOrString = z.union([z.number(), z.string()]);
+
+const itemSchema = z.object({
+  itemId: z.number(),
+  clientId: z.number(),
+  tier: z.number(),
+  count: z.number(),
+  name: z.string(),
+});
+
+// ── Bazaar ─────────────────────────────────────────────────────────────
+
+export const bazaarListAuctionSchema = z.object({
+  id: z.number(),
+  state: z.number().optional(),
+  stateName: z.string().optional(),
+  playerId: z.number().optional(),
+  owner: z.string().optional(),
+  startingValue: z.number(),
+  currentValue: z.number(),
+  auctionStart: numberOrString,
+  auctionEnd: numberOrString,
+  name: z.string(),
+  level: z.number(),
+  vocation: z.number(),
+  vocationName: z.string(),
+  sex: z.number(),
+  worldId: z.number(),
+  worldName: z.string(),
+  lookType: z.number(),
+  lookHead: z.number().optional(),
+  lookBody: z.number().optional(),
+  lookLegs: z.number().optional(),
+  lookFeet: z.number().optional(),
+  lookAddons: z.number().optional(),
+  direction: z.number().optional(),
+  charmPoints: z.number().optional(),
+  achievementPoints: z.number().optional(),
+  magLevel: z.number().optional(),
+  skills: z.object({
+    club: z.number(),
+    sword: z.number(),
+    axe: z.number(),
+    dist: z.number(),
+    shielding: z.number(),
+  }).optional(),
+  highlightItems: z.array(itemSchema).optional(),
+  highlightAugments: z.array(z.object({ text: z.string(), argType: z.string() })).optional(),
+  myBid: z.number().nullable().optional(),
+  isWinning: z.boolean().optional(),
+  isWatching: z.boolean().optional(),
+});
+
+export const paginationSchema = z.object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+/** List envelope — auctions are validated one by one, so they stay unknown here */
+export const bazaarListResponseSchema = z.object({
+  auctions: z.array(z.unknown()),
+  pagination: paginationSchema,
+});
+
+const weaponProficiencySchema = z.object({
+  itemId: z.number(),
+  experience: z.number(),
+  weaponLevel: z.number(),
+  masteryAchieved: z.boolean(),
+  activePerks: z.array(z.object({ lane: z.number(), index: z.number() })).optional(),
+});
+
+const skillsWithTriesSchema = z.object({
+  fist: z.number(),
+  fistTries: z.number(),
+  club: z.number(),
+  clubTries: z.number(),
+  sword: z.number(),
+  swordTries: z.number(),
+  axe: z.number(),
+  axeTries: z.number(),
+  dist: z.number(),
+  distTries: z.number(),
+  shielding: z.number(),
+  shieldingTries: z.number(),
+  fishing: z.number(),
+  fishingTries: z.number(),
+});
+
+export const bazaarDetailResponseSchema = z.object({
+  auction: z.object({
+    id: z.number(),
+    state: z.number().optional(),
+    stateName: z.string(),
+    startingValue: z.number(),
+    currentValue: z.number(),
+    auctionStart: numberOrString,
+    auctionEnd: numberOrString,
+  }),
+  player: z.object({
+    id: z.number(),
+    name: z.string(),
+    level: z.number(),
+    vocation: z.number(),
+    vocationName: z.string(),
+    sex: z.number(),
+    worldId: z.number(),
+    worldName: z.string(),
+    lookType: z.number(),
+  }).passthrough(), // outfit colors, when sent, feed buildOutfitImageUrl
+  general: z.object({
+    health: z.number(),
+    healthMax: z.number().optional(),
+    mana: z.number(),
+    manaMax: z.number().optional(),
+    manaSpent: z.string().optional(),
+    cap: z.number(),
+    stamina: z.number().optional(),
+    soul: z.number().optional(),
+    experience: numberOrString,
+    magLevel: z.number(),
+    skills: skillsWithTriesSchema,
+    mountsCount: z.number().optional(),
+    outfitsCount: z.number().optional(),
+    titlesCount: z.number().optional(),
+    linkedTasks: z.number(),
+    createDate: z.number(),
+    balance: z.string().optional(),
+    totalMoney: z.string(),
+    achievementPoints: z.number(),
+    charmPoints: z.number(),
+    spentCharmPoints: z.number(),
+    availableCharmPoints: z.number(),
+    spentMinorEchoes: z.number().optional(),
+    availableMinorEchoes: z.number().optional(),
+    charmExpansion: z.boolean(),
+    streakDays: z.number(),
+    huntingTaskPoints: z.number(),
+    thirdPrey: z.boolean(),
+    thirdHunting: z.boolean(),
+    preyWildcards: z.number(),
+    hirelingCount: z.number(),
+    hirelingJobs: z.number(),
+    hirelingOutfits: z.number().optional(),
+    dust: z.number(),
+    dustMax: z.number(),
+    bossPoints: z.number(),
+    wheelPoints: z.number().optional(),
+    maxWheelPoints: z.number().optional(),
+    gpActive: z.boolean(),
+    gpPoints: z.number().optional(),
+  }),
+  items: z.array(itemSchema).optional(),
+  itemsTotal: z.number().optional(),
+  storeItems: z.array(itemSchema),
+  storeItemsTotal: z.number(),
+  outfits: z.array(z.object({ name: z.string(), lookType: z.number(), addons: z.number() })),
+  mounts: z.array(z.object({ name: z.string(), lookType: z.number() })),
+  familiars: z.array(z.object({ name: z.string(), lookType: z.number() })).optional(),
+  charms: z.array(z.object({ name: z.string(), cost: z.number() })).optional(),
+  blessings: z.array(z.object({ name: z.string(), count: z.number() })),
+  titles: z.array(z.object({ name: z.string() })).optional(),
+  gems: z.array(z.object({
+    id: z.number(),
+    domain: z.number(),
+    type: z.number(),
+    lesserBonusId: z.number(),
+    regularBonusId: z.number(),
+    supremeBonusId: z.number(),
+  })),
+  bosstiaries: z.array(z.object({ name: z.string(), kills: z.number() })).optional(),
+  bosstiariosTotal: z.number(),
+  weaponProficiency: z.array(weaponProficiencySchema),
+  achievements: z.array(z.object({ name: z.string(), grade: z.number() })),
+  highlightItems: z.array(itemSchema),
+  highlightAugments: z.array(z.object({ text: z.string(), argType: z.number() })).optional(),
+  bountyTalismans: z.array(z.unknown()).optional(),
+  bountyPoints: z.number().optional(),
+  totalBountyPoints: z.number().optional(),
+  bountyRerolls: z.number().optional(),
+  auras: z.array(z.unknown()).optional(),
+  battlepassSeasons: z.array(z.object({ season: z.number(), points: z.number(), active: z.number() })).optional(),
+});
+
+// ── Deaths ─────────────────────────────────────────────────────────────
+
+export const rawDeathSchema = z.object({
+  time: z.string(), // unix timestamp as string
+  level: z.number(),
+  killed_by: z.string(),
+  is_player: z.number(), // 1 = PvP, 0 = PvE
+  mostdamage_by: z.string(),
+  mostdamage_is_player: z.number(),
+  victim: z.string(),
+  worldName: z.string(),
+});
+
+/** The API has shipped both `deaths` and `data`, and `totalCount` or `totalItems` */
+export const deathsResponseSchema = z.object({
+  deaths: z.array(z.unknown()).optional().describe(ALIAS),
+  data: z.array(z.unknown()).optional().describe(ALIAS),
+  pagination: z.object({
+    currentPage: z.number().optional(),
+    totalPages: z.number().optional(),
+    totalCount: z.number().optional().describe(ALIAS),
+    totalItems: z.number().optional().describe(ALIAS),
+    itemsPerPage: z.number().optional(),
+  }).optional(),
+}).refine((r) => r.deaths || r.data, { message: 'Expected a deaths or data array' });
+
+// ── Boosted ────────────────────────────────────────────────────────────
+
+const boostedEntrySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  looktype: z.number(),
+});
+
+export const boostedResponseSchema = z.object({
+  boss: boostedEntrySchema,
+  monster: boostedEntrySchema,
+});
+
+// ── Highscores & worlds ────────────────────────────────────────────────
+
+export const highscorePlayerSchema = z.object({
+  rank: z.number(),
+  id: z.number(),
+  name: z.string(),
+  level: z.number(),
+  vocation: numberOrString,
+  world_id: z.number(),
+  value: z.number(),
+});
+
+export const highscoreResponseSchema = z.object({
+  players: z.array(z.unknown()),
+  totalCount: z.number(),
+  cachedAt: z.string(),
+});
+
+const worldSchema = z.object({ id: z.number(), name: z.string() });
+
+/** /api/worlds has returned both `{ worlds: [...] }` and a bare array */
+export const worldsResponseSchema = z.union([
+  z.object({ worlds: z.array(worldSchema) }),
+  z.array(worldSchema),
+]);
+
+// ── Guilds ─────────────────────────────────────────────────────────────
+
+export const guildSummarySchema = z.object({
+  name: z.string(),
+  worldName: z.string().optional(),
+  membersCount: z.number().optional(),
+});
+
+export const guildListResponseSchema = z.object({
+  guilds: z.array(z.unknown()),
+  pagination: z.object({
+    currentPage: z.number().optional(),
+    totalPages: z.number().optional(),
+  }).optional(),
+});
+
+export const guildMemberSchema = z.object({
+  name: z.string(),
+  rank: z.string().nullable().optional(), // guild rank title, e.g. "Leader"
+  level: z.number(),
+  vocation: z.string(),
+  joinDate: numberOrString.nullable().optional(), // unix timestamp
+});
+
+/** Members are validated one by one, so they stay unknown here */
+export const guildDetailResponseSchema = z.object({
+  guild: z.object({
+    name: z.string(),
+    worldName: z.string(),
+    description: z.string().nullable().optional(),
+    creationDate: numberOrString.nullable().optional(), // unix timestamp
+    members: z.array(z.unknown()),
+  }),
+});
+
+export type ApiBazaarListAuction = z.infer<typeof bazaarListAuctionSchema>;
+export type ApiBazaarListResponse = Omit<z.infer<typeof bazaarListResponseSchema>, 'auctions'> & {
+  auctions: ApiBazaarListAuction[];
+};
+export type ApiBazaarDetailResponse = z.infer<typeof bazaarDetailResponseSchema>;
+export type RawDeath = z.infer<typeof rawDeathSchema>;
+export type ApiBoostedResponse = z.infer<typeof boostedResponseSchema>;
+export type ApiHighscorePlayer = z.infer<typeof highscorePlayerSchema>;
+export type ApiHighscoreResponse = Omit<z.infer<typeof highscoreResponseSchema>, 'players'> & {
+  players: ApiHighscorePlayer[];
+};
+export type ApiGuildSummary = z.infer<typeof guildSummarySchema>;
+export type ApiGuildMember = z.infer<typeof guildMemberSchema>;
@@ -0,0 +1,140 @@
+/**
+ * Materializes characters and character_snapshots from highscore_entries.
+ *
+ * Highscores arrive as one row per character per category per day; this
+ * pivots a day's rows into one snapshot per character and stores the gains
+ * since the previous snapshot, so readers don't rebuild them per request.
+ * Runs after every highscores scrape, and from materialize-snapshots.ts to
+ * backfill past days.
+ */
+import type { PrismaClient } from '@prisma/client';
+
+/** Highscore category → snapshot value and rank columns */
+const CATEGORY_COLUMNS: { category: string; value: string; rank: string | null }[] = [
+  { category: 'Experience Points', value: 'experience', rank: 'exp_rank' },
+  { category: 'Magic Level', value: 'magic_level', rank: 'ml_rank' },
+  { category: 'Fist Fighting', value: 'fist', rank: 'fist_rank' },
+  { category: 'Club Fighting', value: 'club', rank: 'club_rank' },
+  { category: 'Sword Fighting', value: 'sword', rank: 'sword_rank' },
+  { category: 'Axe Fighting', value: 'axe', rank: 'axe_rank' },
+  { category: 'Distance Fighting', value: 'distance', rank: 'distance_rank' },
+  { category: 'Shielding', value: 'shielding', rank: 'shielding_rank' },
+  { category: 'Fishing', value: 'fishing', rank: 'fishing_rank' },
+  { category: 'Charm Points', value: 'charm_points', rank: 'charm_rank' },
+  { category: 'Bounty Points', value: 'bounty_points', rank: 'bounty_rank' },
+];
+
+export interface MaterializeResult {
+  characters: number;
+  snapshots: number;
+}
+
+/**
+ * Upsert characters and their snapshots for one captured date (YYYY-MM-DD),
+ * then compute gains per name + world. resolveIdentities (./identities)
+ * links the new snapshots to identities and redoes gains along them.
+ */
+export async function materializeSnapshots(prisma: PrismaClient, date: string): Promise<MaterializeResult> {
+  await prisma.$executeRawUnsafe(`
+    INSERT INTO worlds (name)
+    SELECT DISTINCT world FROM highscore_entries WHERE captured_date = $1::date
+    ON CONFLICT (name) DO NOTHING
+  `, date);
+
+  // Vocation only moves forward: backfilling an old day keeps the current one
+  const characters = await prisma.$executeRawUnsafe(`
+    INSERT INTO characters (name, world_id, vocation, first_seen, last_updated)
+    SELECT DISTINCT ON (he.character_name, w.id)
+      he.character_name, w.id, he.vocation, $1::date, NOW()
+    FROM highscore_entries he
+    JOIN worlds w ON w.name = he.world
+    WHERE he.captured_date = $1::date
+    ORDER BY he.character_name, w.id, he.created_at DESC
+    ON CONFLICT (name, world_id) DO UPDATE SET
+      vocation = CASE
+        WHEN $1::date >= COALESCE(
+          (SELECT MAX(cs.captured_date) FROM character_snapshots cs WHERE cs.character_id = characters.id),
+          '-infinity'::date
+        ) THEN EXCLUDED.vocation
+        ELSE characters.vocation
+      END,
+      first_seen = LEAST(characters.first_seen, EXCLUDED.first_seen),
+      last_updated = NOW()
+  `, date);
+
+  const columns = CATEGORY_COLUMNS.flatMap((c) => (c.rank ? [c.value, c.rank] : [c.value]));
+  const pivots = CATEGORY_COLUMNS.flatMap((c) => {
+    // experience stays BIGINT; every other score fits an INT column
+    const cast = c.value === 'experience' ? '' : '::int';
+    const value = `MAX(he.score) FILTER (WHERE he.category = '${c.category}')${cast}`;
+    return c.rank ? [value, `MIN(he.rank) FILTER (WHERE he.category = '${c.category}')`] : [value];
+  });
+
+  const snapshots = await prisma.$executeRawUnsafe(`
+    INSERT INTO character_snapshots (character_id, captured_date, vocation, level, ${columns.join(', ')})
+    SELECT
+      c.id,
+      $1::date,
+      (ARRAY_AGG(he.vocation ORDER BY he.created_at DESC))[1],
+      MAX(he.level),
+      ${pivots.join(',\n      ')}
+    FROM highscore_entries he
+    JOIN worlds w ON w.name = he.world
+    JOIN characters c ON c.name = he.character_name AND c.world_id = w.id
+    WHERE he.captured_date = $1::date
+    GROUP BY c.id
+    ON CONFLICT (character_id, captured_date) DO UPDATE SET
+      vocation = EXCLUDED.vocation,
+      level = EXCLUDED.level,
+      ${columns.map((col) => `${col} = EXCLUDED.${col}`).join(',\n      ')}
+  `, date);
+
+  await updateGains(prisma, date, 'character_id');
+
+  return { characters, snapshots };
+}
+
+/**
+ * Recompute gains for snapshots on `date` and for the next snapshot after it,
+ * following either the name + world (character_id) or the resolved identity.
+ * Gains look back to the last snapshot that had the value, since a category
+ * can be missing on some days. GREATEST drops NULLs, so a first snapshot gains 0.
+ */
+export async function updateGains(
+  prisma: PrismaClient,
+  date: string,
+  key: 'character_id' | 'identity_id',
+): Promise<void> {
+  await prisma.$executeRawUnsafe(`
+    UPDATE character_snapshots s SET
+      exp_gained = GREATEST(0, s.experience - (
+        SELECT p.experience FROM character_snapshots p
+        WHERE p.${key} = s.${key} AND p.captured_date < s.captured_date AND p.experience IS NOT NULL
+        ORDER BY p.captured_date DESC LIMIT 1
+      )),
+      levels_gained = GREATEST(0, s.level - (
+        SELECT p.level FROM character_snapshots p
+        WHERE p.${key} = s.${key} AND p.captured_date < s.captured_date AND p.level IS NOT NULL
+        ORDER BY p.captured_date DESC LIMIT 1
+      ))
+    WHERE s.${key} IN (SELECT ${key} FROM character_snapshots WHERE captured_date = $1::date)
+      AND (
+        s.captured_date = $1::date
+        OR s.captured_date = (
+          SELECT MIN(n.captured_date) FROM character_snapshots n
+          WHERE n.${key} = s.${key} AND n.captured_date > $1::date
+        )
+      )
+  `, date);
+}
+
+/** Captured dates present in highscore_entries, oldest first */
+export async function listHighscoreDates(prisma: PrismaClient, from?: string): Promise<string[]> {
+  const rows = await prisma.$queryRawUnsafe<{ date: string }[]>(`
+    SELECT DISTINCT to_char(captured_date, 'YYYY-MM-DD') AS date
+    FROM highscore_entries
+    WHERE captured_date >= COALESCE($1::date, '-infinity'::date)
+    ORDER BY date
+  `, from ?? null);
+  return rows.map((r) => r.date);
+}
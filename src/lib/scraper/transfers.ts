@@ -1,10 +1,17 @@
 /**
  * Transfers scraper for RubinOT.
  * Scrapes the /transfers page via HTML parsing (no JSON API available yet).
- * Requires Brave Browser to bypass Cloudflare.
+ * Needs a real browser backend (chromium or executable) to bypass Cloudflare.
+ *
+ * The page lists 50 transfers per page, newest first, and only paginates so
+ * far back. Older transfers are reached through the `to` date filter: once a
+ * date window runs out of pages, the next window ends on the oldest day seen.
  */
+import * as cheerio from 'cheerio';
 import { RUBINOT_URLS } from '../utils/constants';
 import type { Page } from 'playwright';
+import { navigateWithCloudflare, rateLimit, sleep } from './browser';
+import { isReplay, snapshotHtml } from './transport';
 
 export interface ScrapedTransfer {
   playerName: string;
@@ -14,40 +21,180 @@ export interface ScrapedTransfer {
   transferDate: string | null;
 }
 
+/** Position in the transfer history — saved between runs to resume a backfill */
+export interface TransfersCursor {
+  /** Upper bound for the `to` date filter (YYYY-MM-DD), null for the newest transfers */
+  before: string | null;
+  /** Page within that date window, 1-based */
+  page: number;
+}
+
+export const FIRST_TRANSFERS_PAGE: TransfersCursor = { before: null, page: 1 };
+
+/** Rows per page — a full page without pagination links may still have a next page */
+const TRANSFERS_PER_PAGE = 50;
+
+/**
+ * Parse a transfers page date. RubinOT format: "DD/MM/YYYY HH:mm:ss".
+ */
+export function parseTransferDate(dateStr: string | null): Date | null {
+  if (!dateStr) return null;
+  const match = dateStr.match(/^(\d{2})\/(\d{2})\/(\d{4})\s+(\d{2}):(\d{2}):(\d{2})$/);
+  if (match) {
+    const [, day, month, year, hour, min, sec] = match;
+    return new Date(`${year}-${month}-${day}T${hour}:${min}:${sec}`);
+  }
+  // Fallback
+  const d = new Date(dateStr);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/** "DD/MM/YYYY ..." → "YYYY-MM-DD", the date filter format */
+function transferDay(dateStr: string | null): string | null {
+  const match = dateStr?.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+  return match ? `${match[3]}-${match[2]}-${match[1]}` : null;
+}
+
 /**
- * Scrape transfers from the current page.
+ * Parse transfers from a /transfers page snapshot.
  * Returns the rows visible on the page (up to 50).
  */
-export async function scrapeTransfersPage(page: Page): Promise<ScrapedTransfer[]> {
-  return page.evaluate(() => {
-    const rows = document.querySelectorAll('table tbody tr');
-    const transfers: ScrapedTransfer[] = [];
-
-    rows.forEach(row => {
-      const cells = row.querySelectorAll('td');
-      if (cells.length < 5) return;
-
-      // Columns: Fecha, Jugador, Nivel, De, (arrow), A
-      const transferDate = cells[0].textContent?.trim() || null;
-      const playerName = cells[1].textContent?.trim() || '';
-      const levelText = cells[2].textContent?.trim() || '';
-      const fromWorld = cells[3].textContent?.trim() || '';
-      // cells[4] is the arrow icon
-      const toWorld = cells[5]?.textContent?.trim() || '';
-
-      const level = levelText ? parseInt(levelText, 10) : null;
-
-      if (playerName && fromWorld && toWorld) {
-        transfers.push({
-          playerName,
-          fromWorld,
-          toWorld,
-          level: Number.isNaN(level) ? null : level,
-          transferDate,
-        });
-      }
-    });
+export function parseTransfersHtml(html: string): ScrapedTransfer[] {
+  const $ = cheerio.load(html);
+  const transfers: ScrapedTransfer[] = [];
+
+  $('table tbody tr').each((_, row) => {
+    const cells = $(row).find('td');
+    if (cells.length < 5) return;
+
+    // Columns: Fecha, Jugador, Nivel, De, (arrow), A
+    const transferDate = cells.eq(0).text().trim() || null;
+    const playerName = cells.eq(1).text().trim();
+    const levelText = cells.eq(2).text().trim();
+    const fromWorld = cells.eq(3).text().trim();
+    // cells[4] is the arrow icon
+    const toWorld = cells.eq(5).text().trim();
 
-    return transfers;
+    const level = levelText ? parseInt(levelText, 10) : null;
+
+    if (playerName && fromWorld && toWorld) {
+      transfers.push({
+        playerName,
+        fromWorld,
+        toWorld,
+        level: Number.isNaN(level) ? null : level,
+        transferDate,
+      });
+    }
+  });
+
+  return transfers;
+}
+
+/**
+ * Highest page number linked from the pagination controls, or null when the
+ * page has no pagination links.
+ */
+export function parseTransfersLastPage(html: string): number | null {
+  const $ = cheerio.load(html);
+  let last: number | null = null;
+  $('a[href*="page="]').each((_, a) => {
+    const match = ($(a).attr('href') ?? '').match(/[?&]page=(\d+)/);
+    if (match) last = Math.max(last ?? 0, parseInt(match[1], 10));
   });
+  return last;
+}
+
+function transfersUrl(cursor: TransfersCursor): string {
+  const params = new URLSearchParams({ page: String(cursor.page) });
+  if (cursor.before) params.set('to', cursor.before);
+  return `${RUBINOT_URLS.transfers}?${params}`;
+}
+
+export interface TransferHistoryOptions {
+  /** Where to start — defaults to the newest page */
+  cursor?: TransfersCursor;
+  /** Stop after this many pages (the returned cursor picks up from there) */
+  maxPages?: number;
+  /**
+   * Called with each page's transfers and the cursor of the page after it
+   * (null once the history is exhausted). Return false to stop early.
+   */
+  onPage?: (transfers: ScrapedTransfer[], next: TransfersCursor | null) => Promise<boolean | void>;
+}
+
+/**
+ * Walk the transfer history from `cursor` back to the earliest transfer,
+ * following pagination within each date window and then narrowing the `to`
+ * filter. Returns the cursor to resume from, or null when the history was
+ * exhausted.
+ */
+export async function scrapeTransferHistory(
+  page: Page,
+  opts: TransferHistoryOptions = {},
+): Promise<{ pages: number; transfers: number; cursor: TransfersCursor | null }> {
+  let cursor: TransfersCursor | null = opts.cursor ?? FIRST_TRANSFERS_PAGE;
+  let pages = 0;
+  let total = 0;
+  // Oldest day seen in the current window, and the first row of the previous page
+  let windowOldest: string | null = null;
+  let previousFirst: string | null = null;
+
+  while (cursor && (opts.maxPages == null || pages < opts.maxPages)) {
+    const url = transfersUrl(cursor);
+    if (pages > 0) await rateLimit('fast');
+    await navigateWithCloudflare(page, RUBINOT_URLS.base + url, 60_000);
+    if (!isReplay()) await sleep(2000); // let the table render
+    const html = await snapshotHtml(page, url);
+    const transfers = parseTransfersHtml(html);
+    pages++;
+
+    // A page that repeats the previous one means the site ignored `page`
+    const first = transfers[0] ? JSON.stringify(transfers[0]) : null;
+    const repeated = first != null && first === previousFirst;
+    previousFirst = first;
+
+    const current: TransfersCursor = cursor;
+    let next: TransfersCursor | null = null;
+    if (repeated) {
+      // Pagination stopped working, so step to the next date window instead
+      if (windowOldest && (!current.before || windowOldest < current.before)) {
+        next = { before: windowOldest, page: 1 };
+      } else {
+        // Nowhere further to go from here; stop at this page rather than report the history done
+        console.warn(`  Warning: ${url} repeats the previous page and its window reaches no further back — stopping here`);
+        break;
+      }
+    } else {
+      total += transfers.length;
+      for (const t of transfers) {
+        const day = transferDay(t.transferDate);
+        if (day && (!windowOldest || day < windowOldest)) windowOldest = day;
+      }
+
+      const lastPage = parseTransfersLastPage(html);
+      const hasNext = lastPage != null ? current.page < lastPage : transfers.length >= TRANSFERS_PER_PAGE;
+      if (transfers.length > 0 && hasNext) {
+        next = { before: current.before, page: current.page + 1 };
+      } else if (windowOldest && (!current.before || windowOldest < current.before)) {
+        // Window exhausted but it reached further back — continue from its oldest day.
+        // That day shows up again in the next window; the upserts dedupe it.
+        next = { before: windowOldest, page: 1 };
+      } else if (transfers.length >= TRANSFERS_PER_PAGE) {
+        console.warn(`  Warning: ${current.before} has more transfers than the pagination reaches — some were skipped`);
+      }
+    }
+
+    console.log(`  ${url}: ${repeated ? 'repeat of the previous page' : `${transfers.length} transfers`}`);
+    if (next && next.page === 1) {
+      console.log(`  Date window exhausted — continuing with transfers up to ${next.before}`);
+      windowOldest = null;
+    }
+
+    const keepGoing = await opts.onPage?.(repeated ? [] : transfers, next);
+    cursor = next;
+    if (keepGoing === false) break;
+  }
+
+  return { pages, transfers: total, cursor };
 }
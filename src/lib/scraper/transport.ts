@@ -0,0 +1,258 @@
+/**
+ * Record/replay transport for RubinOT scrapers.
+ *
+ * Every API call and HTML snapshot the scrapers make goes through here:
+ *   - live:   talk to the site through the browser page (default)
+ *   - record: same as live, but also save every response to disk
+ *   - replay: serve saved responses from disk — no browser, no network
+ *
+ * Recordings live in data/recordings/<name>/, one JSON file per request key.
+ * Select the mode with `--record [name]` / `--replay [name]` on any scraper CLI,
+ * or with SCRAPER_TRANSPORT=record|replay and SCRAPER_RECORDING=<name>.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { BrowserContext, Page } from 'playwright';
+import { RUBINOT_URLS } from '../utils/constants';
+import { scheduleRequest, type RetryReason } from './scheduler';
+
+// ── Configuration ──────────────────────────────────────────────────────
+
+export type TransportMode = 'live' | 'record' | 'replay';
+
+export interface TransportConfig {
+  mode: TransportMode;
+  /** Recording name — a directory under data/recordings/ */
+  recording: string;
+}
+
+const RECORDINGS_DIR = path.join(process.cwd(), 'data', 'recordings');
+
+function modeFromEnv(): TransportMode {
+  const env = process.env.SCRAPER_TRANSPORT?.toLowerCase();
+  return env === 'record' || env === 'replay' ? env : 'live';
+}
+
+let _config: TransportConfig = {
+  mode: modeFromEnv(),
+  recording: process.env.SCRAPER_RECORDING || 'default',
+};
+
+export function configureTransport(config: Partial<TransportConfig>): TransportConfig {
+  _config = { ..._config, ...config };
+  return _config;
+}
+
+export function getTransportConfig(): TransportConfig {
+  return _config;
+}
+
+export function isReplay(): boolean {
+  return _config.mode === 'replay';
+}
+
+/**
+ * Apply `--record [name]` / `--replay [name]` from a script's CLI args.
+ * The name is optional; without it the current recording name is kept.
+ */
+export function configureTransportFromArgs(args: string[]): TransportConfig {
+  for (const mode of ['record', 'replay'] as const) {
+    const idx = args.indexOf(`--${mode}`);
+    if (idx === -1) continue;
+    const next = args[idx + 1];
+    const recording = next && !next.startsWith('--') ? next : _config.recording;
+    configureTransport({ mode, recording });
+  }
+  if (_config.mode !== 'live') {
+    console.log(`Transport: ${_config.mode} (${recordingDir()})`);
+  }
+  return _config;
+}
+
+function recordingDir(): string {
+  return path.join(RECORDINGS_DIR, _config.recording);
+}
+
+// ── Recording storage ──────────────────────────────────────────────────
+
+export interface RecordedResponse {
+  key: string;
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  body: string;
+  recordedAt: string;
+}
+
+/** Strip the site origin so absolute and relative URLs share one key. */
+function normalizeKey(key: string): string {
+  return key.startsWith(RUBINOT_URLS.base) ? key.slice(RUBINOT_URLS.base.length) || '/' : key;
+}
+
+function recordingFile(key: string): string {
+  const slug = key.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80);
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 10);
+  return path.join(recordingDir(), `${slug || 'root'}-${hash}.json`);
+}
+
+function saveRecording(response: RecordedResponse): void {
+  const dir = recordingDir();
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(recordingFile(response.key), JSON.stringify(response, null, 2), 'utf-8');
+}
+
+function loadRecording(key: string): RecordedResponse {
+  const file = recordingFile(key);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No recording for ${key} in ${recordingDir()}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+// ── Requests ───────────────────────────────────────────────────────────
+
+export type TransportResponse = Omit<RecordedResponse, 'recordedAt'>;
+
+type DirectRequest = (url: string) => Promise<Omit<TransportResponse, 'key'>>;
+
+/** Pages that make their own HTTP requests (fetch backend) instead of running fetch in the page */
+const _directPages = new WeakMap<Page, DirectRequest>();
+
+export function registerDirectRequest(page: Page, request: DirectRequest): void {
+  _directPages.set(page, request);
+}
+
+/** Fetch a URL from inside the page so Cloudflare cookies apply. */
+async function liveRequest(page: Page, url: string): Promise<TransportResponse> {
+  const direct = _directPages.get(page);
+  if (direct) return { key: normalizeKey(url), ...(await direct(url)) };
+
+  const res = await page.evaluate(async (apiUrl: string) => {
+    const r = await fetch(apiUrl);
+    return {
+      status: r.status,
+      statusText: r.statusText,
+      contentType: r.headers.get('content-type'),
+      body: await r.text(),
+    };
+  }, url);
+  return { key: normalizeKey(url), ...res };
+}
+
+/** Re-establishes a Cloudflare session on a page — registered by browser.ts */
+let _challengeRecovery: ((page: Page) => Promise<void>) | null = null;
+
+export function setChallengeRecovery(recover: (page: Page) => Promise<void>): void {
+  _challengeRecovery = recover;
+}
+
+function looksLikeJson(res: TransportResponse): boolean {
+  if (res.contentType?.includes('json')) return true;
+  const start = res.body.trimStart()[0];
+  return start === '{' || start === '[';
+}
+
+function classifyResponse(res: TransportResponse, expectJson: boolean): RetryReason | null {
+  if (res.status === 429) return 'rate-limited';
+  if (/just a moment|cf-chl|challenge-platform/i.test(res.body.slice(0, 5000)) && !looksLikeJson(res)) return 'challenge';
+  if (res.status === 502 || res.status === 503 || res.status === 504) return 'server-error';
+  if (expectJson && res.status >= 200 && res.status < 300 && !looksLikeJson(res)) return 'non-json';
+  return null;
+}
+
+export interface FetchOptions {
+  /** Retry HTML/plain-text bodies as a sign of rate limiting */
+  expectJson?: boolean;
+  /** Name used in retry logs */
+  label?: string;
+}
+
+/**
+ * Fetch a URL through the transport and return the raw response.
+ * Live requests go through the shared scheduler (throttle + retries).
+ * Never throws on HTTP errors — callers inspect `status` themselves.
+ */
+export async function fetchText(page: Page, url: string, opts: FetchOptions = {}): Promise<TransportResponse> {
+  const key = normalizeKey(url);
+  if (_config.mode === 'replay') return loadRecording(key);
+
+  const response = await scheduleRequest(
+    opts.label ?? key,
+    () => liveRequest(page, url),
+    (res) => classifyResponse(res, opts.expectJson ?? false),
+    {
+      recover: async (reason) => {
+        if (reason === 'challenge' && _challengeRecovery) await _challengeRecovery(page);
+      },
+    },
+  );
+  if (_config.mode === 'record') {
+    saveRecording({ ...response, recordedAt: new Date().toISOString() });
+  }
+  return response;
+}
+
+/**
+ * Fetch a JSON API endpoint through the transport.
+ * Throws `<label> API <status>: <statusText>` on HTTP errors, like the old in-page fetchers.
+ */
+export async function fetchJson<T>(page: Page, url: string, label: string): Promise<T> {
+  const res = await fetchText(page, url, { expectJson: true, label });
+  if (res.status < 200 || res.status >= 300) {
+    throw new Error(`${label} API ${res.status}: ${res.statusText}`);
+  }
+  try {
+    return JSON.parse(res.body) as T;
+  } catch {
+    throw new Error(`${label} API returned non-JSON: ${res.body.slice(0, 60)}`);
+  }
+}
+
+/**
+ * Snapshot the HTML currently rendered in the page.
+ * `key` identifies the view (e.g. "/bans?world=Auroria") since in-page
+ * interactions like selecting a filter don't always change the URL.
+ */
+export async function snapshotHtml(page: Page, key: string): Promise<string> {
+  const normalized = normalizeKey(key);
+  if (_config.mode === 'replay') return loadRecording(normalized).body;
+
+  const body = await page.content();
+  if (_config.mode === 'record') {
+    saveRecording({
+      key: normalized,
+      status: 200,
+      statusText: 'OK',
+      contentType: 'text/html',
+      body,
+      recordedAt: new Date().toISOString(),
+    });
+  }
+  return body;
+}
+
+// ── Replay context ─────────────────────────────────────────────────────
+
+/**
+ * Stand-in for a browser context in replay mode. Navigation and form
+ * interactions are no-ops; every read goes through the transport instead.
+ */
+export function createReplayContext(): BrowserContext {
+  const page = {
+    goto: async () => null,
+    title: async () => 'replay',
+    content: async () => '',
+    selectOption: async () => [],
+    evaluate: async () => {
+      throw new Error('page.evaluate is not available in replay mode');
+    },
+    close: async () => {},
+  };
+  const context = {
+    pages: () => [page],
+    newPage: async () => page,
+    close: async () => {},
+  };
+  return context as unknown as BrowserContext;
+}
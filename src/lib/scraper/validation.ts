@@ -0,0 +1,183 @@
+/**
+ * Payload validation, quarantine and drift reporting for the scrapers.
+ *
+ * Payloads are checked against the zod schemas in ./schemas. Records that
+ * fail are kept aside (raw JSON + error) and written to quarantined_records
+ * when the run finishes, and every check feeds a per-source drift report:
+ * validation issues, fields the schema doesn't know, and known optional
+ * fields that stopped arriving.
+ */
+import { z } from 'zod';
+import type { PrismaClient, Prisma } from '@prisma/client';
+import { ALIAS } from './schemas';
+
+/** Quarantined rows kept per source — the drift report still counts all of them */
+const MAX_QUARANTINE_PER_SOURCE = 200;
+
+export class PayloadValidationError extends Error {
+  constructor(public source: string, public issues: string[]) {
+    super(`${source} payload failed validation: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'PayloadValidationError';
+  }
+}
+
+export interface SourceDrift {
+  checked: number;
+  quarantined: number;
+  /** "path: message" → occurrences */
+  issues: Record<string, number>;
+  /** Fields present in payloads but not in the schema */
+  newFields: Record<string, number>;
+  /** Optional schema fields that were absent */
+  missingFields: Record<string, number>;
+}
+
+export type DriftReport = Record<string, SourceDrift>;
+
+interface QuarantineEntry {
+  source: string;
+  payload: unknown;
+  error: string;
+}
+
+const drift: DriftReport = {};
+const quarantine: QuarantineEntry[] = [];
+
+function sourceDrift(source: string): SourceDrift {
+  return (drift[source] ??= { checked: 0, quarantined: 0, issues: {}, newFields: {}, missingFields: {} });
+}
+
+function tally(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/** Array indices collapse to [] so the same field aggregates across records */
+function issuePath(path: (string | number)[]): string {
+  return path.map((p) => (typeof p === 'number' ? '[]' : p)).join('.').replace(/\.\[\]/g, '[]') || '(root)';
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  return schema;
+}
+
+/**
+ * Walk the schema alongside a value, tallying unknown and absent-optional keys.
+ * Arrays are sampled by their first element to keep this cheap.
+ */
+function inspectShape(schema: z.ZodTypeAny, value: unknown, path: string, report: SourceDrift): void {
+  const inner = unwrap(schema);
+
+  if (inner instanceof z.ZodArray) {
+    if (Array.isArray(value) && value.length > 0) inspectShape(inner.element, value[0], `${path}[]`, report);
+    return;
+  }
+  if (!(inner instanceof z.ZodObject) || value == null || typeof value !== 'object' || Array.isArray(value)) return;
+
+  const shape = inner.shape as Record<string, z.ZodTypeAny>;
+  const record = value as Record<string, unknown>;
+  const prefix = path ? `${path}.` : '';
+
+  for (const key of Object.keys(record)) {
+    if (!(key in shape)) tally(report.newFields, `${prefix}${key}`);
+  }
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    if (record[key] === undefined) {
+      if (fieldSchema.isOptional() && fieldSchema.description !== ALIAS) tally(report.missingFields, `${prefix}${key}`);
+      continue;
+    }
+    inspectShape(fieldSchema, record[key], `${prefix}${key}`, report);
+  }
+}
+
+function check<S extends z.ZodTypeAny>(source: string, schema: S, value: unknown): z.SafeParseReturnType<unknown, z.infer<S>> {
+  const report = sourceDrift(source);
+  report.checked++;
+  inspectShape(schema, value, '', report);
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    report.quarantined++;
+    const issues = result.error.issues.map((i) => `${issuePath(i.path)}: ${i.message}`);
+    for (const issue of issues) tally(report.issues, issue);
+
+    const kept = quarantine.filter((q) => q.source === source).length;
+    if (kept < MAX_QUARANTINE_PER_SOURCE) {
+      quarantine.push({ source, payload: value, error: issues.join('; ').substring(0, 2000) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Validate a whole payload (an envelope or a single-record response).
+ * Quarantines it and throws PayloadValidationError when it doesn't match.
+ */
+export function validatePayload<S extends z.ZodTypeAny>(source: string, schema: S, payload: unknown): z.infer<S> {
+  const result = check(source, schema, payload);
+  if (!result.success) {
+    throw new PayloadValidationError(source, result.error.issues.map((i) => `${issuePath(i.path)}: ${i.message}`));
+  }
+  return result.data;
+}
+
+/** Validate records one by one; invalid ones are quarantined and dropped. */
+export function validateRecords<S extends z.ZodTypeAny>(source: string, schema: S, records: unknown[]): z.infer<S>[] {
+  const valid: z.infer<S>[] = [];
+  for (const record of records) {
+    const result = check(source, schema, record);
+    if (result.success) valid.push(result.data);
+  }
+  return valid;
+}
+
+export function getDriftReport(): DriftReport {
+  return JSON.parse(JSON.stringify(drift));
+}
+
+/**
+ * Write buffered quarantine entries to quarantined_records and clear the buffer.
+ * Returns the number of rows written.
+ */
+export async function flushQuarantine(prisma: PrismaClient, runId: number | null): Promise<number> {
+  if (quarantine.length === 0) return 0;
+  const entries = quarantine.splice(0);
+  const { count } = await prisma.quarantinedRecord.createMany({
+    data: entries.map((e) => ({
+      source: e.source,
+      runId,
+      // A required Json column can't hold SQL NULL, so a null body is stored as the string "null"
+      payload: (e.payload ?? 'null') as Prisma.InputJsonValue,
+      error: e.error,
+    })),
+  });
+  return count;
+}
+
+function topEntries(counts: Record<string, number>, limit = 5): string[] {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key, n]) => `${key} (${n})`);
+}
+
+/** Print the per-source drift report — call at the end of a scraper run. */
+export function printDriftReport(): void {
+  const sources = Object.entries(drift);
+  if (sources.length === 0) return;
+
+  console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  console.log('  Schema drift');
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+  for (const [source, d] of sources) {
+    console.log(`  ${source}: ${d.checked} checked, ${d.quarantined} quarantined`);
+    for (const issue of topEntries(d.issues)) console.log(`    ✗ ${issue}`);
+    for (const field of topEntries(d.newFields)) console.log(`    + new field ${field}`);
+    // Optional fields absent from every record are the likeliest renames
+    for (const [field, n] of Object.entries(d.missingFields)) {
+      if (n === d.checked) console.log(`    − ${field} missing from all records`);
+    }
+  }
+  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+}
@@ -0,0 +1,154 @@
+// Activity inference from daily highscore snapshots
+//
+// Each snapshot day is compared with the previous snapshot and classified as:
+//   death    — level or experience went down, or a death was recorded that day
+//   training — skills or magic level went up with little experience
+//   hunting  — experience gained
+//   inactive — nothing moved
+//   unknown  — no level or skill change, and no real experience to tell
+//              hunting from inactivity (experience estimated from levels)
+
+import { expForLevel } from './experience';
+
+// --- Types ---
+
+export type ActivityType = 'hunting' | 'training' | 'death' | 'inactive' | 'unknown';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['hunting', 'training', 'death', 'inactive', 'unknown'];
+
+export interface ActivitySnapshot {
+  capturedDate: string | Date;
+  level: number | null;
+  experience: number | null;
+  /** Experience is the minimum of the level, not a captured value */
+  estimatedExp?: boolean;
+  magicLevel?: number | null;
+  fist?: number | null;
+  club?: number | null;
+  sword?: number | null;
+  axe?: number | null;
+  distance?: number | null;
+  shielding?: number | null;
+}
+
+export interface ActivityDay {
+  /** yyyy-MM-dd */
+  date: string;
+  type: ActivityType;
+  expChange: number;
+  levelChange: number;
+  /** Skill and magic levels gained since the previous snapshot */
+  skillGains: number;
+}
+
+export interface ActivitySummary {
+  counts: Record<ActivityType, number>;
+  /** Consecutive active days ending on the latest snapshot; unknown days neither extend nor break it */
+  currentStreak: number;
+  longestStreak: number;
+  longestHuntingStreak: number;
+  /** Days of each type per weekday, Sunday first */
+  weekdays: { weekday: number; counts: Record<ActivityType, number> }[];
+}
+
+// --- Classification ---
+
+const SKILL_KEYS = ['magicLevel', 'fist', 'club', 'sword', 'axe', 'distance', 'shielding'] as const;
+
+/**
+ * Share of the current level's span below which a day with skill gains
+ * counts as training rather than hunting. Exercise and offline training
+ * leave experience almost untouched.
+ */
+const TRAINING_EXP_SHARE = 0.05;
+
+const DAY_MS = 86_400_000;
+
+function dateKey(date: string | Date): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+function emptyCounts(): Record<ActivityType, number> {
+  return { hunting: 0, training: 0, death: 0, inactive: 0, unknown: 0 };
+}
+
+/**
+ * Classifies every snapshot after the first from its change against the
+ * previous one. Skills aren't captured every day, so each skill is compared
+ * with its last known value.
+ *
+ * @param deathDates yyyy-MM-dd days with a recorded death
+ */
+export function classifyActivity(
+  snapshots: ActivitySnapshot[],
+  deathDates: Set<string> = new Set(),
+): ActivityDay[] {
+  const days: ActivityDay[] = [];
+  const lastSkill = new Map<string, number>();
+  let previous: ActivitySnapshot | null = null;
+
+  for (const snapshot of snapshots) {
+    let skillGains = 0;
+    for (const key of SKILL_KEYS) {
+      const value = snapshot[key];
+      if (value == null) continue;
+      const last = lastSkill.get(key);
+      if (last != null && value > last) skillGains += value - last;
+      lastSkill.set(key, value);
+    }
+
+    if (previous) {
+      const date = dateKey(snapshot.capturedDate);
+      const level = snapshot.level ?? previous.level ?? 0;
+      const levelChange = level - (previous.level ?? level);
+      const expChange = snapshot.experience != null && previous.experience != null
+        ? snapshot.experience - previous.experience
+        : 0;
+      const levelSpan = expForLevel(level + 1) - expForLevel(level);
+
+      // Estimated experience only moves on level-ups, so only levels and skills say anything
+      const realExp = !snapshot.estimatedExp && !previous.estimatedExp;
+
+      let type: ActivityType;
+      if (levelChange < 0 || expChange < 0 || deathDates.has(date)) type = 'death';
+      else if (!realExp) type = levelChange > 0 ? 'hunting' : skillGains > 0 ? 'training' : 'unknown';
+      else if (skillGains > 0 && expChange < levelSpan * TRAINING_EXP_SHARE) type = 'training';
+      else if (expChange > 0 || levelChange > 0) type = 'hunting';
+      else type = 'inactive';
+
+      days.push({ date, type, expChange, levelChange, skillGains });
+    }
+    previous = snapshot;
+  }
+  return days;
+}
+
+// --- Streaks and weekly pattern ---
+
+/** Streaks and per-weekday counts; a missing snapshot day breaks a streak */
+export function summarizeActivity(days: ActivityDay[]): ActivitySummary {
+  const counts = emptyCounts();
+  const weekdays = Array.from({ length: 7 }, (_, weekday) => ({ weekday, counts: emptyCounts() }));
+  let streak = 0;
+  let huntingStreak = 0;
+  let longestStreak = 0;
+  let longestHuntingStreak = 0;
+  let lastTime: number | null = null;
+
+  for (const day of days) {
+    const time = new Date(day.date + 'T00:00:00Z').getTime();
+    const consecutive = lastTime != null && time - lastTime === DAY_MS;
+    lastTime = time;
+
+    counts[day.type]++;
+    weekdays[new Date(time).getUTCDay()].counts[day.type]++;
+
+    if (day.type === 'unknown') continue;
+    streak = day.type === 'inactive' ? 0 : (consecutive ? streak : 0) + 1;
+    huntingStreak = day.type === 'hunting' ? (consecutive ? huntingStreak : 0) + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+    longestHuntingStreak = Math.max(longestHuntingStreak, huntingStreak);
+  }
+
+  return { counts, currentStreak: streak, longestStreak, longestHuntingStreak, weekdays };
+}
@@ -0,0 +1,13 @@
+// Auction date formatting
+//
+// The bazaar API sends Unix timestamps; auction_start/auction_end are stored
+// as text in the format the old HTML scraper saw, so both paths agree.
+
+/** Unix timestamps (seconds) in the format the scraped HTML used; strings pass through */
+export function timestampToDateString(ts: number | string | null | undefined): string | null {
+  if (ts == null) return null;
+  if (typeof ts === 'string') return ts;
+  // Unix timestamp (seconds)
+  const date = new Date(ts * 1000);
+  return date.toISOString().replace('T', ' ').replace('.000Z', ' CET');
+}
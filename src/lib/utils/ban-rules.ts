@@ -41,3 +41,22 @@ export function mapBanReason(raw: string | null): string | null {
   if (!raw) return null;
   return RULE_LABELS[raw.trim()] ?? raw;
 }
+
+/** Rule sections — the number in "Regra 2C" */
+const RULE_CATEGORIES: Record<string, string> = {
+  '1': 'Names',
+  '2': 'Cheating',
+  '3': 'Messages & Statements',
+  '4': 'Sales',
+  '5': 'Channel Conduct',
+  '6': 'Company & Legal',
+};
+
+/** Rule section for a raw ban reason (e.g. "Regra 2C" → "Cheating"), null if it isn't a rule code */
+export function mapBanCategory(raw: string | null): string | null {
+  const match = raw?.trim().match(/^Regra\s+(\d+)[A-Z]?$/i);
+  return match ? RULE_CATEGORIES[match[1]] ?? null : null;
+}
+
+/** A player with at least this many recorded bans is flagged as a repeat offender */
+export const REPEAT_OFFENDER_MIN_BANS = 2;
@@ -112,6 +112,9 @@ export const PROFESSION_SKIP_CATEGORIES: Partial<Record<keyof typeof HIGHSCORE_P
   Monks: ['Sword Fighting', 'Shielding', 'Axe Fighting', 'Club Fighting', 'Distance Fighting'],
 };
 
+/** Periods (days) the rank climbers leaderboard compares over */
+export const RANK_MOVER_PERIODS = [1, 7, 30] as const;
+
 /** Shorthand profession aliases for CLI use */
 export const PROFESSION_ALIASES: Record<string, keyof typeof HIGHSCORE_PROFESSIONS> = {
   all: 'All',
@@ -156,9 +159,9 @@ export const CATEGORY_ALIASES: Record<string, keyof typeof HIGHSCORE_CATEGORIES>
   weekly: 'Weekly Tasks',
 };
 
-/** RubinOT website URLs */
+/** RubinOT website URLs (set RUBINOT_BASE_URL to point scrapers at the local mock server) */
 export const RUBINOT_URLS = {
-  base: 'https://rubinot.com.br',
+  base: process.env.RUBINOT_BASE_URL || 'https://rubinot.com.br',
   highscores: '/highscores',
   characters: '/?subtopic=characters',
   currentAuctions: '/bazaar',
@@ -166,6 +169,7 @@ export const RUBINOT_URLS = {
   worlds: '/?subtopic=worlds',
   bans: '/bans',
   transfers: '/transfers',
+  guilds: '/?subtopic=guilds', // &world= lists a world's guilds; &page=view&GuildName= shows one
   // JSON API endpoints (used by scrapers)
   api: {
     bazaar: '/api/bazaar',
@@ -174,6 +178,7 @@ export const RUBINOT_URLS = {
     worlds: '/api/worlds',
     boosted: '/api/boosted',
     deaths: '/api/deaths',
+    guilds: '/api/guilds', // ?world=; append /{name} for members
   },
 } as const;
 
@@ -183,6 +188,10 @@ export const SCRAPER_CONFIG = {
   delayMs: 1500,
   /** Maximum retry attempts for failed requests */
   maxRetries: 3,
+  /** Request ceiling shared by all browser profiles in one process */
+  requestsPerSecond: Number(process.env.SCRAPER_RPS) || 2,
+  /** Upper bound for a single exponential backoff wait */
+  maxBackoffMs: 120_000,
   /** Cache validity period in hours */
   cacheHours: 1,
 } as const;
@@ -204,4 +213,5 @@ export type Vocation = (typeof VOCATIONS)[number];
 export type Skill = (typeof SKILLS)[number];
 export type HighscoreCategory = keyof typeof HIGHSCORE_CATEGORIES;
 export type HighscoreProfession = keyof typeof HIGHSCORE_PROFESSIONS;
+export type RankMoverPeriod = (typeof RANK_MOVER_PERIODS)[number];
 export type DealScoreVariant = 'great' | 'good' | 'fair' | 'overpriced';
@@ -0,0 +1,151 @@
+// Tibia experience table and level ETA projection
+//
+// Formula: expForLevel(L) = 50/3 * (L^3 - 6L^2 + 17L - 12)
+// Level 1 starts at 0 exp and level 2 at 100 exp.
+
+// --- Experience table ---
+
+/** Total experience a character has on reaching a level */
+export function expForLevel(level: number): number {
+  if (level <= 1) return 0;
+  // (L - 1)(L^2 - 5L + 12) is always a multiple of 3, so this stays an integer
+  return (50 * (level - 1) * (level * level - 5 * level + 12)) / 3;
+}
+
+/** Level a character with this much total experience is at */
+export function levelForExp(exp: number): number {
+  if (exp < expForLevel(2)) return 1;
+  // The cubic term dominates, so the cube root lands within a level or two
+  let level = Math.max(1, Math.floor(Math.cbrt((3 * exp) / 50)));
+  while (level > 1 && expForLevel(level) > exp) level--;
+  while (expForLevel(level + 1) <= exp) level++;
+  return level;
+}
+
+/** Experience still needed to reach a target level */
+export function expToLevel(targetLevel: number, currentExp: number): number {
+  return Math.max(0, expForLevel(targetLevel) - currentExp);
+}
+
+// --- Level projection ---
+
+/** Most recent days of history the projection samples from */
+export const PROJECTION_HISTORY_DAYS = 90;
+/** Simulated futures behind each projection */
+const PROJECTION_RUNS = 1000;
+/** Futures still short of the target after this many days count as never arriving */
+const PROJECTION_HORIZON_DAYS = 5 * 365;
+
+export interface DailyGainSnapshot {
+  capturedDate: string | Date;
+  expGained: number | null;
+}
+
+export interface LevelProjection {
+  targetLevel: number;
+  expNeeded: number;
+  /** Days of history the daily gains were sampled from */
+  sampleDays: number;
+  avgDailyExp: number;
+  /** Days until the target at the 10th, 50th and 90th percentile; null beyond the horizon */
+  optimisticDays: number | null;
+  medianDays: number | null;
+  pessimisticDays: number | null;
+  optimisticDate: string | null;
+  medianDate: string | null;
+  pessimisticDate: string | null;
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Spreads each snapshot's gain over the days since the previous snapshot, so
+ * a gap in the highscores doesn't read as one huge day. The first snapshot
+ * has nothing to compare against and is skipped.
+ */
+export function dailyExpGains(
+  snapshots: DailyGainSnapshot[],
+  historyDays: number = PROJECTION_HISTORY_DAYS,
+): number[] {
+  const gains: number[] = [];
+  for (let i = snapshots.length - 1; i > 0 && gains.length < historyDays; i--) {
+    const days = Math.max(1, Math.round(
+      (new Date(snapshots[i].capturedDate).getTime() - new Date(snapshots[i - 1].capturedDate).getTime()) / DAY_MS,
+    ));
+    const perDay = Math.max(0, snapshots[i].expGained ?? 0) / days;
+    for (let d = 0; d < days && gains.length < historyDays; d++) gains.push(perDay);
+  }
+  return gains.reverse();
+}
+
+/** Small seeded PRNG (mulberry32) so the same history always projects the same dates */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Projects when a character reaches a target level by replaying its own
+ * history: each simulated future draws days at random from the past daily
+ * gains, rest days included, until the exp needed is covered. The spread of
+ * those futures gives an optimistic, median and pessimistic arrival date.
+ *
+ * Returns null when the target is already reached or there is no gain to sample.
+ */
+export function projectLevel(
+  currentExp: number,
+  targetLevel: number,
+  dailyGains: number[],
+  from: Date = new Date(),
+): LevelProjection | null {
+  const expNeeded = expToLevel(targetLevel, currentExp);
+  const total = dailyGains.reduce((sum, g) => sum + g, 0);
+  if (expNeeded <= 0 || total <= 0) return null;
+
+  const random = seededRandom(Math.round(currentExp) ^ (targetLevel * 2654435761) ^ dailyGains.length);
+  const outcomes: number[] = [];
+  for (let run = 0; run < PROJECTION_RUNS; run++) {
+    let gained = 0;
+    let days = 0;
+    while (gained < expNeeded && days < PROJECTION_HORIZON_DAYS) {
+      gained += dailyGains[Math.floor(random() * dailyGains.length)];
+      days++;
+    }
+    outcomes.push(gained >= expNeeded ? days : Infinity);
+  }
+  outcomes.sort((a, b) => a - b);
+
+  const toDays = (p: number) => {
+    const days = percentile(outcomes, p);
+    return Number.isFinite(days) ? days : null;
+  };
+  const toDate = (days: number | null) =>
+    days != null ? new Date(from.getTime() + days * DAY_MS).toISOString().split('T')[0] : null;
+
+  const optimisticDays = toDays(0.1);
+  const medianDays = toDays(0.5);
+  const pessimisticDays = toDays(0.9);
+
+  return {
+    targetLevel,
+    expNeeded,
+    sampleDays: dailyGains.length,
+    avgDailyExp: Math.round(total / dailyGains.length),
+    optimisticDays,
+    medianDays,
+    pessimisticDays,
+    optimisticDate: toDate(optimisticDays),
+    medianDate: toDate(medianDays),
+    pessimisticDate: toDate(pessimisticDays),
+  };
+}
@@ -338,3 +338,110 @@ export function getRelevantSkills(vocation: Vocation): SkillCategory[] {
       return ['fist', 'shielding', 'magic', 'sword', 'axe', 'club', 'distance'];
   }
 }
+
+// --- Tracked Character Projections ---
+
+const DAY_MS = 86_400_000;
+
+/** Days of skill history behind the observed training rate */
+export const SKILL_RATE_WINDOW_DAYS = 30;
+
+/**
+ * Map a character's vocation name ("Elite Knight", "Master Sorcerer", ...)
+ * to its calculator vocation. Returns null for vocationless characters.
+ */
+export function calculatorVocation(vocationName: string | null): Vocation | null {
+  const voc = (vocationName ?? '').toLowerCase();
+  if (voc.includes('knight')) return 'knight';
+  if (voc.includes('paladin')) return 'paladin';
+  if (voc.includes('sorcerer')) return 'sorcerer';
+  if (voc.includes('druid')) return 'druid';
+  if (voc.includes('monk')) return 'monk';
+  return null;
+}
+
+export interface SkillProjection {
+  currentSkill: number;
+  /** Effective skill points gained per day over the rate window */
+  pointsPerDay: number;
+  /** Date the skill last went up, which the progress estimate counts from */
+  lastLevelUp: string;
+  daysToNext: number | null;
+  nextLevelDate: string | null;
+}
+
+/**
+ * Project the next skill level from a tracked character's own history.
+ *
+ * Highscores only show whole skill levels, so the training rate is measured
+ * in skill points: the points for every level gained within the window,
+ * spread over the window. Progress into the current level is then assumed
+ * to have accrued at that rate since the last level up.
+ *
+ * @param history Skill readings ordered oldest first
+ */
+export function projectSkillFromHistory(
+  history: { date: string; value: number }[],
+  category: SkillCategory,
+  vocation: Vocation,
+  windowDays: number = SKILL_RATE_WINDOW_DAYS,
+): SkillProjection | null {
+  if (history.length < 2) return null;
+  const latest = history[history.length - 1];
+  const latestTime = new Date(latest.date).getTime();
+
+  const windowStart = latestTime - windowDays * DAY_MS;
+  const start = history.find((h) => new Date(h.date).getTime() >= windowStart) ?? history[0];
+  const days = (latestTime - new Date(start.date).getTime()) / DAY_MS;
+
+  let lastLevelUp = history[0].date;
+  for (let i = history.length - 1; i > 0; i--) {
+    if (history[i].value > history[i - 1].value) {
+      lastLevelUp = history[i].date;
+      break;
+    }
+  }
+
+  const gained = totalPointsNeeded(start.value, 100, latest.value, category, vocation);
+  const pointsPerDay = days > 0 ? gained / days : 0;
+
+  let daysToNext: number | null = null;
+  let nextLevelDate: string | null = null;
+  if (pointsPerDay > 0) {
+    const sinceLevelUp = (latestTime - new Date(lastLevelUp).getTime()) / DAY_MS;
+    const needed = effectivePointsForLevel(latest.value, category, vocation);
+    // Overdue by the estimate means the level is due any day now
+    daysToNext = Math.max(1, Math.ceil((needed - pointsPerDay * sinceLevelUp) / pointsPerDay));
+    nextLevelDate = new Date(latestTime + daysToNext * DAY_MS).toISOString().split('T')[0];
+  }
+
+  return {
+    currentSkill: latest.value,
+    pointsPerDay,
+    lastLevelUp: new Date(lastLevelUp).toISOString().split('T')[0],
+    daysToNext,
+    nextLevelDate,
+  };
+}
+
+/**
+ * Cost of buying the weapons for a skill target outright, per weapon type,
+ * in the unit of `prices`. Current progress into the level isn't on the
+ * highscores, so the level is assumed to have just started. Types without a
+ * price are skipped.
+ */
+export function calculateWeaponCosts(
+  category: SkillCategory,
+  vocation: Vocation,
+  currentSkill: number,
+  targetSkill: number,
+  prices: Record<string, number | null>,
+): { name: string; count: number; unitPrice: number; totalPrice: number }[] {
+  const noModifiers = { privateDummy: false, doubleEvent: false, vip: false };
+  const { weapons } = calculateWeaponsNeeded(category, vocation, currentSkill, 100, targetSkill, noModifiers);
+  return weapons.flatMap((w) => {
+    const unitPrice = prices[w.name];
+    if (unitPrice == null) return [];
+    return [{ name: w.name, count: w.count, unitPrice, totalPrice: w.count * unitPrice }];
+  });
+}
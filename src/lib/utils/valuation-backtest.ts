@@ -0,0 +1,199 @@
+// Valuation backtesting
+//
+// Replays the sold-auction archive in end-time order. Every sale is priced by
+// a valuation model using only sales that ended before it, then the estimate
+// is scored against what the character actually sold for. The market index and
+// world factors are rebuilt from that same history each month, so they never
+// see the future.
+
+import {
+  buildMarketIndex,
+  buildWorldAdjustments,
+  estimateFromComparables,
+  getVocationFamily,
+  levelBand,
+  type Confidence,
+  type MarketIndex,
+  type WorldAdjustments,
+  type SoldComparable,
+  type ValuationModel,
+} from './valuation';
+
+// --- Types ---
+
+export interface BacktestMetrics {
+  /** Sales the model produced an estimate for */
+  count: number;
+  /** Mean absolute error, TC */
+  mae: number;
+  /** Mean absolute percentage error, 0–1 */
+  mape: number;
+  /** Mean signed error as a share of the sold price; positive overprices */
+  bias: number;
+  /** Share of sold prices inside the estimate's min–max band, 0–1 */
+  bandCoverage: number;
+}
+
+export interface BacktestSegment extends BacktestMetrics {
+  key: string;
+}
+
+export interface BacktestReport {
+  modelVersion: string;
+  /** Sales replayed */
+  evaluated: number;
+  overall: BacktestMetrics;
+  byFamily: BacktestSegment[];
+  byLevelBand: BacktestSegment[];
+  byWorld: BacktestSegment[];
+  byConfidence: BacktestSegment[];
+}
+
+export interface BacktestOptions {
+  /** Only score sales that ended on or after this date; older ones still serve as comparables */
+  since?: Date | null;
+  /** Only score the most recent N sales */
+  limit?: number | null;
+  /** world → PvP type for every known world, so worlds without sales yet take their PvP type's factor */
+  worldPvpTypes?: Map<string, string>;
+}
+
+interface Prediction {
+  sale: SoldComparable;
+  estimate: number;
+  minPrice: number;
+  maxPrice: number;
+  confidence: Confidence;
+}
+
+// --- Segments ---
+
+function metrics(predictions: Prediction[]): BacktestMetrics {
+  const n = predictions.length;
+  if (n === 0) return { count: 0, mae: 0, mape: 0, bias: 0, bandCoverage: 0 };
+
+  let absError = 0;
+  let pctError = 0;
+  let signedPct = 0;
+  let inBand = 0;
+  for (const p of predictions) {
+    const error = p.estimate - p.sale.soldPrice;
+    absError += Math.abs(error);
+    pctError += Math.abs(error) / p.sale.soldPrice;
+    signedPct += error / p.sale.soldPrice;
+    if (p.sale.soldPrice >= p.minPrice && p.sale.soldPrice <= p.maxPrice) inBand++;
+  }
+
+  return {
+    count: n,
+    mae: Math.round(absError / n),
+    mape: pctError / n,
+    bias: signedPct / n,
+    bandCoverage: inBand / n,
+  };
+}
+
+const byCount = (a: BacktestSegment, b: BacktestSegment) => b.count - a.count;
+
+function segment(
+  predictions: Prediction[],
+  keyOf: (p: Prediction) => string,
+  compare: (a: BacktestSegment, b: BacktestSegment) => number = byCount,
+): BacktestSegment[] {
+  const groups = new Map<string, Prediction[]>();
+  for (const p of predictions) {
+    const key = keyOf(p);
+    const list = groups.get(key);
+    if (list) list.push(p);
+    else groups.set(key, [p]);
+  }
+  return [...groups.entries()]
+    .map(([key, list]) => ({ key, ...metrics(list) }))
+    .sort(compare);
+}
+
+// --- Replay ---
+
+/**
+ * Backtests each model over the same sales. Sales without a parseable end
+ * time can't be placed in history and are skipped; sales ending at the same
+ * moment never see each other.
+ */
+export function backtestValuations(
+  sold: SoldComparable[],
+  models: ValuationModel[],
+  options: BacktestOptions = {},
+): BacktestReport[] {
+  const timeline = sold
+    .filter((s) => s.endedAt)
+    .sort((a, b) => a.endedAt!.getTime() - b.endedAt!.getTime());
+
+  let firstScored = 0;
+  if (options.since) {
+    const since = options.since.getTime();
+    firstScored = timeline.findIndex((s) => s.endedAt!.getTime() >= since);
+    if (firstScored === -1) firstScored = timeline.length;
+  }
+  if (options.limit) firstScored = Math.max(firstScored, timeline.length - options.limit);
+
+  const predictions = models.map(() => [] as Prediction[]);
+  const historyByFamily = new Map<string, SoldComparable[]>();
+  const history: SoldComparable[] = [];
+  const useIndex = models.some((m) => m.marketIndex || m.worldAdjustment);
+  const useWorlds = models.some((m) => m.worldAdjustment);
+  let index: MarketIndex | null = null;
+  let worlds: WorldAdjustments | null = null;
+  let indexMonth = '';
+  // Sales are added to the history only once every sale at the same end time has been priced
+  let pending: SoldComparable[] = [];
+
+  for (let i = 0; i < timeline.length; i++) {
+    const sale = timeline[i];
+    if (pending.length > 0 && pending[0].endedAt!.getTime() < sale.endedAt!.getTime()) {
+      for (const p of pending) {
+        history.push(p);
+        const family = getVocationFamily(p.vocation);
+        const list = historyByFamily.get(family);
+        if (list) list.push(p);
+        else historyByFamily.set(family, [p]);
+      }
+      pending = [];
+    }
+    pending.push(sale);
+    if (i < firstScored) continue;
+
+    const asOf = sale.endedAt!;
+    if (useIndex && asOf.toISOString().slice(0, 7) !== indexMonth) {
+      index = buildMarketIndex(history, asOf);
+      worlds = useWorlds ? buildWorldAdjustments(history, index, asOf, options.worldPvpTypes) : null;
+      indexMonth = asOf.toISOString().slice(0, 7);
+    }
+
+    const pool = historyByFamily.get(getVocationFamily(sale.vocation)) ?? [];
+    models.forEach((model, m) => {
+      const result = estimateFromComparables(sale, pool, model, { asOf, index, worlds });
+      if (!result) return;
+      predictions[m].push({
+        sale,
+        estimate: result.valuation.estimatedValue,
+        minPrice: result.valuation.minPrice,
+        maxPrice: result.valuation.maxPrice,
+        confidence: result.valuation.confidence,
+      });
+    });
+  }
+
+  const evaluated = timeline.length - firstScored;
+  return models.map((model, m) => {
+    const list = predictions[m];
+    return {
+      modelVersion: model.version,
+      evaluated,
+      overall: metrics(list),
+      byFamily: segment(list, (p) => getVocationFamily(p.sale.vocation)),
+      byLevelBand: segment(list, (p) => levelBand(p.sale.level), (a, b) => parseInt(a.key, 10) - parseInt(b.key, 10)),
+      byWorld: segment(list, (p) => p.sale.world ?? 'Unknown'),
+      byConfidence: segment(list, (p) => p.confidence),
+    };
+  });
+}
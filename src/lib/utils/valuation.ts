@@ -1,15 +1,139 @@
+import type { PrismaClient } from '@prisma/client';
 import prisma from '@/lib/db/prisma';
 
 // PREMIUM_GATE: This module is available to all users now.
 // To gate behind premium, wrap the call to computeValuations() in a premium check.
 
+// Character valuation engine
+//
+// Prices a character from the sold auctions most similar to it. What
+// "similar" means is a ValuationModel: a weighted set of features plus the
+// comparable-selection rules. Models are versioned and every estimate carries
+// the version that produced it, so the deal badges, /api/valuation and the
+// progression card always agree and change together.
+//
+// Prices drift, so newer models also weight comparables by how recently they
+// sold and restate old sale prices in today's TC with a market index. Prices
+// also differ between worlds, so the latest models learn a factor per world
+// and PvP type and restate each comparable as if sold on the subject's world.
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export type Confidence = 'high' | 'medium' | 'low';
+
 export type ValuationData = {
+  modelVersion: string;
   estimatedValue: number;
   minPrice: number;
   maxPrice: number;
   sampleSize: number;
   itemBonus: number;
-  confidence: 'high' | 'medium' | 'low';
+  confidence: Confidence;
+  /** Day (yyyy-MM-dd) whose TC the prices are expressed in */
+  pricedAt: string;
+  /** Learned price multiplier of the character's world; 1 when not modelled */
+  worldFactor: number;
+};
+
+export interface ComparableAuction {
+  externalId: string;
+  characterName: string;
+  level: number;
+  vocation: string;
+  soldPrice: number;
+  /** The sold price restated in today's TC on the priced character's world */
+  adjustedPrice: number;
+  /** 0–100 */
+  similarity: number;
+  url: string;
+}
+
+export interface CharacterValuation extends ValuationData {
+  comparables: ComparableAuction[];
+  /** Feature weights of the model used */
+  factors: Partial<Record<FeatureKey, number>>;
+}
+
+export interface FeatureContribution {
+  feature: FeatureKey | 'displayItems';
+  /** Model weight; null for display items, which are priced as a bonus on top */
+  weight: number | null;
+  /** TC the feature moves the estimate by */
+  tc: number;
+}
+
+export interface ValuationExplanation extends CharacterValuation {
+  /** Price of the sales in the level window before any feature is compared */
+  baseline: number;
+  /** Sum to estimatedValue together with the baseline */
+  contributions: FeatureContribution[];
+}
+
+/** The character being priced */
+export interface ValuationSubject {
+  vocation: string;
+  level: number;
+  world?: string | null;
+  magicLevel?: number | null;
+  fist?: number | null;
+  club?: number | null;
+  sword?: number | null;
+  axe?: number | null;
+  distance?: number | null;
+  shielding?: number | null;
+  charmPoints?: number | null;
+  primalOrdealAvailable?: boolean | null;
+  soulWarAvailable?: boolean | null;
+  sanguineBloodAvailable?: boolean | null;
+  storeItemsCount?: number | null;
+  mountsCount?: number | null;
+  outfitsCount?: number | null;
+  bossPoints?: number | null;
+  displayItems?: string | null;
+}
+
+/** A sold auction the subject is compared against */
+export interface SoldComparable extends Omit<ValuationSubject, 'displayItems'> {
+  externalId: string;
+  characterName: string;
+  world: string | null;
+  pvpType: string | null;
+  soldPrice: number;
+  /** When the auction ended, if the scraped end time parses */
+  endedAt: Date | null;
+  url: string;
+}
+
+/** Stats of a tracked character, as the progression pages know them */
+export interface CharacterStats {
+  level: number;
+  vocation: string;
+  world?: string | null;
+  magicLevel?: number | null;
+  skills?: {
+    fist?: number | null;
+    club?: number | null;
+    sword?: number | null;
+    axe?: number | null;
+    distance?: number | null;
+    shielding?: number | null;
+    fishing?: number | null;
+  };
+  charmPoints?: number | null;
+  quests?: {
+    primalOrdeal?: boolean | null;
+    soulWar?: boolean | null;
+    sanguineBlood?: boolean | null;
+  };
+  mountsCount?: number | null;
+  outfitsCount?: number | null;
+  bossPoints?: number | null;
+}
+
+type AuctionInput = Omit<ValuationSubject, 'vocation' | 'level'> & {
+  id: number;
+  vocation: string | null;
+  level: number | null;
 };
 
 // ── Vocation helpers ──────────────────────────────────────────────────
@@ -28,8 +152,9 @@ const VOCATION_FAMILY: Record<string, string> = {
   None: 'None',
 };
 
-const PRIMARY_SKILL: Record<string, string> = {
-  Knight: 'sword',
+/** Which skill matters most for each vocation family */
+const PRIMARY_SKILL: Record<string, 'magicLevel' | 'fist' | 'sword' | 'distance'> = {
+  Knight: 'sword', // or axe/club, but sword is most common
   Paladin: 'distance',
   Sorcerer: 'magicLevel',
   Druid: 'magicLevel',
@@ -37,14 +162,368 @@ const PRIMARY_SKILL: Record<string, string> = {
   None: 'magicLevel',
 };
 
-function getVocationFamily(vocation: string): string {
+export function getVocationFamily(vocation: string): string {
   return VOCATION_FAMILY[vocation] || vocation;
 }
 
-function getFamilyVocations(family: string): string[] {
-  return Object.entries(VOCATION_FAMILY)
-    .filter(([, f]) => f === family)
-    .map(([v]) => v);
+// ── Level bands ──────────────────────────────────────────────────────
+
+export const LEVEL_BANDS = [
+  { min: 8, max: 99 },
+  { min: 100, max: 199 },
+  { min: 200, max: 299 },
+  { min: 300, max: 399 },
+  { min: 400, max: 499 },
+  { min: 500, max: 699 },
+  { min: 700, max: 999 },
+  { min: 1000, max: Infinity },
+];
+
+/** Label of the band a level falls in, e.g. "300-399" or "1000+" */
+export function levelBand(level: number): string {
+  const band = LEVEL_BANDS.find((b) => level >= b.min && level <= b.max);
+  if (!band) return `1-${LEVEL_BANDS[0].min - 1}`;
+  return band.max === Infinity ? `${band.min}+` : `${band.min}-${band.max}`;
+}
+
+// ── Features ──────────────────────────────────────────────────────────
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function proximityScore(a: number | null | undefined, b: number | null | undefined, maxDiff: number): number {
+  if (a == null || b == null) return 0.5; // neutral if missing
+  return clamp(1 - Math.abs(a - b) / maxDiff, 0, 1);
+}
+
+const QUEST_FLAGS = ['primalOrdealAvailable', 'soulWarAvailable', 'sanguineBloodAvailable'] as const;
+
+/** Each feature scores how alike two characters are on one aspect, 0–1 */
+const FEATURES = {
+  level: (t: ValuationSubject, s: SoldComparable) => proximityScore(t.level, s.level, 200),
+  magicLevel: (t: ValuationSubject, s: SoldComparable) => proximityScore(t.magicLevel, s.magicLevel, 50),
+  primarySkill: (t: ValuationSubject, s: SoldComparable) => {
+    const field = PRIMARY_SKILL[getVocationFamily(t.vocation)] || 'magicLevel';
+    const maxDiff = field === 'magicLevel' ? 50 : 30;
+    return proximityScore(t[field], s[field], maxDiff);
+  },
+  charm: (t: ValuationSubject, s: SoldComparable) => proximityScore(t.charmPoints, s.charmPoints, 5000),
+  quests: (t: ValuationSubject, s: SoldComparable) => {
+    let matches = 0;
+    let total = 0;
+    for (const flag of QUEST_FLAGS) {
+      if (t[flag] == null || s[flag] == null) continue;
+      matches += t[flag] === s[flag] ? 1 : 0;
+      total++;
+    }
+    return total > 0 ? matches / total : 0.5;
+  },
+  storeItems: (t: ValuationSubject, s: SoldComparable) => proximityScore(t.storeItemsCount, s.storeItemsCount, 50),
+  extras: (t: ValuationSubject, s: SoldComparable) =>
+    (proximityScore(t.mountsCount, s.mountsCount, 100) +
+      proximityScore(t.outfitsCount, s.outfitsCount, 100) +
+      proximityScore(t.bossPoints, s.bossPoints, 10000)) / 3,
+} satisfies Record<string, (target: ValuationSubject, sold: SoldComparable) => number>;
+
+export type FeatureKey = keyof typeof FEATURES;
+
+// ── Models ────────────────────────────────────────────────────────────
+
+export interface ValuationModel {
+  version: string;
+  /** Features used and their weights, summing to 1 */
+  weights: Partial<Record<FeatureKey, number>>;
+  /** Only sold auctions within this many levels are considered */
+  levelWindow: number;
+  /** Comparables below this similarity are ignored */
+  minSimilarity: number;
+  /** Fewer comparables than this and no estimate is made */
+  minComparables: number;
+  maxComparables: number;
+  /** Add a bonus for tiered and high-value displayed items */
+  itemBonus: boolean;
+  /** Age in days at which a sale counts half as much; null weighs all sales alike */
+  recencyHalfLifeDays: number | null;
+  /** Restate old sale prices in today's TC with the market index */
+  marketIndex: boolean;
+  /** Restate comparables to the subject's world with learned world and PvP type factors */
+  worldAdjustment: boolean;
+}
+
+export const VALUATION_MODELS: Record<string, ValuationModel> = {
+  'similarity-v1': {
+    version: 'similarity-v1',
+    weights: {
+      level: 0.35,
+      magicLevel: 0.15,
+      primarySkill: 0.15,
+      charm: 0.10,
+      quests: 0.10,
+      storeItems: 0.10,
+      extras: 0.05,
+    },
+    levelWindow: 200,
+    minSimilarity: 0.3,
+    minComparables: 3,
+    maxComparables: 30,
+    itemBonus: true,
+    recencyHalfLifeDays: null,
+    marketIndex: false,
+    worldAdjustment: false,
+  },
+  'similarity-v2': {
+    version: 'similarity-v2',
+    weights: {
+      level: 0.35,
+      magicLevel: 0.15,
+      primarySkill: 0.15,
+      charm: 0.10,
+      quests: 0.10,
+      storeItems: 0.10,
+      extras: 0.05,
+    },
+    levelWindow: 200,
+    minSimilarity: 0.3,
+    minComparables: 3,
+    maxComparables: 30,
+    itemBonus: true,
+    recencyHalfLifeDays: 90,
+    marketIndex: true,
+    worldAdjustment: false,
+  },
+  'similarity-v3': {
+    version: 'similarity-v3',
+    weights: {
+      level: 0.35,
+      magicLevel: 0.15,
+      primarySkill: 0.15,
+      charm: 0.10,
+      quests: 0.10,
+      storeItems: 0.10,
+      extras: 0.05,
+    },
+    levelWindow: 200,
+    minSimilarity: 0.3,
+    minComparables: 3,
+    maxComparables: 30,
+    itemBonus: true,
+    recencyHalfLifeDays: 90,
+    marketIndex: true,
+    worldAdjustment: true,
+  },
+};
+
+export const CURRENT_VALUATION_MODEL = VALUATION_MODELS['similarity-v3'];
+
+/** The model for a stored version, or the current one if unknown */
+export function getValuationModel(version?: string | null): ValuationModel {
+  return (version && VALUATION_MODELS[version]) || CURRENT_VALUATION_MODEL;
+}
+
+/** Weighted feature score, 0–1. With no features every sale is equally similar */
+function similarity(model: ValuationModel, target: ValuationSubject, sold: SoldComparable): number {
+  let score = 0;
+  let total = 0;
+  for (const [key, weight] of Object.entries(model.weights) as [FeatureKey, number][]) {
+    score += weight * FEATURES[key](target, sold);
+    total += weight;
+  }
+  return total > 0 ? score / total : 1;
+}
+
+// ── Market index ─────────────────────────────────────────────────────
+
+/** Months with fewer sales than this in a segment don't get an index value */
+const MIN_INDEX_SAMPLES = 8;
+/** Bounds on how far an old price is restated, so a thin month can't distort it */
+const INDEX_FACTOR_MIN = 0.5;
+const INDEX_FACTOR_MAX = 2;
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Median TC per level of the sales in each month, per vocation family and
+ * level band, with a family-wide series for bands too thin to have their own.
+ * Each series is referenced to its latest month on or before `asOf`.
+ */
+export interface MarketIndex {
+  asOf: Date;
+  /** segment key → yyyy-MM → median TC per level */
+  series: Map<string, Map<string, number>>;
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Builds the index from sales that ended on or before `asOf` */
+export function buildMarketIndex(sold: SoldComparable[], asOf: Date = new Date()): MarketIndex {
+  const samples = new Map<string, Map<string, number[]>>();
+  const add = (segment: string, month: string, value: number) => {
+    let months = samples.get(segment);
+    if (!months) samples.set(segment, (months = new Map()));
+    const list = months.get(month);
+    if (list) list.push(value);
+    else months.set(month, [value]);
+  };
+
+  for (const s of sold) {
+    if (!s.endedAt || s.endedAt > asOf || s.level <= 0) continue;
+    const family = getVocationFamily(s.vocation);
+    const month = monthKey(s.endedAt);
+    const perLevel = s.soldPrice / s.level;
+    add(`${family}|${levelBand(s.level)}`, month, perLevel);
+    add(family, month, perLevel);
+  }
+
+  const series = new Map<string, Map<string, number>>();
+  for (const [segment, months] of samples) {
+    const values = new Map<string, number>();
+    for (const [month, list] of [...months].sort(([a], [b]) => a.localeCompare(b))) {
+      if (list.length >= MIN_INDEX_SAMPLES) values.set(month, median(list));
+    }
+    if (values.size > 0) series.set(segment, values);
+  }
+  return { asOf, series };
+}
+
+/** Latest index value on or before a month */
+function indexValue(values: Map<string, number>, month: string): number | null {
+  let found: number | null = null;
+  for (const [m, value] of values) {
+    if (m > month) break;
+    found = value;
+  }
+  return found;
+}
+
+/**
+ * Multiplier that restates a sale's price in the index's reference month.
+ * Uses the sale's family and band, else its family, else leaves it as is.
+ */
+export function indexFactor(index: MarketIndex, sale: SoldComparable): number {
+  if (!sale.endedAt) return 1;
+  const family = getVocationFamily(sale.vocation);
+  const saleMonth = monthKey(sale.endedAt);
+  const refMonth = monthKey(index.asOf);
+
+  for (const segment of [`${family}|${levelBand(sale.level)}`, family]) {
+    const values = index.series.get(segment);
+    if (!values) continue;
+    const then = indexValue(values, saleMonth) ?? values.values().next().value!;
+    const now = indexValue(values, refMonth);
+    if (then > 0 && now != null) return clamp(now / then, INDEX_FACTOR_MIN, INDEX_FACTOR_MAX);
+  }
+  return 1;
+}
+
+function recencyWeight(model: ValuationModel, sale: SoldComparable, asOf: Date): number {
+  if (model.recencyHalfLifeDays == null) return 1;
+  // Undated sales count as one half-life old
+  const ageDays = sale.endedAt
+    ? Math.max(0, (asOf.getTime() - sale.endedAt.getTime()) / DAY_MS)
+    : model.recencyHalfLifeDays;
+  return Math.pow(0.5, ageDays / model.recencyHalfLifeDays);
+}
+
+// ── World adjustments ────────────────────────────────────────────────
+
+/**
+ * Sales at which a world's (or PvP type's) own price level counts as much as
+ * its parent's. Thin worlds stay close to their PvP type, thin PvP types to 1.
+ */
+const WORLD_SHRINKAGE = 30;
+const WORLD_FACTOR_MIN = 0.5;
+const WORLD_FACTOR_MAX = 2;
+
+/**
+ * How much dearer characters sell on each world and PvP type than the same
+ * family and level band elsewhere, as price multipliers.
+ */
+export interface WorldAdjustments {
+  /** world → PvP type, for every known world whether or not it has sales */
+  pvpTypes: Map<string, string>;
+  pvpFactors: Map<string, number>;
+  worldFactors: Map<string, number>;
+}
+
+function shrunkMean(values: number[], prior: number): number {
+  const n = values.length;
+  if (n === 0) return prior;
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  return prior + (mean - prior) * (n / (n + WORLD_SHRINKAGE));
+}
+
+/**
+ * Learns world and PvP type factors from sold auctions. Prices are compared
+ * per level against their family and level band (restated with the market
+ * index when one is given, so older sales line up with newer ones).
+ * `worldPvpTypes` (see loadWorldPvpTypes) lets worlds without sales take
+ * their PvP type's factor.
+ */
+export function buildWorldAdjustments(
+  sold: SoldComparable[],
+  index: MarketIndex | null = null,
+  asOf: Date = new Date(),
+  worldPvpTypes: Map<string, string> = new Map(),
+): WorldAdjustments {
+  const usable = sold.filter((s) => s.world && s.level > 0 && (!s.endedAt || s.endedAt <= asOf));
+  const perLevel = usable.map((s) => (s.soldPrice * (index ? indexFactor(index, s) : 1)) / s.level);
+  const segmentOf = (s: SoldComparable) => `${getVocationFamily(s.vocation)}|${levelBand(s.level)}`;
+
+  const bySegment = new Map<string, number[]>();
+  usable.forEach((s, i) => {
+    const list = bySegment.get(segmentOf(s));
+    if (list) list.push(perLevel[i]);
+    else bySegment.set(segmentOf(s), [perLevel[i]]);
+  });
+  const segmentMedian = new Map([...bySegment].map(([k, list]) => [k, median(list)]));
+
+  // Log price ratios against the segment, so dearer and cheaper worlds weigh alike
+  const pvpTypes = new Map(worldPvpTypes);
+  const byPvp = new Map<string, number[]>();
+  const byWorld = new Map<string, number[]>();
+  usable.forEach((s, i) => {
+    const ratio = Math.log(perLevel[i] / segmentMedian.get(segmentOf(s))!);
+    if (!Number.isFinite(ratio)) return;
+    const world = s.world!;
+    if (s.pvpType) {
+      if (!pvpTypes.has(world)) pvpTypes.set(world, s.pvpType);
+      const list = byPvp.get(s.pvpType);
+      if (list) list.push(ratio);
+      else byPvp.set(s.pvpType, [ratio]);
+    }
+    const list = byWorld.get(world);
+    if (list) list.push(ratio);
+    else byWorld.set(world, [ratio]);
+  });
+
+  const pvpLog = new Map([...byPvp].map(([pvp, list]) => [pvp, shrunkMean(list, 0)]));
+  const pvpFactors = new Map(
+    [...pvpLog].map(([pvp, log]) => [pvp, clamp(Math.exp(log), WORLD_FACTOR_MIN, WORLD_FACTOR_MAX)]),
+  );
+  const worldFactors = new Map(
+    [...byWorld].map(([world, list]) => {
+      const prior = pvpLog.get(pvpTypes.get(world) ?? '') ?? 0;
+      return [world, clamp(Math.exp(shrunkMean(list, prior)), WORLD_FACTOR_MIN, WORLD_FACTOR_MAX)];
+    }),
+  );
+  return { pvpTypes, pvpFactors, worldFactors };
+}
+
+/** Price multiplier of a world; its PvP type's when it has no sales, else 1 */
+export function worldFactor(adjustments: WorldAdjustments, world: string | null | undefined): number {
+  if (!world) return 1;
+  return adjustments.worldFactors.get(world)
+    ?? adjustments.pvpFactors.get(adjustments.pvpTypes.get(world) ?? '')
+    ?? 1;
 }
 
 // ── Item bonus scoring (kept for additive bonus) ─────────────────────
@@ -95,27 +574,180 @@ function computeItemBonus(displayItems: string | null, baseEstimate: number): nu
   }
 }
 
-// ── Similarity scoring ───────────────────────────────────────────────
+// ── Estimation ────────────────────────────────────────────────────────
 
-const WEIGHTS = {
-  level: 0.35,
-  magicLevel: 0.15,
-  primarySkill: 0.15,
-  charm: 0.10,
-  quests: 0.10,
-  storeItems: 0.15,
+/** Point in time an estimate is made at, and the market data to price with */
+export interface EstimateContext {
+  asOf?: Date;
+  index?: MarketIndex | null;
+  worlds?: WorldAdjustments | null;
+}
+
+export type ScoredComparable = SoldComparable & {
+  similarity: number;
+  /** Similarity discounted by the sale's age */
+  weight: number;
+  adjustedPrice: number;
 };
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
+/**
+ * Prices one character from a pool of sold auctions. The pool may span
+ * vocations and levels; the model's family and level window are applied here.
+ * Returns null when too few comparables are similar enough.
+ */
+export function estimateFromComparables(
+  subject: ValuationSubject,
+  pool: SoldComparable[],
+  model: ValuationModel = CURRENT_VALUATION_MODEL,
+  context: EstimateContext = {},
+): { valuation: ValuationData; comparables: ScoredComparable[] } | null {
+  const asOf = context.asOf ?? new Date();
+  const index = model.marketIndex ? context.index ?? null : null;
+  const worlds = model.worldAdjustment ? context.worlds ?? null : null;
+  const subjectWorldFactor = worlds ? worldFactor(worlds, subject.world) : 1;
+  const family = getVocationFamily(subject.vocation);
+  const levelMin = Math.max(1, subject.level - model.levelWindow);
+  const levelMax = subject.level + model.levelWindow;
+
+  const scored = pool
+    .filter((s) => s.level >= levelMin && s.level <= levelMax && getVocationFamily(s.vocation) === family)
+    .map((s) => {
+      const sim = similarity(model, subject, s);
+      return { sale: s, similarity: sim, weight: sim * recencyWeight(model, s, asOf) };
+    })
+    .filter((s) => s.similarity > model.minSimilarity)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, model.maxComparables)
+    .map(({ sale, similarity: sim, weight }) => ({
+      ...sale,
+      similarity: sim,
+      weight,
+      adjustedPrice: Math.round(
+        sale.soldPrice
+          * (index ? indexFactor(index, sale) : 1)
+          * (worlds ? subjectWorldFactor / worldFactor(worlds, sale.world) : 1),
+      ),
+    }));
+
+  if (scored.length < model.minComparables) return null;
+
+  // Weighted average price
+  const totalWeight = scored.reduce((sum, a) => sum + a.weight, 0);
+  const weightedPrice = scored.reduce(
+    (sum, a) => sum + a.adjustedPrice * (a.weight / totalWeight),
+    0,
+  );
+
+  const prices = scored.map((a) => a.adjustedPrice).sort((a, b) => a - b);
+  const p25 = prices[Math.floor(prices.length * 0.25)];
+  const p75 = prices[Math.floor(prices.length * 0.75)];
+
+  // Confidence based on sample size and similarity spread
+  const avgSimilarity = scored.reduce((sum, a) => sum + a.similarity, 0) / scored.length;
+  let confidence: Confidence = 'low';
+  if (scored.length >= 10 && avgSimilarity > 0.6) confidence = 'high';
+  else if (scored.length >= 5 && avgSimilarity > 0.45) confidence = 'medium';
+
+  // Item bonus as additive on top
+  const baseEstimate = Math.round(weightedPrice);
+  const itemBonus = model.itemBonus ? computeItemBonus(subject.displayItems ?? null, baseEstimate) : 0;
+
+  return {
+    valuation: {
+      modelVersion: model.version,
+      estimatedValue: baseEstimate + itemBonus,
+      minPrice: p25,
+      maxPrice: p75 + itemBonus,
+      sampleSize: scored.length,
+      itemBonus,
+      confidence,
+      pricedAt: asOf.toISOString().split('T')[0],
+      worldFactor: Math.round(subjectWorldFactor * 1000) / 1000,
+    },
+    comparables: scored,
+  };
 }
 
-function proximityScore(a: number | null | undefined, b: number | null | undefined, maxDiff: number): number {
-  if (a == null || b == null) return 0.5; // neutral if missing
-  return clamp(1 - Math.abs(a - b) / maxDiff, 0, 1);
+// ── Explanations ─────────────────────────────────────────────────────
+
+/** Most similar sales shown alongside an estimate */
+const TOP_COMPARABLES = 5;
+
+function toComparableAuction(a: ScoredComparable): ComparableAuction {
+  return {
+    externalId: a.externalId,
+    characterName: a.characterName,
+    level: a.level,
+    vocation: a.vocation,
+    soldPrice: a.soldPrice,
+    adjustedPrice: a.adjustedPrice,
+    similarity: Math.round(a.similarity * 100),
+    url: a.url,
+  };
 }
 
+/**
+ * Splits an estimate (before the item bonus) into what each feature adds, in
+ * TC. A feature's share is its Shapley value: how much comparing on it moves
+ * the estimate, averaged over every order the features could be added in.
+ * With no features compared the estimate is the recency-weighted price of
+ * the sales in the level window, which is the baseline the shares start from.
+ */
+function featureContributions(
+  subject: ValuationSubject,
+  pool: SoldComparable[],
+  model: ValuationModel,
+  context: EstimateContext,
+): { baseline: number; contributions: FeatureContribution[] } {
+  const features = Object.keys(model.weights) as FeatureKey[];
+  const n = features.length;
+
+  const estimates = new Map<number, number>();
+  const estimateWith = (mask: number): number => {
+    const cached = estimates.get(mask);
+    if (cached != null) return cached;
+    const weights: Partial<Record<FeatureKey, number>> = {};
+    features.forEach((f, i) => {
+      if (mask & (1 << i)) weights[f] = model.weights[f];
+    });
+    const partial: ValuationModel = { ...model, weights, itemBonus: false };
+    // Fewer features can leave too few sales similar enough; then take them all
+    const result = estimateFromComparables(subject, pool, partial, context)
+      ?? estimateFromComparables(subject, pool, { ...partial, minSimilarity: -1 }, context);
+    let value = result?.valuation.estimatedValue ?? NaN;
+    // Nothing in the window resembles the subject on these features at all
+    if (!Number.isFinite(value)) value = mask === 0 ? 0 : estimateWith(0);
+    estimates.set(mask, value);
+    return value;
+  };
+
+  const factorial = (k: number): number => (k <= 1 ? 1 : k * factorial(k - 1));
+  const contributions = features.map((feature, i) => {
+    let share = 0;
+    for (let mask = 0; mask < 1 << n; mask++) {
+      if (mask & (1 << i)) continue;
+      let size = 0;
+      for (let m = mask; m; m &= m - 1) size++;
+      const coalitionWeight = (factorial(size) * factorial(n - size - 1)) / factorial(n);
+      share += coalitionWeight * (estimateWith(mask | (1 << i)) - estimateWith(mask));
+    }
+    return { feature, weight: model.weights[feature] ?? 0, tc: Math.round(share) };
+  });
+
+  // Rounding is absorbed by the baseline so the parts add up exactly
+  const full = estimateWith((1 << n) - 1);
+  const baseline = Math.round(full) - contributions.reduce((sum, c) => sum + c.tc, 0);
+  return { baseline, contributions };
+}
+
+// ── Sold auction data ────────────────────────────────────────────────
+
 interface SoldAuctionRow {
+  external_id: string;
+  character_name: string;
+  world: string | null;
+  pvp_type: string | null;
+  auction_end: string | null;
   level: number;
   vocation: string;
   sold_price: number;
@@ -131,82 +763,85 @@ interface SoldAuctionRow {
   soul_war_available: boolean | null;
   sanguine_blood_available: boolean | null;
   store_items_count: number | null;
+  mounts_count: number | null;
+  outfits_count: number | null;
+  boss_points: number | null;
+  url: string;
 }
 
-interface AuctionInput {
-  id: number;
-  vocation: string | null;
-  level: number | null;
-  magicLevel?: number | null;
-  fist?: number | null;
-  club?: number | null;
-  sword?: number | null;
-  axe?: number | null;
-  distance?: number | null;
-  shielding?: number | null;
-  charmPoints?: number | null;
-  primalOrdealAvailable?: boolean | null;
-  soulWarAvailable?: boolean | null;
-  sanguineBloodAvailable?: boolean | null;
-  storeItemsCount?: number | null;
-  displayItems?: string | null;
+/** PvP type of every world in world_types, including worlds nothing has sold on yet */
+export async function loadWorldPvpTypes(db: PrismaClient = prisma): Promise<Map<string, string>> {
+  const rows = await db.worldType.findMany({ select: { worldName: true, pvpType: true } });
+  return new Map(rows.map((r) => [r.worldName, r.pvpType]));
 }
 
-function computeSimilarity(target: AuctionInput, sold: SoldAuctionRow): number {
-  const family = getVocationFamily(target.vocation!);
-  const primarySkillField = PRIMARY_SKILL[family] || 'magicLevel';
-
-  // Level proximity (within ±200 levels)
-  const levelScore = proximityScore(target.level, sold.level, 200);
-
-  // Magic level proximity
-  const mlScore = proximityScore(target.magicLevel, sold.magic_level, 50);
-
-  // Primary skill proximity
-  let primaryScore = 0.5;
-  if (primarySkillField === 'magicLevel') {
-    primaryScore = mlScore;
-  } else {
-    const targetSkill = target[primarySkillField as keyof AuctionInput] as number | null | undefined;
-    const soldSkill = sold[primarySkillField as keyof SoldAuctionRow] as number | null;
-    primaryScore = proximityScore(targetSkill, soldSkill, 30);
-  }
+/** Auction end times are scraped as text like "Jan 05 2025, 10:00 CET" */
+export function parseAuctionEnd(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value.replace(/\s+[A-Z]{2,4}$/, '').trim());
+  return isNaN(date.getTime()) ? null : date;
+}
 
-  // Charm points proximity
-  const charmScore = proximityScore(target.charmPoints, sold.charm_points, 5000);
+/**
+ * Sold auctions usable as comparables, optionally narrowed to some vocations
+ * and a level range. display_items is left out to keep the full set small.
+ */
+export async function loadSoldComparables(
+  filter: {
+    vocations?: string[];
+    levelMin?: number;
+    levelMax?: number;
+  } = {},
+  db: PrismaClient = prisma,
+): Promise<SoldComparable[]> {
+  const rows = await db.$queryRaw<SoldAuctionRow[]>`
+    SELECT
+      a.external_id, a.character_name, a.world, wt.pvp_type, a.auction_end, a.level, a.vocation, a.sold_price,
+      a.magic_level, a.fist, a.club, a.sword, a.axe, a.distance, a.shielding,
+      a.charm_points, a.primal_ordeal_available, a.soul_war_available,
+      a.sanguine_blood_available, a.store_items_count,
+      a.mounts_count, a.outfits_count, a.boss_points, a.url
+    FROM auctions a
+    LEFT JOIN world_types wt ON wt.world_name = a.world
+    WHERE a.auction_status = 'sold'
+      AND a.sold_price > 0
+      AND a.level IS NOT NULL
+      AND a.vocation IS NOT NULL
+      AND (${filter.vocations ?? null}::text[] IS NULL OR a.vocation = ANY(${filter.vocations ?? null}::text[]))
+      AND a.level >= ${filter.levelMin ?? 1}
+      AND a.level <= ${filter.levelMax ?? 2147483647}
+    ORDER BY a.level
+  `;
 
-  // Quest matching
-  let questScore = 0.5;
-  let questMatches = 0;
-  let questTotal = 0;
-  if (target.primalOrdealAvailable != null && sold.primal_ordeal_available != null) {
-    questMatches += target.primalOrdealAvailable === sold.primal_ordeal_available ? 1 : 0;
-    questTotal++;
-  }
-  if (target.soulWarAvailable != null && sold.soul_war_available != null) {
-    questMatches += target.soulWarAvailable === sold.soul_war_available ? 1 : 0;
-    questTotal++;
-  }
-  if (target.sanguineBloodAvailable != null && sold.sanguine_blood_available != null) {
-    questMatches += target.sanguineBloodAvailable === sold.sanguine_blood_available ? 1 : 0;
-    questTotal++;
-  }
-  if (questTotal > 0) questScore = questMatches / questTotal;
-
-  // Store items proximity
-  const storeScore = proximityScore(target.storeItemsCount, sold.store_items_count, 50);
-
-  return (
-    WEIGHTS.level * levelScore +
-    WEIGHTS.magicLevel * mlScore +
-    WEIGHTS.primarySkill * primaryScore +
-    WEIGHTS.charm * charmScore +
-    WEIGHTS.quests * questScore +
-    WEIGHTS.storeItems * storeScore
-  );
+  return rows.map((r) => ({
+    externalId: r.external_id,
+    characterName: r.character_name,
+    world: r.world,
+    pvpType: r.pvp_type,
+    level: r.level,
+    vocation: r.vocation,
+    soldPrice: r.sold_price,
+    endedAt: parseAuctionEnd(r.auction_end),
+    magicLevel: r.magic_level,
+    fist: r.fist,
+    club: r.club,
+    sword: r.sword,
+    axe: r.axe,
+    distance: r.distance,
+    shielding: r.shielding,
+    charmPoints: r.charm_points,
+    primalOrdealAvailable: r.primal_ordeal_available,
+    soulWarAvailable: r.soul_war_available,
+    sanguineBloodAvailable: r.sanguine_blood_available,
+    storeItemsCount: r.store_items_count,
+    mountsCount: r.mounts_count,
+    outfitsCount: r.outfits_count,
+    bossPoints: r.boss_points,
+    url: r.url,
+  }));
 }
 
-// ── Main valuation function ──────────────────────────────────────────
+// ── Entry points ─────────────────────────────────────────────────────
 
 /**
  * Pre-compute estimated values for a batch of current auctions.
@@ -214,29 +849,20 @@ function computeSimilarity(target: AuctionInput, sold: SoldAuctionRow): number {
  * considering level, skills, charm, quests, store items, and display items.
  */
 export async function computeValuations(
-  auctions: AuctionInput[]
+  auctions: AuctionInput[],
+  model: ValuationModel = CURRENT_VALUATION_MODEL,
 ): Promise<Record<number, ValuationData>> {
-  // Fetch ALL sold auctions with relevant fields (grouped processing in-memory)
-  // Note: display_items excluded from sold query to keep data size small (~10k rows)
-  const soldRows = await prisma.$queryRaw<SoldAuctionRow[]>`
-    SELECT
-      level, vocation, sold_price,
-      magic_level, fist, club, sword, axe, distance, shielding,
-      charm_points, primal_ordeal_available, soul_war_available,
-      sanguine_blood_available, store_items_count
-    FROM auctions
-    WHERE auction_status = 'sold'
-      AND sold_price > 0
-      AND level IS NOT NULL
-      AND vocation IS NOT NULL
-    ORDER BY level
-  `;
-
-  if (soldRows.length === 0) return {};
+  const sold = await loadSoldComparables();
+  if (sold.length === 0) return {};
+  const asOf = new Date();
+  const index = model.marketIndex ? buildMarketIndex(sold, asOf) : null;
+  const worlds = model.worldAdjustment
+    ? buildWorldAdjustments(sold, index, asOf, await loadWorldPvpTypes())
+    : null;
 
   // Group sold auctions by vocation family for faster lookup
-  const soldByFamily = new Map<string, SoldAuctionRow[]>();
-  for (const row of soldRows) {
+  const soldByFamily = new Map<string, SoldComparable[]>();
+  for (const row of sold) {
     const family = getVocationFamily(row.vocation);
     const list = soldByFamily.get(family);
     if (list) list.push(row);
@@ -247,64 +873,96 @@ export async function computeValuations(
 
   for (const auction of auctions) {
     if (!auction.vocation || !auction.level) continue;
-
-    const family = getVocationFamily(auction.vocation);
-    const familySold = soldByFamily.get(family);
-    if (!familySold) continue;
-
-    // Filter to ±200 levels for efficiency
-    const levelMin = Math.max(1, auction.level - 200);
-    const levelMax = auction.level + 200;
-    const candidates = familySold.filter(
-      (s) => s.level >= levelMin && s.level <= levelMax
-    );
-
-    if (candidates.length < 3) continue;
-
-    // Score each candidate by similarity
-    const scored = candidates.map((s) => ({
-      soldPrice: s.sold_price,
-      similarity: computeSimilarity(auction, s),
-    }));
-
-    // Filter by minimum similarity and take top 30
-    const filtered = scored
-      .filter((a) => a.similarity > 0.3)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, 30);
-
-    if (filtered.length < 3) continue;
-
-    // Weighted average price
-    const totalWeight = filtered.reduce((sum, a) => sum + a.similarity, 0);
-    const weightedPrice = filtered.reduce(
-      (sum, a) => sum + a.soldPrice * (a.similarity / totalWeight),
-      0,
+    const pool = soldByFamily.get(getVocationFamily(auction.vocation));
+    if (!pool) continue;
+
+    const estimate = estimateFromComparables(
+      { ...auction, vocation: auction.vocation, level: auction.level },
+      pool,
+      model,
+      { asOf, index, worlds },
     );
+    if (estimate) result[auction.id] = estimate.valuation;
+  }
 
-    const prices = filtered.map((a) => a.soldPrice).sort((a, b) => a - b);
-    const p25 = prices[Math.floor(prices.length * 0.25)];
-    const p75 = prices[Math.floor(prices.length * 0.75)];
-
-    // Confidence based on sample size and similarity spread
-    const avgSimilarity = totalWeight / filtered.length;
-    let confidence: 'high' | 'medium' | 'low' = 'low';
-    if (filtered.length >= 10 && avgSimilarity > 0.6) confidence = 'high';
-    else if (filtered.length >= 5 && avgSimilarity > 0.45) confidence = 'medium';
+  return result;
+}
 
-    // Item bonus as additive on top
-    const baseEstimate = Math.round(weightedPrice);
-    const itemBonus = computeItemBonus(auction.displayItems ?? null, baseEstimate);
+/** Estimate for a tracked character, with its most similar sales */
+export async function estimateCharacterValue(
+  stats: CharacterStats,
+  model: ValuationModel = CURRENT_VALUATION_MODEL,
+): Promise<CharacterValuation | null> {
+  // Every sale, not just this family and level window: the market index and
+  // world factors are learned from the whole market, as in computeValuations
+  const pool = await loadSoldComparables();
+  const asOf = new Date();
+  const index = model.marketIndex ? buildMarketIndex(pool, asOf) : null;
+  const worlds = model.worldAdjustment
+    ? buildWorldAdjustments(pool, index, asOf, await loadWorldPvpTypes())
+    : null;
+
+  const estimate = estimateFromComparables(
+    {
+      level: stats.level,
+      vocation: stats.vocation,
+      world: stats.world,
+      magicLevel: stats.magicLevel,
+      ...stats.skills,
+      charmPoints: stats.charmPoints,
+      primalOrdealAvailable: stats.quests?.primalOrdeal,
+      soulWarAvailable: stats.quests?.soulWar,
+      sanguineBloodAvailable: stats.quests?.sanguineBlood,
+      mountsCount: stats.mountsCount,
+      outfitsCount: stats.outfitsCount,
+      bossPoints: stats.bossPoints,
+    },
+    pool,
+    model,
+    { asOf, index, worlds },
+  );
+  if (!estimate) return null;
 
-    result[auction.id] = {
-      estimatedValue: baseEstimate + itemBonus,
-      minPrice: p25,
-      maxPrice: p75 + itemBonus,
-      sampleSize: filtered.length,
-      itemBonus,
-      confidence,
-    };
-  }
+  return {
+    ...estimate.valuation,
+    comparables: estimate.comparables.slice(0, TOP_COMPARABLES).map(toComparableAuction),
+    factors: model.weights,
+  };
+}
 
-  return result;
+/**
+ * Estimate for one auction, current or past, with its top comparables and
+ * the TC each feature contributes. A past auction is priced as of its end
+ * from the sales that ended before it, as the backtest would have.
+ */
+export async function explainAuctionValue(
+  auction: ValuationSubject & { externalId: string },
+  endedAt: Date | null = null,
+  model: ValuationModel = CURRENT_VALUATION_MODEL,
+): Promise<ValuationExplanation | null> {
+  const sold = await loadSoldComparables();
+  const history = sold.filter(
+    (s) => s.externalId !== auction.externalId && (!endedAt || (s.endedAt && s.endedAt < endedAt)),
+  );
+  const asOf = endedAt ?? new Date();
+  const index = model.marketIndex ? buildMarketIndex(history, asOf) : null;
+  const worlds = model.worldAdjustment
+    ? buildWorldAdjustments(history, index, asOf, await loadWorldPvpTypes())
+    : null;
+  const context: EstimateContext = { asOf, index, worlds };
+
+  const estimate = estimateFromComparables(auction, history, model, context);
+  if (!estimate) return null;
+  const { baseline, contributions } = featureContributions(auction, history, model, context);
+
+  return {
+    ...estimate.valuation,
+    comparables: estimate.comparables.slice(0, TOP_COMPARABLES).map(toComparableAuction),
+    factors: model.weights,
+    baseline,
+    contributions: [
+      ...contributions,
+      { feature: 'displayItems', weight: null, tc: estimate.valuation.itemBonus },
+    ],
+  };
 }
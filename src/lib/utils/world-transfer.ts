@@ -0,0 +1,60 @@
+// World transfer costs
+//
+// Transfer rules from the game:
+//   Same PvP type      → 990 Rubini Coins, 7 days wait
+//   Different PvP type → 1890 Rubini Coins, 21 days wait
+//   Updated to RTC → Former RTC: +500,000 gold per level additional tax
+
+export type WorldTypeInfo = {
+  worldName: string;
+  pvpType: string;
+  isRtc: boolean;
+};
+
+export interface TransferCost {
+  rubiniCoins: number;
+  waitDays: number;
+  /** Gold, not coins */
+  goldTax: number;
+  samePvpType: boolean;
+}
+
+export const TRANSFER_COINS_SAME_PVP = 990;
+export const TRANSFER_COINS_OTHER_PVP = 1890;
+export const RTC_GOLD_TAX_PER_LEVEL = 500_000;
+
+/** Cost of moving a character between worlds; null when staying put or a world is unknown */
+export function transferCost(
+  source: WorldTypeInfo | undefined,
+  target: WorldTypeInfo | undefined,
+  level: number,
+): TransferCost | null {
+  if (!source || !target || source.worldName === target.worldName) return null;
+
+  const samePvpType = source.pvpType === target.pvpType;
+  return {
+    rubiniCoins: samePvpType ? TRANSFER_COINS_SAME_PVP : TRANSFER_COINS_OTHER_PVP,
+    waitDays: samePvpType ? 7 : 21,
+    goldTax: source.isRtc && !target.isRtc ? level * RTC_GOLD_TAX_PER_LEVEL : 0,
+    samePvpType,
+  };
+}
+
+/**
+ * What a character priced on one world really costs a buyer who plays on
+ * another: the price plus the transfer coins, plus the gold tax converted at
+ * `goldPerCoin` when given. Without a rate the tax is left out of the total
+ * and reported as `unpricedGold`.
+ */
+export function effectivePrice(
+  price: number,
+  cost: TransferCost | null,
+  goldPerCoin?: number | null,
+): { total: number; unpricedGold: number } {
+  if (!cost) return { total: price, unpricedGold: 0 };
+  const taxCoins = cost.goldTax > 0 && goldPerCoin ? Math.ceil(cost.goldTax / goldPerCoin) : 0;
+  return {
+    total: price + cost.rubiniCoins + taxCoins,
+    unpricedGold: cost.goldTax > 0 && !goldPerCoin ? cost.goldTax : 0,
+  };
+}
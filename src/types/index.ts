@@ -33,6 +33,8 @@ export interface CharacterSnapshot {
   id: number;
   characterId: number;
   capturedDate: Date;
+  identityId: number | null;
+  vocation: string | null;
   level: number | null;
   experience: bigint | null;
   magicLevel: number | null;
@@ -43,14 +45,49 @@ export interface CharacterSnapshot {
   distance: number | null;
   shielding: number | null;
   fishing: number | null;
+  charmPoints: number | null;
+  bountyPoints: number | null;
   expRank: number | null;
   mlRank: number | null;
+  fistRank: number | null;
+  clubRank: number | null;
+  swordRank: number | null;
+  axeRank: number | null;
+  distanceRank: number | null;
+  shieldingRank: number | null;
+  fishingRank: number | null;
+  charmRank: number | null;
+  bountyRank: number | null;
   expGained: bigint | null;
   levelsGained: number | null;
   createdAt: Date;
   character?: Character;
 }
 
+/**
+ * Character identity - one real character across renames, transfers and name reuse
+ */
+export interface CharacterIdentity {
+  id: number;
+  name: string;
+  world: string;
+  vocation: string | null;
+  level: number | null;
+  firstSeen: Date;
+  lastSeen: Date;
+  aliases?: CharacterAlias[];
+}
+
+/**
+ * A name + world a character identity was seen under
+ */
+export interface CharacterAlias {
+  name: string;
+  world: string;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
 /**
  * Character auction listing
  */
@@ -255,17 +292,46 @@ export interface HighscoreList {
 }
 
 /**
- * Scraper job status
+ * A single recorded scraper run (scraper_runs row)
  */
-export interface ScraperJobStatus {
-  id: string;
-  type: 'characters' | 'auctions' | 'highscores' | 'worlds';
-  status: 'pending' | 'running' | 'completed' | 'failed';
+export interface ScraperRunSummary {
+  id: number;
+  job: string;
+  status: 'running' | 'completed' | 'failed';
   startedAt: Date;
-  completedAt: Date | null;
-  itemsProcessed: number;
-  itemsFailed: number;
-  error?: string;
+  finishedAt: Date | null;
+  itemsSeen: number;
+  itemsInserted: number;
+  itemsUpdated: number;
+  itemsArchived: number;
+  errorCount: number;
+  lastError: string | null;
+  exitCode: number | null;
+  /** Per-source schema drift (see src/lib/scraper/validation.ts) */
+  driftReport: Record<string, { checked: number; quarantined: number; newFields: Record<string, number> }> | null;
+}
+
+/**
+ * Scraper job status — latest run plus health for the admin dashboard
+ */
+export interface ScraperJobStatus {
+  job: string;
+  label: string;
+  lastRun: ScraperRunSummary | null;
+  lastSuccessAt: Date | null;
+  /** Consecutive failed runs, counting back from the latest */
+  failureStreak: number;
+}
+
+/**
+ * How recent the newest row of a scraped dataset is
+ */
+export interface DatasetFreshness {
+  dataset: string;
+  label: string;
+  latestAt: Date | null;
+  staleAfterHours: number;
+  isStale: boolean;
 }
 
 /**